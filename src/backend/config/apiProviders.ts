@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config();
+
+export type ApiProviderMode = 'live' | 'record' | 'replay';
+
+const MODES: ApiProviderMode[] = ['live', 'record', 'replay'];
+
+/**
+ * How the Alpha Vantage and Marketaux services get their responses (API_PROVIDER_MODE)
+ * - live (default): call the APIs
+ * - record: call the APIs and save every response as a fixture file under API_FIXTURES_DIR
+ * - replay: no network access and no API keys; serve the fixture files, and synthetic data
+ *   (random-walk prices, generated news) for requests that were never recorded
+ * replayDate pins the date synthetic data is generated for (API_REPLAY_DATE, YYYY-MM-DD; default: today)
+ */
+const apiProviderConfig = {
+    mode: (MODES.find(mode => mode === process.env.API_PROVIDER_MODE) || 'live') as ApiProviderMode,
+    fixturesDir: path.resolve(process.env.API_FIXTURES_DIR || 'fixtures'),
+    replayDate: /^\d{4}-\d{2}-\d{2}$/.test(process.env.API_REPLAY_DATE || '') ? process.env.API_REPLAY_DATE : undefined
+};
+
+export default apiProviderConfig;
@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Browser origins allowed to call the API (CORS_ORIGINS, comma-separated)
+ * Defaults to the Vite dev and preview servers
+ */
+const corsConfig = {
+    origins: (process.env.CORS_ORIGINS || 'http://localhost:5173,http://localhost:4173')
+        .split(',')
+        .map(origin => origin.trim().replace(/\/$/, ''))
+        .filter(Boolean)
+};
+
+export default corsConfig;
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const numberFromEnv = (name: string, fallback: number) => {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) ? value : fallback;
+};
+
+/**
+ * Parse "domain:score" pairs, e.g., 'reuters.com:1,example.com:0.2'
+ */
+const reputationFromEnv = (name: string): Record<string, number> => {
+    const entries = (process.env[name] || '')
+        .split(',')
+        .map(pair => pair.trim().split(':'))
+        .filter(([source, score]) => source && Number.isFinite(parseFloat(score)))
+        .map(([source, score]) => [source.toLowerCase(), parseFloat(score)] as const);
+    return Object.fromEntries(entries);
+};
+
+/**
+ * Headline scoring
+ * Each factor is scored from 0 to 1; an article's score is the weighted mean of its factor scores.
+ * Weights are relative (they don't need to add up to 1); set a weight to 0 to ignore a factor
+ */
+const headlineConfig = {
+    weights: {
+        recency: numberFromEnv('HEADLINE_WEIGHT_RECENCY', 0.25),
+        sourceReputation: numberFromEnv('HEADLINE_WEIGHT_SOURCE', 0.15),
+        entityCount: numberFromEnv('HEADLINE_WEIGHT_ENTITIES', 0.1),
+        matchScore: numberFromEnv('HEADLINE_WEIGHT_MATCH', 0.15),
+        sentiment: numberFromEnv('HEADLINE_WEIGHT_SENTIMENT', 0.2),
+        coverage: numberFromEnv('HEADLINE_WEIGHT_COVERAGE', 0.15)
+    },
+    // Hours after which the recency score halves
+    recencyHalfLifeHours: numberFromEnv('HEADLINE_RECENCY_HALF_LIFE_HOURS', 6),
+    // Values at which the entity count, match score and coverage (similar articles) factors reach a full score
+    entityCountCap: 5,
+    matchScoreCap: 50,
+    coverageCap: 5,
+    // Articles below this score are not headlines; at most maxHeadlines are kept per day
+    minScore: numberFromEnv('HEADLINE_MIN_SCORE', 0.35),
+    maxHeadlines: numberFromEnv('HEADLINE_MAX_PER_DAY', 20),
+    // Reputation (0 to 1) by source domain; unknown sources get the default
+    defaultSourceReputation: 0.5,
+    sourceReputation: {
+        'reuters.com': 1,
+        'bloomberg.com': 1,
+        'wsj.com': 0.95,
+        'ft.com': 0.95,
+        'cnbc.com': 0.85,
+        'marketwatch.com': 0.8,
+        'barrons.com': 0.8,
+        'finance.yahoo.com': 0.7,
+        'fool.com': 0.5,
+        'seekingalpha.com': 0.5,
+        ...reputationFromEnv('HEADLINE_SOURCE_REPUTATION')
+    } as Record<string, number>
+};
+
+export type HeadlineConfig = typeof headlineConfig;
+
+export default headlineConfig;
@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type MarketDataProviderName = 'alphavantage' | 'twelvedata' | 'finnhub' | 'ecb';
+
+const PROVIDER_NAMES: MarketDataProviderName[] = ['alphavantage', 'twelvedata', 'finnhub', 'ecb'];
+
+/**
+ * Providers of stock quotes and exchange rates, tried in order (MARKET_DATA_PROVIDERS, comma-separated)
+ * The next provider is tried when one is out of quota, down (5xx) or can't serve the request;
+ * providers without an API key are skipped (the ECB needs none)
+ */
+const marketDataConfig = {
+    providers: (process.env.MARKET_DATA_PROVIDERS || PROVIDER_NAMES.join(','))
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter((name, index, names): name is MarketDataProviderName =>
+            PROVIDER_NAMES.includes(name as MarketDataProviderName) && names.indexOf(name) === index
+        )
+};
+
+export default marketDataConfig;
@@ -0,0 +1,14 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * News source filtering
+ * - denylist (default): articles from sources with status 'deny' are not saved or returned
+ * - allowlist: only articles from sources with status 'allow' are saved or returned
+ */
+const newsSourceConfig = {
+    mode: (process.env.NEWS_SOURCE_MODE === 'allowlist' ? 'allowlist' : 'denylist') as 'allowlist' | 'denylist'
+};
+
+export default newsSourceConfig;
@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Background ingestion schedule
+ * Cron expressions use the node-cron format (optional seconds field first)
+ * Dates in the database are UTC, so the scheduler runs in UTC by default
+ */
+const schedulerConfig = {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    timezone: process.env.SCHEDULER_TIMEZONE || 'UTC',
+    runOnStart: process.env.SCHEDULER_RUN_ON_START !== 'false',
+    jobs: {
+        currencyRates: process.env.CRON_CURRENCY_RATES || '5 * * * *',
+        commodityPrices: process.env.CRON_COMMODITY_PRICES || '15 * * * *',
+        news: process.env.CRON_NEWS || '30 * * * *'
+    }
+};
+
+export default schedulerConfig;
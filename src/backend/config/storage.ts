@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type StorageDriver = 'mysql' | 'memory';
+
+/**
+ * Storage backend for all persisted data
+ * - mysql (default): the MySQL database from DB_* (schema from npm run migrate)
+ * - memory: in-process storage, empty on every start (local development and CI without a database)
+ */
+const storageConfig = {
+    driver: (process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'mysql') as StorageDriver
+};
+
+export default storageConfig;
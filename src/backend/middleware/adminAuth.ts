@@ -0,0 +1,35 @@
+import dotenv from 'dotenv';
+import type { NextFunction, Request, Response } from 'express';
+
+dotenv.config();
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+// Socket addresses of requests from the same machine
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/**
+ * Check whether a request comes from the same machine (socket address, proxies are not trusted)
+ */
+function isLoopback(req: Request): boolean {
+    return LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '');
+}
+
+/**
+ * Guard admin endpoints
+ * With ADMIN_TOKEN set, every request needs a matching X-Admin-Token header.
+ * Without it, reads stay open but changes (anything other than GET) are only accepted from loopback
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (ADMIN_TOKEN) {
+        if (req.get('x-admin-token') !== ADMIN_TOKEN) {
+            return res.status(401).json({ success: false, error: 'Invalid admin token' });
+        }
+        return next();
+    }
+
+    if (req.method !== 'GET' && !isLoopback(req)) {
+        return res.status(403).json({ success: false, error: 'Set ADMIN_TOKEN to change settings from another machine' });
+    }
+    next();
+}
@@ -0,0 +1,19 @@
+import type { NextFunction, Request, Response } from 'express';
+import corsConfig from '../config/cors';
+
+// Methods that don't change anything
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Reject changes sent by browser pages from origins not in CORS_ORIGINS
+ * CORS only hides responses from other sites: simple POSTs (forms, no-cors fetches) still reach
+ * the routes, so the Origin header is checked here. Requests without one (curl, scripts) pass
+ */
+export function rejectCrossSiteChanges(req: Request, res: Response, next: NextFunction) {
+    const origin = req.get('origin');
+    if (SAFE_METHODS.includes(req.method) || !origin || corsConfig.origins.includes(origin)) {
+        return next();
+    }
+
+    res.status(403).json({ success: false, error: `Origin ${origin} is not allowed to change data (see CORS_ORIGINS)` });
+}
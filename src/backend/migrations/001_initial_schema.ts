@@ -0,0 +1,123 @@
+import type { Migration } from './index';
+
+/**
+ * Daily market data and stored news with their relations
+ */
+const migration: Migration = {
+    version: 1,
+    name: 'initial_schema',
+    up: [
+        `CREATE TABLE currency_rates (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            from_currency VARCHAR(10) NOT NULL,
+            to_currency VARCHAR(10) NOT NULL,
+            exchange_rate VARCHAR(50) NOT NULL,
+            bid_price VARCHAR(50),
+            ask_price VARCHAR(50),
+            time_zone VARCHAR(50),
+            date DATE NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_currency_date (from_currency, to_currency, date)
+        )`,
+        `CREATE TABLE commodity_prices (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            symbol VARCHAR(20) NOT NULL,
+            name VARCHAR(100) NOT NULL,
+            price VARCHAR(50) NOT NULL,
+            open_price VARCHAR(50),
+            high_price VARCHAR(50),
+            low_price VARCHAR(50),
+            previous_close VARCHAR(50),
+            change_amount VARCHAR(50),
+            change_percent VARCHAR(50),
+            volume VARCHAR(50),
+            latest_trading_day DATE,
+            unit VARCHAR(50) NOT NULL,
+            date DATE NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_symbol_date (symbol, date)
+        )`,
+        `CREATE TABLE news_articles (
+            uuid VARCHAR(255) PRIMARY KEY,
+            title TEXT NOT NULL,
+            description TEXT,
+            snippet TEXT,
+            url TEXT NOT NULL,
+            image_url TEXT,
+            language VARCHAR(10) NOT NULL,
+            published_at DATETIME NOT NULL,
+            source VARCHAR(255) NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            INDEX idx_published_at (published_at),
+            INDEX idx_source (source)
+        )`,
+        `CREATE TABLE news_categories (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            news_uuid VARCHAR(255) NOT NULL,
+            category VARCHAR(100) NOT NULL,
+            INDEX idx_news_uuid (news_uuid),
+            FOREIGN KEY (news_uuid) REFERENCES news_articles(uuid) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE news_entities (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            news_uuid VARCHAR(255) NOT NULL,
+            symbol VARCHAR(20),
+            name VARCHAR(255) NOT NULL,
+            exchange VARCHAR(50),
+            exchange_long VARCHAR(255),
+            country VARCHAR(10),
+            type VARCHAR(50),
+            industry VARCHAR(100),
+            match_score DOUBLE,
+            sentiment_score DOUBLE,
+            UNIQUE KEY unique_news_entity (news_uuid, symbol, name),
+            INDEX idx_symbol (symbol),
+            FOREIGN KEY (news_uuid) REFERENCES news_articles(uuid) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE news_entity_highlights (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            entity_id INT NOT NULL,
+            highlight TEXT NOT NULL,
+            sentiment DOUBLE,
+            highlighted_in VARCHAR(50),
+            INDEX idx_entity_id (entity_id),
+            FOREIGN KEY (entity_id) REFERENCES news_entities(id) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE news_similar (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            news_uuid VARCHAR(255) NOT NULL,
+            similar_uuid VARCHAR(255) NOT NULL,
+            similar_title TEXT,
+            similar_published_at DATETIME,
+            similar_source VARCHAR(255),
+            INDEX idx_news_uuid (news_uuid),
+            FOREIGN KEY (news_uuid) REFERENCES news_articles(uuid) ON DELETE CASCADE
+        )`,
+        `CREATE TABLE news_daily_cache (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            news_uuid VARCHAR(255) NOT NULL,
+            date DATE NOT NULL,
+            is_headline BOOLEAN NOT NULL DEFAULT FALSE,
+            priority INT NOT NULL DEFAULT 0,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_news_date (news_uuid, date),
+            INDEX idx_date_headline (date, is_headline),
+            FOREIGN KEY (news_uuid) REFERENCES news_articles(uuid) ON DELETE CASCADE
+        )`
+    ],
+    down: [
+        'DROP TABLE news_daily_cache',
+        'DROP TABLE news_similar',
+        'DROP TABLE news_entity_highlights',
+        'DROP TABLE news_entities',
+        'DROP TABLE news_categories',
+        'DROP TABLE news_articles',
+        'DROP TABLE commodity_prices',
+        'DROP TABLE currency_rates'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import type { Migration } from './index';
+
+/**
+ * Cached stock quotes and OHLC candle history
+ */
+const migration: Migration = {
+    version: 2,
+    name: 'stock_quotes_and_candles',
+    up: [
+        `CREATE TABLE stock_quotes (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            symbol VARCHAR(20) NOT NULL,
+            open_price VARCHAR(50),
+            high_price VARCHAR(50),
+            low_price VARCHAR(50),
+            price VARCHAR(50) NOT NULL,
+            volume VARCHAR(50),
+            latest_trading_day DATE,
+            previous_close VARCHAR(50),
+            change_amount VARCHAR(50),
+            change_percent VARCHAR(50),
+            date DATE NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_stock_symbol_date (symbol, date)
+        )`,
+        `CREATE TABLE stock_candles (
+            id BIGINT AUTO_INCREMENT PRIMARY KEY,
+            symbol VARCHAR(20) NOT NULL,
+            interval_type VARCHAR(10) NOT NULL,
+            timestamp DATETIME NOT NULL,
+            open_price DECIMAL(18, 6) NOT NULL,
+            high_price DECIMAL(18, 6) NOT NULL,
+            low_price DECIMAL(18, 6) NOT NULL,
+            close_price DECIMAL(18, 6) NOT NULL,
+            volume BIGINT NOT NULL DEFAULT 0,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_candle (symbol, interval_type, timestamp)
+        )`
+    ],
+    down: [
+        'DROP TABLE stock_candles',
+        'DROP TABLE stock_quotes'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import type { Migration } from './index';
+
+/**
+ * Watchlists of stocks, commodity ETFs and currency pairs such as 'USD/CNY'
+ */
+const migration: Migration = {
+    version: 3,
+    name: 'watchlists',
+    up: [
+        `CREATE TABLE watchlists (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            name VARCHAR(100) NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        )`,
+        `CREATE TABLE watchlist_items (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            watchlist_id INT NOT NULL,
+            symbol VARCHAR(20) NOT NULL,
+            item_type ENUM('stock', 'commodity', 'currency') NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_watchlist_item (watchlist_id, symbol, item_type),
+            FOREIGN KEY (watchlist_id) REFERENCES watchlists(id) ON DELETE CASCADE
+        )`
+    ],
+    down: [
+        'DROP TABLE watchlist_items',
+        'DROP TABLE watchlists'
+    ]
+};
+
+export default migration;
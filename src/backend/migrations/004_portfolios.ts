@@ -0,0 +1,41 @@
+import type { Migration } from './index';
+
+/**
+ * Portfolios and their transactions (buys/sells use quantity, price and fee; dividends/fees use amount)
+ */
+const migration: Migration = {
+    version: 4,
+    name: 'portfolios',
+    up: [
+        `CREATE TABLE portfolios (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            name VARCHAR(100) NOT NULL,
+            base_currency VARCHAR(10) NOT NULL DEFAULT 'USD',
+            cost_method ENUM('fifo', 'average') NOT NULL DEFAULT 'fifo',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        )`,
+        `CREATE TABLE portfolio_transactions (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            portfolio_id INT NOT NULL,
+            symbol VARCHAR(20) NOT NULL,
+            type ENUM('buy', 'sell', 'dividend', 'fee') NOT NULL,
+            quantity DECIMAL(18, 6),
+            price DECIMAL(18, 6),
+            fee DECIMAL(18, 6) NOT NULL DEFAULT 0,
+            amount DECIMAL(18, 6),
+            currency VARCHAR(10) NOT NULL DEFAULT 'USD',
+            trade_date DATE NOT NULL,
+            notes VARCHAR(255),
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            INDEX idx_portfolio_trade_date (portfolio_id, trade_date),
+            FOREIGN KEY (portfolio_id) REFERENCES portfolios(id) ON DELETE CASCADE
+        )`
+    ],
+    down: [
+        'DROP TABLE portfolio_transactions',
+        'DROP TABLE portfolios'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import type { Migration } from './index';
+
+/**
+ * Alert rules and the history of triggered alerts
+ * Price rules use target_type/field; news rules optionally compare entity sentiment
+ */
+const migration: Migration = {
+    version: 5,
+    name: 'alerts',
+    up: [
+        `CREATE TABLE alerts (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            name VARCHAR(100) NOT NULL,
+            kind ENUM('price', 'news') NOT NULL,
+            target_type ENUM('stock', 'commodity', 'currency'),
+            symbol VARCHAR(20) NOT NULL,
+            field ENUM('price', 'change', 'changePercent', 'sentiment'),
+            operator ENUM('>', '<', 'crosses'),
+            threshold DECIMAL(18, 6),
+            hysteresis DECIMAL(18, 6) NOT NULL DEFAULT 0,
+            cooldown_minutes INT NOT NULL DEFAULT 60,
+            enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            state ENUM('armed', 'fired', 'above', 'below'),
+            last_value DECIMAL(18, 6),
+            last_triggered_at TIMESTAMP NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            INDEX idx_kind_symbol (kind, symbol, enabled)
+        )`,
+        `CREATE TABLE alert_triggers (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            alert_id INT NOT NULL,
+            value DECIMAL(18, 6),
+            message VARCHAR(500) NOT NULL,
+            news_uuid VARCHAR(255),
+            acknowledged BOOLEAN NOT NULL DEFAULT FALSE,
+            triggered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            INDEX idx_acknowledged (acknowledged),
+            FOREIGN KEY (alert_id) REFERENCES alerts(id) ON DELETE CASCADE
+        )`
+    ],
+    down: [
+        'DROP TABLE alert_triggers',
+        'DROP TABLE alerts'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from './index';
+
+/**
+ * Full-text indexes for news search (article text and entity highlights)
+ */
+const migration: Migration = {
+    version: 6,
+    name: 'news_search_indexes',
+    up: [
+        'ALTER TABLE news_articles ADD FULLTEXT INDEX ft_news_text (title, description, snippet)',
+        'ALTER TABLE news_entity_highlights ADD FULLTEXT INDEX ft_news_highlight (highlight)'
+    ],
+    down: [
+        'ALTER TABLE news_entity_highlights DROP INDEX ft_news_highlight',
+        'ALTER TABLE news_articles DROP INDEX ft_news_text'
+    ]
+};
+
+export default migration;
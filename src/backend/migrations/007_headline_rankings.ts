@@ -0,0 +1,17 @@
+import type { Migration } from './index';
+
+/**
+ * Score breakdown of each headline
+ */
+const migration: Migration = {
+    version: 7,
+    name: 'headline_rankings',
+    up: [
+        'ALTER TABLE news_daily_cache ADD COLUMN ranking JSON NULL'
+    ],
+    down: [
+        'ALTER TABLE news_daily_cache DROP COLUMN ranking'
+    ]
+};
+
+export default migration;
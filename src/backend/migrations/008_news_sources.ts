@@ -0,0 +1,23 @@
+import type { Migration } from './index';
+
+/**
+ * News source settings (allow/deny lists and headline boosts)
+ */
+const migration: Migration = {
+    version: 8,
+    name: 'news_sources',
+    up: [
+        `CREATE TABLE news_sources (
+            domain VARCHAR(255) PRIMARY KEY,
+            status ENUM('allow', 'deny', 'neutral') NOT NULL DEFAULT 'neutral',
+            boost DECIMAL(4, 3) NOT NULL DEFAULT 0,
+            note VARCHAR(500),
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        )`
+    ],
+    down: [
+        'DROP TABLE news_sources'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import type { Migration } from './index';
+
+/**
+ * The news cache is checked per language and date
+ */
+const migration: Migration = {
+    version: 9,
+    name: 'news_language_index',
+    up: [
+        'ALTER TABLE news_articles ADD INDEX idx_news_language_published (language, published_at)'
+    ],
+    down: [
+        'ALTER TABLE news_articles DROP INDEX idx_news_language_published'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import type { Migration } from './index';
+
+/**
+ * Provider each quote and rate came from (alphavantage, twelvedata, finnhub, ecb); NULL for older rows
+ */
+const migration: Migration = {
+    version: 10,
+    name: 'market_data_provider',
+    up: [
+        'ALTER TABLE currency_rates ADD COLUMN provider VARCHAR(32) NULL',
+        'ALTER TABLE commodity_prices ADD COLUMN provider VARCHAR(32) NULL',
+        'ALTER TABLE stock_quotes ADD COLUMN provider VARCHAR(32) NULL'
+    ],
+    down: [
+        'ALTER TABLE stock_quotes DROP COLUMN provider',
+        'ALTER TABLE commodity_prices DROP COLUMN provider',
+        'ALTER TABLE currency_rates DROP COLUMN provider'
+    ]
+};
+
+export default migration;
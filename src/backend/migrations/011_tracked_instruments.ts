@@ -0,0 +1,54 @@
+import type { Migration } from './index';
+import type { TrackedInstrument } from '../../frontend/services/interface';
+
+/**
+ * Instruments tracked before they became configurable (also the seed of the in-memory storage)
+ */
+export const DEFAULT_INSTRUMENTS: Omit<TrackedInstrument, 'id'>[] = [
+    { type: 'currency', symbol: 'USD/CNY', name: 'USD/CNY', unit: null, displayOrder: 1, enabled: true },
+    { type: 'currency', symbol: 'EUR/USD', name: 'EUR/USD', unit: null, displayOrder: 2, enabled: true },
+    { type: 'currency', symbol: 'GBP/USD', name: 'GBP/USD', unit: null, displayOrder: 3, enabled: true },
+    { type: 'currency', symbol: 'USD/JPY', name: 'USD/JPY', unit: null, displayOrder: 4, enabled: true },
+    { type: 'commodity', symbol: 'GLD', name: 'Gold', unit: 'USD/oz', displayOrder: 1, enabled: true },
+    { type: 'commodity', symbol: 'SLV', name: 'Silver', unit: 'USD/oz', displayOrder: 2, enabled: true },
+    { type: 'commodity', symbol: 'USO', name: 'Crude Oil', unit: 'USD/barrel', displayOrder: 3, enabled: true },
+    { type: 'commodity', symbol: 'CPER', name: 'Copper', unit: 'USD/lb', displayOrder: 4, enabled: true },
+    { type: 'commodity', symbol: 'CORN', name: 'Corn', unit: 'USD/bushel', displayOrder: 5, enabled: true },
+    { type: 'commodity', symbol: 'WEAT', name: 'Wheat', unit: 'USD/bushel', displayOrder: 6, enabled: true },
+    { type: 'commodity', symbol: 'SOYB', name: 'Soybean', unit: 'USD/bushel', displayOrder: 7, enabled: true },
+    { type: 'commodity', symbol: 'NIB', name: 'Cocoa', unit: 'USD/metric ton', displayOrder: 8, enabled: true }
+];
+
+// Seed values are constants without quotes, so they are inlined
+const seedRows = DEFAULT_INSTRUMENTS.map(instrument =>
+    `('${instrument.type}', '${instrument.symbol}', '${instrument.name}', ${instrument.unit ? `'${instrument.unit}'` : 'NULL'}, ${instrument.displayOrder})`
+);
+
+/**
+ * Currency pairs and commodity ETFs the scheduler ingests and the Home page shows
+ */
+const migration: Migration = {
+    version: 11,
+    name: 'tracked_instruments',
+    up: [
+        `CREATE TABLE tracked_instruments (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            type ENUM('currency', 'commodity') NOT NULL,
+            symbol VARCHAR(20) NOT NULL,
+            name VARCHAR(100) NOT NULL,
+            unit VARCHAR(50),
+            display_order INT NOT NULL DEFAULT 0,
+            enabled BOOLEAN NOT NULL DEFAULT TRUE,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_type_symbol (type, symbol)
+        )`,
+        `INSERT INTO tracked_instruments (type, symbol, name, unit, display_order) VALUES
+            ${seedRows.join(',\n            ')}`
+    ],
+    down: [
+        'DROP TABLE tracked_instruments'
+    ]
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+import initialSchema from './001_initial_schema';
+import stockQuotesAndCandles from './002_stock_quotes_and_candles';
+import watchlists from './003_watchlists';
+import portfolios from './004_portfolios';
+import alerts from './005_alerts';
+import newsSearchIndexes from './006_news_search_indexes';
+import headlineRankings from './007_headline_rankings';
+import newsSources from './008_news_sources';
+import newsLanguageIndex from './009_news_language_index';
+import marketDataProvider from './010_market_data_provider';
+import trackedInstruments from './011_tracked_instruments';
+
+/**
+ * A versioned schema change
+ * MySQL commits DDL implicitly, so statements run one by one and a failed migration
+ * may need manual cleanup of the statements that already ran
+ */
+export interface Migration {
+    version: number;            // Applied in ascending order, never reused
+    name: string;
+    up: string[];               // Statements applying the change
+    down: string[];             // Statements reverting it, in order
+}
+
+/**
+ * All migrations, oldest first (new migrations are appended here)
+ */
+export const migrations: Migration[] = [
+    initialSchema,
+    stockQuotesAndCandles,
+    watchlists,
+    portfolios,
+    alerts,
+    newsSearchIndexes,
+    headlineRankings,
+    newsSources,
+    newsLanguageIndex,
+    marketDataProvider,
+    trackedInstruments
+];
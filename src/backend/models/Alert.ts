@@ -0,0 +1,278 @@
+import pool from '../config/database';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { AlertState } from '../services/alertEvaluator';
+import type {
+    AlertField,
+    AlertKind,
+    AlertOperator,
+    AlertRule,
+    AlertTargetType,
+    AlertTrigger
+} from '../../frontend/services/interface';
+
+/**
+ * Alert rule with its evaluation state
+ */
+export interface AlertRuleData extends AlertRule {
+    state: AlertState | null;
+}
+
+/**
+ * Fields set when creating or updating a rule
+ */
+export type AlertRuleInput = Pick<
+    AlertRule,
+    'name' | 'kind' | 'targetType' | 'symbol' | 'field' | 'operator' | 'threshold' | 'hysteresis' | 'cooldownMinutes' | 'enabled'
+>;
+
+interface AlertRow extends RowDataPacket {
+    id: number;
+    name: string;
+    kind: AlertKind;
+    target_type: AlertTargetType | null;
+    symbol: string;
+    field: AlertField | null;
+    operator: AlertOperator | null;
+    threshold: string | null;
+    hysteresis: string;
+    cooldown_minutes: number;
+    enabled: number;
+    state: AlertState | null;
+    last_value: string | null;
+    last_triggered_at: Date | null;
+    created_at: Date;
+}
+
+interface AlertTriggerRow extends RowDataPacket {
+    id: number;
+    alert_id: number;
+    alert_name: string;
+    symbol: string;
+    value: string | null;
+    message: string;
+    news_uuid: string | null;
+    acknowledged: number;
+    triggered_at: Date;
+}
+
+const ALERT_COLUMNS = `id, name, kind, target_type, symbol, field, operator, threshold, hysteresis,
+    cooldown_minutes, enabled, state, last_value, last_triggered_at, created_at`;
+
+/**
+ * Create an alert rule
+ * @returns ID of the new rule
+ */
+export async function createAlert(data: AlertRuleInput): Promise<number> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        `INSERT INTO alerts
+        (name, kind, target_type, symbol, field, operator, threshold, hysteresis, cooldown_minutes, enabled)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [data.name, data.kind, data.targetType, data.symbol, data.field, data.operator,
+        data.threshold, data.hysteresis, data.cooldownMinutes, data.enabled]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Get all alert rules, newest first
+ */
+export async function getAlerts(): Promise<AlertRuleData[]> {
+    const [rows] = await pool.execute<AlertRow[]>(
+        `SELECT ${ALERT_COLUMNS} FROM alerts ORDER BY created_at DESC, id DESC`
+    );
+
+    return rows.map(mapAlertRow);
+}
+
+/**
+ * Get an alert rule by ID
+ */
+export async function getAlertById(id: number): Promise<AlertRuleData | null> {
+    const [rows] = await pool.execute<AlertRow[]>(
+        `SELECT ${ALERT_COLUMNS} FROM alerts WHERE id = ?`,
+        [id]
+    );
+
+    return rows.length > 0 ? mapAlertRow(rows[0]) : null;
+}
+
+/**
+ * Get enabled rules watching a symbol
+ * @param targetType Instrument type for price rules (omit for news rules)
+ */
+export async function getEnabledAlertsForSymbol(
+    kind: AlertKind,
+    symbol: string,
+    targetType?: AlertTargetType
+): Promise<AlertRuleData[]> {
+    const [rows] = await pool.execute<AlertRow[]>(
+        `SELECT ${ALERT_COLUMNS} FROM alerts
+        WHERE enabled = TRUE AND kind = ? AND symbol = ? AND (target_type = ? OR ? IS NULL)`,
+        [kind, symbol, targetType ?? null, targetType ?? null]
+    );
+
+    return rows.map(mapAlertRow);
+}
+
+/**
+ * Update an alert rule
+ * Changing the condition resets the evaluation state so the rule starts fresh
+ */
+export async function updateAlert(id: number, data: AlertRuleInput, resetState: boolean): Promise<void> {
+    await pool.execute(
+        `UPDATE alerts SET
+        name = ?, kind = ?, target_type = ?, symbol = ?, field = ?, operator = ?, threshold = ?,
+        hysteresis = ?, cooldown_minutes = ?, enabled = ?
+        ${resetState ? ', state = NULL, last_value = NULL' : ''}
+        WHERE id = ?`,
+        [data.name, data.kind, data.targetType, data.symbol, data.field, data.operator,
+        data.threshold, data.hysteresis, data.cooldownMinutes, data.enabled, id]
+    );
+}
+
+/**
+ * Delete an alert rule (its trigger history is removed by ON DELETE CASCADE)
+ * @returns false if the rule doesn't exist
+ */
+export async function deleteAlert(id: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM alerts WHERE id = ?',
+        [id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Save the evaluation state of a rule after it has seen a new value
+ * @param triggeredAt Set when the rule triggered on this value
+ */
+export async function saveAlertState(
+    id: number,
+    state: AlertState | null,
+    lastValue: number | null,
+    triggeredAt?: Date
+): Promise<void> {
+    await pool.execute(
+        `UPDATE alerts SET state = ?, last_value = ?, last_triggered_at = COALESCE(?, last_triggered_at)
+        WHERE id = ?`,
+        [state, lastValue, triggeredAt ?? null, id]
+    );
+}
+
+/**
+ * Record a triggered alert
+ */
+export async function saveAlertTrigger(
+    alertId: number,
+    value: number | null,
+    message: string,
+    newsUuid: string | null = null
+): Promise<void> {
+    await pool.execute(
+        `INSERT INTO alert_triggers (alert_id, value, message, news_uuid)
+        VALUES (?, ?, ?, ?)`,
+        [alertId, value, message, newsUuid]
+    );
+}
+
+/**
+ * Get triggered alerts, newest first
+ * @param options.afterId Only triggers newer than this ID (for polling)
+ */
+export async function getAlertTriggers(options: {
+    limit: number;
+    afterId?: number;
+    unacknowledgedOnly?: boolean;
+}): Promise<AlertTrigger[]> {
+    let query = `SELECT t.id, t.alert_id, a.name AS alert_name, a.symbol, t.value, t.message,
+        t.news_uuid, t.acknowledged, t.triggered_at
+        FROM alert_triggers t
+        JOIN alerts a ON a.id = t.alert_id
+        WHERE 1 = 1`;
+    const params: number[] = [];
+
+    if (options.afterId) {
+        query += ' AND t.id > ?';
+        params.push(options.afterId);
+    }
+    if (options.unacknowledgedOnly) {
+        query += ' AND t.acknowledged = FALSE';
+    }
+
+    query += ` ORDER BY t.id DESC LIMIT ${Math.max(1, Math.floor(options.limit))}`;
+
+    const [rows] = await pool.execute<AlertTriggerRow[]>(query, params);
+
+    return rows.map(mapAlertTriggerRow);
+}
+
+/**
+ * Count triggered alerts that haven't been acknowledged
+ */
+export async function countUnacknowledgedTriggers(): Promise<number> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT COUNT(*) AS count FROM alert_triggers WHERE acknowledged = FALSE'
+    );
+
+    return Number(rows[0]?.count || 0);
+}
+
+/**
+ * Mark triggered alerts as acknowledged
+ * @param ids Trigger IDs (omit to acknowledge all)
+ */
+export async function acknowledgeAlertTriggers(ids?: number[]): Promise<void> {
+    if (!ids) {
+        await pool.execute('UPDATE alert_triggers SET acknowledged = TRUE WHERE acknowledged = FALSE');
+        return;
+    }
+    if (ids.length === 0) return;
+
+    const placeholders = ids.map(() => '?').join(', ');
+    await pool.execute(
+        `UPDATE alert_triggers SET acknowledged = TRUE WHERE id IN (${placeholders})`,
+        ids
+    );
+}
+
+/**
+ * Convert a database row to AlertRuleData
+ */
+function mapAlertRow(row: AlertRow): AlertRuleData {
+    return {
+        id: row.id,
+        name: row.name,
+        kind: row.kind,
+        targetType: row.target_type,
+        symbol: row.symbol,
+        field: row.field,
+        operator: row.operator,
+        threshold: row.threshold !== null ? Number(row.threshold) : null,
+        hysteresis: Number(row.hysteresis),
+        cooldownMinutes: row.cooldown_minutes,
+        enabled: Boolean(row.enabled),
+        state: row.state,
+        lastValue: row.last_value !== null ? Number(row.last_value) : null,
+        lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at).toISOString() : null,
+        createdAt: new Date(row.created_at).toISOString()
+    };
+}
+
+/**
+ * Convert a database row to AlertTrigger
+ */
+function mapAlertTriggerRow(row: AlertTriggerRow): AlertTrigger {
+    return {
+        id: row.id,
+        alertId: row.alert_id,
+        alertName: row.alert_name,
+        symbol: row.symbol,
+        value: row.value !== null ? Number(row.value) : null,
+        message: row.message,
+        newsUuid: row.news_uuid,
+        acknowledged: Boolean(row.acknowledged),
+        triggeredAt: new Date(row.triggered_at).toISOString()
+    };
+}
@@ -1,5 +1,6 @@
 import pool from '../config/database';
 import type { RowDataPacket } from 'mysql2';
+import { emitMarketEvent } from '../services/marketEvents';
 
 export interface CommodityPriceData {
     symbol: string;
@@ -14,6 +15,7 @@ export interface CommodityPriceData {
     volume?: string;
     unit: string;
     date: string;
+    provider?: string;      // Market data provider the price came from, e.g., 'alphavantage'
 }
 
 interface CommodityPriceRow extends RowDataPacket {
@@ -29,17 +31,18 @@ interface CommodityPriceRow extends RowDataPacket {
     volume: string | null;
     unit: string;
     date: string;
+    provider: string | null;
 }
 
 /**
- * Save commodity price to database
+ * Save commodity price to database and notify market event listeners
  */
 export async function saveCommodityPrice(data: CommodityPriceData): Promise<void> {
     await pool.execute(
         `INSERT INTO commodity_prices 
         (symbol, name, price, open_price, high_price, low_price, 
-        previous_close, change_amount, change_percent, volume, unit, date)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        previous_close, change_amount, change_percent, volume, unit, date, provider)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON DUPLICATE KEY UPDATE
         price = VALUES(price),
         open_price = VALUES(open_price),
@@ -48,11 +51,14 @@ export async function saveCommodityPrice(data: CommodityPriceData): Promise<void
         previous_close = VALUES(previous_close),
         change_amount = VALUES(change_amount),
         change_percent = VALUES(change_percent),
-        volume = VALUES(volume)`,
+        volume = VALUES(volume),
+        provider = VALUES(provider)`,
         [data.symbol, data.name, data.price, data.openPrice, data.highPrice, 
         data.lowPrice, data.previousClose, data.changeAmount, data.changePercent,
-        data.volume, data.unit, data.date]
+        data.volume, data.unit, data.date, data.provider || null]
     );
+
+    emitMarketEvent('commodity-price', data);
 }
 
 /**
@@ -61,13 +67,58 @@ export async function saveCommodityPrice(data: CommodityPriceData): Promise<void
 export async function getCommodityPricesByDate(date: string): Promise<CommodityPriceData[]> {
     const [rows] = await pool.execute<CommodityPriceRow[]>(
         `SELECT symbol, name, price, open_price, high_price, low_price, 
-        previous_close, change_amount, change_percent, volume, unit, date
+        previous_close, change_amount, change_percent, volume, unit, date, provider
         FROM commodity_prices
         WHERE date = ?`,
         [date]
     );
     
-    return rows.map(row => ({
+    return rows.map(mapCommodityPriceRow);
+}
+
+/**
+ * Get commodity prices for the most recent date stored
+ */
+export async function getLatestCommodityPrices(): Promise<CommodityPriceData[]> {
+    const [rows] = await pool.execute<CommodityPriceRow[]>(
+        `SELECT symbol, name, price, open_price, high_price, low_price, 
+        previous_close, change_amount, change_percent, volume, unit, date, provider
+        FROM commodity_prices
+        WHERE date = (SELECT MAX(date) FROM commodity_prices)`
+    );
+    
+    return rows.map(mapCommodityPriceRow);
+}
+
+/**
+ * Get daily prices for one commodity within a date range (inclusive)
+ * @param symbol Commodity ETF symbol, e.g., 'GLD'
+ * @param fromDate Start date in YYYY-MM-DD format
+ * @param toDate End date in YYYY-MM-DD format
+ */
+export async function getCommodityPricesInRange(
+    symbol: string,
+    fromDate: string,
+    toDate: string
+): Promise<CommodityPriceData[]> {
+    const [rows] = await pool.execute<CommodityPriceRow[]>(
+        `SELECT symbol, name, price, open_price, high_price, low_price, 
+        previous_close, change_amount, change_percent, volume, unit,
+        DATE_FORMAT(date, '%Y-%m-%d') AS date, provider
+        FROM commodity_prices
+        WHERE symbol = ? AND date BETWEEN ? AND ?
+        ORDER BY date ASC`,
+        [symbol, fromDate, toDate]
+    );
+    
+    return rows.map(mapCommodityPriceRow);
+}
+
+/**
+ * Convert a database row to CommodityPriceData
+ */
+function mapCommodityPriceRow(row: CommodityPriceRow): CommodityPriceData {
+    return {
         symbol: row.symbol,
         name: row.name,
         price: row.price,
@@ -79,6 +130,7 @@ export async function getCommodityPricesByDate(date: string): Promise<CommodityP
         changePercent: row.change_percent || undefined,
         volume: row.volume || undefined,
         unit: row.unit,
-        date: row.date
-    }));
+        date: row.date,
+        provider: row.provider || undefined
+    };
 }
\ No newline at end of file
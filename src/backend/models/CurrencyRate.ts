@@ -1,5 +1,6 @@
 import pool from "../config/database";
 import type { RowDataPacket } from "mysql2";
+import { emitMarketEvent } from "../services/marketEvents";
 export interface CurrencyRateData {
     fromCurrency: string;
     toCurrency: string;
@@ -8,6 +9,7 @@ export interface CurrencyRateData {
     askPrice?: number;
     timeZone?: string;
     date: string; // YYYY-MM-DD format
+    provider?: string; // Market data provider the rate came from, e.g., 'alphavantage'
 }
 
 interface CurrencyRateRow extends RowDataPacket {
@@ -18,24 +20,28 @@ interface CurrencyRateRow extends RowDataPacket {
     ask_price: string | number | null;
     time_zone: string | null;
     date: string;
+    provider: string | null;
 }
 
 /**
- * Save currency rate to database
+ * Save currency rate to database and notify market event listeners
  */
 export async function saveCurrencyRate(data: CurrencyRateData): Promise<void> {
     await pool.execute(
         `INSERT INTO currency_rates 
-        (from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone, date)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        (from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone, date, provider)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
         ON DUPLICATE KEY UPDATE
         exchange_rate = VALUES(exchange_rate),
         bid_price = VALUES(bid_price),
         ask_price = VALUES(ask_price),
-        time_zone = VALUES(time_zone)`,
+        time_zone = VALUES(time_zone),
+        provider = VALUES(provider)`,
         [data.fromCurrency, data.toCurrency, data.exchangeRate, 
-        data.bidPrice, data.askPrice, data.timeZone, data.date]
+        data.bidPrice, data.askPrice, data.timeZone, data.date, data.provider || null]
     );
+    
+    emitMarketEvent('currency-rate', data);
 }
 
 /**
@@ -43,13 +49,58 @@ export async function saveCurrencyRate(data: CurrencyRateData): Promise<void> {
  */
 export async function getCurrencyRatesByDate(date: string): Promise<CurrencyRateData[]> {
     const [rows] = await pool.execute<CurrencyRateRow[]>(
-        `SELECT from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone, date
+        `SELECT from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone, date, provider
         FROM currency_rates
         WHERE date = ?`,
         [date]
     );
     
-    return rows.map(row => ({
+    return rows.map(mapCurrencyRateRow);
+}
+
+/**
+ * Get currency rates for the most recent date stored
+ */
+export async function getLatestCurrencyRates(): Promise<CurrencyRateData[]> {
+    const [rows] = await pool.execute<CurrencyRateRow[]>(
+        `SELECT from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone, date, provider
+        FROM currency_rates
+        WHERE date = (SELECT MAX(date) FROM currency_rates)`
+    );
+    
+    return rows.map(mapCurrencyRateRow);
+}
+
+/**
+ * Get daily currency rates for one pair within a date range (inclusive)
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @param fromDate Start date in YYYY-MM-DD format
+ * @param toDate End date in YYYY-MM-DD format
+ */
+export async function getCurrencyRatesInRange(
+    fromCurrency: string,
+    toCurrency: string,
+    fromDate: string,
+    toDate: string
+): Promise<CurrencyRateData[]> {
+    const [rows] = await pool.execute<CurrencyRateRow[]>(
+        `SELECT from_currency, to_currency, exchange_rate, bid_price, ask_price, time_zone,
+        DATE_FORMAT(date, '%Y-%m-%d') AS date, provider
+        FROM currency_rates
+        WHERE from_currency = ? AND to_currency = ? AND date BETWEEN ? AND ?
+        ORDER BY date ASC`,
+        [fromCurrency, toCurrency, fromDate, toDate]
+    );
+    
+    return rows.map(mapCurrencyRateRow);
+}
+
+/**
+ * Convert a database row to CurrencyRateData
+ */
+function mapCurrencyRateRow(row: CurrencyRateRow): CurrencyRateData {
+    return {
         fromCurrency: row.from_currency,
         toCurrency: row.to_currency,
         exchangeRate: typeof row.exchange_rate === 'string' 
@@ -62,6 +113,7 @@ export async function getCurrencyRatesByDate(date: string): Promise<CurrencyRate
             ? (typeof row.ask_price === 'string' ? parseFloat(row.ask_price) : row.ask_price)
             : undefined,
         timeZone: row.time_zone || undefined,
-        date: row.date
-    }));
+        date: row.date,
+        provider: row.provider || undefined
+    };
 }
\ No newline at end of file
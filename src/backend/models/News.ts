@@ -1,12 +1,21 @@
 import pool from '../config/database';
 import type { RowDataPacket } from 'mysql2';
+import { emitMarketEvent } from '../services/marketEvents';
+import { sourceFilterCondition } from './NewsSource';
 import type { 
     MarketauxNewsArticle,
     NewsEntity,
     EntityHighlight,
-    SimilarNews
+    SimilarNews,
+    SentimentBucket,
+    SentimentPoint,
+    SentimentHeatmapCell,
+    HeadlineRanking
 } from '../../frontend/services/interface';
 
+// Largest IN (...) list per query when loading relations (prepared statements allow 65535 placeholders)
+const IN_BATCH_SIZE = 1000;
+
 /**
  * Convert ISO 8601 datetime string to MySQL DATETIME format
  * MySQL DATETIME format: YYYY-MM-DD HH:MM:SS
@@ -83,6 +92,7 @@ export interface NewsArticleWithRelations extends NewsArticleData {
     categories?: string[];
     entities?: NewsEntity[];
     similar?: SimilarNews[];
+    ranking?: HeadlineRanking;
 }
 
 /**
@@ -274,6 +284,7 @@ export async function saveSimilarNews(
 /**
  * Save complete news article with all related data
  * This is the main function to use when saving news from API
+ * Listeners are notified once per article, the first time it is saved
  */
 export async function saveNewsArticleWithRelations(
     article: MarketauxNewsArticle
@@ -282,7 +293,15 @@ export async function saveNewsArticleWithRelations(
     const connection = await pool.getConnection();
     await connection.beginTransaction();
     
+    let isNewArticle = false;
+    
     try {
+        const [existing] = await connection.execute<RowDataPacket[]>(
+            'SELECT uuid FROM news_articles WHERE uuid = ?',
+            [article.uuid]
+        );
+        isNewArticle = existing.length === 0;
+        
         // 1. Save main article
         await connection.execute(
             `INSERT INTO news_articles 
@@ -404,220 +423,464 @@ export async function saveNewsArticleWithRelations(
     } finally {
         connection.release();
     }
+    
+    if (isNewArticle) {
+        emitMarketEvent('news-article', article);
+    }
 }
 
 /**
- * Get news articles by date
+ * SQL condition keeping articles (table alias) in the given languages
  */
-export async function getNewsByDate(date: string): Promise<NewsArticleWithRelations[]> {
+function languageCondition(alias: string, languages: string[]): string {
+    return `${alias}.language IN (${languages.map(() => '?').join(', ')})`;
+}
+
+/**
+ * Get news articles by date, optionally only in the given languages
+ */
+export async function getNewsByDate(date: string, languages?: string[]): Promise<NewsArticleWithRelations[]> {
+    const conditions = ['DATE(n.published_at) = ?', sourceFilterCondition('n')];
+    if (languages?.length) conditions.push(languageCondition('n', languages));
+    
     const [rows] = await pool.execute<NewsArticleRow[]>(
-        `SELECT uuid, title, description, snippet, url, image_url, language, published_at, source
-        FROM news_articles
-        WHERE DATE(published_at) = ?
-        ORDER BY published_at DESC`,
-        [date]
+        `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source
+        FROM news_articles n
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY n.published_at DESC`,
+        [date, ...(languages || [])]
     );
     
-    const articles: NewsArticleWithRelations[] = [];
+    return buildNewsArticles(rows);
+}
+
+/**
+ * Filters for querying stored news
+ * Entity filters (symbols, sentiment, countries, industries, entity types) must all match
+ * the same entity, like the Marketaux API
+ */
+export interface NewsQueryFilters {
+    date?: string;              // YYYY-MM-DD (publication date)
+    fromDate?: string;          // YYYY-MM-DD, inclusive (ignored when date is set)
+    toDate?: string;            // YYYY-MM-DD, inclusive (ignored when date is set)
+    symbols?: string[];
+    sentimentGte?: number;
+    sentimentLte?: number;
+    countries?: string[];
+    industries?: string[];
+    entityTypes?: string[];
+    languages?: string[];
+    mustHaveEntities?: boolean;
+    filterEntities?: boolean;   // Only return the entities that matched
+}
+
+/**
+ * Position in a newest-first news listing: the last article of the previous page
+ * published_at is an ISO datetime string; uuid breaks ties between articles published in the same second
+ */
+export interface NewsCursor {
+    publishedAt: string;
+    uuid: string;
+}
+
+/**
+ * Query stored news articles with SQL filters, newest first
+ * @returns Matching articles for the page and the total number of matches
+ */
+export async function queryNews(
+    filters: NewsQueryFilters,
+    limit: number = 50,
+    offset: number = 0
+): Promise<{ articles: NewsArticleWithRelations[]; total: number }> {
+    const { conditions, params } = buildNewsConditions(filters);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     
-    for (const row of rows) {
-        const article: NewsArticleWithRelations = {
-            uuid: row.uuid,
-            title: row.title,
-            description: row.description || undefined,
-            snippet: row.snippet || undefined,
-            url: row.url,
-            image_url: row.image_url || undefined,
-            language: row.language,
-            published_at: typeof row.published_at === 'string' 
-                ? row.published_at 
-                : row.published_at.toISOString(),
-            source: row.source
-        };
-        
-        // Get categories
-        const [categories] = await pool.execute<RowDataPacket[]>(
-            'SELECT category FROM news_categories WHERE news_uuid = ?',
-            [row.uuid]
-        );
-        article.categories = categories.map(c => c.category);
-        
-        // Get entities with highlights
-        const [entities] = await pool.execute<RowDataPacket[]>(
-            `SELECT id, symbol, name, exchange, exchange_long, country, type, industry, match_score, sentiment_score
-            FROM news_entities WHERE news_uuid = ?`,
-            [row.uuid]
-        );
-        
-        article.entities = await Promise.all(
-            entities.map(async (entityRow) => {
-                const [highlights] = await pool.execute<RowDataPacket[]>(
-                    'SELECT highlight, sentiment, highlighted_in FROM news_entity_highlights WHERE entity_id = ?',
-                    [entityRow.id]
-                );
-                
-                return {
-                    symbol: entityRow.symbol || '',
-                    name: entityRow.name,
-                    exchange: entityRow.exchange || '',
-                    exchange_long: entityRow.exchange_long || '',
-                    country: entityRow.country || '',
-                    type: entityRow.type || '',
-                    industry: entityRow.industry || '',
-                    match_score: entityRow.match_score || 0,
-                    sentiment_score: entityRow.sentiment_score || 0,
-                    highlights: highlights.map(h => ({
-                        highlight: h.highlight,
-                        sentiment: h.sentiment || 0,
-                        highlighted_in: h.highlighted_in || ''
-                    }))
-                };
-            })
-        );
-        
-        // Get similar news
-        const [similar] = await pool.execute<RowDataPacket[]>(
-            'SELECT similar_uuid, similar_title, similar_published_at, similar_source FROM news_similar WHERE news_uuid = ?',
-            [row.uuid]
-        );
-        article.similar = similar.map(s => ({
-            uuid: s.similar_uuid,
-            title: s.similar_title || '',
-            published_at: s.similar_published_at || '',
-            source: s.similar_source || ''
-        }));
-        
-        articles.push(article);
-    }
+    const [countRows] = await pool.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM news_articles n ${where}`,
+        params
+    );
+    const total = Number(countRows[0]?.total || 0);
+    if (total === 0) return { articles: [], total };
     
-    return articles;
+    const [rows] = await pool.execute<NewsArticleRow[]>(
+        `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source
+        FROM news_articles n
+        ${where}
+        ORDER BY n.published_at DESC
+        LIMIT ${Math.max(1, Math.floor(limit))} OFFSET ${Math.max(0, Math.floor(offset))}`,
+        params
+    );
+    
+    return { articles: await buildFilteredNewsArticles(rows, filters), total };
 }
 
 /**
- * Get headline news for a specific date
+ * Query stored news articles with SQL filters, newest first, continuing after a cursor
+ * Uses a keyset on (published_at, uuid), so pages stay stable while new articles are saved
+ * @param cursor Last article of the previous page (omit for the first page)
+ * @returns Articles for the page and the cursor for the next page (null when there are no more)
  */
-export async function getHeadlineNews(date: string): Promise<NewsArticleWithRelations[]> {
+export async function queryNewsAfter(
+    filters: NewsQueryFilters,
+    limit: number = 50,
+    cursor?: NewsCursor
+): Promise<{ articles: NewsArticleWithRelations[]; nextCursor: NewsCursor | null }> {
+    const { conditions, params } = buildNewsConditions(filters);
+    const cursorParams: (string | number | Date)[] = [...params];
+    
+    if (cursor) {
+        // Date params are serialized in the connection time zone, the same way published_at is read
+        const publishedAt = new Date(cursor.publishedAt);
+        conditions.push('(n.published_at < ? OR (n.published_at = ? AND n.uuid < ?))');
+        cursorParams.push(publishedAt, publishedAt, cursor.uuid);
+    }
+    
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const pageSize = Math.max(1, Math.floor(limit));
+    
+    // Fetch one extra row to know whether another page exists
     const [rows] = await pool.execute<NewsArticleRow[]>(
         `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source
         FROM news_articles n
-        INNER JOIN news_daily_cache c ON n.uuid = c.news_uuid
-        WHERE c.date = ? AND c.is_headline = TRUE
-        ORDER BY c.priority DESC, n.published_at DESC`,
-        [date]
+        ${where}
+        ORDER BY n.published_at DESC, n.uuid DESC
+        LIMIT ${pageSize + 1}`,
+        cursorParams
     );
     
-    // Reuse getNewsByDate logic for building full article objects
-    // For simplicity, we'll get the full articles
-    const uuids = rows.map(r => r.uuid);
-    if (uuids.length === 0) return [];
+    const pageRows = rows.slice(0, pageSize);
+    const articles = await buildFilteredNewsArticles(pageRows, filters);
+    const last = articles[articles.length - 1];
     
-    const articles: NewsArticleWithRelations[] = [];
+    return {
+        articles,
+        nextCursor: rows.length > pageSize && last ? { publishedAt: last.published_at, uuid: last.uuid } : null
+    };
+}
+
+/**
+ * Full-text search over article text and entity highlights, most relevant first
+ * Requires the FULLTEXT indexes on news_articles (title, description, snippet)
+ * and news_entity_highlights (highlight)
+ * @param booleanQuery MySQL BOOLEAN MODE query, e.g., '>"rate cut" rate cut'
+ * @param fromDate Earliest publication date in YYYY-MM-DD format (optional)
+ * @param toDate Latest publication date in YYYY-MM-DD format (optional)
+ * @returns Articles with their relevance score
+ */
+export async function searchNewsArticles(
+    booleanQuery: string,
+    fromDate?: string,
+    toDate?: string,
+    limit: number = 20
+): Promise<(NewsArticleWithRelations & { relevance: number })[]> {
+    const conditions = [
+        '(MATCH(n.title, n.description, n.snippet) AGAINST (? IN BOOLEAN MODE) OR h.score IS NOT NULL)',
+        sourceFilterCondition('n')
+    ];
+    const params: string[] = [booleanQuery, booleanQuery, booleanQuery, booleanQuery];
     
-    for (const articleUuid of uuids) {
-        const [articleRows] = await pool.execute<NewsArticleRow[]>(
-            `SELECT uuid, title, description, snippet, url, image_url, language, published_at, source
-            FROM news_articles WHERE uuid = ?`,
-            [articleUuid]
-        );
-        
-        if (articleRows.length === 0) continue;
-        
-        const row = articleRows[0];
-        const article: NewsArticleWithRelations = {
-            uuid: row.uuid,
-            title: row.title,
-            description: row.description || undefined,
-            snippet: row.snippet || undefined,
-            url: row.url,
-            image_url: row.image_url || undefined,
-            language: row.language,
-            published_at: typeof row.published_at === 'string' 
-                ? row.published_at 
-                : row.published_at.toISOString(),
-            source: row.source
-        };
-        
-        // Get categories, entities, similar (same as getNewsByDate)
-        const [categories] = await pool.execute<RowDataPacket[]>(
-            'SELECT category FROM news_categories WHERE news_uuid = ?',
-            [row.uuid]
-        );
-        article.categories = categories.map(c => c.category);
-        
-        articles.push(article);
+    if (fromDate) {
+        conditions.push('n.published_at >= ?');
+        params.push(fromDate);
+    }
+    if (toDate) {
+        conditions.push('n.published_at < DATE_ADD(?, INTERVAL 1 DAY)');
+        params.push(toDate);
     }
     
-    return articles;
+    // Highlight matches count towards the article they belong to
+    const [rows] = await pool.execute<(NewsArticleRow & { relevance: number })[]>(
+        `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source,
+        MATCH(n.title, n.description, n.snippet) AGAINST (? IN BOOLEAN MODE) + COALESCE(h.score, 0) AS relevance
+        FROM news_articles n
+        LEFT JOIN (
+            SELECT e.news_uuid, SUM(MATCH(hl.highlight) AGAINST (? IN BOOLEAN MODE)) AS score
+            FROM news_entity_highlights hl
+            INNER JOIN news_entities e ON e.id = hl.entity_id
+            WHERE MATCH(hl.highlight) AGAINST (? IN BOOLEAN MODE)
+            GROUP BY e.news_uuid
+        ) h ON h.news_uuid = n.uuid
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY relevance DESC, n.published_at DESC
+        LIMIT ${Math.max(1, Math.floor(limit))}`,
+        params
+    );
+    
+    const articles = await buildNewsArticles(rows);
+    return articles.map((article, index) => ({ ...article, relevance: Number(rows[index].relevance) }));
 }
 
 /**
- * Check if news exists for a specific date
+ * Aggregate entity sentiment for a symbol per day or week (weeks start on Monday)
+ * Neutral entities are stored with a NULL sentiment, so NULL is counted as 0
+ * @param fromDate Start date in YYYY-MM-DD format (inclusive)
+ * @param toDate End date in YYYY-MM-DD format (inclusive)
  */
-export async function checkNewsExistsForDate(date: string): Promise<boolean> {
+export async function getSentimentSeries(
+    symbol: string,
+    fromDate: string,
+    toDate: string,
+    bucket: SentimentBucket
+): Promise<SentimentPoint[]> {
+    const bucketExpression = bucket === 'week'
+        ? 'DATE_SUB(DATE(n.published_at), INTERVAL WEEKDAY(n.published_at) DAY)'
+        : 'DATE(n.published_at)';
+    
     const [rows] = await pool.execute<RowDataPacket[]>(
-        `SELECT COUNT(*) as count FROM news_articles WHERE DATE(published_at) = ?`,
-        [date]
+        `SELECT DATE_FORMAT(${bucketExpression}, '%Y-%m-%d') AS bucket_start,
+        COUNT(DISTINCT e.news_uuid) AS article_count,
+        AVG(COALESCE(e.sentiment_score, 0)) AS mean_sentiment,
+        SUM(COALESCE(e.sentiment_score, 0) * COALESCE(e.match_score, 0))
+            / NULLIF(SUM(COALESCE(e.match_score, 0)), 0) AS weighted_sentiment,
+        MIN(COALESCE(e.sentiment_score, 0)) AS min_sentiment,
+        MAX(COALESCE(e.sentiment_score, 0)) AS max_sentiment
+        FROM news_entities e
+        INNER JOIN news_articles n ON n.uuid = e.news_uuid
+        WHERE e.symbol = ? AND n.published_at >= ? AND n.published_at < DATE_ADD(?, INTERVAL 1 DAY)
+        AND ${sourceFilterCondition('n')}
+        GROUP BY bucket_start
+        ORDER BY bucket_start ASC`,
+        [symbol, fromDate, toDate]
     );
     
-    return rows[0]?.count > 0;
+    return rows.map(row => ({
+        bucket: row.bucket_start,
+        articleCount: Number(row.article_count),
+        meanSentiment: Number(row.mean_sentiment),
+        weightedSentiment: row.weighted_sentiment !== null ? Number(row.weighted_sentiment) : null,
+        minSentiment: Number(row.min_sentiment),
+        maxSentiment: Number(row.max_sentiment)
+    }));
 }
 
 /**
- * Mark news articles as headlines in daily cache
+ * Aggregate entity sentiment by industry and country
+ * Entities without an industry or country (or with 'N/A') are left out
+ * @param fromDate Start date in YYYY-MM-DD format (inclusive)
+ * @param toDate End date in YYYY-MM-DD format (inclusive)
+ * @param entityType Only include entities of this type, e.g., 'equity' (optional)
  */
-export async function markHeadlineNews(newsUuids: string[], date: string, priorities?: number[]): Promise<void> {
-    if (newsUuids.length === 0) return;
-    
-    const values = newsUuids.map(() => 
-        `(?, ?, TRUE, ?)`
-    ).join(', ');
-    
-    const params = newsUuids.flatMap((newsUuid, index) => [
-        newsUuid,
-        date,
-        priorities && priorities[index] !== undefined ? priorities[index] : 0
-    ]);
+export async function getSentimentHeatmap(
+    fromDate: string,
+    toDate: string,
+    entityType?: string
+): Promise<SentimentHeatmapCell[]> {
+    const params: string[] = [fromDate, toDate];
+    let typeCondition = '';
+    if (entityType) {
+        typeCondition = 'AND e.type = ?';
+        params.push(entityType);
+    }
     
-    await pool.execute(
-        `INSERT INTO news_daily_cache (news_uuid, date, is_headline, priority)
-        VALUES ${values}
-        ON DUPLICATE KEY UPDATE
-        is_headline = TRUE,
-        priority = VALUES(priority)`,
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT e.industry, e.country,
+        COUNT(DISTINCT e.news_uuid) AS article_count,
+        COUNT(*) AS entity_count,
+        AVG(COALESCE(e.sentiment_score, 0)) AS mean_sentiment
+        FROM news_entities e
+        INNER JOIN news_articles n ON n.uuid = e.news_uuid
+        WHERE n.published_at >= ? AND n.published_at < DATE_ADD(?, INTERVAL 1 DAY)
+        AND ${sourceFilterCondition('n')}
+        AND e.industry IS NOT NULL AND e.industry NOT IN ('', 'N/A')
+        AND e.country IS NOT NULL AND e.country NOT IN ('', 'N/A')
+        ${typeCondition}
+        GROUP BY e.industry, e.country
+        ORDER BY article_count DESC`,
         params
     );
+    
+    return rows.map(row => ({
+        industry: row.industry,
+        country: row.country,
+        articleCount: Number(row.article_count),
+        entityCount: Number(row.entity_count),
+        meanSentiment: Number(row.mean_sentiment)
+    }));
 }
 
 /**
- * Get news articles with pagination
+ * Build SQL conditions on news_articles (alias n) for the query filters
  */
-export async function getNewsWithPagination(
-    date?: string,
-    limit: number = 50,
-    page: number = 1
-): Promise<{ articles: NewsArticleWithRelations[]; total: number }> {
-    const offset = (page - 1) * limit;
+function buildNewsConditions(filters: NewsQueryFilters): { conditions: string[]; params: (string | number)[] } {
+    const conditions: string[] = [sourceFilterCondition('n')];
+    const params: (string | number)[] = [];
+    
+    if (filters.date) {
+        conditions.push('DATE(n.published_at) = ?');
+        params.push(filters.date);
+    } else {
+        if (filters.fromDate) {
+            conditions.push('n.published_at >= ?');
+            params.push(filters.fromDate);
+        }
+        if (filters.toDate) {
+            conditions.push('n.published_at < DATE_ADD(?, INTERVAL 1 DAY)');
+            params.push(filters.toDate);
+        }
+    }
+    if (filters.languages?.length) {
+        conditions.push(languageCondition('n', filters.languages));
+        params.push(...filters.languages);
+    }
+    
+    const entityFilter = buildEntityConditions(filters);
+    if (entityFilter.conditions.length > 0 || filters.mustHaveEntities) {
+        conditions.push(
+            `EXISTS (SELECT 1 FROM news_entities e WHERE e.news_uuid = n.uuid${
+                entityFilter.conditions.map(c => ` AND ${c}`).join('')
+            })`
+        );
+        params.push(...entityFilter.params);
+    }
     
-    let countQuery = 'SELECT COUNT(*) as total FROM news_articles';
-    let dataQuery = `SELECT uuid, title, description, snippet, url, image_url, language, published_at, source
-        FROM news_articles`;
-    const params: any[] = [];
+    return { conditions, params };
+}
+
+/**
+ * Build SQL conditions on news_entities (alias e) for the entity filters
+ * Sentiment is stored as NULL for neutral entities, so NULL is compared as 0
+ */
+function buildEntityConditions(filters: NewsQueryFilters): { conditions: string[]; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
     
-    if (date) {
-        countQuery += ' WHERE DATE(published_at) = ?';
-        dataQuery += ' WHERE DATE(published_at) = ?';
-        params.push(date);
+    const addIn = (column: string, values?: string[]) => {
+        if (!values || values.length === 0) return;
+        conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+    };
+    
+    addIn('e.symbol', filters.symbols);
+    addIn('e.country', filters.countries);
+    addIn('e.industry', filters.industries);
+    addIn('e.type', filters.entityTypes);
+    
+    if (filters.sentimentGte !== undefined) {
+        conditions.push('COALESCE(e.sentiment_score, 0) >= ?');
+        params.push(filters.sentimentGte);
+    }
+    if (filters.sentimentLte !== undefined) {
+        conditions.push('COALESCE(e.sentiment_score, 0) <= ?');
+        params.push(filters.sentimentLte);
     }
     
-    dataQuery += ' ORDER BY published_at DESC LIMIT ? OFFSET ?';
+    return { conditions, params };
+}
+
+/**
+ * Check whether any entity filter (symbols, sentiment, countries, industries, entity types) is set
+ */
+export function hasEntityFilters(filters: NewsQueryFilters): boolean {
+    return buildEntityConditions(filters).conditions.length > 0;
+}
+
+/**
+ * Check an entity against the entity filters (same rules as buildEntityConditions)
+ */
+export function entityMatchesFilters(entity: NewsEntity, filters: NewsQueryFilters): boolean {
+    const inList = (value: string, values?: string[]) =>
+        !values || values.length === 0 || values.some(v => v.toLowerCase() === value.toLowerCase());
+    
+    return inList(entity.symbol, filters.symbols)
+        && inList(entity.country, filters.countries)
+        && inList(entity.industry, filters.industries)
+        && inList(entity.type, filters.entityTypes)
+        && (filters.sentimentGte === undefined || entity.sentiment_score >= filters.sentimentGte)
+        && (filters.sentimentLte === undefined || entity.sentiment_score <= filters.sentimentLte);
+}
+
+/**
+ * Build full articles and, when filterEntities is set, keep only the entities that match the filters
+ */
+async function buildFilteredNewsArticles(
+    rows: NewsArticleRow[],
+    filters: NewsQueryFilters
+): Promise<NewsArticleWithRelations[]> {
+    const articles = await buildNewsArticles(rows);
+    
+    if (filters.filterEntities && hasEntityFilters(filters)) {
+        for (const article of articles) {
+            article.entities = article.entities?.filter(entity => entityMatchesFilters(entity, filters));
+        }
+    }
+    
+    return articles;
+}
+
+/**
+ * Run a SELECT ending in "column IN" for a list of values, in batches
+ * @param sql Query up to and including "IN", e.g., 'SELECT ... WHERE news_uuid IN'
+ * @returns Rows of all batches
+ */
+async function selectWhereIn(sql: string, values: (string | number)[]): Promise<RowDataPacket[]> {
+    const rows: RowDataPacket[] = [];
+    
+    for (let i = 0; i < values.length; i += IN_BATCH_SIZE) {
+        const batch = values.slice(i, i + IN_BATCH_SIZE);
+        const [batchRows] = await pool.execute<RowDataPacket[]>(
+            `${sql} (${batch.map(() => '?').join(', ')})`,
+            batch
+        );
+        rows.push(...batchRows);
+    }
+    
+    return rows;
+}
+
+/**
+ * Group rows by a key, keeping row order within each group
+ */
+function groupRows<K>(rows: RowDataPacket[], key: (row: RowDataPacket) => K): Map<K, RowDataPacket[]> {
+    const groups = new Map<K, RowDataPacket[]>();
+    for (const row of rows) {
+        const group = groups.get(key(row));
+        if (group) group.push(row);
+        else groups.set(key(row), [row]);
+    }
+    return groups;
+}
+
+/**
+ * Load categories, entities (with highlights) and similar news for article rows
+ * Relations are loaded with one IN (...) query per table for all rows (four queries
+ * for a page of articles) instead of per article and per entity
+ */
+async function buildNewsArticles(rows: NewsArticleRow[]): Promise<NewsArticleWithRelations[]> {
+    if (rows.length === 0) return [];
+    
+    const uuids = [...new Set(rows.map(row => row.uuid))];
+    
+    const categories = groupRows(
+        await selectWhereIn('SELECT news_uuid, category FROM news_categories WHERE news_uuid IN', uuids),
+        row => row.news_uuid as string
+    );
+    
+    const entityRows = await selectWhereIn(
+        `SELECT id, news_uuid, symbol, name, exchange, exchange_long, country, type, industry, match_score, sentiment_score
+        FROM news_entities WHERE news_uuid IN`,
+        uuids
+    );
+    
+    const highlights = groupRows(
+        await selectWhereIn(
+            'SELECT entity_id, highlight, sentiment, highlighted_in FROM news_entity_highlights WHERE entity_id IN',
+            entityRows.map(entityRow => entityRow.id)
+        ),
+        row => Number(row.entity_id)
+    );
     
-    const [countRows] = await pool.execute<RowDataPacket[]>(countQuery, date ? [date] : []);
-    const total = countRows[0]?.total || 0;
+    const entities = groupRows(entityRows, row => row.news_uuid as string);
     
-    const [rows] = await pool.execute<NewsArticleRow[]>(dataQuery, [...params, limit, offset]);
+    const similar = groupRows(
+        await selectWhereIn(
+            `SELECT news_uuid, similar_uuid, similar_title, similar_published_at, similar_source
+            FROM news_similar WHERE news_uuid IN`,
+            uuids
+        ),
+        row => row.news_uuid as string
+    );
     
-    // Build articles (simplified version - you can enhance with full relations if needed)
-    const articles: NewsArticleWithRelations[] = rows.map(row => ({
+    return rows.map(row => ({
         uuid: row.uuid,
         title: row.title,
         description: row.description || undefined,
@@ -628,9 +891,117 @@ export async function getNewsWithPagination(
         published_at: typeof row.published_at === 'string' 
             ? row.published_at 
             : row.published_at.toISOString(),
-        source: row.source
+        source: row.source,
+        categories: (categories.get(row.uuid) || []).map(c => c.category),
+        entities: (entities.get(row.uuid) || []).map(entityRow => ({
+            symbol: entityRow.symbol || '',
+            name: entityRow.name,
+            exchange: entityRow.exchange || '',
+            exchange_long: entityRow.exchange_long || '',
+            country: entityRow.country || '',
+            type: entityRow.type || '',
+            industry: entityRow.industry || '',
+            match_score: entityRow.match_score || 0,
+            sentiment_score: entityRow.sentiment_score || 0,
+            highlights: (highlights.get(Number(entityRow.id)) || []).map(h => ({
+                highlight: h.highlight,
+                sentiment: h.sentiment || 0,
+                highlighted_in: h.highlighted_in || ''
+            }))
+        })),
+        similar: (similar.get(row.uuid) || []).map(s => ({
+            uuid: s.similar_uuid,
+            title: s.similar_title || '',
+            published_at: s.similar_published_at || '',
+            source: s.similar_source || ''
+        }))
     }));
+}
+
+/**
+ * Get headline news for a specific date, best ranked first, with the ranking explanation
+ * Optionally only in the given languages
+ */
+export async function getHeadlineNews(date: string, languages?: string[]): Promise<NewsArticleWithRelations[]> {
+    const conditions = ['c.date = ?', 'c.is_headline = TRUE', sourceFilterCondition('n')];
+    if (languages?.length) conditions.push(languageCondition('n', languages));
     
-    return { articles, total };
+    const [rows] = await pool.execute<(NewsArticleRow & { ranking: HeadlineRanking | string | null })[]>(
+        `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source,
+        c.ranking
+        FROM news_articles n
+        INNER JOIN news_daily_cache c ON n.uuid = c.news_uuid
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY c.priority DESC, n.published_at DESC`,
+        [date, ...(languages || [])]
+    );
+    
+    const articles = await buildNewsArticles(rows);
+    articles.forEach((article, index) => {
+        const ranking = rows[index].ranking;
+        if (ranking) {
+            article.ranking = typeof ranking === 'string' ? JSON.parse(ranking) : ranking;
+        }
+    });
+    
+    return articles;
 }
 
+/**
+ * Check if news exists for a specific date, optionally in a specific language
+ */
+export async function checkNewsExistsForDate(date: string, language?: string): Promise<boolean> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as count FROM news_articles WHERE DATE(published_at) = ?${language ? ' AND language = ?' : ''}`,
+        language ? [date, language] : [date]
+    );
+    
+    return rows[0]?.count > 0;
+}
+
+/**
+ * Replace the headlines of a date in the daily cache
+ * Articles no longer ranked are unmarked; priority is the score on a 0-1000 scale
+ */
+export async function saveHeadlineRankings(
+    date: string,
+    headlines: { uuid: string; ranking: HeadlineRanking }[]
+): Promise<void> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    
+    try {
+        await connection.execute(
+            `UPDATE news_daily_cache SET is_headline = FALSE, priority = 0, ranking = NULL
+            WHERE date = ? AND is_headline = TRUE`,
+            [date]
+        );
+        
+        if (headlines.length > 0) {
+            const values = headlines.map(() => '(?, ?, TRUE, ?, ?)').join(', ');
+            const params = headlines.flatMap(({ uuid, ranking }) => [
+                uuid,
+                date,
+                Math.round(ranking.score * 1000),
+                JSON.stringify(ranking)
+            ]);
+            
+            await connection.execute(
+                `INSERT INTO news_daily_cache (news_uuid, date, is_headline, priority, ranking)
+                VALUES ${values}
+                ON DUPLICATE KEY UPDATE
+                is_headline = TRUE,
+                priority = VALUES(priority),
+                ranking = VALUES(ranking)`,
+                params
+            );
+        }
+        
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+}
@@ -0,0 +1,112 @@
+import pool from '../config/database';
+import newsSourceConfig from '../config/newsSources';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { NewsSourceStatus } from '../../frontend/services/interface';
+
+export interface NewsSourceSetting {
+    domain: string;
+    status: NewsSourceStatus;
+    boost: number;
+    note: string | null;
+}
+
+export interface NewsSourceStats {
+    domain: string;
+    articleCount: number;
+    meanSentiment: number | null;
+    lastSeenAt: Date | null;
+}
+
+interface NewsSourceRow extends RowDataPacket {
+    domain: string;
+    status: NewsSourceStatus;
+    boost: number | string;
+    note: string | null;
+}
+
+/**
+ * SQL condition keeping articles (table alias) from sources that may be shown
+ * Depends on NEWS_SOURCE_MODE: deny-listed sources are excluded, or only allow-listed sources are kept
+ * @example `WHERE ${sourceFilterCondition('n')}`
+ */
+export function sourceFilterCondition(alias: string): string {
+    return newsSourceConfig.mode === 'allowlist'
+        ? `EXISTS (SELECT 1 FROM news_sources ns WHERE ns.domain = ${alias}.source AND ns.status = 'allow')`
+        : `NOT EXISTS (SELECT 1 FROM news_sources ns WHERE ns.domain = ${alias}.source AND ns.status = 'deny')`;
+}
+
+/**
+ * Check a source against the settings (same rules as sourceFilterCondition)
+ */
+export function isSourceAllowed(source: string, settings: Map<string, NewsSourceSetting>): boolean {
+    const status = settings.get(source.toLowerCase())?.status;
+    return newsSourceConfig.mode === 'allowlist' ? status === 'allow' : status !== 'deny';
+}
+
+/**
+ * Get all source settings, keyed by domain
+ */
+export async function getNewsSourceSettings(): Promise<Map<string, NewsSourceSetting>> {
+    const [rows] = await pool.execute<NewsSourceRow[]>(
+        'SELECT domain, status, boost, note FROM news_sources ORDER BY domain'
+    );
+
+    return new Map(rows.map(row => [row.domain, {
+        domain: row.domain,
+        status: row.status,
+        boost: Number(row.boost),
+        note: row.note
+    }]));
+}
+
+/**
+ * Create or replace the settings of a source
+ */
+export async function upsertNewsSource(setting: NewsSourceSetting): Promise<void> {
+    await pool.execute(
+        `INSERT INTO news_sources (domain, status, boost, note)
+        VALUES (?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+        status = VALUES(status),
+        boost = VALUES(boost),
+        note = VALUES(note)`,
+        [setting.domain, setting.status, setting.boost, setting.note]
+    );
+}
+
+/**
+ * Delete the settings of a source (it goes back to the defaults)
+ * @returns false if the source had no settings
+ */
+export async function deleteNewsSource(domain: string): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM news_sources WHERE domain = ?',
+        [domain]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Article count, mean entity sentiment and latest publication time per source
+ * Includes denied sources so they can be reviewed
+ */
+export async function getNewsSourceStats(): Promise<NewsSourceStats[]> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT n.source AS domain,
+        COUNT(DISTINCT n.uuid) AS article_count,
+        AVG(CASE WHEN e.id IS NULL THEN NULL ELSE COALESCE(e.sentiment_score, 0) END) AS mean_sentiment,
+        MAX(n.published_at) AS last_seen_at
+        FROM news_articles n
+        LEFT JOIN news_entities e ON e.news_uuid = n.uuid
+        GROUP BY n.source
+        ORDER BY article_count DESC`
+    );
+
+    return rows.map(row => ({
+        domain: row.domain,
+        articleCount: Number(row.article_count),
+        meanSentiment: row.mean_sentiment === null ? null : Number(row.mean_sentiment),
+        lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null
+    }));
+}
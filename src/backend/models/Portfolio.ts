@@ -0,0 +1,169 @@
+import pool from '../config/database';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { CostMethod, Portfolio, PortfolioTransaction, TransactionType } from '../../frontend/services/interface';
+
+interface PortfolioRow extends RowDataPacket {
+    id: number;
+    name: string;
+    base_currency: string;
+    cost_method: CostMethod;
+    created_at: Date;
+}
+
+interface PortfolioTransactionRow extends RowDataPacket {
+    id: number;
+    symbol: string;
+    type: TransactionType;
+    quantity: string | null;
+    price: string | null;
+    fee: string;
+    amount: string | null;
+    currency: string;
+    trade_date: string;
+    notes: string | null;
+}
+
+/**
+ * Create a portfolio
+ * @returns ID of the new portfolio
+ */
+export async function createPortfolio(name: string, baseCurrency: string, costMethod: CostMethod): Promise<number> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'INSERT INTO portfolios (name, base_currency, cost_method) VALUES (?, ?, ?)',
+        [name, baseCurrency, costMethod]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Get all portfolios, oldest first
+ */
+export async function getPortfolios(): Promise<Portfolio[]> {
+    const [rows] = await pool.execute<PortfolioRow[]>(
+        `SELECT id, name, base_currency, cost_method, created_at
+        FROM portfolios
+        ORDER BY created_at ASC, id ASC`
+    );
+
+    return rows.map(mapPortfolioRow);
+}
+
+/**
+ * Get a portfolio by ID
+ */
+export async function getPortfolioById(id: number): Promise<Portfolio | null> {
+    const [rows] = await pool.execute<PortfolioRow[]>(
+        `SELECT id, name, base_currency, cost_method, created_at
+        FROM portfolios
+        WHERE id = ?`,
+        [id]
+    );
+
+    return rows.length > 0 ? mapPortfolioRow(rows[0]) : null;
+}
+
+/**
+ * Update portfolio settings
+ */
+export async function updatePortfolio(
+    id: number,
+    settings: { name: string; baseCurrency: string; costMethod: CostMethod }
+): Promise<void> {
+    await pool.execute(
+        'UPDATE portfolios SET name = ?, base_currency = ?, cost_method = ? WHERE id = ?',
+        [settings.name, settings.baseCurrency, settings.costMethod, id]
+    );
+}
+
+/**
+ * Delete a portfolio (its transactions are removed by ON DELETE CASCADE)
+ * @returns false if the portfolio doesn't exist
+ */
+export async function deletePortfolio(id: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM portfolios WHERE id = ?',
+        [id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Get all transactions of a portfolio, by trade date
+ */
+export async function getPortfolioTransactions(portfolioId: number): Promise<PortfolioTransaction[]> {
+    const [rows] = await pool.execute<PortfolioTransactionRow[]>(
+        `SELECT id, symbol, type, quantity, price, fee, amount, currency,
+        DATE_FORMAT(trade_date, '%Y-%m-%d') AS trade_date, notes
+        FROM portfolio_transactions
+        WHERE portfolio_id = ?
+        ORDER BY trade_date ASC, id ASC`,
+        [portfolioId]
+    );
+
+    return rows.map(mapPortfolioTransactionRow);
+}
+
+/**
+ * Save a transaction
+ * @returns ID of the new transaction
+ */
+export async function savePortfolioTransaction(
+    portfolioId: number,
+    tx: Omit<PortfolioTransaction, 'id'>
+): Promise<number> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        `INSERT INTO portfolio_transactions
+        (portfolio_id, symbol, type, quantity, price, fee, amount, currency, trade_date, notes)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [portfolioId, tx.symbol, tx.type, tx.quantity, tx.price, tx.fee, tx.amount,
+        tx.currency, tx.tradeDate, tx.notes]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Delete a transaction
+ * @returns false if the transaction doesn't exist in that portfolio
+ */
+export async function deletePortfolioTransaction(portfolioId: number, transactionId: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM portfolio_transactions WHERE id = ? AND portfolio_id = ?',
+        [transactionId, portfolioId]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Convert a database row to Portfolio
+ */
+function mapPortfolioRow(row: PortfolioRow): Portfolio {
+    return {
+        id: row.id,
+        name: row.name,
+        baseCurrency: row.base_currency,
+        costMethod: row.cost_method,
+        createdAt: new Date(row.created_at).toISOString()
+    };
+}
+
+/**
+ * Convert a database row to PortfolioTransaction
+ */
+function mapPortfolioTransactionRow(row: PortfolioTransactionRow): PortfolioTransaction {
+    return {
+        id: row.id,
+        symbol: row.symbol,
+        type: row.type,
+        quantity: row.quantity !== null ? Number(row.quantity) : null,
+        price: row.price !== null ? Number(row.price) : null,
+        fee: Number(row.fee),
+        amount: row.amount !== null ? Number(row.amount) : null,
+        currency: row.currency,
+        tradeDate: row.trade_date,
+        notes: row.notes
+    };
+}
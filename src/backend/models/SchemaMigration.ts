@@ -0,0 +1,56 @@
+import pool from '../config/database';
+import type { RowDataPacket } from 'mysql2';
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: Date;
+}
+
+/**
+ * Create the table recording applied migrations if it doesn't exist
+ */
+export async function createSchemaMigrationsTable(): Promise<void> {
+    await pool.execute(
+        `CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INT PRIMARY KEY,
+            name VARCHAR(255) NOT NULL,
+            applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )`
+    );
+}
+
+/**
+ * Get applied migrations, oldest first
+ */
+export async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+    );
+
+    return rows.map(row => ({
+        version: Number(row.version),
+        name: row.name,
+        appliedAt: new Date(row.applied_at)
+    }));
+}
+
+/**
+ * Record a migration as applied
+ */
+export async function recordMigration(version: number, name: string): Promise<void> {
+    await pool.execute(
+        'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+        [version, name]
+    );
+}
+
+/**
+ * Remove a migration from the applied migrations
+ */
+export async function deleteMigrationRecord(version: number): Promise<void> {
+    await pool.execute(
+        'DELETE FROM schema_migrations WHERE version = ?',
+        [version]
+    );
+}
@@ -0,0 +1,146 @@
+import pool from '../config/database';
+import type { RowDataPacket } from 'mysql2';
+import type { Candle } from '../../frontend/services/interface';
+
+/**
+ * Intervals stored in the stock_candles table (weekly is derived from daily)
+ */
+export type StoredCandleInterval = '1min' | '5min' | 'daily';
+
+interface StockCandleRow extends RowDataPacket {
+    timestamp: string;
+    open_price: string | number;
+    high_price: string | number;
+    low_price: string | number;
+    close_price: string | number;
+    volume: string | number;
+}
+
+// Rows per INSERT statement when saving a full series
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Format string for candle timestamps
+ */
+function getTimestampFormat(interval: StoredCandleInterval): string {
+    return interval === 'daily' ? '%Y-%m-%d' : '%Y-%m-%d %H:%i:%s';
+}
+
+/**
+ * Save candles for a symbol and interval
+ * Uses INSERT ... ON DUPLICATE KEY UPDATE so overlapping fetches just refresh rows
+ */
+export async function saveStockCandles(
+    symbol: string,
+    interval: StoredCandleInterval,
+    candles: Candle[]
+): Promise<void> {
+    for (let i = 0; i < candles.length; i += INSERT_BATCH_SIZE) {
+        const batch = candles.slice(i, i + INSERT_BATCH_SIZE);
+        const values = batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+        const params = batch.flatMap(candle => [
+            symbol,
+            interval,
+            candle.timestamp.length === 10 ? `${candle.timestamp} 00:00:00` : candle.timestamp,
+            candle.open,
+            candle.high,
+            candle.low,
+            candle.close,
+            candle.volume
+        ]);
+
+        await pool.execute(
+            `INSERT INTO stock_candles
+            (symbol, interval_type, timestamp, open_price, high_price, low_price, close_price, volume)
+            VALUES ${values}
+            ON DUPLICATE KEY UPDATE
+            open_price = VALUES(open_price),
+            high_price = VALUES(high_price),
+            low_price = VALUES(low_price),
+            close_price = VALUES(close_price),
+            volume = VALUES(volume),
+            updated_at = CURRENT_TIMESTAMP`,
+            params
+        );
+    }
+}
+
+/**
+ * Get candles for a symbol and interval, optionally within a time range (inclusive)
+ * @param from Start date or datetime, e.g., '2026-01-01' or '2026-01-02 09:30:00'
+ * @param to End date or datetime
+ */
+export async function getStockCandles(
+    symbol: string,
+    interval: StoredCandleInterval,
+    from?: string,
+    to?: string
+): Promise<Candle[]> {
+    let query = `SELECT DATE_FORMAT(timestamp, ?) AS timestamp,
+        open_price, high_price, low_price, close_price, volume
+        FROM stock_candles
+        WHERE symbol = ? AND interval_type = ?`;
+    const params: string[] = [getTimestampFormat(interval), symbol, interval];
+
+    if (from) {
+        query += ' AND timestamp >= ?';
+        params.push(from);
+    }
+    if (to) {
+        query += ' AND timestamp <= ?';
+        params.push(to.length === 10 ? `${to} 23:59:59` : to);
+    }
+
+    query += ' ORDER BY timestamp ASC';
+
+    const [rows] = await pool.execute<StockCandleRow[]>(query, params);
+
+    return rows.map(row => ({
+        timestamp: row.timestamp,
+        open: Number(row.open_price),
+        high: Number(row.high_price),
+        low: Number(row.low_price),
+        close: Number(row.close_price),
+        volume: Number(row.volume)
+    }));
+}
+
+/**
+ * Get the most recent trading days stored for a symbol and interval
+ * @param days Number of distinct days to return
+ * @returns Dates in YYYY-MM-DD format, newest first
+ */
+export async function getRecentCandleDates(
+    symbol: string,
+    interval: StoredCandleInterval,
+    days: number
+): Promise<string[]> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT DISTINCT DATE_FORMAT(timestamp, '%Y-%m-%d') AS day
+        FROM stock_candles
+        WHERE symbol = ? AND interval_type = ?
+        ORDER BY day DESC
+        LIMIT ${Math.max(1, Math.floor(days))}`,
+        [symbol, interval]
+    );
+
+    return rows.map(row => row.day);
+}
+
+/**
+ * Get when candles for a symbol and interval were last refreshed from the API
+ * @returns Last update time, or null if nothing is stored
+ */
+export async function getCandlesLastUpdated(
+    symbol: string,
+    interval: StoredCandleInterval
+): Promise<Date | null> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT MAX(updated_at) AS last_updated
+        FROM stock_candles
+        WHERE symbol = ? AND interval_type = ?`,
+        [symbol, interval]
+    );
+
+    return rows[0]?.last_updated ? new Date(rows[0].last_updated) : null;
+}
@@ -0,0 +1,118 @@
+import pool from '../config/database';
+import type { RowDataPacket } from 'mysql2';
+import { emitMarketEvent } from '../services/marketEvents';
+import type { StockQuote } from '../../frontend/services/interface';
+
+export interface StockQuoteData extends StockQuote {
+    date: string;       // YYYY-MM-DD format (day the quote was fetched)
+    updatedAt?: Date;   // When the quote was last refreshed from the API
+}
+
+interface StockQuoteRow extends RowDataPacket {
+    symbol: string;
+    open_price: string | null;
+    high_price: string | null;
+    low_price: string | null;
+    price: string;
+    volume: string | null;
+    latest_trading_day: string | null;
+    previous_close: string | null;
+    change_amount: string | null;
+    change_percent: string | null;
+    date: string;
+    updated_at: Date;
+    provider: string | null;
+}
+
+/**
+ * Save stock quote to database (one row per symbol per day) and notify market event listeners
+ */
+export async function saveStockQuote(data: StockQuoteData): Promise<void> {
+    await pool.execute(
+        `INSERT INTO stock_quotes
+        (symbol, open_price, high_price, low_price, price, volume, latest_trading_day,
+        previous_close, change_amount, change_percent, date, provider)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+        open_price = VALUES(open_price),
+        high_price = VALUES(high_price),
+        low_price = VALUES(low_price),
+        price = VALUES(price),
+        volume = VALUES(volume),
+        latest_trading_day = VALUES(latest_trading_day),
+        previous_close = VALUES(previous_close),
+        change_amount = VALUES(change_amount),
+        change_percent = VALUES(change_percent),
+        provider = VALUES(provider),
+        updated_at = CURRENT_TIMESTAMP`,
+        [data.symbol, data.open, data.high, data.low, data.price, data.volume,
+        data.latestTradingDay || null, data.previousClose, data.change, data.changePercent,
+        data.date, data.provider || null]
+    );
+
+    emitMarketEvent('stock-quote', data);
+}
+
+/**
+ * Get the stored quote for a symbol on a date
+ */
+export async function getStockQuoteByDate(symbol: string, date: string): Promise<StockQuoteData | null> {
+    const [rows] = await pool.execute<StockQuoteRow[]>(
+        `SELECT symbol, open_price, high_price, low_price, price, volume,
+        DATE_FORMAT(latest_trading_day, '%Y-%m-%d') AS latest_trading_day,
+        previous_close, change_amount, change_percent,
+        DATE_FORMAT(date, '%Y-%m-%d') AS date, updated_at, provider
+        FROM stock_quotes
+        WHERE symbol = ? AND date = ?`,
+        [symbol, date]
+    );
+
+    return rows.length > 0 ? mapStockQuoteRow(rows[0]) : null;
+}
+
+/**
+ * Get the most recent stored quote for each symbol in one query
+ * Symbols that were never fetched are missing from the result
+ */
+export async function getLatestStockQuotes(symbols: string[]): Promise<StockQuoteData[]> {
+    if (symbols.length === 0) return [];
+
+    const placeholders = symbols.map(() => '?').join(', ');
+    const [rows] = await pool.execute<StockQuoteRow[]>(
+        `SELECT q.symbol, q.open_price, q.high_price, q.low_price, q.price, q.volume,
+        DATE_FORMAT(q.latest_trading_day, '%Y-%m-%d') AS latest_trading_day,
+        q.previous_close, q.change_amount, q.change_percent,
+        DATE_FORMAT(q.date, '%Y-%m-%d') AS date, q.updated_at, q.provider
+        FROM stock_quotes q
+        JOIN (
+            SELECT symbol, MAX(date) AS max_date
+            FROM stock_quotes
+            WHERE symbol IN (${placeholders})
+            GROUP BY symbol
+        ) latest ON latest.symbol = q.symbol AND latest.max_date = q.date`,
+        symbols
+    );
+
+    return rows.map(mapStockQuoteRow);
+}
+
+/**
+ * Convert a database row to StockQuoteData
+ */
+function mapStockQuoteRow(row: StockQuoteRow): StockQuoteData {
+    return {
+        symbol: row.symbol,
+        open: row.open_price || '',
+        high: row.high_price || '',
+        low: row.low_price || '',
+        price: row.price,
+        volume: row.volume || '',
+        latestTradingDay: row.latest_trading_day || '',
+        previousClose: row.previous_close || '',
+        change: row.change_amount || '',
+        changePercent: row.change_percent || '',
+        date: row.date,
+        updatedAt: row.updated_at,
+        provider: row.provider || undefined
+    };
+}
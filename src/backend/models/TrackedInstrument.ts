@@ -0,0 +1,101 @@
+import pool from '../config/database';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { InstrumentType, TrackedInstrument } from '../../frontend/services/interface';
+
+/**
+ * Fields set when creating or updating an instrument
+ */
+export type TrackedInstrumentInput = Omit<TrackedInstrument, 'id'>;
+
+interface TrackedInstrumentRow extends RowDataPacket {
+    id: number;
+    type: InstrumentType;
+    symbol: string;
+    name: string;
+    unit: string | null;
+    display_order: number;
+    enabled: number;
+}
+
+const INSTRUMENT_COLUMNS = 'id, type, symbol, name, unit, display_order, enabled';
+
+/**
+ * Get all tracked instruments, currencies first, each type in display order
+ * (the type ENUM sorts in declaration order, not alphabetically)
+ */
+export async function getTrackedInstruments(): Promise<TrackedInstrument[]> {
+    const [rows] = await pool.execute<TrackedInstrumentRow[]>(
+        `SELECT ${INSTRUMENT_COLUMNS} FROM tracked_instruments ORDER BY type, display_order, symbol`
+    );
+
+    return rows.map(mapTrackedInstrumentRow);
+}
+
+/**
+ * Get a tracked instrument by ID
+ */
+export async function getTrackedInstrumentById(id: number): Promise<TrackedInstrument | null> {
+    const [rows] = await pool.execute<TrackedInstrumentRow[]>(
+        `SELECT ${INSTRUMENT_COLUMNS} FROM tracked_instruments WHERE id = ?`,
+        [id]
+    );
+
+    return rows.length > 0 ? mapTrackedInstrumentRow(rows[0]) : null;
+}
+
+/**
+ * Create a tracked instrument
+ * @returns ID of the new instrument
+ */
+export async function createTrackedInstrument(data: TrackedInstrumentInput): Promise<number> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        `INSERT INTO tracked_instruments (type, symbol, name, unit, display_order, enabled)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [data.type, data.symbol, data.name, data.unit, data.displayOrder, data.enabled]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Update a tracked instrument
+ * @returns false if the instrument doesn't exist
+ */
+export async function updateTrackedInstrument(id: number, data: TrackedInstrumentInput): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        `UPDATE tracked_instruments
+        SET type = ?, symbol = ?, name = ?, unit = ?, display_order = ?, enabled = ?
+        WHERE id = ?`,
+        [data.type, data.symbol, data.name, data.unit, data.displayOrder, data.enabled, id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Delete a tracked instrument (stored rates and prices are kept)
+ * @returns false if the instrument doesn't exist
+ */
+export async function deleteTrackedInstrument(id: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM tracked_instruments WHERE id = ?',
+        [id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Convert a database row to TrackedInstrument
+ */
+function mapTrackedInstrumentRow(row: TrackedInstrumentRow): TrackedInstrument {
+    return {
+        id: row.id,
+        type: row.type,
+        symbol: row.symbol,
+        name: row.name,
+        unit: row.unit,
+        displayOrder: row.display_order,
+        enabled: Boolean(row.enabled)
+    };
+}
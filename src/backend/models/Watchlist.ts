@@ -0,0 +1,169 @@
+import pool from '../config/database';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { WatchlistItemType } from '../../frontend/services/interface';
+
+export interface WatchlistData {
+    id: number;
+    name: string;
+    createdAt: Date;
+}
+
+export interface WatchlistItemData {
+    id: number;
+    watchlistId: number;
+    symbol: string;         // Stock/ETF symbol, or 'FROM/TO' for currency pairs
+    itemType: WatchlistItemType;
+    createdAt: Date;
+}
+
+interface WatchlistRow extends RowDataPacket {
+    id: number;
+    name: string;
+    created_at: Date;
+}
+
+interface WatchlistItemRow extends RowDataPacket {
+    id: number;
+    watchlist_id: number;
+    symbol: string;
+    item_type: WatchlistItemType;
+    created_at: Date;
+}
+
+/**
+ * Create a watchlist
+ * @returns ID of the new watchlist
+ */
+export async function createWatchlist(name: string): Promise<number> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'INSERT INTO watchlists (name) VALUES (?)',
+        [name]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Get all watchlists, oldest first
+ */
+export async function getWatchlists(): Promise<WatchlistData[]> {
+    const [rows] = await pool.execute<WatchlistRow[]>(
+        'SELECT id, name, created_at FROM watchlists ORDER BY created_at ASC, id ASC'
+    );
+
+    return rows.map(mapWatchlistRow);
+}
+
+/**
+ * Get a watchlist by ID
+ */
+export async function getWatchlistById(id: number): Promise<WatchlistData | null> {
+    const [rows] = await pool.execute<WatchlistRow[]>(
+        'SELECT id, name, created_at FROM watchlists WHERE id = ?',
+        [id]
+    );
+
+    return rows.length > 0 ? mapWatchlistRow(rows[0]) : null;
+}
+
+/**
+ * Rename a watchlist
+ * @returns false if the watchlist doesn't exist
+ */
+export async function renameWatchlist(id: number, name: string): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'UPDATE watchlists SET name = ? WHERE id = ?',
+        [name, id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Delete a watchlist (its items are removed by ON DELETE CASCADE)
+ * @returns false if the watchlist doesn't exist
+ */
+export async function deleteWatchlist(id: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM watchlists WHERE id = ?',
+        [id]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Get items for one or more watchlists in a single query, in the order they were added
+ */
+export async function getWatchlistItems(watchlistIds: number[]): Promise<WatchlistItemData[]> {
+    if (watchlistIds.length === 0) return [];
+
+    const placeholders = watchlistIds.map(() => '?').join(', ');
+    const [rows] = await pool.execute<WatchlistItemRow[]>(
+        `SELECT id, watchlist_id, symbol, item_type, created_at
+        FROM watchlist_items
+        WHERE watchlist_id IN (${placeholders})
+        ORDER BY created_at ASC, id ASC`,
+        watchlistIds
+    );
+
+    return rows.map(mapWatchlistItemRow);
+}
+
+/**
+ * Add an item to a watchlist
+ * Adding an item that is already in the list is a no-op
+ * @returns ID of the new (or existing) item
+ */
+export async function addWatchlistItem(
+    watchlistId: number,
+    symbol: string,
+    itemType: WatchlistItemType
+): Promise<number> {
+    // LAST_INSERT_ID(id) makes insertId return the existing row on duplicates
+    const [result] = await pool.execute<ResultSetHeader>(
+        `INSERT INTO watchlist_items (watchlist_id, symbol, item_type)
+        VALUES (?, ?, ?)
+        ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)`,
+        [watchlistId, symbol, itemType]
+    );
+
+    return result.insertId;
+}
+
+/**
+ * Remove an item from a watchlist
+ * @returns false if the item doesn't exist in that watchlist
+ */
+export async function removeWatchlistItem(watchlistId: number, itemId: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM watchlist_items WHERE id = ? AND watchlist_id = ?',
+        [itemId, watchlistId]
+    );
+
+    return result.affectedRows > 0;
+}
+
+/**
+ * Convert a database row to WatchlistData
+ */
+function mapWatchlistRow(row: WatchlistRow): WatchlistData {
+    return {
+        id: row.id,
+        name: row.name,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Convert a database row to WatchlistItemData
+ */
+function mapWatchlistItemRow(row: WatchlistItemRow): WatchlistItemData {
+    return {
+        id: row.id,
+        watchlistId: row.watchlist_id,
+        symbol: row.symbol,
+        itemType: row.item_type,
+        createdAt: row.created_at
+    };
+}
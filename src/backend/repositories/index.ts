@@ -0,0 +1,11 @@
+import storageConfig from '../config/storage';
+import { createMemoryStorage } from './memoryStorage';
+import { createMySqlStorage } from './mysqlStorage';
+import type { Storage } from './types';
+
+/**
+ * Currency, commodity, news and tracked instrument storage selected by STORAGE_DRIVER
+ */
+const storage: Storage = storageConfig.driver === 'memory' ? createMemoryStorage() : createMySqlStorage();
+
+export default storage;
@@ -0,0 +1,310 @@
+/**
+ * In-memory news and news source storage
+ * Mirrors the MySQL models: same filters, ordering, source rules and NULL-as-0 sentiment
+ */
+import { emitMarketEvent } from '../services/marketEvents';
+import { scoreSearchMatches } from '../services/newsHighlighter';
+import {
+    entityMatchesFilters,
+    hasEntityFilters,
+    type NewsArticleWithRelations,
+    type NewsQueryFilters
+} from '../models/News';
+import { isSourceAllowed, type NewsSourceSetting } from '../models/NewsSource';
+import type { HeadlineRanking, MarketauxNewsArticle, SentimentHeatmapCell } from '../../frontend/services/interface';
+import type { NewsRepository, NewsSourceRepository } from './types';
+
+/**
+ * Normalize a datetime to an ISO string with second precision, like a DATETIME column read back
+ */
+function toStoredDateTime(value: string): string {
+    const time = new Date(value).getTime();
+    return new Date(isNaN(time) ? Date.now() : Math.floor(time / 1000) * 1000).toISOString();
+}
+
+/**
+ * Check a publication time (ISO string) against a date or an inclusive date range (YYYY-MM-DD)
+ */
+function inDateRange(publishedAt: string, range: { date?: string; fromDate?: string; toDate?: string }): boolean {
+    const date = publishedAt.slice(0, 10);
+    if (range.date) return date === range.date;
+    return (!range.fromDate || date >= range.fromDate) && (!range.toDate || date <= range.toDate);
+}
+
+/**
+ * Newest first; uuid breaks ties (descending, like the keyset pagination)
+ */
+function byPublishedDesc(a: NewsArticleWithRelations, b: NewsArticleWithRelations): number {
+    return b.published_at.localeCompare(a.published_at) || b.uuid.localeCompare(a.uuid);
+}
+
+/**
+ * Start of the bucket a date belongs to (weeks start on Monday)
+ */
+function bucketStart(date: string, bucket: 'day' | 'week'): string {
+    if (bucket === 'day') return date;
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().slice(0, 10);
+}
+
+const isKnown = (value: string) => value !== '' && value !== 'N/A';
+
+/**
+ * Create news and news source stores sharing the same in-memory data
+ */
+export function createMemoryNewsRepositories(): { news: NewsRepository; newsSources: NewsSourceRepository } {
+    const articles = new Map<string, NewsArticleWithRelations>();
+    const headlines = new Map<string, Map<string, HeadlineRanking>>();     // date -> uuid -> ranking
+    const sources = new Map<string, NewsSourceSetting>();
+
+    const visible = () => [...articles.values()].filter(article => isSourceAllowed(article.source, sources));
+    const copy = (article: NewsArticleWithRelations) => structuredClone(article);
+
+    const matchesFilters = (article: NewsArticleWithRelations, filters: NewsQueryFilters) => {
+        const entities = article.entities || [];
+        return inDateRange(article.published_at, filters)
+            && (!filters.languages?.length || filters.languages.includes(article.language))
+            && (!filters.mustHaveEntities || entities.length > 0)
+            && (!hasEntityFilters(filters) || entities.some(entity => entityMatchesFilters(entity, filters)));
+    };
+
+    // Keep only the matching entities when filterEntities is set
+    const withFilteredEntities = (article: NewsArticleWithRelations, filters: NewsQueryFilters) => {
+        const result = copy(article);
+        if (filters.filterEntities && hasEntityFilters(filters)) {
+            result.entities = result.entities?.filter(entity => entityMatchesFilters(entity, filters));
+        }
+        return result;
+    };
+
+    const news: NewsRepository = {
+        async saveNewsArticleWithRelations(article: MarketauxNewsArticle) {
+            const existing = articles.get(article.uuid);
+
+            articles.set(article.uuid, {
+                uuid: article.uuid,
+                title: article.title,
+                description: article.description || undefined,
+                snippet: article.snippet || undefined,
+                url: article.url,
+                image_url: article.image_url || undefined,
+                language: article.language,
+                published_at: toStoredDateTime(article.published_at),
+                source: article.source,
+                // Relations are only replaced when the article comes with some
+                categories: article.categories?.length ? [...article.categories] : existing?.categories || [],
+                entities: article.entities?.length
+                    ? article.entities.map(entity => ({
+                        symbol: entity.symbol || '',
+                        name: entity.name,
+                        exchange: entity.exchange || '',
+                        exchange_long: entity.exchange_long || '',
+                        country: entity.country || '',
+                        type: entity.type || '',
+                        industry: entity.industry || '',
+                        match_score: entity.match_score || 0,
+                        sentiment_score: entity.sentiment_score || 0,
+                        highlights: (entity.highlights || []).map(h => ({
+                            highlight: h.highlight,
+                            sentiment: h.sentiment || 0,
+                            highlighted_in: h.highlighted_in || ''
+                        }))
+                    }))
+                    : existing?.entities || [],
+                similar: article.similar?.length
+                    ? article.similar.map(s => ({
+                        uuid: s.uuid,
+                        title: s.title || '',
+                        published_at: s.published_at ? toStoredDateTime(s.published_at) : '',
+                        source: s.source || ''
+                    }))
+                    : existing?.similar || []
+            });
+
+            if (!existing) {
+                emitMarketEvent('news-article', article);
+            }
+        },
+
+        async getNewsByDate(date, languages) {
+            return visible()
+                .filter(article => matchesFilters(article, { date, languages }))
+                .sort(byPublishedDesc)
+                .map(copy);
+        },
+
+        async checkNewsExistsForDate(date, language) {
+            return [...articles.values()].some(article =>
+                inDateRange(article.published_at, { date }) && (!language || article.language === language)
+            );
+        },
+
+        async queryNews(filters, limit = 50, offset = 0) {
+            const matches = visible().filter(article => matchesFilters(article, filters)).sort(byPublishedDesc);
+            const start = Math.max(0, Math.floor(offset));
+
+            return {
+                articles: matches
+                    .slice(start, start + Math.max(1, Math.floor(limit)))
+                    .map(article => withFilteredEntities(article, filters)),
+                total: matches.length
+            };
+        },
+
+        async queryNewsAfter(filters, limit = 50, cursor) {
+            const after = cursor ? toStoredDateTime(cursor.publishedAt) : undefined;
+            const pageSize = Math.max(1, Math.floor(limit));
+            const matches = visible()
+                .filter(article => matchesFilters(article, filters))
+                .filter(article => !cursor || !after
+                    || article.published_at < after
+                    || (article.published_at === after && article.uuid < cursor.uuid))
+                .sort(byPublishedDesc);
+
+            const page = matches.slice(0, pageSize).map(article => withFilteredEntities(article, filters));
+            const last = page[page.length - 1];
+
+            return {
+                articles: page,
+                nextCursor: matches.length > pageSize && last ? { publishedAt: last.published_at, uuid: last.uuid } : null
+            };
+        },
+
+        async searchNewsArticles(terms, fromDate, toDate, limit = 20) {
+            return visible()
+                .filter(article => inDateRange(article.published_at, { fromDate, toDate }))
+                .map(article => ({
+                    article,
+                    relevance: [article.title, article.description, article.snippet]
+                        .concat((article.entities || []).flatMap(e => (e.highlights || []).map(h => h.highlight)))
+                        .reduce((sum, text) => sum + scoreSearchMatches(text, terms), 0)
+                }))
+                .filter(result => result.relevance > 0)
+                .sort((a, b) => b.relevance - a.relevance || byPublishedDesc(a.article, b.article))
+                .slice(0, Math.max(1, Math.floor(limit)))
+                .map(({ article, relevance }) => ({ ...copy(article), relevance }));
+        },
+
+        async getSentimentSeries(symbol, fromDate, toDate, bucket) {
+            const buckets = new Map<string, { uuids: Set<string>; sentiments: number[]; weighted: number; weights: number }>();
+
+            for (const article of visible()) {
+                if (!inDateRange(article.published_at, { fromDate, toDate })) continue;
+                const key = bucketStart(article.published_at.slice(0, 10), bucket);
+
+                for (const entity of article.entities || []) {
+                    if (entity.symbol.toLowerCase() !== symbol.toLowerCase()) continue;
+                    const stats = buckets.get(key) || { uuids: new Set(), sentiments: [], weighted: 0, weights: 0 };
+                    stats.uuids.add(article.uuid);
+                    stats.sentiments.push(entity.sentiment_score);
+                    stats.weighted += entity.sentiment_score * entity.match_score;
+                    stats.weights += entity.match_score;
+                    buckets.set(key, stats);
+                }
+            }
+
+            return [...buckets.entries()]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, stats]) => ({
+                    bucket: key,
+                    articleCount: stats.uuids.size,
+                    meanSentiment: stats.sentiments.reduce((sum, s) => sum + s, 0) / stats.sentiments.length,
+                    weightedSentiment: stats.weights !== 0 ? stats.weighted / stats.weights : null,
+                    minSentiment: Math.min(...stats.sentiments),
+                    maxSentiment: Math.max(...stats.sentiments)
+                }));
+        },
+
+        async getSentimentHeatmap(fromDate, toDate, entityType) {
+            const cells = new Map<string, { cell: SentimentHeatmapCell; uuids: Set<string>; total: number }>();
+
+            for (const article of visible()) {
+                if (!inDateRange(article.published_at, { fromDate, toDate })) continue;
+
+                for (const entity of article.entities || []) {
+                    if (!isKnown(entity.industry) || !isKnown(entity.country)) continue;
+                    if (entityType && entity.type.toLowerCase() !== entityType.toLowerCase()) continue;
+
+                    const key = `${entity.industry}\u0000${entity.country}`;
+                    const entry = cells.get(key) || {
+                        cell: { industry: entity.industry, country: entity.country, articleCount: 0, entityCount: 0, meanSentiment: 0 },
+                        uuids: new Set<string>(),
+                        total: 0
+                    };
+                    entry.uuids.add(article.uuid);
+                    entry.cell.entityCount++;
+                    entry.total += entity.sentiment_score;
+                    cells.set(key, entry);
+                }
+            }
+
+            return [...cells.values()]
+                .map(({ cell, uuids, total }) => ({
+                    ...cell,
+                    articleCount: uuids.size,
+                    meanSentiment: total / cell.entityCount
+                }))
+                .sort((a, b) => b.articleCount - a.articleCount);
+        },
+
+        async getHeadlineNews(date, languages) {
+            const rankings = headlines.get(date) || new Map<string, HeadlineRanking>();
+            const priority = (uuid: string) => Math.round((rankings.get(uuid)?.score || 0) * 1000);
+
+            return visible()
+                .filter(article => rankings.has(article.uuid))
+                .filter(article => !languages?.length || languages.includes(article.language))
+                .sort((a, b) => priority(b.uuid) - priority(a.uuid) || b.published_at.localeCompare(a.published_at))
+                .map(article => ({ ...copy(article), ranking: structuredClone(rankings.get(article.uuid)) }));
+        },
+
+        async saveHeadlineRankings(date, rankings) {
+            headlines.set(date, new Map(rankings.map(({ uuid, ranking }) => [uuid, structuredClone(ranking)])));
+        }
+    };
+
+    const newsSources: NewsSourceRepository = {
+        async getNewsSourceSettings() {
+            return new Map(
+                [...sources.entries()]
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([domain, setting]) => [domain, { ...setting }])
+            );
+        },
+
+        async upsertNewsSource(setting) {
+            sources.set(setting.domain, { ...setting });
+        },
+
+        async deleteNewsSource(domain) {
+            return sources.delete(domain);
+        },
+
+        // Includes denied sources so they can be reviewed
+        async getNewsSourceStats() {
+            const stats = new Map<string, { count: number; sentiments: number[]; lastSeen: string }>();
+
+            for (const article of articles.values()) {
+                const entry = stats.get(article.source) || { count: 0, sentiments: [], lastSeen: article.published_at };
+                entry.count++;
+                entry.sentiments.push(...(article.entities || []).map(entity => entity.sentiment_score));
+                if (article.published_at > entry.lastSeen) entry.lastSeen = article.published_at;
+                stats.set(article.source, entry);
+            }
+
+            return [...stats.entries()]
+                .map(([domain, entry]) => ({
+                    domain,
+                    articleCount: entry.count,
+                    meanSentiment: entry.sentiments.length > 0
+                        ? entry.sentiments.reduce((sum, s) => sum + s, 0) / entry.sentiments.length
+                        : null,
+                    lastSeenAt: new Date(entry.lastSeen)
+                }))
+                .sort((a, b) => b.articleCount - a.articleCount);
+        }
+    };
+
+    return { news, newsSources };
+}
@@ -0,0 +1,159 @@
+import { emitMarketEvent } from '../services/marketEvents';
+import type { CurrencyRateData } from '../models/CurrencyRate';
+import type { CommodityPriceData } from '../models/CommodityPrice';
+import type { StockQuoteData } from '../models/StockQuote';
+import { DEFAULT_INSTRUMENTS } from '../migrations/011_tracked_instruments';
+import type { Candle, InstrumentType, TrackedInstrument } from '../../frontend/services/interface';
+import { createMemoryNewsRepositories } from './memoryNews';
+import { createMemoryUserDataRepositories } from './memoryUserData';
+import type { Storage } from './types';
+
+// Instrument types in listing order, like the tracked_instruments.type ENUM (currencies first)
+const INSTRUMENT_TYPE_ORDER: InstrumentType[] = ['currency', 'commodity'];
+
+/**
+ * Rows of the most recent date among rows with a date
+ */
+function latestRows<T extends { date: string }>(rows: T[]): T[] {
+    const latest = rows.reduce((max, row) => (row.date > max ? row.date : max), '');
+    return rows.filter(row => row.date === latest);
+}
+
+/**
+ * In-memory storage for every model: nothing is persisted, every start begins empty (instruments start from the defaults)
+ * Saves notify market event listeners like the MySQL models
+ */
+export function createMemoryStorage(): Storage {
+    const currencyRates = new Map<string, CurrencyRateData>();      // from/to/date -> rate
+    const commodityPrices = new Map<string, CommodityPriceData>();  // symbol/date -> price
+    const stockQuotes = new Map<string, StockQuoteData>();          // symbol/date -> quote
+    // symbol/interval -> 'YYYY-MM-DD HH:MM:SS' -> candle
+    const stockCandles = new Map<string, Map<string, { candle: Candle; updatedAt: Date }>>();
+    const instruments = new Map<number, TrackedInstrument>(
+        DEFAULT_INSTRUMENTS.map((instrument, index) => [index + 1, { id: index + 1, ...instrument }])
+    );
+    let nextInstrumentId = instruments.size + 1;
+
+    return {
+        currencyRates: {
+            async saveCurrencyRate(data) {
+                currencyRates.set(`${data.fromCurrency}/${data.toCurrency}/${data.date}`, { ...data });
+                emitMarketEvent('currency-rate', data);
+            },
+            async getCurrencyRatesByDate(date) {
+                return [...currencyRates.values()].filter(rate => rate.date === date).map(rate => ({ ...rate }));
+            },
+            async getLatestCurrencyRates() {
+                return latestRows([...currencyRates.values()]).map(rate => ({ ...rate }));
+            },
+            async getCurrencyRatesInRange(fromCurrency, toCurrency, fromDate, toDate) {
+                return [...currencyRates.values()]
+                    .filter(rate => rate.fromCurrency === fromCurrency && rate.toCurrency === toCurrency
+                        && rate.date >= fromDate && rate.date <= toDate)
+                    .sort((a, b) => a.date.localeCompare(b.date))
+                    .map(rate => ({ ...rate }));
+            }
+        },
+        commodityPrices: {
+            async saveCommodityPrice(data) {
+                commodityPrices.set(`${data.symbol}/${data.date}`, { ...data });
+                emitMarketEvent('commodity-price', data);
+            },
+            async getCommodityPricesByDate(date) {
+                return [...commodityPrices.values()].filter(price => price.date === date).map(price => ({ ...price }));
+            },
+            async getLatestCommodityPrices() {
+                return latestRows([...commodityPrices.values()]).map(price => ({ ...price }));
+            },
+            async getCommodityPricesInRange(symbol, fromDate, toDate) {
+                return [...commodityPrices.values()]
+                    .filter(price => price.symbol === symbol && price.date >= fromDate && price.date <= toDate)
+                    .sort((a, b) => a.date.localeCompare(b.date))
+                    .map(price => ({ ...price }));
+            }
+        },
+        stockQuotes: {
+            async saveStockQuote(data) {
+                stockQuotes.set(`${data.symbol}/${data.date}`, { ...data, updatedAt: new Date() });
+                emitMarketEvent('stock-quote', data);
+            },
+            async getStockQuoteByDate(symbol, date) {
+                const quote = stockQuotes.get(`${symbol}/${date}`);
+                return quote ? { ...quote } : null;
+            },
+            async getLatestStockQuotes(symbols) {
+                return symbols.flatMap(symbol => {
+                    const rows = [...stockQuotes.values()].filter(quote => quote.symbol === symbol);
+                    return latestRows(rows).map(quote => ({ ...quote }));
+                });
+            }
+        },
+        stockCandles: {
+            async saveStockCandles(symbol, interval, candles) {
+                const key = `${symbol}/${interval}`;
+                const series = stockCandles.get(key) || new Map();
+                const updatedAt = new Date();
+                for (const candle of candles) {
+                    const timestamp = candle.timestamp.length === 10 ? `${candle.timestamp} 00:00:00` : candle.timestamp;
+                    series.set(timestamp, { candle: { ...candle, timestamp }, updatedAt });
+                }
+                stockCandles.set(key, series);
+            },
+            // Daily candles are returned with date-only timestamps, like the MySQL model
+            async getStockCandles(symbol, interval, from, to) {
+                const end = to && to.length === 10 ? `${to} 23:59:59` : to;
+                return [...(stockCandles.get(`${symbol}/${interval}`)?.values() || [])]
+                    .map(entry => entry.candle)
+                    .filter(candle => (!from || candle.timestamp >= from) && (!end || candle.timestamp <= end))
+                    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                    .map(candle => ({ ...candle, timestamp: interval === 'daily' ? candle.timestamp.slice(0, 10) : candle.timestamp }));
+            },
+            async getRecentCandleDates(symbol, interval, days) {
+                const dates = new Set([...(stockCandles.get(`${symbol}/${interval}`)?.keys() || [])].map(timestamp => timestamp.slice(0, 10)));
+                return [...dates].sort().reverse().slice(0, Math.max(1, Math.floor(days)));
+            },
+            async getCandlesLastUpdated(symbol, interval) {
+                const times = [...(stockCandles.get(`${symbol}/${interval}`)?.values() || [])].map(entry => entry.updatedAt.getTime());
+                return times.length > 0 ? new Date(Math.max(...times)) : null;
+            }
+        },
+        instruments: {
+            async getTrackedInstruments() {
+                return [...instruments.values()]
+                    .sort((a, b) =>
+                        INSTRUMENT_TYPE_ORDER.indexOf(a.type) - INSTRUMENT_TYPE_ORDER.indexOf(b.type) ||
+                        a.displayOrder - b.displayOrder ||
+                        a.symbol.localeCompare(b.symbol)
+                    )
+                    .map(instrument => ({ ...instrument }));
+            },
+            async getTrackedInstrumentById(id) {
+                const instrument = instruments.get(id);
+                return instrument ? { ...instrument } : null;
+            },
+            // Same error code as the unique key on (type, symbol) in MySQL
+            async createTrackedInstrument(data) {
+                const duplicate = [...instruments.values()].some(instrument =>
+                    instrument.type === data.type && instrument.symbol === data.symbol
+                );
+                if (duplicate) {
+                    throw Object.assign(new Error(`Duplicate entry '${data.type}-${data.symbol}'`), { code: 'ER_DUP_ENTRY' });
+                }
+
+                const id = nextInstrumentId++;
+                instruments.set(id, { id, ...data });
+                return id;
+            },
+            async updateTrackedInstrument(id, data) {
+                if (!instruments.has(id)) return false;
+                instruments.set(id, { id, ...data });
+                return true;
+            },
+            async deleteTrackedInstrument(id) {
+                return instruments.delete(id);
+            }
+        },
+        ...createMemoryNewsRepositories(),
+        ...createMemoryUserDataRepositories()
+    };
+}
@@ -0,0 +1,217 @@
+/**
+ * In-memory watchlist, portfolio and alert storage
+ * Mirrors the MySQL models: same ordering, duplicate handling and cascading deletes
+ */
+import type { AlertRuleData } from '../models/Alert';
+import type { WatchlistData, WatchlistItemData } from '../models/Watchlist';
+import type { AlertRepository, PortfolioRepository, WatchlistRepository } from './types';
+import type { AlertTrigger, Portfolio, PortfolioTransaction } from '../../frontend/services/interface';
+
+/**
+ * Create watchlist, portfolio and alert stores
+ */
+export function createMemoryUserDataRepositories(): {
+    watchlists: WatchlistRepository;
+    portfolios: PortfolioRepository;
+    alerts: AlertRepository;
+} {
+    const watchlistRows = new Map<number, WatchlistData>();
+    const watchlistItems = new Map<number, WatchlistItemData>();
+    const portfolioRows = new Map<number, Portfolio>();
+    const transactions = new Map<number, { portfolioId: number; tx: PortfolioTransaction }>();
+    const alertRows = new Map<number, AlertRuleData>();
+    const triggers = new Map<number, Omit<AlertTrigger, 'alertName' | 'symbol'>>();
+
+    // IDs are never reused, like AUTO_INCREMENT
+    const nextIds = { watchlist: 1, watchlistItem: 1, portfolio: 1, transaction: 1, alert: 1, trigger: 1 };
+
+    const watchlists: WatchlistRepository = {
+        async createWatchlist(name) {
+            const id = nextIds.watchlist++;
+            watchlistRows.set(id, { id, name, createdAt: new Date() });
+            return id;
+        },
+
+        async getWatchlists() {
+            return [...watchlistRows.values()].map(watchlist => ({ ...watchlist }));
+        },
+
+        async getWatchlistById(id) {
+            const watchlist = watchlistRows.get(id);
+            return watchlist ? { ...watchlist } : null;
+        },
+
+        async renameWatchlist(id, name) {
+            const watchlist = watchlistRows.get(id);
+            if (!watchlist) return false;
+            watchlist.name = name;
+            return true;
+        },
+
+        async deleteWatchlist(id) {
+            for (const item of watchlistItems.values()) {
+                if (item.watchlistId === id) watchlistItems.delete(item.id);
+            }
+            return watchlistRows.delete(id);
+        },
+
+        async getWatchlistItems(watchlistIds) {
+            return [...watchlistItems.values()]
+                .filter(item => watchlistIds.includes(item.watchlistId))
+                .map(item => ({ ...item }));
+        },
+
+        // Adding an item that is already in the list returns the existing item
+        async addWatchlistItem(watchlistId, symbol, itemType) {
+            const existing = [...watchlistItems.values()].find(item =>
+                item.watchlistId === watchlistId && item.symbol === symbol && item.itemType === itemType
+            );
+            if (existing) return existing.id;
+
+            const id = nextIds.watchlistItem++;
+            watchlistItems.set(id, { id, watchlistId, symbol, itemType, createdAt: new Date() });
+            return id;
+        },
+
+        async removeWatchlistItem(watchlistId, itemId) {
+            if (watchlistItems.get(itemId)?.watchlistId !== watchlistId) return false;
+            return watchlistItems.delete(itemId);
+        }
+    };
+
+    const portfolios: PortfolioRepository = {
+        async createPortfolio(name, baseCurrency, costMethod) {
+            const id = nextIds.portfolio++;
+            portfolioRows.set(id, { id, name, baseCurrency, costMethod, createdAt: new Date().toISOString() });
+            return id;
+        },
+
+        async getPortfolios() {
+            return [...portfolioRows.values()].map(portfolio => ({ ...portfolio }));
+        },
+
+        async getPortfolioById(id) {
+            const portfolio = portfolioRows.get(id);
+            return portfolio ? { ...portfolio } : null;
+        },
+
+        async updatePortfolio(id, settings) {
+            const portfolio = portfolioRows.get(id);
+            if (portfolio) portfolioRows.set(id, { ...portfolio, ...settings });
+        },
+
+        async deletePortfolio(id) {
+            for (const [txId, entry] of transactions) {
+                if (entry.portfolioId === id) transactions.delete(txId);
+            }
+            return portfolioRows.delete(id);
+        },
+
+        // By trade date, then in the order they were saved
+        async getPortfolioTransactions(portfolioId) {
+            return [...transactions.values()]
+                .filter(entry => entry.portfolioId === portfolioId)
+                .map(entry => ({ ...entry.tx }))
+                .sort((a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.id - b.id);
+        },
+
+        async savePortfolioTransaction(portfolioId, tx) {
+            const id = nextIds.transaction++;
+            transactions.set(id, { portfolioId, tx: { ...tx, id } });
+            return id;
+        },
+
+        async deletePortfolioTransaction(portfolioId, transactionId) {
+            if (transactions.get(transactionId)?.portfolioId !== portfolioId) return false;
+            return transactions.delete(transactionId);
+        }
+    };
+
+    const alerts: AlertRepository = {
+        async createAlert(data) {
+            const id = nextIds.alert++;
+            alertRows.set(id, {
+                ...data,
+                id,
+                state: null,
+                lastValue: null,
+                lastTriggeredAt: null,
+                createdAt: new Date().toISOString()
+            });
+            return id;
+        },
+
+        // Newest first
+        async getAlerts() {
+            return [...alertRows.values()].reverse().map(rule => ({ ...rule }));
+        },
+
+        async getAlertById(id) {
+            const rule = alertRows.get(id);
+            return rule ? { ...rule } : null;
+        },
+
+        async getEnabledAlertsForSymbol(kind, symbol, targetType) {
+            return [...alertRows.values()]
+                .filter(rule => rule.enabled && rule.kind === kind && rule.symbol === symbol
+                    && (targetType === undefined || rule.targetType === targetType))
+                .map(rule => ({ ...rule }));
+        },
+
+        async updateAlert(id, data, resetState) {
+            const rule = alertRows.get(id);
+            if (!rule) return;
+            alertRows.set(id, {
+                ...rule,
+                ...data,
+                state: resetState ? null : rule.state,
+                lastValue: resetState ? null : rule.lastValue
+            });
+        },
+
+        async deleteAlert(id) {
+            for (const trigger of triggers.values()) {
+                if (trigger.alertId === id) triggers.delete(trigger.id);
+            }
+            return alertRows.delete(id);
+        },
+
+        async saveAlertState(id, state, lastValue, triggeredAt) {
+            const rule = alertRows.get(id);
+            if (!rule) return;
+            rule.state = state;
+            rule.lastValue = lastValue;
+            if (triggeredAt) rule.lastTriggeredAt = triggeredAt.toISOString();
+        },
+
+        async saveAlertTrigger(alertId, value, message, newsUuid = null) {
+            const id = nextIds.trigger++;
+            triggers.set(id, { id, alertId, value, message, newsUuid, acknowledged: false, triggeredAt: new Date().toISOString() });
+        },
+
+        // Newest first, with the rule's name and symbol
+        async getAlertTriggers(options) {
+            const afterId = options.afterId || 0;
+            return [...triggers.values()]
+                .filter(trigger => trigger.id > afterId && (!options.unacknowledgedOnly || !trigger.acknowledged))
+                .reverse()
+                .slice(0, Math.max(1, Math.floor(options.limit)))
+                .flatMap(trigger => {
+                    const rule = alertRows.get(trigger.alertId);
+                    return rule ? [{ ...trigger, alertName: rule.name, symbol: rule.symbol }] : [];
+                });
+        },
+
+        async countUnacknowledgedTriggers() {
+            return [...triggers.values()].filter(trigger => !trigger.acknowledged).length;
+        },
+
+        async acknowledgeAlertTriggers(ids) {
+            for (const trigger of triggers.values()) {
+                if (!ids || ids.includes(trigger.id)) trigger.acknowledged = true;
+            }
+        }
+    };
+
+    return { watchlists, portfolios, alerts };
+}
@@ -0,0 +1,169 @@
+import {
+    acknowledgeAlertTriggers,
+    countUnacknowledgedTriggers,
+    createAlert,
+    deleteAlert,
+    getAlertById,
+    getAlerts,
+    getAlertTriggers,
+    getEnabledAlertsForSymbol,
+    saveAlertState,
+    saveAlertTrigger,
+    updateAlert
+} from '../models/Alert';
+import {
+    getCurrencyRatesByDate,
+    getCurrencyRatesInRange,
+    getLatestCurrencyRates,
+    saveCurrencyRate
+} from '../models/CurrencyRate';
+import {
+    getCommodityPricesByDate,
+    getCommodityPricesInRange,
+    getLatestCommodityPrices,
+    saveCommodityPrice
+} from '../models/CommodityPrice';
+import {
+    createPortfolio,
+    deletePortfolio,
+    deletePortfolioTransaction,
+    getPortfolioById,
+    getPortfolios,
+    getPortfolioTransactions,
+    savePortfolioTransaction,
+    updatePortfolio
+} from '../models/Portfolio';
+import {
+    getCandlesLastUpdated,
+    getRecentCandleDates,
+    getStockCandles,
+    saveStockCandles
+} from '../models/StockCandle';
+import { getLatestStockQuotes, getStockQuoteByDate, saveStockQuote } from '../models/StockQuote';
+import {
+    checkNewsExistsForDate,
+    getHeadlineNews,
+    getNewsByDate,
+    getSentimentHeatmap,
+    getSentimentSeries,
+    queryNews,
+    queryNewsAfter,
+    saveHeadlineRankings,
+    saveNewsArticleWithRelations,
+    searchNewsArticles
+} from '../models/News';
+import {
+    deleteNewsSource,
+    getNewsSourceSettings,
+    getNewsSourceStats,
+    upsertNewsSource
+} from '../models/NewsSource';
+import {
+    createTrackedInstrument,
+    deleteTrackedInstrument,
+    getTrackedInstrumentById,
+    getTrackedInstruments,
+    updateTrackedInstrument
+} from '../models/TrackedInstrument';
+import {
+    addWatchlistItem,
+    createWatchlist,
+    deleteWatchlist,
+    getWatchlistById,
+    getWatchlistItems,
+    getWatchlists,
+    removeWatchlistItem,
+    renameWatchlist
+} from '../models/Watchlist';
+import { toBooleanQuery } from '../services/newsHighlighter';
+import type { Storage } from './types';
+
+/**
+ * Storage backed by the MySQL models
+ */
+export function createMySqlStorage(): Storage {
+    return {
+        currencyRates: {
+            saveCurrencyRate,
+            getCurrencyRatesByDate,
+            getLatestCurrencyRates,
+            getCurrencyRatesInRange
+        },
+        commodityPrices: {
+            saveCommodityPrice,
+            getCommodityPricesByDate,
+            getLatestCommodityPrices,
+            getCommodityPricesInRange
+        },
+        stockQuotes: {
+            saveStockQuote,
+            getStockQuoteByDate,
+            getLatestStockQuotes
+        },
+        stockCandles: {
+            saveStockCandles,
+            getStockCandles,
+            getRecentCandleDates,
+            getCandlesLastUpdated
+        },
+        news: {
+            saveNewsArticleWithRelations,
+            getNewsByDate,
+            checkNewsExistsForDate,
+            queryNews,
+            queryNewsAfter,
+            searchNewsArticles: (terms, fromDate, toDate, limit) =>
+                searchNewsArticles(toBooleanQuery(terms), fromDate, toDate, limit),
+            getSentimentSeries,
+            getSentimentHeatmap,
+            getHeadlineNews,
+            saveHeadlineRankings
+        },
+        newsSources: {
+            getNewsSourceSettings,
+            upsertNewsSource,
+            deleteNewsSource,
+            getNewsSourceStats
+        },
+        instruments: {
+            getTrackedInstruments,
+            getTrackedInstrumentById,
+            createTrackedInstrument,
+            updateTrackedInstrument,
+            deleteTrackedInstrument
+        },
+        watchlists: {
+            createWatchlist,
+            getWatchlists,
+            getWatchlistById,
+            renameWatchlist,
+            deleteWatchlist,
+            getWatchlistItems,
+            addWatchlistItem,
+            removeWatchlistItem
+        },
+        portfolios: {
+            createPortfolio,
+            getPortfolios,
+            getPortfolioById,
+            updatePortfolio,
+            deletePortfolio,
+            getPortfolioTransactions,
+            savePortfolioTransaction,
+            deletePortfolioTransaction
+        },
+        alerts: {
+            createAlert,
+            getAlerts,
+            getAlertById,
+            getEnabledAlertsForSymbol,
+            updateAlert,
+            deleteAlert,
+            saveAlertState,
+            saveAlertTrigger,
+            getAlertTriggers,
+            countUnacknowledgedTriggers,
+            acknowledgeAlertTriggers
+        }
+    };
+}
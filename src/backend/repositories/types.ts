@@ -0,0 +1,177 @@
+/**
+ * Storage interfaces for every persisted model (market data, news, user lists and settings)
+ * Implemented by the MySQL models (mysqlStorage) and in memory (memoryStorage)
+ */
+import type { AlertRuleData, AlertRuleInput } from '../models/Alert';
+import type { CurrencyRateData } from '../models/CurrencyRate';
+import type { CommodityPriceData } from '../models/CommodityPrice';
+import type {
+    NewsArticleWithRelations,
+    NewsCursor,
+    NewsQueryFilters
+} from '../models/News';
+import type { NewsSourceSetting, NewsSourceStats } from '../models/NewsSource';
+import type { StoredCandleInterval } from '../models/StockCandle';
+import type { StockQuoteData } from '../models/StockQuote';
+import type { TrackedInstrumentInput } from '../models/TrackedInstrument';
+import type { WatchlistData, WatchlistItemData } from '../models/Watchlist';
+import type { AlertState } from '../services/alertEvaluator';
+import type { SearchTerm } from '../services/newsHighlighter';
+import type {
+    AlertKind,
+    AlertTargetType,
+    AlertTrigger,
+    Candle,
+    CostMethod,
+    HeadlineRanking,
+    MarketauxNewsArticle,
+    Portfolio,
+    PortfolioTransaction,
+    SentimentBucket,
+    SentimentHeatmapCell,
+    SentimentPoint,
+    TrackedInstrument,
+    WatchlistItemType
+} from '../../frontend/services/interface';
+
+export interface CurrencyRateRepository {
+    saveCurrencyRate(data: CurrencyRateData): Promise<void>;
+    getCurrencyRatesByDate(date: string): Promise<CurrencyRateData[]>;
+    getLatestCurrencyRates(): Promise<CurrencyRateData[]>;
+    getCurrencyRatesInRange(
+        fromCurrency: string,
+        toCurrency: string,
+        fromDate: string,
+        toDate: string
+    ): Promise<CurrencyRateData[]>;
+}
+
+export interface CommodityPriceRepository {
+    saveCommodityPrice(data: CommodityPriceData): Promise<void>;
+    getCommodityPricesByDate(date: string): Promise<CommodityPriceData[]>;
+    getLatestCommodityPrices(): Promise<CommodityPriceData[]>;
+    getCommodityPricesInRange(symbol: string, fromDate: string, toDate: string): Promise<CommodityPriceData[]>;
+}
+
+/**
+ * One quote per symbol per day; saves notify market event listeners
+ */
+export interface StockQuoteRepository {
+    saveStockQuote(data: StockQuoteData): Promise<void>;
+    getStockQuoteByDate(symbol: string, date: string): Promise<StockQuoteData | null>;
+    getLatestStockQuotes(symbols: string[]): Promise<StockQuoteData[]>;
+}
+
+export interface StockCandleRepository {
+    saveStockCandles(symbol: string, interval: StoredCandleInterval, candles: Candle[]): Promise<void>;
+    getStockCandles(symbol: string, interval: StoredCandleInterval, from?: string, to?: string): Promise<Candle[]>;
+    getRecentCandleDates(symbol: string, interval: StoredCandleInterval, days: number): Promise<string[]>;
+    getCandlesLastUpdated(symbol: string, interval: StoredCandleInterval): Promise<Date | null>;
+}
+
+/**
+ * Stored news; reads leave out articles from blocked sources (see NewsSourceRepository)
+ */
+export interface NewsRepository {
+    saveNewsArticleWithRelations(article: MarketauxNewsArticle): Promise<void>;
+    getNewsByDate(date: string, languages?: string[]): Promise<NewsArticleWithRelations[]>;
+    checkNewsExistsForDate(date: string, language?: string): Promise<boolean>;
+    queryNews(
+        filters: NewsQueryFilters,
+        limit?: number,
+        offset?: number
+    ): Promise<{ articles: NewsArticleWithRelations[]; total: number }>;
+    queryNewsAfter(
+        filters: NewsQueryFilters,
+        limit?: number,
+        cursor?: NewsCursor
+    ): Promise<{ articles: NewsArticleWithRelations[]; nextCursor: NewsCursor | null }>;
+    searchNewsArticles(
+        terms: SearchTerm[],
+        fromDate?: string,
+        toDate?: string,
+        limit?: number
+    ): Promise<(NewsArticleWithRelations & { relevance: number })[]>;
+    getSentimentSeries(
+        symbol: string,
+        fromDate: string,
+        toDate: string,
+        bucket: SentimentBucket
+    ): Promise<SentimentPoint[]>;
+    getSentimentHeatmap(fromDate: string, toDate: string, entityType?: string): Promise<SentimentHeatmapCell[]>;
+    getHeadlineNews(date: string, languages?: string[]): Promise<NewsArticleWithRelations[]>;
+    saveHeadlineRankings(date: string, headlines: { uuid: string; ranking: HeadlineRanking }[]): Promise<void>;
+}
+
+export interface NewsSourceRepository {
+    getNewsSourceSettings(): Promise<Map<string, NewsSourceSetting>>;
+    upsertNewsSource(setting: NewsSourceSetting): Promise<void>;
+    deleteNewsSource(domain: string): Promise<boolean>;
+    getNewsSourceStats(): Promise<NewsSourceStats[]>;
+}
+
+/**
+ * Currency pairs and commodity ETFs to ingest; createTrackedInstrument returns the new ID
+ */
+export interface TrackedInstrumentRepository {
+    getTrackedInstruments(): Promise<TrackedInstrument[]>;
+    getTrackedInstrumentById(id: number): Promise<TrackedInstrument | null>;
+    createTrackedInstrument(data: TrackedInstrumentInput): Promise<number>;
+    updateTrackedInstrument(id: number, data: TrackedInstrumentInput): Promise<boolean>;
+    deleteTrackedInstrument(id: number): Promise<boolean>;
+}
+
+/**
+ * Watchlists and their items; create/add return the new (or existing) ID
+ */
+export interface WatchlistRepository {
+    createWatchlist(name: string): Promise<number>;
+    getWatchlists(): Promise<WatchlistData[]>;
+    getWatchlistById(id: number): Promise<WatchlistData | null>;
+    renameWatchlist(id: number, name: string): Promise<boolean>;
+    deleteWatchlist(id: number): Promise<boolean>;
+    getWatchlistItems(watchlistIds: number[]): Promise<WatchlistItemData[]>;
+    addWatchlistItem(watchlistId: number, symbol: string, itemType: WatchlistItemType): Promise<number>;
+    removeWatchlistItem(watchlistId: number, itemId: number): Promise<boolean>;
+}
+
+export interface PortfolioRepository {
+    createPortfolio(name: string, baseCurrency: string, costMethod: CostMethod): Promise<number>;
+    getPortfolios(): Promise<Portfolio[]>;
+    getPortfolioById(id: number): Promise<Portfolio | null>;
+    updatePortfolio(id: number, settings: { name: string; baseCurrency: string; costMethod: CostMethod }): Promise<void>;
+    deletePortfolio(id: number): Promise<boolean>;
+    getPortfolioTransactions(portfolioId: number): Promise<PortfolioTransaction[]>;
+    savePortfolioTransaction(portfolioId: number, tx: Omit<PortfolioTransaction, 'id'>): Promise<number>;
+    deletePortfolioTransaction(portfolioId: number, transactionId: number): Promise<boolean>;
+}
+
+/**
+ * Alert rules with their evaluation state, and the trigger history
+ */
+export interface AlertRepository {
+    createAlert(data: AlertRuleInput): Promise<number>;
+    getAlerts(): Promise<AlertRuleData[]>;
+    getAlertById(id: number): Promise<AlertRuleData | null>;
+    getEnabledAlertsForSymbol(kind: AlertKind, symbol: string, targetType?: AlertTargetType): Promise<AlertRuleData[]>;
+    updateAlert(id: number, data: AlertRuleInput, resetState: boolean): Promise<void>;
+    deleteAlert(id: number): Promise<boolean>;
+    saveAlertState(id: number, state: AlertState | null, lastValue: number | null, triggeredAt?: Date): Promise<void>;
+    saveAlertTrigger(alertId: number, value: number | null, message: string, newsUuid?: string | null): Promise<void>;
+    getAlertTriggers(options: { limit: number; afterId?: number; unacknowledgedOnly?: boolean }): Promise<AlertTrigger[]>;
+    countUnacknowledgedTriggers(): Promise<number>;
+    acknowledgeAlertTriggers(ids?: number[]): Promise<void>;
+}
+
+export interface Storage {
+    currencyRates: CurrencyRateRepository;
+    commodityPrices: CommodityPriceRepository;
+    stockQuotes: StockQuoteRepository;
+    stockCandles: StockCandleRepository;
+    news: NewsRepository;
+    newsSources: NewsSourceRepository;
+    instruments: TrackedInstrumentRepository;
+    watchlists: WatchlistRepository;
+    portfolios: PortfolioRepository;
+    alerts: AlertRepository;
+}
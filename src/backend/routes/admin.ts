@@ -0,0 +1,173 @@
+import express from 'express';
+import { requireAdmin } from '../middleware/adminAuth';
+import { getJobStatuses, runJobNow } from '../services/schedulerService';
+import { getAlphaVantageQueueStats } from '../services/alphaVantageService';
+import { getFinnhubQueueStats } from '../services/finnhubService';
+import { getTwelveDataQueueStats } from '../services/twelveDataService';
+import { createInstrument, deleteInstrument, listInstruments, updateInstrument } from '../services/instrumentService';
+import { rescoreHeadlines } from '../services/newsService';
+import { isValidDate } from '../services/timeSeries';
+
+const router = express.Router();
+
+/**
+ * Parse a positive integer route parameter
+ */
+function parseId(value: string): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// X-Admin-Token when ADMIN_TOKEN is set, otherwise changes from loopback only
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/jobs
+ * Get status of background ingestion jobs (last run, duration, failures)
+ */
+router.get('/jobs', (_req, res) => {
+    res.json({ success: true, data: getJobStatuses() });
+});
+
+/**
+ * POST /api/admin/jobs/:name/run
+ * Run a background job immediately and return its status
+ */
+router.post('/jobs/:name/run', async (req, res) => {
+    try {
+        const status = await runJobNow(req.params.name);
+        if (!status) {
+            return res.status(404).json({ success: false, error: `Job "${req.params.name}" not found` });
+        }
+        res.json({ success: true, data: status });
+    } catch (error) {
+        console.error('Error running job:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/admin/rate-limits
+ * Get request queue usage of the market data providers (pending requests, tokens, daily budget)
+ */
+router.get('/rate-limits', (_req, res) => {
+    res.json({ success: true, data: [getAlphaVantageQueueStats(), getTwelveDataQueueStats(), getFinnhubQueueStats()] });
+});
+
+/**
+ * POST /api/admin/headlines/rescore
+ * Re-rank a day's headline news with the current scorer and weights
+ *
+ * Query parameters:
+ * - date: YYYY-MM-DD (default: today)
+ */
+router.post('/headlines/rescore', async (req, res) => {
+    try {
+        const date = typeof req.query.date === 'string' && req.query.date
+            ? req.query.date
+            : new Date().toISOString().split('T')[0];
+        if (!isValidDate(date)) {
+            return res.status(400).json({ success: false, error: 'date must be in YYYY-MM-DD format' });
+        }
+
+        const headlines = await rescoreHeadlines(date);
+        res.json({ success: true, data: { date, headlines } });
+    } catch (error) {
+        console.error('Error re-scoring headlines:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/admin/instruments
+ * Get all tracked currency pairs and commodities, including disabled ones
+ */
+router.get('/instruments', async (_req, res) => {
+    try {
+        const data = await listInstruments();
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching instruments:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/admin/instruments
+ * Track a new currency pair or commodity ETF; the scheduler fetches it on its next run
+ *
+ * Body: { type: 'currency' | 'commodity', symbol: string (e.g., "EUR/CNY", "PPLT"), name?: string,
+ *         unit?: string | null, displayOrder?: number (default: after the others), enabled?: boolean }
+ */
+router.post('/instruments', async (req, res) => {
+    try {
+        const data = await createInstrument(req.body || {});
+        if ('error' in data) {
+            return res.status(400).json({ success: false, error: data.error });
+        }
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        console.error('Error creating instrument:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PUT /api/admin/instruments/:id
+ * Update the display metadata of an instrument or enable/disable it; missing fields keep their current value
+ *
+ * Body: { name?: string, unit?: string | null, displayOrder?: number, enabled?: boolean }
+ */
+router.put('/instruments/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const data = id ? await updateInstrument(id, req.body || {}) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Instrument not found' });
+        }
+        if ('error' in data) {
+            return res.status(400).json({ success: false, error: data.error });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error updating instrument:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/admin/instruments/:id
+ * Stop tracking an instrument (stored rates and prices are kept)
+ */
+router.delete('/instruments/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        if (!id || !(await deleteInstrument(id))) {
+            return res.status(404).json({ success: false, error: 'Instrument not found' });
+        }
+        res.json({ success: true, data: { id } });
+    } catch (error) {
+        console.error('Error deleting instrument:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,290 @@
+import express from 'express';
+import {
+    acknowledgeTriggeredAlerts,
+    createAlert,
+    deleteAlert,
+    getAlert,
+    getAlerts,
+    getTriggeredAlerts,
+    updateAlert
+} from '../services/alertService';
+import { normalizeWatchlistSymbol } from '../services/watchlistService';
+import type { AlertRuleInput } from '../models/Alert';
+import type {
+    AlertField,
+    AlertKind,
+    AlertOperator,
+    AlertRule,
+    AlertTargetType
+} from '../../frontend/services/interface';
+
+const router = express.Router();
+
+const ALERT_KINDS: AlertKind[] = ['price', 'news'];
+const TARGET_TYPES: AlertTargetType[] = ['stock', 'commodity', 'currency'];
+const PRICE_FIELDS: AlertField[] = ['price', 'change', 'changePercent'];
+const OPERATORS: AlertOperator[] = ['>', '<', 'crosses'];
+
+// Defaults for new rules
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+/**
+ * Parse a positive integer route parameter
+ */
+function parseId(value: string): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Validate an alert rule from the request body
+ * For updates the body is merged over the existing rule first
+ */
+async function parseAlertInput(
+    body: Record<string, unknown>,
+    existing?: AlertRule
+): Promise<AlertRuleInput | { error: string }> {
+    const merged: Record<string, unknown> = { ...existing, ...body };
+    const kind = merged.kind as AlertKind;
+
+    if (!ALERT_KINDS.includes(kind)) {
+        return { error: `kind must be one of: ${ALERT_KINDS.join(', ')}` };
+    }
+    if (typeof merged.symbol !== 'string' || !merged.symbol.trim()) {
+        return { error: 'symbol is required' };
+    }
+
+    const operator = merged.operator === undefined || merged.operator === '' ? null : merged.operator as AlertOperator;
+    if (operator !== null && !OPERATORS.includes(operator)) {
+        return { error: `operator must be one of: ${OPERATORS.join(', ')}` };
+    }
+
+    const threshold = merged.threshold === undefined || merged.threshold === null || merged.threshold === ''
+        ? null
+        : Number(merged.threshold);
+    if (threshold !== null && !Number.isFinite(threshold)) {
+        return { error: 'threshold must be a number' };
+    }
+
+    const hysteresis = merged.hysteresis === undefined ? 0 : Number(merged.hysteresis);
+    if (!Number.isFinite(hysteresis) || hysteresis < 0) {
+        return { error: 'hysteresis must be zero or more' };
+    }
+
+    const cooldownMinutes = merged.cooldownMinutes === undefined ? DEFAULT_COOLDOWN_MINUTES : Number(merged.cooldownMinutes);
+    if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0) {
+        return { error: 'cooldownMinutes must be a whole number of minutes' };
+    }
+
+    let targetType: AlertTargetType | null = null;
+    let field: AlertField | null;
+    let symbol: string;
+
+    if (kind === 'price') {
+        targetType = (merged.targetType || 'stock') as AlertTargetType;
+        if (!TARGET_TYPES.includes(targetType)) {
+            return { error: `targetType must be one of: ${TARGET_TYPES.join(', ')}` };
+        }
+
+        const normalized = await normalizeWatchlistSymbol(merged.symbol, targetType);
+        if ('error' in normalized) {
+            return { error: normalized.error };
+        }
+        symbol = normalized.symbol;
+
+        field = (merged.field || 'price') as AlertField;
+        if (!PRICE_FIELDS.includes(field)) {
+            return { error: `field must be one of: ${PRICE_FIELDS.join(', ')}` };
+        }
+        // Currency rates are stored without change values
+        if (targetType === 'currency' && field !== 'price') {
+            return { error: 'currency alerts can only watch price' };
+        }
+        if (operator === null || threshold === null) {
+            return { error: 'operator and threshold are required for price alerts' };
+        }
+    } else {
+        const normalized = await normalizeWatchlistSymbol(merged.symbol, 'stock');
+        if ('error' in normalized) {
+            return { error: normalized.error };
+        }
+        symbol = normalized.symbol;
+
+        // News rules either match any article or compare the entity sentiment score
+        field = operator !== null ? 'sentiment' : null;
+        if (operator === 'crosses') {
+            return { error: 'news alerts support the > and < operators' };
+        }
+        if (operator !== null && (threshold === null || threshold < -1 || threshold > 1)) {
+            return { error: 'threshold must be a sentiment score between -1 and 1' };
+        }
+    }
+
+    const defaultName = operator !== null
+        ? `${symbol} ${kind === 'news' ? 'news sentiment' : field} ${operator} ${threshold}`
+        : `${symbol} news`;
+    const name = typeof merged.name === 'string' && merged.name.trim() ? merged.name.trim() : defaultName;
+    if (name.length > 100) {
+        return { error: 'name must be at most 100 characters' };
+    }
+
+    return {
+        name,
+        kind,
+        targetType,
+        symbol,
+        field,
+        operator,
+        threshold: operator !== null ? threshold : null,
+        hysteresis,
+        cooldownMinutes,
+        enabled: merged.enabled === undefined ? true : Boolean(merged.enabled)
+    };
+}
+
+/**
+ * GET /api/alerts
+ * Get all alert rules
+ */
+router.get('/', async (_req, res) => {
+    try {
+        const data = await getAlerts();
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching alerts:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/alerts
+ * Create an alert rule
+ *
+ * Body:
+ * - Price: { kind: 'price', targetType, symbol, field, operator: '>' | '<' | 'crosses', threshold, hysteresis?, cooldownMinutes? }
+ * - News: { kind: 'news', symbol, operator?: '>' | '<', threshold? (sentiment -1 to 1), cooldownMinutes? }
+ */
+router.post('/', async (req, res) => {
+    try {
+        const input = await parseAlertInput(req.body || {});
+        if ('error' in input) {
+            return res.status(400).json({ success: false, error: input.error });
+        }
+
+        const data = await createAlert(input);
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        console.error('Error creating alert:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/alerts/triggers
+ * Get triggered alert history, newest first, with the unacknowledged count (for the Header badge)
+ *
+ * Query parameters:
+ * - limit: Number of results (default: 50, max: 200)
+ * - after: Only triggers with a larger ID (for polling)
+ * - unacknowledged: Only unacknowledged triggers (true/false)
+ */
+router.get('/triggers', async (req, res) => {
+    try {
+        const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200);
+        const afterId = req.query.after ? parseInt(String(req.query.after), 10) : undefined;
+
+        const data = await getTriggeredAlerts({
+            limit,
+            afterId: afterId && afterId > 0 ? afterId : undefined,
+            unacknowledgedOnly: req.query.unacknowledged === 'true'
+        });
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching alert triggers:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/alerts/triggers/acknowledge
+ * Mark triggered alerts as acknowledged
+ *
+ * Body: { ids?: number[] } (omit ids to acknowledge all)
+ */
+router.post('/triggers/acknowledge', async (req, res) => {
+    try {
+        const { ids } = req.body || {};
+        if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id) && id > 0))) {
+            return res.status(400).json({ success: false, error: 'ids must be an array of trigger IDs' });
+        }
+
+        await acknowledgeTriggeredAlerts(ids);
+        res.json({ success: true, data: { acknowledged: ids ?? 'all' } });
+    } catch (error) {
+        console.error('Error acknowledging alert triggers:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PATCH /api/alerts/:id
+ * Update an alert rule (e.g., { enabled: false } or a new threshold)
+ * Changing the condition resets the rule's evaluation state
+ */
+router.patch('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const existing = id ? await getAlert(id) : null;
+        if (!id || !existing) {
+            return res.status(404).json({ success: false, error: 'Alert not found' });
+        }
+
+        const input = await parseAlertInput(req.body || {}, existing);
+        if ('error' in input) {
+            return res.status(400).json({ success: false, error: input.error });
+        }
+
+        const data = await updateAlert(id, input);
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error updating alert:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/alerts/:id
+ * Delete an alert rule and its trigger history
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        if (!id || !(await deleteAlert(id))) {
+            return res.status(404).json({ success: false, error: 'Alert not found' });
+        }
+        res.json({ success: true, data: { id } });
+    } catch (error) {
+        console.error('Error deleting alert:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default router;
@@ -1,17 +1,192 @@
 import express from 'express';
-import { checkAndGetCurrencyRates, checkAndGetCommodityPrices } from '../services/dataService';
-import { checkAndGetNews, getNewsWithPagination, getHeadlineNewsForToday } from '../services/newsService';
-import type { MarketauxNewsParams } from '../services/marketauxService';
+import { getCurrencyRates, getCommodityPrices, getCurrencyRateHistory, getCommodityPriceHistory } from '../services/dataService';
+import { checkAndGetStockQuote, searchStocks } from '../services/stockService';
+import { INSTRUMENT_TYPES, listInstruments } from '../services/instrumentService';
+import { CANDLE_INTERVALS, CHART_RANGES, getCandles, getCandlesWithIndicators } from '../services/candleService';
+import { parseIndicatorSet, type IndicatorSpec } from '../services/indicators';
+import { HISTORY_INTERVALS, addDays, daysBetween, isValidDate, type HistoryInterval } from '../services/timeSeries';
+import {
+    checkAndGetNews,
+    getNewsWithPagination,
+    getNewsPage,
+    getNewsStories,
+    getHeadlineNewsForToday,
+    searchNews,
+    getSentimentSeries,
+    getSentimentHeatmap,
+    getHeatmapArticles
+} from '../services/newsService';
+import { MARKETAUX_LANGUAGES, type MarketauxNewsParams } from '../services/marketauxService';
+import type { CandleInterval, ChartRange, InstrumentType, SentimentBucket } from '../../frontend/services/interface';
 
 const router = express.Router();
 
+const SENTIMENT_BUCKETS: SentimentBucket[] = ['day', 'week'];
+
+// Default heatmap window (days, including today)
+const HEATMAP_DEFAULT_DAYS = 7;
+
+// Longest from/to range accepted by the history and sentiment endpoints
+const MAX_HISTORY_YEARS = 5;
+
+/**
+ * Parse from/to/type query parameters for the sentiment heatmap
+ * Defaults to the last 7 days and all entity types
+ */
+function parseHeatmapQuery(query: express.Request['query']):
+    { fromDate: string; toDate: string; entityType?: string } | { error: string } {
+    const today = new Date().toISOString().split('T')[0];
+    const toDate = typeof query.to === 'string' && query.to ? query.to : today;
+    const fromDate = typeof query.from === 'string' && query.from ? query.from : addDays(toDate, -(HEATMAP_DEFAULT_DAYS - 1));
+    
+    if (!isValidDate(fromDate) || !isValidDate(toDate)) {
+        return { error: 'from and to must be dates in YYYY-MM-DD format' };
+    }
+    if (fromDate > toDate) {
+        return { error: 'from must be on or before to' };
+    }
+    
+    const entityType = typeof query.type === 'string' && query.type ? query.type : undefined;
+    return { fromDate, toDate, entityType };
+}
+
+/**
+ * Parse Marketaux-style news filter and pagination query parameters (invalid values are ignored)
+ */
+function parseNewsParams(query: express.Request['query']): MarketauxNewsParams {
+    const {
+        symbols,
+        limit,
+        page,
+        language,
+        sentiment_gte,
+        sentiment_lte,
+        countries,
+        entity_types,
+        industries,
+        filter_entities,
+        must_have_entities
+    } = query;
+    
+    const params: MarketauxNewsParams = {};
+    
+    if (symbols && typeof symbols === 'string') {
+        params.symbols = symbols;
+    }
+    if (limit) {
+        const limitNum = parseInt(limit as string, 10);
+        if (!isNaN(limitNum) && limitNum > 0) {
+            params.limit = Math.min(limitNum, 100); // Max 100
+        }
+    }
+    if (page) {
+        const pageNum = parseInt(page as string, 10);
+        if (!isNaN(pageNum) && pageNum > 0) {
+            params.page = pageNum;
+        }
+    }
+    if (language && typeof language === 'string') {
+        // Unsupported language codes are dropped
+        const languages = language
+            .split(',')
+            .map(code => code.trim().toLowerCase())
+            .filter(code => MARKETAUX_LANGUAGES.includes(code));
+        if (languages.length > 0) {
+            params.language = [...new Set(languages)].join(',');
+        }
+    }
+    if (sentiment_gte) {
+        const score = parseFloat(sentiment_gte as string);
+        if (!isNaN(score)) {
+            params.sentiment_gte = score;
+        }
+    }
+    if (sentiment_lte) {
+        const score = parseFloat(sentiment_lte as string);
+        if (!isNaN(score)) {
+            params.sentiment_lte = score;
+        }
+    }
+    if (countries && typeof countries === 'string') {
+        params.countries = countries;
+    }
+    if (entity_types && typeof entity_types === 'string') {
+        params.entity_types = entity_types;
+    }
+    if (industries && typeof industries === 'string') {
+        params.industries = industries;
+    }
+    if (filter_entities === 'true' || filter_entities === 'false') {
+        params.filter_entities = filter_entities === 'true';
+    }
+    if (must_have_entities === 'true' || must_have_entities === 'false') {
+        params.must_have_entities = must_have_entities === 'true';
+    }
+    
+    return params;
+}
+
+/**
+ * Parse date/from/to query parameters for browsing stored news
+ * Each is optional; date takes precedence over from/to
+ */
+function parseNewsDateRange(query: express.Request['query']):
+    { date?: string; fromDate?: string; toDate?: string } | { error: string } {
+    const range = {
+        date: typeof query.date === 'string' && query.date ? query.date : undefined,
+        fromDate: typeof query.from === 'string' && query.from ? query.from : undefined,
+        toDate: typeof query.to === 'string' && query.to ? query.to : undefined
+    };
+    
+    if ([range.date, range.fromDate, range.toDate].some(value => value !== undefined && !isValidDate(value))) {
+        return { error: 'date, from and to must be dates in YYYY-MM-DD format' };
+    }
+    if (range.fromDate && range.toDate && range.fromDate > range.toDate) {
+        return { error: 'from must be on or before to' };
+    }
+    
+    return range;
+}
+
+/**
+ * Parse from/to/interval query parameters for history endpoints
+ * Defaults to the last 30 days at daily interval; ranges are capped at MAX_HISTORY_YEARS
+ */
+function parseHistoryQuery(query: express.Request['query']): 
+    { fromDate: string; toDate: string; interval: HistoryInterval } | { error: string } {
+    const today = new Date().toISOString().split('T')[0];
+    const toDate = typeof query.to === 'string' && query.to ? query.to : today;
+    const interval = typeof query.interval === 'string' && query.interval ? query.interval : 'daily';
+    
+    if (!isValidDate(toDate)) {
+        return { error: 'from and to must be dates in YYYY-MM-DD format' };
+    }
+    
+    const fromDate = typeof query.from === 'string' && query.from ? query.from : addDays(toDate, -30);
+    if (!isValidDate(fromDate)) {
+        return { error: 'from and to must be dates in YYYY-MM-DD format' };
+    }
+    if (fromDate > toDate) {
+        return { error: 'from must be on or before to' };
+    }
+    // Gap detection walks every day of the range
+    if (daysBetween(fromDate, toDate) > MAX_HISTORY_YEARS * 366) {
+        return { error: `from and to must be at most ${MAX_HISTORY_YEARS} years apart` };
+    }
+    if (!HISTORY_INTERVALS.includes(interval as HistoryInterval)) {
+        return { error: `interval must be one of: ${HISTORY_INTERVALS.join(', ')}` };
+    }
+    
+    return { fromDate, toDate, interval: interval as HistoryInterval };
+}
+
 /**
  * GET /api/currency-rates
- * Get currency rates for today (auto-fetch from API if not in database)
+ * Get currency rates for today (warmed in the background by the scheduler)
  */
 router.get('/currency-rates', async (req, res) => {
     try {
-        const data = await checkAndGetCurrencyRates();
+        const data = await getCurrencyRates();
         res.json({ success: true, data });
     } catch (error) {
         console.error('Error fetching currency rates:', error);
@@ -24,11 +199,11 @@ router.get('/currency-rates', async (req, res) => {
 
 /**
  * GET /api/commodity-prices
- * Get commodity prices for today (auto-fetch from API if not in database)
+ * Get commodity prices for today (warmed in the background by the scheduler)
  */
 router.get('/commodity-prices', async (req, res) => {
     try {
-        const data = await checkAndGetCommodityPrices();
+        const data = await getCommodityPrices();
         res.json({ success: true, data });
     } catch (error) {
         console.error('Error fetching commodity prices:', error);
@@ -39,15 +214,435 @@ router.get('/commodity-prices', async (req, res) => {
     }
 });
 
+/**
+ * GET /api/instruments
+ * Get tracked currency pairs and commodities with their display metadata,
+ * currencies first, each type in display order (disabled ones included with enabled: false)
+ *
+ * Query parameters:
+ * - type: currency or commodity (default: both)
+ */
+router.get('/instruments', async (req, res) => {
+    try {
+        const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+        if (type !== undefined && !INSTRUMENT_TYPES.includes(type as InstrumentType)) {
+            return res.status(400).json({ success: false, error: `type must be one of: ${INSTRUMENT_TYPES.join(', ')}` });
+        }
+
+        const data = await listInstruments(type as InstrumentType | undefined);
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching instruments:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/currency-rates/history
+ * Get stored currency rate history for one pair
+ * 
+ * Query parameters:
+ * - pair: Currency pair (e.g., "USD/CNY")
+ * - from: Start date YYYY-MM-DD (default: 30 days before "to")
+ * - to: End date YYYY-MM-DD (default: today)
+ * - interval: daily, weekly or monthly (default: daily)
+ */
+router.get('/currency-rates/history', async (req, res) => {
+    try {
+        const { pair } = req.query;
+        const [fromCurrency, toCurrency] = typeof pair === 'string' ? pair.toUpperCase().split('/') : [];
+        if (!fromCurrency || !toCurrency) {
+            return res.status(400).json({ success: false, error: 'pair is required (e.g., USD/CNY)' });
+        }
+        
+        const range = parseHistoryQuery(req.query);
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        
+        const data = await getCurrencyRateHistory(
+            fromCurrency, toCurrency, range.fromDate, range.toDate, range.interval
+        );
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching currency rate history:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/commodity-prices/history
+ * Get stored price history for one commodity
+ * 
+ * Query parameters:
+ * - symbol: Commodity ETF symbol (e.g., "GLD")
+ * - from: Start date YYYY-MM-DD (default: 30 days before "to")
+ * - to: End date YYYY-MM-DD (default: today)
+ * - interval: daily, weekly or monthly (default: daily)
+ */
+router.get('/commodity-prices/history', async (req, res) => {
+    try {
+        const { symbol } = req.query;
+        if (typeof symbol !== 'string' || !symbol.trim()) {
+            return res.status(400).json({ success: false, error: 'symbol is required (e.g., GLD)' });
+        }
+        
+        const range = parseHistoryQuery(req.query);
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        
+        const data = await getCommodityPriceHistory(
+            symbol.trim().toUpperCase(), range.fromDate, range.toDate, range.interval
+        );
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching commodity price history:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/stocks/search
+ * Search stock symbols by keyword
+ * 
+ * Query parameters:
+ * - q: Symbol or company name (e.g., "AAPL", "Apple")
+ */
+router.get('/stocks/search', async (req, res) => {
+    try {
+        const { q } = req.query;
+        if (typeof q !== 'string' || !q.trim()) {
+            return res.status(400).json({ success: false, error: 'q is required' });
+        }
+        
+        const data = await searchStocks(q);
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error searching stocks:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/stocks/:symbol/quote
+ * Get the latest quote for a stock (served from database when fresh)
+ */
+router.get('/stocks/:symbol/quote', async (req, res) => {
+    try {
+        const data = await checkAndGetStockQuote(req.params.symbol.trim().toUpperCase());
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching stock quote:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/stocks/:symbol/candles
+ * Get OHLC candles for a stock (served from database, refreshed from API when stale)
+ * 
+ * Query parameters:
+ * - interval: 1min, 5min, daily or weekly (default: daily)
+ * - range: 1D, 5D, 1M, 6M, 1Y or MAX, anchored at the latest candle (optional)
+ * - from: Start date YYYY-MM-DD (optional, overrides range)
+ * - to: End date YYYY-MM-DD (optional)
+ */
+router.get('/stocks/:symbol/candles', async (req, res) => {
+    try {
+        const { interval = 'daily', range, from, to } = req.query;
+        
+        if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+            return res.status(400).json({ success: false, error: `interval must be one of: ${CANDLE_INTERVALS.join(', ')}` });
+        }
+        if (range !== undefined && !CHART_RANGES.includes(range as ChartRange)) {
+            return res.status(400).json({ success: false, error: `range must be one of: ${CHART_RANGES.join(', ')}` });
+        }
+        if ((from !== undefined && !isValidDate(String(from))) || (to !== undefined && !isValidDate(String(to)))) {
+            return res.status(400).json({ success: false, error: 'from and to must be dates in YYYY-MM-DD format' });
+        }
+        
+        const data = await getCandles(req.params.symbol.trim().toUpperCase(), interval as CandleInterval, {
+            range: range as ChartRange | undefined,
+            from: from as string | undefined,
+            to: to as string | undefined
+        });
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching candles:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/stocks/:symbol/indicators
+ * Get candles with technical indicators computed server-side
+ * Indicator series line up index-for-index with the returned candles (null during warm-up)
+ * 
+ * Query parameters:
+ * - set: Comma-separated indicators with optional parameters
+ *   (e.g., "sma:20,ema:50,rsi:14,macd:12:26:9,bb:20:2,atr:14,vwap")
+ * - interval: 1min, 5min, daily or weekly (default: daily)
+ * - range: 1D, 5D, 1M, 6M, 1Y or MAX (default: full stored history)
+ */
+router.get('/stocks/:symbol/indicators', async (req, res) => {
+    try {
+        const { set, interval = 'daily', range } = req.query;
+        
+        if (typeof set !== 'string' || !set.trim()) {
+            return res.status(400).json({ success: false, error: 'set is required (e.g., rsi:14,macd:12:26:9)' });
+        }
+        if (!CANDLE_INTERVALS.includes(interval as CandleInterval)) {
+            return res.status(400).json({ success: false, error: `interval must be one of: ${CANDLE_INTERVALS.join(', ')}` });
+        }
+        if (range !== undefined && !CHART_RANGES.includes(range as ChartRange)) {
+            return res.status(400).json({ success: false, error: `range must be one of: ${CHART_RANGES.join(', ')}` });
+        }
+        
+        let specs: IndicatorSpec[];
+        try {
+            specs = parseIndicatorSet(set);
+        } catch (error) {
+            return res.status(400).json({ 
+                success: false, 
+                error: error instanceof Error ? error.message : 'Invalid indicator set' 
+            });
+        }
+        
+        const data = await getCandlesWithIndicators(
+            req.params.symbol.trim().toUpperCase(),
+            interval as CandleInterval,
+            specs,
+            range as ChartRange | undefined
+        );
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error computing indicators:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/sentiment/:symbol
+ * Get a symbol's news sentiment aggregated per day or week
+ * (article count, mean, match-score-weighted mean, min and max entity sentiment)
+ * 
+ * Query parameters:
+ * - from: Start date YYYY-MM-DD (default: 30 days before "to")
+ * - to: End date YYYY-MM-DD (default: today)
+ * - bucket: day or week (default: day)
+ */
+router.get('/sentiment/:symbol', async (req, res) => {
+    try {
+        const bucket = typeof req.query.bucket === 'string' && req.query.bucket ? req.query.bucket : 'day';
+        if (!SENTIMENT_BUCKETS.includes(bucket as SentimentBucket)) {
+            return res.status(400).json({ success: false, error: `bucket must be one of: ${SENTIMENT_BUCKETS.join(', ')}` });
+        }
+        
+        const range = parseHistoryQuery({ from: req.query.from, to: req.query.to });
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        
+        const data = await getSentimentSeries(
+            req.params.symbol.trim().toUpperCase(),
+            range.fromDate,
+            range.toDate,
+            bucket as SentimentBucket
+        );
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching sentiment series:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/news/heatmap
+ * Get entity sentiment grouped by industry and country (article volume and average sentiment per cell)
+ * 
+ * Query parameters:
+ * - from: Start date YYYY-MM-DD (default: 6 days before "to")
+ * - to: End date YYYY-MM-DD (default: today)
+ * - type: Entity type, e.g., "equity" (optional)
+ */
+router.get('/news/heatmap', async (req, res) => {
+    try {
+        const range = parseHeatmapQuery(req.query);
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        
+        const data = await getSentimentHeatmap(range.fromDate, range.toDate, range.entityType);
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching sentiment heatmap:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/news/heatmap/articles
+ * Get the articles behind one heatmap cell (drill-down)
+ * 
+ * Query parameters:
+ * - industry: Industry of the cell (required)
+ * - country: Country code of the cell (required)
+ * - from, to, type: Same as /api/news/heatmap
+ * - limit: Number of results (default: 50, max: 100)
+ */
+router.get('/news/heatmap/articles', async (req, res) => {
+    try {
+        const { industry, country } = req.query;
+        if (typeof industry !== 'string' || !industry || typeof country !== 'string' || !country) {
+            return res.status(400).json({ success: false, error: 'industry and country are required' });
+        }
+        
+        const range = parseHeatmapQuery(req.query);
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        
+        const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 100);
+        const result = await getHeatmapArticles(industry, country, range.fromDate, range.toDate, range.entityType, limit);
+        res.json({ 
+            success: true, 
+            data: result.articles,
+            meta: { total: result.total }
+        });
+    } catch (error) {
+        console.error('Error fetching heatmap articles:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/news/stories
+ * Get stored news grouped into stories: syndicated copies and similar articles form one story
+ * with a canonical article (most reputable source) and the list of covering sources
+ * 
+ * Query parameters:
+ * - date: Publication date YYYY-MM-DD (default: today; takes precedence over from/to)
+ * - from, to: Date range YYYY-MM-DD (inclusive)
+ * - limit: Number of stories (default: 50, max: 100)
+ * - symbols, language, sentiment_gte, sentiment_lte, countries, entity_types, industries: Same as /api/news
+ */
+router.get('/news/stories', async (req, res) => {
+    try {
+        const range = parseNewsDateRange(req.query);
+        if ('error' in range) {
+            return res.status(400).json({ success: false, error: range.error });
+        }
+        if (!range.date && !range.fromDate && !range.toDate) {
+            range.date = new Date().toISOString().split('T')[0];
+        }
+        
+        const params = parseNewsParams(req.query);
+        const result = await getNewsStories(params, range, params.limit || 50);
+        res.json({ 
+            success: true, 
+            data: result.stories,
+            meta: { total: result.total }
+        });
+    } catch (error) {
+        console.error('Error fetching news stories:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
+/**
+ * GET /api/news/search
+ * Full-text search over stored news (title, description, snippet and entity highlights)
+ * 
+ * Query parameters:
+ * - q: Keywords or quoted phrases (e.g., "rate cut")
+ * - from: Earliest publication date YYYY-MM-DD (optional)
+ * - to: Latest publication date YYYY-MM-DD (optional)
+ * - limit: Number of results (default: 20, max: 100)
+ */
+router.get('/news/search', async (req, res) => {
+    try {
+        const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        if (!q) {
+            return res.status(400).json({ success: false, error: 'q is required' });
+        }
+        
+        const fromDate = typeof req.query.from === 'string' && req.query.from ? req.query.from : undefined;
+        const toDate = typeof req.query.to === 'string' && req.query.to ? req.query.to : undefined;
+        if ((fromDate && !isValidDate(fromDate)) || (toDate && !isValidDate(toDate))) {
+            return res.status(400).json({ success: false, error: 'from and to must be dates in YYYY-MM-DD format' });
+        }
+        if (fromDate && toDate && fromDate > toDate) {
+            return res.status(400).json({ success: false, error: 'from must be on or before to' });
+        }
+        
+        const limit = Math.min(parseInt(String(req.query.limit || '20'), 10) || 20, 100);
+        
+        const data = await searchNews(q, fromDate, toDate, limit);
+        if ('error' in data) {
+            return res.status(400).json({ success: false, error: data.error });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error searching news:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+    }
+});
+
 /**
  * GET /api/news
  * Get news articles for today (auto-fetch from API if not in database)
+ * Filters are applied to stored articles in the database; the API is only called
+ * when no stored article matches
+ * 
+ * With date, from, to or cursor, stored news is browsed by date with cursor pagination
+ * (newest first); meta.nextCursor is passed as cursor to get the next page
  * 
  * Query parameters:
+ * - date: Publication date YYYY-MM-DD (takes precedence over from/to)
+ * - from: Start date YYYY-MM-DD (inclusive)
+ * - to: End date YYYY-MM-DD (inclusive)
+ * - cursor: nextCursor from the previous page
  * - symbols: Comma-separated stock symbols (e.g., "AAPL,TSLA")
  * - limit: Number of results (default: 50, max: 100)
  * - page: Page number (default: 1)
- * - language: Language code (default: "en")
+ * - language: Comma-separated language codes (default: "en"); only articles in these languages are returned
  * - sentiment_gte: Minimum sentiment score (-1 to 1)
  * - sentiment_lte: Maximum sentiment score (-1 to 1)
  * - countries: Comma-separated country codes
@@ -55,79 +650,48 @@ router.get('/commodity-prices', async (req, res) => {
  * - industries: Comma-separated industries
  * - filter_entities: Filter entities to match query (true/false)
  * - must_have_entities: Only return articles with entities (true/false)
- * - headlines: Get only headline news (true/false)
+ * - headlines: Get only headline news (true/false), in the requested languages
  */
 router.get('/news', async (req, res) => {
     try {
         // Parse query parameters
-        const {
-            symbols,
-            limit,
-            page,
-            language,
-            sentiment_gte,
-            sentiment_lte,
-            countries,
-            entity_types,
-            industries,
-            filter_entities,
-            must_have_entities,
-            headlines
-        } = req.query;
+        const { limit, page, headlines, date, from, to, cursor } = req.query;
+
+        // Build params object
+        const params = parseNewsParams(req.query);
 
         // Handle headlines request
         if (headlines === 'true') {
-            const data = await getHeadlineNewsForToday();
+            const data = await getHeadlineNewsForToday(params.language);
             return res.json({ success: true, data });
         }
 
-        // Build params object
-        const params: MarketauxNewsParams = {};
-        
-        if (symbols && typeof symbols === 'string') {
-            params.symbols = symbols;
-        }
-        if (limit) {
-            const limitNum = parseInt(limit as string, 10);
-            if (!isNaN(limitNum) && limitNum > 0) {
-                params.limit = Math.min(limitNum, 100); // Max 100
+        // Browse by date with cursor pagination
+        if (date !== undefined || from !== undefined || to !== undefined || cursor !== undefined) {
+            const range = parseNewsDateRange(req.query);
+            if ('error' in range) {
+                return res.status(400).json({ success: false, error: range.error });
             }
-        }
-        if (page) {
-            const pageNum = parseInt(page as string, 10);
-            if (!isNaN(pageNum) && pageNum > 0) {
-                params.page = pageNum;
+            
+            const pageLimit = params.limit || 50;
+            const result = await getNewsPage(
+                params,
+                range,
+                pageLimit,
+                typeof cursor === 'string' && cursor ? cursor : undefined
+            );
+            if ('error' in result) {
+                return res.status(400).json({ success: false, error: result.error });
             }
-        }
-        if (language && typeof language === 'string') {
-            params.language = language;
-        }
-        if (sentiment_gte) {
-            const score = parseFloat(sentiment_gte as string);
-            if (!isNaN(score)) {
-                params.sentiment_gte = score;
-            }
-        }
-        if (sentiment_lte) {
-            const score = parseFloat(sentiment_lte as string);
-            if (!isNaN(score)) {
-                params.sentiment_lte = score;
-            }
-        }
-        if (countries && typeof countries === 'string') {
-            params.countries = countries;
-        }
-        if (entity_types && typeof entity_types === 'string') {
-            params.entity_types = entity_types;
-        }
-        if (industries && typeof industries === 'string') {
-            params.industries = industries;
-        }
-        if (filter_entities === 'true' || filter_entities === 'false') {
-            params.filter_entities = filter_entities === 'true';
-        }
-        if (must_have_entities === 'true' || must_have_entities === 'false') {
-            params.must_have_entities = must_have_entities === 'true';
+            
+            return res.json({ 
+                success: true, 
+                data: result.articles,
+                meta: {
+                    limit: pageLimit,
+                    nextCursor: result.nextCursor
+                }
+            });
         }
 
         // If pagination is requested, use pagination function
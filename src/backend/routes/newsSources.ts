@@ -0,0 +1,68 @@
+import express from 'express';
+import { requireAdmin } from '../middleware/adminAuth';
+import { listNewsSources, removeNewsSource, saveNewsSource } from '../services/newsSourceService';
+
+const router = express.Router();
+
+/**
+ * GET /api/news/sources
+ * Get news sources with their settings and statistics
+ * (article count, mean entity sentiment, last publication time), most articles first
+ */
+router.get('/', async (_req, res) => {
+    try {
+        const data = await listNewsSources();
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching news sources:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PUT /api/news/sources/:domain
+ * Save the settings of a source; missing fields keep their current value
+ * Admin only (X-Admin-Token, see requireAdmin)
+ *
+ * Body: { status?: 'allow' | 'deny' | 'neutral', boost?: number (-1 to 1), note?: string | null }
+ */
+router.put('/:domain', requireAdmin, async (req, res) => {
+    try {
+        const data = await saveNewsSource(req.params.domain, req.body || {});
+        if ('error' in data) {
+            return res.status(400).json({ success: false, error: data.error });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error saving news source:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/news/sources/:domain
+ * Remove the settings of a source (it goes back to neutral with no boost)
+ * Admin only (X-Admin-Token, see requireAdmin)
+ */
+router.delete('/:domain', requireAdmin, async (req, res) => {
+    try {
+        if (!(await removeNewsSource(req.params.domain))) {
+            return res.status(404).json({ success: false, error: 'News source has no settings' });
+        }
+        res.json({ success: true, data: { domain: req.params.domain } });
+    } catch (error) {
+        console.error('Error deleting news source:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,316 @@
+import express from 'express';
+import {
+    addTransaction,
+    createPortfolio,
+    deletePortfolio,
+    getPortfolios,
+    getPortfolioSummary,
+    getTransactions,
+    removeTransaction,
+    updatePortfolioSettings
+} from '../services/portfolioService';
+import { COST_METHODS } from '../services/portfolioLedger';
+import { isValidDate } from '../services/timeSeries';
+import type { CostMethod, PortfolioTransaction, TransactionType } from '../../frontend/services/interface';
+
+const router = express.Router();
+
+const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'fee'];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,20}$/;
+
+/**
+ * Parse a positive integer route parameter
+ */
+function parseId(value: string): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Read an optional number from the request body
+ * @returns undefined when missing, NaN when not a number
+ */
+function readNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+}
+
+/**
+ * Validate portfolio settings from the request body
+ * @param partial Allow omitted fields (for updates)
+ */
+function parseSettings(
+    body: Record<string, unknown>,
+    partial: boolean
+): { name?: string; baseCurrency?: string; costMethod?: CostMethod } | { error: string } {
+    const { name, baseCurrency, costMethod } = body;
+
+    if (name !== undefined || !partial) {
+        if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+            return { error: 'name is required (at most 100 characters)' };
+        }
+    }
+    if (baseCurrency !== undefined && (typeof baseCurrency !== 'string' || !CURRENCY_PATTERN.test(baseCurrency.toUpperCase()))) {
+        return { error: 'baseCurrency must be a 3-letter currency code (e.g., USD)' };
+    }
+    if (costMethod !== undefined && !COST_METHODS.includes(costMethod as CostMethod)) {
+        return { error: `costMethod must be one of: ${COST_METHODS.join(', ')}` };
+    }
+
+    return {
+        name: typeof name === 'string' ? name.trim() : undefined,
+        baseCurrency: typeof baseCurrency === 'string' ? baseCurrency.toUpperCase() : partial ? undefined : 'USD',
+        costMethod: (costMethod as CostMethod | undefined) ?? (partial ? undefined : 'fifo')
+    };
+}
+
+/**
+ * Validate a transaction from the request body
+ * Buys and sells need quantity and price (fee optional); dividends and fees need amount
+ */
+function parseTransaction(body: Record<string, unknown>): { transaction: Omit<PortfolioTransaction, 'id'> } | { error: string } {
+    const { symbol, type, currency = 'USD', tradeDate, notes } = body;
+    const quantity = readNumber(body.quantity);
+    const price = readNumber(body.price);
+    const fee = readNumber(body.fee) ?? 0;
+    const amount = readNumber(body.amount);
+
+    if (typeof symbol !== 'string' || !SYMBOL_PATTERN.test(symbol.trim().toUpperCase())) {
+        return { error: 'symbol is required (e.g., AAPL)' };
+    }
+    if (!TRANSACTION_TYPES.includes(type as TransactionType)) {
+        return { error: `type must be one of: ${TRANSACTION_TYPES.join(', ')}` };
+    }
+    if (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency.toUpperCase())) {
+        return { error: 'currency must be a 3-letter currency code (e.g., USD)' };
+    }
+    if (typeof tradeDate !== 'string' || !isValidDate(tradeDate)) {
+        return { error: 'tradeDate must be a date in YYYY-MM-DD format' };
+    }
+    if (notes !== undefined && notes !== null && (typeof notes !== 'string' || notes.length > 255)) {
+        return { error: 'notes must be text (at most 255 characters)' };
+    }
+    if (!Number.isFinite(fee) || fee < 0) {
+        return { error: 'fee must be zero or more' };
+    }
+
+    const isTrade = type === 'buy' || type === 'sell';
+    if (isTrade) {
+        if (quantity === undefined || !Number.isFinite(quantity) || quantity <= 0) {
+            return { error: 'quantity must be a positive number' };
+        }
+        if (price === undefined || !Number.isFinite(price) || price < 0) {
+            return { error: 'price must be zero or more' };
+        }
+    } else if (amount === undefined || !Number.isFinite(amount) || amount <= 0) {
+        return { error: 'amount must be a positive number' };
+    }
+
+    return {
+        transaction: {
+            symbol: symbol.trim().toUpperCase(),
+            type: type as TransactionType,
+            quantity: isTrade ? quantity as number : null,
+            price: isTrade ? price as number : null,
+            fee: isTrade ? fee : 0,
+            amount: isTrade ? null : amount as number,
+            currency: currency.toUpperCase(),
+            tradeDate,
+            notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+        }
+    };
+}
+
+/**
+ * GET /api/portfolios
+ * Get all portfolios
+ */
+router.get('/', async (_req, res) => {
+    try {
+        const data = await getPortfolios();
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching portfolios:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/portfolios
+ * Create a portfolio
+ *
+ * Body: { name: string, baseCurrency?: string (default: USD), costMethod?: 'fifo' | 'average' (default: fifo) }
+ */
+router.post('/', async (req, res) => {
+    try {
+        const settings = parseSettings(req.body || {}, false);
+        if ('error' in settings) {
+            return res.status(400).json({ success: false, error: settings.error });
+        }
+
+        const data = await createPortfolio(
+            settings.name as string, settings.baseCurrency as string, settings.costMethod as CostMethod
+        );
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        console.error('Error creating portfolio:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/portfolios/:id
+ * Get positions with realized and unrealized P&L, converted to the base currency
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const data = id ? await getPortfolioSummary(id) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Portfolio not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching portfolio:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PATCH /api/portfolios/:id
+ * Update portfolio settings
+ *
+ * Body: { name?, baseCurrency?, costMethod? }
+ */
+router.patch('/:id', async (req, res) => {
+    try {
+        const settings = parseSettings(req.body || {}, true);
+        if ('error' in settings) {
+            return res.status(400).json({ success: false, error: settings.error });
+        }
+
+        const id = parseId(req.params.id);
+        const data = id ? await updatePortfolioSettings(id, settings) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Portfolio not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error updating portfolio:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/portfolios/:id
+ * Delete a portfolio and its transactions
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        if (!id || !(await deletePortfolio(id))) {
+            return res.status(404).json({ success: false, error: 'Portfolio not found' });
+        }
+        res.json({ success: true, data: { id } });
+    } catch (error) {
+        console.error('Error deleting portfolio:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/portfolios/:id/transactions
+ * Get the transaction ledger, newest first
+ */
+router.get('/:id/transactions', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const data = id ? await getTransactions(id) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Portfolio not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching transactions:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/portfolios/:id/transactions
+ * Record a buy, sell, dividend or fee
+ *
+ * Body: { symbol, type, tradeDate, currency? (default: USD), quantity?, price?, fee?, amount?, notes? }
+ */
+router.post('/:id/transactions', async (req, res) => {
+    try {
+        const parsed = parseTransaction(req.body || {});
+        if ('error' in parsed) {
+            return res.status(400).json({ success: false, error: parsed.error });
+        }
+
+        const id = parseId(req.params.id);
+        const result = id ? await addTransaction(id, parsed.transaction) : null;
+        if (!result) {
+            return res.status(404).json({ success: false, error: 'Portfolio not found' });
+        }
+        if ('error' in result) {
+            return res.status(400).json({ success: false, error: result.error });
+        }
+        res.status(201).json({ success: true, data: result.transaction });
+    } catch (error) {
+        console.error('Error adding transaction:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/portfolios/:id/transactions/:transactionId
+ * Delete a transaction
+ */
+router.delete('/:id/transactions/:transactionId', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const transactionId = parseId(req.params.transactionId);
+        const result = id && transactionId ? await removeTransaction(id, transactionId) : null;
+        if (!result) {
+            return res.status(404).json({ success: false, error: 'Transaction not found' });
+        }
+        if (result !== true) {
+            return res.status(400).json({ success: false, error: result.error });
+        }
+        res.json({ success: true, data: { id: transactionId } });
+    } catch (error) {
+        console.error('Error deleting transaction:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import express from 'express';
+import { addStreamClient } from '../services/quoteStream';
+
+const router = express.Router();
+
+// Upper bound on symbols per connection
+const MAX_STREAM_SYMBOLS = 50;
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of newly saved market data
+ * Events: currency-rate, commodity-price, stock-quote (plus ready on connect)
+ *
+ * Query parameters:
+ * - symbols: Comma-separated currency pairs, commodity ETFs and stock symbols (e.g., "USD/CNY,GLD,AAPL");
+ *   omit to receive every update
+ */
+router.get('/', (req, res) => {
+    const symbols = typeof req.query.symbols === 'string'
+        ? [...new Set(req.query.symbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean))]
+        : [];
+
+    if (symbols.length > MAX_STREAM_SYMBOLS) {
+        return res.status(400).json({
+            success: false,
+            error: `At most ${MAX_STREAM_SYMBOLS} symbols can be streamed per connection`
+        });
+    }
+
+    const removeClient = addStreamClient(res, symbols.length > 0 ? symbols : null);
+    req.on('close', removeClient);
+});
+
+export default router;
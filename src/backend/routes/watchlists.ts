@@ -0,0 +1,212 @@
+import express from 'express';
+import {
+    WATCHLIST_ITEM_TYPES,
+    addSymbolToWatchlist,
+    createWatchlist,
+    deleteWatchlist,
+    getWatchlist,
+    getWatchlists,
+    normalizeWatchlistSymbol,
+    removeSymbolFromWatchlist,
+    renameWatchlist
+} from '../services/watchlistService';
+import type { WatchlistItemType } from '../../frontend/services/interface';
+
+const router = express.Router();
+
+// Longest name accepted for a watchlist (matches the column size)
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Parse a positive integer route parameter
+ */
+function parseId(value: string): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Validate a watchlist name from the request body
+ */
+function parseName(body: unknown): { name: string } | { error: string } {
+    const name = (body as { name?: unknown } | undefined)?.name;
+    if (typeof name !== 'string' || !name.trim()) {
+        return { error: 'name is required' };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+        return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    return { name: name.trim() };
+}
+
+/**
+ * GET /api/watchlists
+ * Get all watchlists with the latest cached quote for each item
+ */
+router.get('/', async (_req, res) => {
+    try {
+        const data = await getWatchlists();
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching watchlists:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/watchlists
+ * Create a watchlist
+ *
+ * Body: { name: string }
+ */
+router.post('/', async (req, res) => {
+    try {
+        const parsed = parseName(req.body);
+        if ('error' in parsed) {
+            return res.status(400).json({ success: false, error: parsed.error });
+        }
+
+        const data = await createWatchlist(parsed.name);
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        console.error('Error creating watchlist:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/watchlists/:id
+ * Get one watchlist with the latest cached quote for each item
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const data = id ? await getWatchlist(id) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Watchlist not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error fetching watchlist:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * PATCH /api/watchlists/:id
+ * Rename a watchlist
+ *
+ * Body: { name: string }
+ */
+router.patch('/:id', async (req, res) => {
+    try {
+        const parsed = parseName(req.body);
+        if ('error' in parsed) {
+            return res.status(400).json({ success: false, error: parsed.error });
+        }
+
+        const id = parseId(req.params.id);
+        const data = id ? await renameWatchlist(id, parsed.name) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Watchlist not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error renaming watchlist:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/watchlists/:id
+ * Delete a watchlist and its items
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        if (!id || !(await deleteWatchlist(id))) {
+            return res.status(404).json({ success: false, error: 'Watchlist not found' });
+        }
+        res.json({ success: true, data: { id } });
+    } catch (error) {
+        console.error('Error deleting watchlist:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/watchlists/:id/symbols
+ * Add a stock, commodity ETF or currency pair to a watchlist
+ *
+ * Body: { symbol: string, type: 'stock' | 'commodity' | 'currency' (default: 'stock') }
+ * - Commodities: one of the enabled tracked ETFs (e.g., "GLD", see GET /api/instruments)
+ * - Currencies: one of the enabled tracked pairs (e.g., "USD/CNY")
+ */
+router.post('/:id/symbols', async (req, res) => {
+    try {
+        const { symbol, type = 'stock' } = req.body || {};
+        if (typeof symbol !== 'string' || !symbol.trim()) {
+            return res.status(400).json({ success: false, error: 'symbol is required' });
+        }
+        if (!WATCHLIST_ITEM_TYPES.includes(type)) {
+            return res.status(400).json({ success: false, error: `type must be one of: ${WATCHLIST_ITEM_TYPES.join(', ')}` });
+        }
+
+        const normalized = await normalizeWatchlistSymbol(symbol, type as WatchlistItemType);
+        if ('error' in normalized) {
+            return res.status(400).json({ success: false, error: normalized.error });
+        }
+
+        const id = parseId(req.params.id);
+        const data = id ? await addSymbolToWatchlist(id, normalized.symbol, type as WatchlistItemType) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Watchlist not found' });
+        }
+        res.status(201).json({ success: true, data });
+    } catch (error) {
+        console.error('Error adding watchlist symbol:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/watchlists/:id/symbols/:itemId
+ * Remove an item from a watchlist
+ */
+router.delete('/:id/symbols/:itemId', async (req, res) => {
+    try {
+        const id = parseId(req.params.id);
+        const itemId = parseId(req.params.itemId);
+        const data = id && itemId ? await removeSymbolFromWatchlist(id, itemId) : null;
+        if (!data) {
+            return res.status(404).json({ success: false, error: 'Watchlist item not found' });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Error removing watchlist symbol:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default router;
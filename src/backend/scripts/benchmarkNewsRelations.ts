@@ -0,0 +1,183 @@
+/**
+ * Benchmark news relation loading: per-article queries (previous implementation) vs batched IN (...) queries
+ * Reports the number of queries and the latency of loading one day of stored news with all relations
+ *
+ * Usage: npm run bench:news -- [YYYY-MM-DD] [runs]
+ * (defaults: today, 5 runs; needs stored news for that date in the configured database)
+ */
+import pool from '../config/database';
+import type { RowDataPacket } from 'mysql2';
+import { getNewsByDate, type NewsArticleWithRelations } from '../models/News';
+import { sourceFilterCondition } from '../models/NewsSource';
+
+interface RunStats {
+    queries: number;
+    ms: number;
+}
+
+let queryCount = 0;
+
+// Count every statement sent through the pool
+const originalExecute = pool.execute.bind(pool);
+pool.execute = ((...args: Parameters<typeof originalExecute>) => {
+    queryCount++;
+    return originalExecute(...args);
+}) as typeof pool.execute;
+
+/**
+ * Previous implementation: one query per article for categories, entities and similar news,
+ * plus one query per entity for highlights (articles filtered by source like getNewsByDate)
+ */
+async function getNewsByDatePerArticle(date: string): Promise<NewsArticleWithRelations[]> {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT n.uuid, n.title, n.description, n.snippet, n.url, n.image_url, n.language, n.published_at, n.source
+        FROM news_articles n
+        WHERE DATE(n.published_at) = ? AND ${sourceFilterCondition('n')}
+        ORDER BY n.published_at DESC`,
+        [date]
+    );
+
+    const articles: NewsArticleWithRelations[] = [];
+
+    for (const row of rows) {
+        const [categories] = await pool.execute<RowDataPacket[]>(
+            'SELECT category FROM news_categories WHERE news_uuid = ?',
+            [row.uuid]
+        );
+
+        const [entities] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, symbol, name, exchange, exchange_long, country, type, industry, match_score, sentiment_score
+            FROM news_entities WHERE news_uuid = ?`,
+            [row.uuid]
+        );
+
+        const entitiesWithHighlights = await Promise.all(
+            entities.map(async (entityRow) => {
+                const [highlights] = await pool.execute<RowDataPacket[]>(
+                    'SELECT highlight, sentiment, highlighted_in FROM news_entity_highlights WHERE entity_id = ?',
+                    [entityRow.id]
+                );
+
+                return {
+                    symbol: entityRow.symbol || '',
+                    name: entityRow.name,
+                    exchange: entityRow.exchange || '',
+                    exchange_long: entityRow.exchange_long || '',
+                    country: entityRow.country || '',
+                    type: entityRow.type || '',
+                    industry: entityRow.industry || '',
+                    match_score: entityRow.match_score || 0,
+                    sentiment_score: entityRow.sentiment_score || 0,
+                    highlights: highlights.map(h => ({
+                        highlight: h.highlight,
+                        sentiment: h.sentiment || 0,
+                        highlighted_in: h.highlighted_in || ''
+                    }))
+                };
+            })
+        );
+
+        const [similar] = await pool.execute<RowDataPacket[]>(
+            'SELECT similar_uuid, similar_title, similar_published_at, similar_source FROM news_similar WHERE news_uuid = ?',
+            [row.uuid]
+        );
+
+        articles.push({
+            uuid: row.uuid,
+            title: row.title,
+            description: row.description || undefined,
+            snippet: row.snippet || undefined,
+            url: row.url,
+            image_url: row.image_url || undefined,
+            language: row.language,
+            published_at: typeof row.published_at === 'string'
+                ? row.published_at
+                : row.published_at.toISOString(),
+            source: row.source,
+            categories: categories.map(c => c.category),
+            entities: entitiesWithHighlights,
+            similar: similar.map(s => ({
+                uuid: s.similar_uuid,
+                title: s.similar_title || '',
+                published_at: s.similar_published_at || '',
+                source: s.similar_source || ''
+            }))
+        });
+    }
+
+    return articles;
+}
+
+/**
+ * Run a loader several times and collect query counts and latencies
+ */
+async function measure(
+    load: (date: string) => Promise<NewsArticleWithRelations[]>,
+    date: string,
+    runs: number
+): Promise<{ stats: RunStats[]; articles: NewsArticleWithRelations[] }> {
+    const stats: RunStats[] = [];
+    let articles: NewsArticleWithRelations[] = [];
+
+    for (let i = 0; i < runs; i++) {
+        queryCount = 0;
+        const start = performance.now();
+        articles = await load(date);
+        stats.push({ queries: queryCount, ms: performance.now() - start });
+    }
+
+    return { stats, articles };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function report(label: string, stats: RunStats[]): void {
+    const latencies = stats.map(s => s.ms);
+    console.log(
+        `${label.padEnd(12)} queries/run: ${String(stats[0].queries).padStart(5)}  `
+        + `median: ${median(latencies).toFixed(1).padStart(8)} ms  `
+        + `min: ${Math.min(...latencies).toFixed(1).padStart(8)} ms  `
+        + `max: ${Math.max(...latencies).toFixed(1).padStart(8)} ms`
+    );
+}
+
+/**
+ * Compare outputs ignoring row order inside relations (neither query orders them)
+ */
+function normalize(articles: NewsArticleWithRelations[]): string {
+    return JSON.stringify(articles.map(article => ({
+        ...article,
+        categories: [...(article.categories || [])].sort(),
+        entities: [...(article.entities || [])].sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+        similar: [...(article.similar || [])].sort((a, b) => a.uuid.localeCompare(b.uuid))
+    })));
+}
+
+async function main(): Promise<void> {
+    const date = process.argv[2] || new Date().toISOString().split('T')[0];
+    const runs = Math.max(1, parseInt(process.argv[3] || '5', 10) || 5);
+
+    // Warm up the pool and the prepared statement cache
+    await getNewsByDate(date);
+    await getNewsByDatePerArticle(date);
+
+    const before = await measure(getNewsByDatePerArticle, date, runs);
+    const after = await measure(getNewsByDate, date, runs);
+
+    const entityCount = after.articles.reduce((sum, article) => sum + (article.entities?.length || 0), 0);
+    console.log(`News for ${date}: ${after.articles.length} articles, ${entityCount} entities, ${runs} runs\n`);
+    report('Per-article', before.stats);
+    report('Batched', after.stats);
+    console.log(`\nSame output: ${normalize(before.articles) === normalize(after.articles) ? 'yes' : 'NO'}`);
+}
+
+main()
+    .catch((error) => {
+        console.error('Benchmark failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
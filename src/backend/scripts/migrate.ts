@@ -0,0 +1,73 @@
+/**
+ * Apply, revert or list database schema migrations
+ *
+ * Usage: npm run migrate -- [command] [argument]
+ *   up [version]        Apply pending migrations (up to version, default: all)
+ *   down [steps]        Revert the most recently applied migrations (default: 1)
+ *   status              List migrations and when they were applied
+ *   baseline <version>  Mark migrations up to version as applied without running them
+ *                       (for databases created by hand from the old README)
+ */
+import pool from '../config/database';
+import {
+    baselineMigrations,
+    getMigrationStatus,
+    migrateDown,
+    migrateUp
+} from '../services/migrationService';
+
+/**
+ * Parse a positive integer argument
+ */
+function parseCount(value: string | undefined, label: string): number | undefined {
+    if (value === undefined) return undefined;
+    const count = parseInt(value, 10);
+    if (isNaN(count) || count < 1) {
+        throw new Error(`${label} must be a positive integer`);
+    }
+    return count;
+}
+
+async function status(): Promise<void> {
+    const statuses = await getMigrationStatus();
+    for (const migration of statuses) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(4, '0')}  ${migration.name.padEnd(32)} ${state}`);
+    }
+
+    const pending = statuses.filter(migration => !migration.appliedAt).length;
+    console.log(`\n${pending === 0 ? 'Schema is up to date' : `${pending} pending migration(s)`}`);
+}
+
+async function main(): Promise<void> {
+    const [command = 'up', argument] = process.argv.slice(2);
+
+    if (command === 'up') {
+        const applied = await migrateUp(parseCount(argument, 'version'));
+        console.log(applied.length === 0 ? 'Schema is up to date' : `Applied ${applied.length} migration(s)`);
+    } else if (command === 'down') {
+        const reverted = await migrateDown(parseCount(argument, 'steps') ?? 1);
+        if ('error' in reverted) {
+            throw new Error(reverted.error);
+        }
+        console.log(reverted.length === 0 ? 'No applied migrations' : `Reverted ${reverted.length} migration(s)`);
+    } else if (command === 'status') {
+        await status();
+    } else if (command === 'baseline') {
+        const version = parseCount(argument, 'version');
+        if (version === undefined) {
+            throw new Error('baseline needs the last version that already exists in the database');
+        }
+        const marked = await baselineMigrations(version);
+        console.log(`Marked ${marked.length} migration(s) as applied`);
+    } else {
+        throw new Error(`Unknown command "${command}" (expected up, down, status or baseline)`);
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('Migration failed:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
@@ -2,6 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import apiRoutes from './routes/api';
+import adminRoutes from './routes/admin';
+import watchlistRoutes from './routes/watchlists';
+import portfolioRoutes from './routes/portfolios';
+import alertRoutes from './routes/alerts';
+import streamRoutes from './routes/stream';
+import newsSourceRoutes from './routes/newsSources';
+import { startAlertEngine } from './services/alertService';
+import { startQuoteStream } from './services/quoteStream';
+import { startScheduler } from './services/schedulerService';
+import { getPendingMigrations } from './services/migrationService';
+import storageConfig from './config/storage';
+import apiProviderConfig from './config/apiProviders';
+import corsConfig from './config/cors';
+import { rejectCrossSiteChanges } from './middleware/sameOrigin';
 
 dotenv.config();
 
@@ -9,10 +23,17 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(cors()); // Enable CORS for frontend
+app.use(cors({ origin: corsConfig.origins })); // Enable CORS for the frontend only
+app.use(rejectCrossSiteChanges); // Other sites can't change data through a visitor's browser
 app.use(express.json()); // Parse JSON request bodies
 
 // Routes
+app.use('/api/admin', adminRoutes);
+app.use('/api/watchlists', watchlistRoutes);
+app.use('/api/portfolios', portfolioRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/stream', streamRoutes);
+app.use('/api/news/sources', newsSourceRoutes);
 app.use('/api', apiRoutes);
 
 // Health check endpoint
@@ -20,14 +41,48 @@ app.get('/health', (req, res) => {
     res.json({ status: 'ok', message: 'Server is running' });
 });
 
-// Start server
-app.listen(PORT, () => {
-    console.log(`Server is running on port ${PORT}`);
-    console.log(`Health check: http://localhost:${PORT}/health`);
-    console.log(`API endpoints:`);
-    console.log(`  - GET http://localhost:${PORT}/api/currency-rates`);
-    console.log(`  - GET http://localhost:${PORT}/api/commodity-prices`);
-    console.log(`  - GET http://localhost:${PORT}/api/news`);
-    console.log(`  - GET http://localhost:${PORT}/api/news?headlines=true`);
-    console.log(`  - GET http://localhost:${PORT}/api/news?symbols=AAPL,TSLA&limit=20`);
+/**
+ * Start serving once the database schema is up to date
+ * With STORAGE_DRIVER=memory, all data lives in memory and the schema isn't checked
+ */
+async function start(): Promise<void> {
+    const pending = storageConfig.driver === 'mysql' ? await getPendingMigrations() : [];
+    if (pending.length > 0) {
+        console.error(`Database schema is behind: ${pending.length} pending migration(s)`);
+        pending.forEach(migration => console.error(`  - ${migration.version} ${migration.name}`));
+        console.error('Run "npm run migrate" to apply them');
+        process.exit(1);
+    }
+
+    app.listen(PORT, () => {
+        console.log(`Server is running on port ${PORT} (${storageConfig.driver} storage)`);
+        if (apiProviderConfig.mode !== 'live') {
+            console.log(`External APIs: ${apiProviderConfig.mode} mode (fixtures in ${apiProviderConfig.fixturesDir})`);
+        }
+        console.log(`Health check: http://localhost:${PORT}/health`);
+        console.log(`API endpoints:`);
+        console.log(`  - GET http://localhost:${PORT}/api/currency-rates`);
+        console.log(`  - GET http://localhost:${PORT}/api/commodity-prices`);
+        console.log(`  - GET http://localhost:${PORT}/api/news`);
+        console.log(`  - GET http://localhost:${PORT}/api/news?headlines=true`);
+        console.log(`  - GET http://localhost:${PORT}/api/news?symbols=AAPL,TSLA&limit=20`);
+        console.log(`  - GET http://localhost:${PORT}/api/news/sources`);
+        console.log(`  - GET http://localhost:${PORT}/api/watchlists`);
+        console.log(`  - GET http://localhost:${PORT}/api/portfolios`);
+        console.log(`  - GET http://localhost:${PORT}/api/alerts`);
+        console.log(`  - GET http://localhost:${PORT}/api/stream?symbols=USD/CNY,GLD,AAPL (SSE)`);
+        console.log(`  - GET http://localhost:${PORT}/api/admin/jobs`);
+    
+        // Evaluate alert rules and push live updates as the scheduler saves new data
+        startAlertEngine();
+        startQuoteStream();
+
+        // Warm market data and news in the background
+        startScheduler();
+    });
+}
+
+start().catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
 });
\ No newline at end of file
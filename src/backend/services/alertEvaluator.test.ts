@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluatePriceRule, isInCooldown, matchesNewsRule } from './alertEvaluator';
+import type { AlertOperator } from '../../frontend/services/interface';
+
+const NOW = new Date('2024-06-03T12:00:00Z');
+
+/**
+ * Rule fields evaluatePriceRule reads, with no hysteresis or cooldown by default
+ */
+function rule(operator: AlertOperator, threshold: number, fields: { hysteresis?: number; cooldownMinutes?: number; lastTriggeredAt?: string | null } = {}) {
+    return { operator, threshold, hysteresis: 0, cooldownMinutes: 0, lastTriggeredAt: null, ...fields };
+}
+
+describe('isInCooldown', () => {
+    it('is false for a rule that never triggered or has no cooldown', () => {
+        assert.equal(isInCooldown(null, 60, NOW), false);
+        assert.equal(isInCooldown('2024-06-03T11:59:00Z', 0, NOW), false);
+    });
+
+    it('is true until the cooldown has passed', () => {
+        assert.equal(isInCooldown('2024-06-03T11:30:00Z', 60, NOW), true);
+        assert.equal(isInCooldown('2024-06-03T11:00:00Z', 60, NOW), false);
+    });
+});
+
+describe('evaluatePriceRule', () => {
+    it('fires a threshold rule once when the condition becomes true', () => {
+        const first = evaluatePriceRule(rule('>', 100), null, 101, NOW);
+        assert.deepEqual(first, { triggered: true, state: 'fired', suppressed: false });
+
+        const second = evaluatePriceRule(rule('>', 100), first.state, 105, NOW);
+        assert.deepEqual(second, { triggered: false, state: 'fired', suppressed: false });
+    });
+
+    it('stays armed while the condition is false', () => {
+        assert.deepEqual(evaluatePriceRule(rule('<', 100), 'armed', 101, NOW), { triggered: false, state: 'armed', suppressed: false });
+    });
+
+    it('re-arms only after the value moves back past the hysteresis margin', () => {
+        const withBand = rule('>', 100, { hysteresis: 2 });
+
+        assert.equal(evaluatePriceRule(withBand, 'fired', 99, NOW).state, 'fired');
+        assert.equal(evaluatePriceRule(withBand, 'fired', 98, NOW).state, 'armed');
+    });
+
+    it('suppresses a trigger during the cooldown and keeps the rule armed', () => {
+        const cooling = rule('>', 100, { cooldownMinutes: 60, lastTriggeredAt: '2024-06-03T11:30:00Z' });
+
+        assert.deepEqual(evaluatePriceRule(cooling, 'armed', 101, NOW), { triggered: false, state: 'armed', suppressed: true });
+    });
+
+    it('records the first side of a crossing rule without firing', () => {
+        assert.deepEqual(evaluatePriceRule(rule('crosses', 100), null, 95, NOW), { triggered: false, state: 'below', suppressed: false });
+    });
+
+    it('fires a crossing rule when the value changes sides', () => {
+        assert.deepEqual(evaluatePriceRule(rule('crosses', 100), 'below', 105, NOW), { triggered: true, state: 'above', suppressed: false });
+        assert.deepEqual(evaluatePriceRule(rule('crosses', 100), 'above', 95, NOW), { triggered: true, state: 'below', suppressed: false });
+    });
+
+    it('ignores values inside the hysteresis band of a crossing rule', () => {
+        const withBand = rule('crosses', 100, { hysteresis: 2 });
+
+        assert.deepEqual(evaluatePriceRule(withBand, 'below', 101, NOW), { triggered: false, state: 'below', suppressed: false });
+        assert.equal(evaluatePriceRule(withBand, 'below', 102, NOW).triggered, true);
+    });
+
+    it('moves a crossing rule to the new side during the cooldown without firing', () => {
+        const cooling = rule('crosses', 100, { cooldownMinutes: 60, lastTriggeredAt: '2024-06-03T11:30:00Z' });
+
+        assert.deepEqual(evaluatePriceRule(cooling, 'below', 105, NOW), { triggered: false, state: 'above', suppressed: true });
+    });
+});
+
+describe('matchesNewsRule', () => {
+    it('matches every article when the rule has no condition', () => {
+        assert.equal(matchesNewsRule({ operator: null, threshold: null }, null), true);
+    });
+
+    it('compares the sentiment with the threshold', () => {
+        assert.equal(matchesNewsRule({ operator: '>', threshold: 0.5 }, 0.6), true);
+        assert.equal(matchesNewsRule({ operator: '>', threshold: 0.5 }, 0.4), false);
+        assert.equal(matchesNewsRule({ operator: '<', threshold: -0.5 }, -0.6), true);
+    });
+
+    it('does not match an article without sentiment when the rule has a condition', () => {
+        assert.equal(matchesNewsRule({ operator: '<', threshold: 0 }, null), false);
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * Alert rule evaluation (pure, no database access)
+ * Threshold rules fire once when their condition becomes true and re-arm only after the
+ * value moves back past the threshold by the hysteresis margin; crossing rules track which
+ * side of the threshold (outside the hysteresis band) the value was last seen on
+ */
+import type { AlertOperator, AlertRule } from '../../frontend/services/interface';
+
+/**
+ * Stored evaluation state of a rule
+ * - 'armed' / 'fired' for '>' and '<' rules
+ * - 'above' / 'below' for 'crosses' rules
+ */
+export type AlertState = 'armed' | 'fired' | 'above' | 'below';
+
+export interface RuleEvaluation {
+    triggered: boolean;
+    state: AlertState | null;
+    suppressed: boolean;    // Condition met but the rule is cooling down
+}
+
+type EvaluatedRule = Pick<AlertRule, 'operator' | 'threshold' | 'hysteresis' | 'cooldownMinutes' | 'lastTriggeredAt'>;
+
+/**
+ * Check whether a rule triggered too recently to trigger again
+ */
+export function isInCooldown(lastTriggeredAt: string | null, cooldownMinutes: number, now: Date): boolean {
+    if (!lastTriggeredAt || cooldownMinutes <= 0) return false;
+    return now.getTime() - new Date(lastTriggeredAt).getTime() < cooldownMinutes * 60 * 1000;
+}
+
+/**
+ * Evaluate a price rule against a new value
+ * @param state State saved by the previous evaluation (null for a new rule)
+ */
+export function evaluatePriceRule(
+    rule: EvaluatedRule,
+    state: AlertState | null,
+    value: number,
+    now: Date
+): RuleEvaluation {
+    const threshold = rule.threshold as number;
+    const hysteresis = Math.max(rule.hysteresis, 0);
+    const cooling = isInCooldown(rule.lastTriggeredAt, rule.cooldownMinutes, now);
+
+    if (rule.operator === 'crosses') {
+        const side: AlertState | null = value >= threshold + hysteresis
+            ? 'above'
+            : value <= threshold - hysteresis ? 'below' : null;
+
+        // Inside the hysteresis band, or the first observation: nothing crossed yet
+        if (side === null) return { triggered: false, state, suppressed: false };
+        if (state !== 'above' && state !== 'below') return { triggered: false, state: side, suppressed: false };
+        if (side === state) return { triggered: false, state, suppressed: false };
+
+        return { triggered: !cooling, state: side, suppressed: cooling };
+    }
+
+    const conditionMet = compare(rule.operator as AlertOperator, value, threshold);
+    const rearmed = rule.operator === '>' ? value <= threshold - hysteresis : value >= threshold + hysteresis;
+    const currentState: AlertState = state === 'fired' ? 'fired' : 'armed';
+
+    if (currentState === 'fired') {
+        return { triggered: false, state: rearmed ? 'armed' : 'fired', suppressed: false };
+    }
+    if (!conditionMet) {
+        return { triggered: false, state: 'armed', suppressed: false };
+    }
+    // Stay armed while cooling down so the rule fires once the cooldown ends
+    if (cooling) {
+        return { triggered: false, state: 'armed', suppressed: true };
+    }
+    return { triggered: true, state: 'fired', suppressed: false };
+}
+
+/**
+ * Check whether a news entity's sentiment matches a news rule
+ * Rules without an operator match every article about the symbol
+ */
+export function matchesNewsRule(rule: Pick<AlertRule, 'operator' | 'threshold'>, sentiment: number | null): boolean {
+    if (!rule.operator || rule.threshold === null) return true;
+    if (sentiment === null) return false;
+    return compare(rule.operator, sentiment, rule.threshold);
+}
+
+/**
+ * Compare a value with a threshold for '>' and '<' operators
+ */
+function compare(operator: AlertOperator, value: number, threshold: number): boolean {
+    return operator === '>' ? value > threshold : operator === '<' ? value < threshold : false;
+}
@@ -0,0 +1,211 @@
+import type { AlertRuleData, AlertRuleInput } from '../models/Alert';
+import storage from '../repositories';
+import { evaluatePriceRule, isInCooldown, matchesNewsRule } from './alertEvaluator';
+import { onMarketEvent } from './marketEvents';
+import type {
+    AlertField,
+    AlertRule,
+    AlertTargetType,
+    AlertTrigger,
+    MarketauxNewsArticle
+} from '../../frontend/services/interface';
+
+/**
+ * Values a price rule can watch (null when the source doesn't provide it)
+ */
+type PriceValues = Record<Exclude<AlertField, 'sentiment'>, number | null>;
+
+// Length of the alert_triggers.message column
+const MAX_MESSAGE_LENGTH = 500;
+
+let engineStarted = false;
+
+/**
+ * Parse a numeric quote field such as '1.23' or '0.4567%'
+ */
+function parseQuoteNumber(value: string | number | undefined | null): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = typeof value === 'number' ? value : parseFloat(value.replace('%', ''));
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Strip the evaluation state before returning a rule over the API
+ */
+function toAlertRule(rule: AlertRuleData): AlertRule {
+    const { state, ...publicRule } = rule;
+    void state;
+    return publicRule;
+}
+
+/**
+ * Describe a price trigger, e.g., 'GLD changePercent 2.35 > 2' or 'USD/JPY price crossed above 150 (150.12)'
+ */
+function describePriceTrigger(rule: AlertRuleData, value: number, side: string | null): string {
+    if (rule.operator === 'crosses') {
+        return `${rule.symbol} ${rule.field} crossed ${side} ${rule.threshold} (${value})`;
+    }
+    return `${rule.symbol} ${rule.field} ${value} ${rule.operator} ${rule.threshold}`;
+}
+
+/**
+ * Evaluate enabled price rules for a symbol against new values
+ */
+async function evaluatePriceAlerts(targetType: AlertTargetType, symbol: string, values: PriceValues): Promise<void> {
+    const rules = await storage.alerts.getEnabledAlertsForSymbol('price', symbol, targetType);
+    const now = new Date();
+
+    for (const rule of rules) {
+        const value = values[rule.field as keyof PriceValues];
+        if (value === null || value === undefined) continue;
+
+        const result = evaluatePriceRule(rule, rule.state, value, now);
+
+        if (result.triggered) {
+            const message = describePriceTrigger(rule, value, result.state);
+            await storage.alerts.saveAlertTrigger(rule.id, value, message);
+            await storage.alerts.saveAlertState(rule.id, result.state, value, now);
+            console.log(`[alerts] Triggered "${rule.name}": ${message}`);
+        } else {
+            if (result.suppressed) {
+                console.log(`[alerts] "${rule.name}" matched but is cooling down`);
+            }
+            await storage.alerts.saveAlertState(rule.id, result.state, value);
+        }
+    }
+}
+
+/**
+ * Evaluate enabled news rules against a newly saved article
+ * Each rule triggers at most once per article, for the first matching entity
+ */
+async function evaluateNewsAlerts(article: MarketauxNewsArticle): Promise<void> {
+    const now = new Date();
+
+    for (const entity of article.entities || []) {
+        if (!entity.symbol) continue;
+
+        const rules = await storage.alerts.getEnabledAlertsForSymbol('news', entity.symbol.toUpperCase());
+        for (const rule of rules) {
+            const sentiment = typeof entity.sentiment_score === 'number' ? entity.sentiment_score : null;
+            if (!matchesNewsRule(rule, sentiment)) continue;
+
+            // Reload so a rule that already fired for another entity of this article sees its cooldown
+            const current = await storage.alerts.getAlertById(rule.id);
+            if (!current || isInCooldown(current.lastTriggeredAt, current.cooldownMinutes, now)) continue;
+
+            const message = sentiment !== null
+                ? `${entity.symbol} news (sentiment ${sentiment}): ${article.title}`
+                : `${entity.symbol} news: ${article.title}`;
+            await storage.alerts.saveAlertTrigger(rule.id, sentiment, message.slice(0, MAX_MESSAGE_LENGTH), article.uuid);
+            await storage.alerts.saveAlertState(rule.id, null, sentiment, now);
+            console.log(`[alerts] Triggered "${rule.name}": ${message}`);
+        }
+    }
+}
+
+/**
+ * Start evaluating alert rules whenever new market data or news is saved
+ */
+export function startAlertEngine(): void {
+    if (engineStarted) return;
+    engineStarted = true;
+
+    onMarketEvent('currency-rate', rate => evaluatePriceAlerts(
+        'currency',
+        `${rate.fromCurrency}/${rate.toCurrency}`,
+        { price: rate.exchangeRate, change: null, changePercent: null }
+    ));
+
+    onMarketEvent('commodity-price', price => evaluatePriceAlerts('commodity', price.symbol, {
+        price: parseQuoteNumber(price.price),
+        change: parseQuoteNumber(price.changeAmount),
+        changePercent: parseQuoteNumber(price.changePercent)
+    }));
+
+    onMarketEvent('stock-quote', quote => evaluatePriceAlerts('stock', quote.symbol, {
+        price: parseQuoteNumber(quote.price),
+        change: parseQuoteNumber(quote.change),
+        changePercent: parseQuoteNumber(quote.changePercent)
+    }));
+
+    onMarketEvent('news-article', article => evaluateNewsAlerts(article));
+
+    console.log('[alerts] Evaluating alert rules on new market data and news');
+}
+
+/**
+ * Get all alert rules
+ */
+export async function getAlerts(): Promise<AlertRule[]> {
+    return (await storage.alerts.getAlerts()).map(toAlertRule);
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlert(data: AlertRuleInput): Promise<AlertRule> {
+    const id = await storage.alerts.createAlert(data);
+    return toAlertRule((await storage.alerts.getAlertById(id)) as AlertRuleData);
+}
+
+/**
+ * Update an alert rule
+ * @returns Updated rule, or null if it doesn't exist
+ */
+export async function updateAlert(id: number, data: AlertRuleInput): Promise<AlertRule | null> {
+    const existing = await storage.alerts.getAlertById(id);
+    if (!existing) return null;
+
+    const conditionChanged = existing.kind !== data.kind
+        || existing.targetType !== data.targetType
+        || existing.symbol !== data.symbol
+        || existing.field !== data.field
+        || existing.operator !== data.operator
+        || existing.threshold !== data.threshold
+        || existing.hysteresis !== data.hysteresis;
+
+    await storage.alerts.updateAlert(id, data, conditionChanged);
+    return toAlertRule((await storage.alerts.getAlertById(id)) as AlertRuleData);
+}
+
+/**
+ * Get an alert rule for updates
+ * @returns null if it doesn't exist
+ */
+export async function getAlert(id: number): Promise<AlertRule | null> {
+    const rule = await storage.alerts.getAlertById(id);
+    return rule ? toAlertRule(rule) : null;
+}
+
+/**
+ * Delete an alert rule and its trigger history
+ * @returns false if the rule doesn't exist
+ */
+export async function deleteAlert(id: number): Promise<boolean> {
+    return storage.alerts.deleteAlert(id);
+}
+
+/**
+ * Get triggered alert history with the unacknowledged count (for the Header badge)
+ */
+export async function getTriggeredAlerts(options: {
+    limit: number;
+    afterId?: number;
+    unacknowledgedOnly?: boolean;
+}): Promise<{ triggers: AlertTrigger[]; unacknowledged: number }> {
+    const [triggers, unacknowledged] = await Promise.all([
+        storage.alerts.getAlertTriggers(options),
+        storage.alerts.countUnacknowledgedTriggers()
+    ]);
+
+    return { triggers, unacknowledged };
+}
+
+/**
+ * Mark triggered alerts as acknowledged
+ * @param ids Trigger IDs (omit to acknowledge all)
+ */
+export async function acknowledgeTriggeredAlerts(ids?: number[]): Promise<void> {
+    await storage.alerts.acknowledgeAlertTriggers(ids);
+}
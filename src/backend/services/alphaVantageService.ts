@@ -1,48 +1,143 @@
 import dotenv from 'dotenv';
 import type { 
+    Candle,
     CurrencyRate, 
     StockQuote, 
+    StockSearchResult,
     AlphaVantageCurrencyResponse, 
-    AlphaVantageQuoteResponse 
+    AlphaVantageQuoteResponse,
+    AlphaVantageSearchResponse,
+    AlphaVantageTimeSeriesResponse
 } from '../../frontend/services/interface';
 
+import apiProviderConfig from '../config/apiProviders';
+import { createApiProvider, type ApiQuery } from './apiProvider';
+import { failureOfStatus, fetchUpstream, providerError } from './providerErrors';
+import { createRateLimitQueue, type RequestPriority } from './rateLimitQueue';
+import { syntheticAlphaVantageResponse } from './syntheticMarketData';
+
 dotenv.config();
 
 const API_KEY = process.env.VITE_ALPHA_VANTAGE_API_KEY;
+// Premium keys can request the full daily history (outputsize=full on TIME_SERIES_DAILY)
+const PREMIUM = process.env.ALPHA_VANTAGE_PREMIUM === 'true';
 const BASE_URL = 'https://www.alphavantage.co/query';
 
+// Shared by every Alpha Vantage call (free tier: 5 calls/minute, 25 calls/day)
+const requestQueue = createRateLimitQueue({
+    name: 'Alpha Vantage',
+    perMinute: parseInt(process.env.ALPHA_VANTAGE_CALLS_PER_MINUTE || '5', 10),
+    perDay: parseInt(process.env.ALPHA_VANTAGE_CALLS_PER_DAY || '25', 10),
+    maxRetries: parseInt(process.env.ALPHA_VANTAGE_MAX_RETRIES || '2', 10),
+    retryDelayMs: 60000
+});
+
 /**
- * Fetch currency rate from Alpha Vantage API
- * @param fromCurrency Base currency code, e.g., 'USD'
- * @param toCurrency Target currency code, e.g., 'CNY'
- * @returns Promise with currency rate data
+ * Call the Alpha Vantage API
  */
-export async function fetchCurrencyRateFromAPI(
-    fromCurrency: string, 
-    toCurrency: string
-): Promise<CurrencyRate> {
+async function fetchFromAlphaVantage(query: ApiQuery): Promise<unknown> {
     if (!API_KEY) {
         throw new Error('Alpha Vantage API key is not configured');
     }
     
-    const url = `${BASE_URL}?function=CURRENCY_EXCHANGE_RATE&from_currency=${fromCurrency}&to_currency=${toCurrency}&apikey=${API_KEY}`;
-    
-    const response = await fetch(url);
+    const response = await fetchUpstream(`${BASE_URL}?${new URLSearchParams({ ...query, apikey: API_KEY }).toString()}`);
     
     if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
+        const failure = failureOfStatus(response.status);
+        const message = `API request failed: ${response.status}`;
+        throw failure ? providerError(failure, message) : new Error(message);
+    }
+    
+    return await response.json();
+}
+
+// Live, recording or replaying depending on API_PROVIDER_MODE; rate-limit answers are never recorded
+const provider = createApiProvider({
+    name: 'alphavantage',
+    live: fetchFromAlphaVantage,
+    synthesize: syntheticAlphaVantageResponse,
+    shouldRecord: data => !(data as { 'Note'?: string })['Note']
+});
+
+/**
+ * Call Alpha Vantage through the shared rate-limited queue
+ * Background requests answered with a frequency-limit 'Note' are retried by the queue unless retryOnLimit is false;
+ * interactive requests get the 'Note' back at once, since retries would hold the user's request for minutes
+ * Replayed requests use no quota and skip the queue
+ * @param query Query parameters (function, symbol, ...) without the API key
+ * @param priority 'interactive' for user requests, 'background' for scheduled ingestion
+ * @param retryOnLimit Retry a throttled background call (default: true); false returns the 'Note' at once
+ * @returns Promise with the parsed JSON response
+ */
+async function requestAlphaVantage<T extends { 'Note'?: string }>(
+    query: ApiQuery,
+    priority: RequestPriority,
+    retryOnLimit = true
+): Promise<T> {
+    if (apiProviderConfig.mode === 'replay') {
+        return await provider(query) as T;
     }
     
-    const data: AlphaVantageCurrencyResponse = await response.json();
+    return requestQueue.enqueue(async () => await provider(query) as T, {
+        priority,
+        shouldRetry: priority === 'background' && retryOnLimit ? data => Boolean(data['Note']) : undefined
+    });
+}
+
+/**
+ * Get Alpha Vantage request budget usage
+ */
+export function getAlphaVantageQueueStats() {
+    return requestQueue.getStats();
+}
+
+/**
+ * Check whether Alpha Vantage can be called (API key set, or replaying fixtures)
+ */
+export function isAlphaVantageConfigured(): boolean {
+    return Boolean(API_KEY) || apiProviderConfig.mode === 'replay';
+}
+
+/**
+ * Check whether the API key is on a premium plan (ALPHA_VANTAGE_PREMIUM=true)
+ */
+export function isAlphaVantagePremium(): boolean {
+    return PREMIUM;
+}
+
+/**
+ * Fetch currency rate from Alpha Vantage API
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @param priority Queue priority (default: 'interactive')
+ * @param retryOnLimit Wait and retry when a background request is throttled (default: true); false throws a quota error at once
+ * @returns Promise with currency rate data
+ */
+export async function fetchCurrencyRateFromAPI(
+    fromCurrency: string, 
+    toCurrency: string,
+    priority: RequestPriority = 'interactive',
+    retryOnLimit = true
+): Promise<CurrencyRate> {
+    const data = await requestAlphaVantage<AlphaVantageCurrencyResponse>({
+        function: 'CURRENCY_EXCHANGE_RATE',
+        from_currency: fromCurrency,
+        to_currency: toCurrency
+    }, priority, retryOnLimit);
     
     if (data['Note']) {
-        throw new Error('API call frequency limit exceeded');
+        throw providerError('quota', 'API call frequency limit exceeded');
     }
     
     if (data['Error Message']) {
         throw new Error(data['Error Message']);
     }
     
+    // Daily limit answers come as 'Information'
+    if (data['Information']) {
+        throw providerError('quota', data['Information']);
+    }
+    
     if (!data['Realtime Currency Exchange Rate']) {
         throw new Error(`Currency rate not found for ${fromCurrency}/${toCurrency}`);
     }
@@ -63,31 +158,33 @@ export async function fetchCurrencyRateFromAPI(
 /**
  * Fetch stock quote from Alpha Vantage API
  * @param symbol Stock symbol, e.g., 'AAPL', 'GLD'
+ * @param priority Queue priority (default: 'interactive')
+ * @param retryOnLimit Wait and retry when a background request is throttled (default: true); false throws a quota error at once
  * @returns Promise with stock quote data
  */
-export async function fetchStockQuoteFromAPI(symbol: string): Promise<StockQuote> {
-    if (!API_KEY) {
-        throw new Error('Alpha Vantage API key is not configured');
-    }
-    
-    const url = `${BASE_URL}?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${API_KEY}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
-    }
-    
-    const data: AlphaVantageQuoteResponse = await response.json();
+export async function fetchStockQuoteFromAPI(
+    symbol: string,
+    priority: RequestPriority = 'interactive',
+    retryOnLimit = true
+): Promise<StockQuote> {
+    const data = await requestAlphaVantage<AlphaVantageQuoteResponse>({
+        function: 'GLOBAL_QUOTE',
+        symbol
+    }, priority, retryOnLimit);
     
     if (data['Note']) {
-        throw new Error('API call frequency limit exceeded');
+        throw providerError('quota', 'API call frequency limit exceeded');
     }
     
     if (data['Error Message']) {
         throw new Error(data['Error Message']);
     }
     
+    // Daily limit answers come as 'Information'
+    if (data['Information']) {
+        throw providerError('quota', data['Information']);
+    }
+    
     if (!data['Global Quote'] || !data['Global Quote']['01. symbol']) {
         throw new Error(`Stock symbol "${symbol}" not found`);
     }
@@ -106,4 +203,133 @@ export async function fetchStockQuoteFromAPI(symbol: string): Promise<StockQuote
         change: quote['09. change'],
         changePercent: quote['10. change percent'],
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Search stock symbols from Alpha Vantage API
+ * @param keywords Symbol or company name, e.g., 'AAPL', 'Apple'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with matching symbols
+ */
+export async function searchSymbolsFromAPI(
+    keywords: string,
+    priority: RequestPriority = 'interactive'
+): Promise<StockSearchResult[]> {
+    const data = await requestAlphaVantage<AlphaVantageSearchResponse>({
+        function: 'SYMBOL_SEARCH',
+        keywords
+    }, priority);
+    
+    if (data['Note']) {
+        throw providerError('quota', 'API call frequency limit exceeded');
+    }
+    
+    if (data['Error Message']) {
+        throw new Error(data['Error Message']);
+    }
+    
+    // Daily limit answers come as 'Information'
+    if (data['Information']) {
+        throw providerError('quota', data['Information']);
+    }
+    
+    if (!data['bestMatches']) {
+        return [];
+    }
+    
+    return data['bestMatches'].map(match => ({
+        symbol: match['1. symbol'],
+        name: match['2. name'],
+        type: match['3. type'],
+        region: match['4. region'],
+        marketOpen: match['5. marketOpen'],
+        marketClose: match['6. marketClose'],
+        timezone: match['7. timezone'],
+        currency: match['8. currency'],
+        matchScore: match['9. matchScore'],
+    }));
+}
+
+/**
+ * Convert an Alpha Vantage time series response to candles (oldest first)
+ */
+function parseTimeSeries(
+    data: AlphaVantageTimeSeriesResponse,
+    seriesKey: `Time Series (${string})`,
+    symbol: string
+): Candle[] {
+    if (data['Note']) {
+        throw providerError('quota', 'API call frequency limit exceeded');
+    }
+    
+    if (data['Error Message']) {
+        throw new Error(data['Error Message']);
+    }
+    
+    // Daily limit and premium-only answers come as 'Information'
+    if (data['Information']) {
+        throw providerError('quota', data['Information']);
+    }
+    
+    const series = data[seriesKey];
+    if (!series) {
+        throw new Error(`No time series data found for "${symbol}"`);
+    }
+    
+    return Object.entries(series)
+        .map(([timestamp, candle]) => ({
+            timestamp,
+            open: parseFloat(candle['1. open']),
+            high: parseFloat(candle['2. high']),
+            low: parseFloat(candle['3. low']),
+            close: parseFloat(candle['4. close']),
+            volume: parseInt(candle['5. volume'], 10),
+        }))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Fetch daily candles from Alpha Vantage API (TIME_SERIES_DAILY)
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param outputSize 'compact' (latest 100 days) or 'full' (full history, premium keys only)
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with daily candles, oldest first
+ */
+export async function fetchDailySeriesFromAPI(
+    symbol: string,
+    outputSize: 'compact' | 'full' = 'compact',
+    priority: RequestPriority = 'interactive'
+): Promise<Candle[]> {
+    const data = await requestAlphaVantage<AlphaVantageTimeSeriesResponse>({
+        function: 'TIME_SERIES_DAILY',
+        symbol,
+        outputsize: outputSize
+    }, priority);
+    
+    return parseTimeSeries(data, 'Time Series (Daily)', symbol);
+}
+
+/**
+ * Fetch intraday candles from Alpha Vantage API (TIME_SERIES_INTRADAY)
+ * Timestamps are in exchange time (US/Eastern)
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param interval Candle interval, '1min' or '5min'
+ * @param outputSize 'compact' (latest 100 candles) or 'full' (trailing 30 days)
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with intraday candles, oldest first
+ */
+export async function fetchIntradaySeriesFromAPI(
+    symbol: string,
+    interval: '1min' | '5min',
+    outputSize: 'compact' | 'full' = 'compact',
+    priority: RequestPriority = 'interactive'
+): Promise<Candle[]> {
+    const data = await requestAlphaVantage<AlphaVantageTimeSeriesResponse>({
+        function: 'TIME_SERIES_INTRADAY',
+        symbol,
+        interval,
+        outputsize: outputSize
+    }, priority);
+    
+    return parseTimeSeries(data, `Time Series (${interval})`, symbol);
+}
@@ -0,0 +1,105 @@
+/**
+ * Provider abstraction behind the Alpha Vantage and Marketaux services
+ * A provider answers a query (request parameters without the API key) with the raw JSON
+ * response; the services parse it the same way whatever the provider
+ */
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import apiProviderConfig from '../config/apiProviders';
+
+export type ApiQuery = Record<string, string>;
+
+export type ApiProvider = (query: ApiQuery) => Promise<unknown>;
+
+/**
+ * Fixture file content: the response with the request it answers
+ */
+interface Fixture {
+    provider: string;
+    query: ApiQuery;
+    recordedAt: string;
+    response: unknown;
+}
+
+interface ApiProviderOptions {
+    name: string;                                   // Fixture subdirectory, e.g., 'alphavantage'
+    live: ApiProvider;                              // Calls the API
+    synthesize: (query: ApiQuery, today: string) => unknown; // Replay answer for queries without a fixture
+    shouldRecord?: (response: unknown) => boolean;  // e.g., skip rate-limit answers
+}
+
+/**
+ * Fixture file of a query: parameters sorted by name, so the same request always maps to the same file
+ * Long names are shortened with a hash
+ * @example fixturePath('alphavantage', { symbol: 'AAPL', function: 'GLOBAL_QUOTE' })
+ * // <API_FIXTURES_DIR>/alphavantage/function=GLOBAL_QUOTE&symbol=AAPL.json
+ */
+export function fixturePath(provider: string, query: ApiQuery): string {
+    const key = Object.keys(query)
+        .sort()
+        .map(name => `${name}=${query[name]}`)
+        .join('&');
+    let fileName = key.replace(/[^\w.,=&-]+/g, '_');
+
+    if (fileName.length > 120) {
+        fileName = `${fileName.slice(0, 100)}-${createHash('sha1').update(key).digest('hex').slice(0, 12)}`;
+    }
+
+    return path.join(apiProviderConfig.fixturesDir, provider, `${fileName || 'default'}.json`);
+}
+
+/**
+ * Read the recorded response of a query
+ * @returns undefined if the query was never recorded
+ */
+async function readFixture(provider: string, query: ApiQuery): Promise<unknown> {
+    try {
+        const fixture = JSON.parse(await readFile(fixturePath(provider, query), 'utf8')) as Fixture;
+        return fixture.response;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Save a response as the fixture of its query (replaces an earlier recording)
+ */
+async function writeFixture(provider: string, query: ApiQuery, response: unknown): Promise<void> {
+    const file = fixturePath(provider, query);
+    const fixture: Fixture = { provider, query, recordedAt: new Date().toISOString(), response };
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Date synthetic responses are generated for: API_REPLAY_DATE, or today (UTC)
+ */
+function getReplayDate(): string {
+    return apiProviderConfig.replayDate || new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Create the provider for the configured API_PROVIDER_MODE
+ */
+export function createApiProvider({ name, live, synthesize, shouldRecord = () => true }: ApiProviderOptions): ApiProvider {
+    switch (apiProviderConfig.mode) {
+        case 'record':
+            return async query => {
+                const response = await live(query);
+                if (shouldRecord(response)) {
+                    await writeFixture(name, query, response);
+                }
+                return response;
+            };
+        case 'replay':
+            return async query => {
+                const response = await readFixture(name, query);
+                return response === undefined ? synthesize(query, getReplayDate()) : response;
+            };
+        default:
+            return live;
+    }
+}
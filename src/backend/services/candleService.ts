@@ -0,0 +1,210 @@
+import type { StoredCandleInterval } from '../models/StockCandle';
+import storage from '../repositories';
+import { fetchDailySeriesFromAPI, fetchIntradaySeriesFromAPI, isAlphaVantagePremium } from './alphaVantageService';
+import { downsample } from './timeSeries';
+import { computeIndicator, vwap, type IndicatorSpec } from './indicators';
+import type { Candle, CandleInterval, ChartRange, StockIndicators } from '../../frontend/services/interface';
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1min', '5min', 'daily', 'weekly'];
+
+export const CHART_RANGES: ChartRange[] = ['1D', '5D', '1M', '6M', '1Y', 'MAX'];
+
+// How long stored candles are served before they are refreshed from the API
+const CACHE_MINUTES: Record<StoredCandleInterval, number> = {
+    '1min': 15,
+    '5min': 15,
+    daily: 6 * 60
+};
+
+// Time covered by a 'compact' response (latest 100 candles)
+const COMPACT_SPAN_MINUTES: Record<StoredCandleInterval, number> = {
+    '1min': 100,
+    '5min': 500,
+    daily: 100 * 24 * 60
+};
+
+// Time covered by each range preset
+const RANGE_SPAN_MINUTES: Record<ChartRange, number> = {
+    '1D': 24 * 60,
+    '5D': 7 * 24 * 60,
+    '1M': 31 * 24 * 60,
+    '6M': 184 * 24 * 60,
+    '1Y': 366 * 24 * 60,
+    MAX: Infinity
+};
+
+/**
+ * Get how far back a request reaches, in minutes (0 when it only wants what is stored)
+ */
+function getRequestedSpanMinutes(options: { range?: ChartRange; from?: string }): number {
+    if (options.from) {
+        const from = Date.parse(`${options.from}T00:00:00Z`);
+        return Number.isNaN(from) ? 0 : Math.max(0, (Date.now() - from) / 60000);
+    }
+    return options.range ? RANGE_SPAN_MINUTES[options.range] : 0;
+}
+
+/**
+ * Subtract months from a YYYY-MM-DD date (UTC)
+ */
+function subtractMonths(date: string, months: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCMonth(d.getUTCMonth() - months);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * Refresh stored candles from the API when they are missing or stale
+ * Uses a 'compact' request unless the requested span or the time since the last refresh
+ * is longer than it covers; full daily history is premium-only, so free keys always get 'compact'
+ * @param spanMinutes How far back the request reaches (see getRequestedSpanMinutes)
+ */
+async function refreshCandlesIfStale(symbol: string, interval: StoredCandleInterval, spanMinutes: number): Promise<void> {
+    const lastUpdated = await storage.stockCandles.getCandlesLastUpdated(symbol, interval);
+    const ageMinutes = lastUpdated ? (Date.now() - lastUpdated.getTime()) / 60000 : Infinity;
+
+    if (ageMinutes < CACHE_MINUTES[interval]) {
+        console.log(`Using cached ${interval} candles for ${symbol}`);
+        return;
+    }
+
+    const neededMinutes = Math.max(lastUpdated ? ageMinutes : 0, spanMinutes);
+    const fullAvailable = interval !== 'daily' || isAlphaVantagePremium();
+    const outputSize = neededMinutes > COMPACT_SPAN_MINUTES[interval] && fullAvailable ? 'full' : 'compact';
+    console.log(`Fetching ${interval} candles for ${symbol} from API (${outputSize})...`);
+
+    try {
+        const candles = interval === 'daily'
+            ? await fetchDailySeriesFromAPI(symbol, outputSize)
+            : await fetchIntradaySeriesFromAPI(symbol, interval, outputSize);
+        await storage.stockCandles.saveStockCandles(symbol, interval, candles);
+    } catch (error) {
+        // Serve stored candles rather than nothing (e.g., when the daily budget is exhausted)
+        if (lastUpdated) {
+            console.error(`Failed to refresh ${interval} candles for ${symbol}, using stored candles:`, error);
+            return;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get the first date of a range preset, anchored at the latest stored candle
+ * so weekends and holidays don't produce empty charts
+ */
+async function getRangeStart(
+    symbol: string,
+    interval: StoredCandleInterval,
+    range: ChartRange
+): Promise<string | undefined> {
+    if (range === 'MAX') return undefined;
+
+    const days = range === '5D' ? 5 : 1;
+    const recentDates = await storage.stockCandles.getRecentCandleDates(symbol, interval, days);
+    if (recentDates.length === 0) return undefined;
+
+    const latest = recentDates[0];
+    switch (range) {
+        case '1D':
+            return latest;
+        case '5D':
+            return recentDates[recentDates.length - 1];
+        case '1M':
+            return subtractMonths(latest, 1);
+        case '6M':
+            return subtractMonths(latest, 6);
+        case '1Y':
+            return subtractMonths(latest, 12);
+    }
+}
+
+/**
+ * Aggregate daily candles into weekly candles (each stamped with its week's start)
+ */
+function toWeeklyCandles(candles: Candle[]): Candle[] {
+    return downsample(
+        candles.map(candle => ({ ...candle, date: candle.timestamp })),
+        'weekly'
+    ).map(point => ({
+        timestamp: point.date,
+        open: point.open,
+        high: point.high,
+        low: point.low,
+        close: point.close,
+        volume: point.volume || 0
+    }));
+}
+
+/**
+ * Get candles for a symbol (refreshing from API when stale)
+ * This is the main function called by the API route
+ *
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param interval Candle interval (weekly is aggregated from daily candles)
+ * @param options Range preset or explicit from/to dates
+ * @returns Promise with candles, oldest first
+ */
+export async function getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    options: { range?: ChartRange; from?: string; to?: string } = {}
+): Promise<{ symbol: string; interval: CandleInterval; range?: ChartRange; candles: Candle[] }> {
+    const storedInterval: StoredCandleInterval = interval === 'weekly' ? 'daily' : interval;
+
+    await refreshCandlesIfStale(symbol, storedInterval, getRequestedSpanMinutes(options));
+
+    const from = options.from || (options.range ? await getRangeStart(symbol, storedInterval, options.range) : undefined);
+    const candles = await storage.stockCandles.getStockCandles(symbol, storedInterval, from, options.to);
+
+    return { symbol, interval, range: options.range, candles: interval === 'weekly' ? toWeeklyCandles(candles) : candles };
+}
+
+/**
+ * Get candles for a symbol with technical indicators
+ * Indicators are computed over the full stored history so the requested range
+ * starts with warmed-up values, then trimmed to line up with the returned candles
+ *
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param interval Candle interval
+ * @param specs Parsed indicator set
+ * @param range Range preset (optional)
+ * @returns Promise with candles and one result per indicator
+ */
+export async function getCandlesWithIndicators(
+    symbol: string,
+    interval: CandleInterval,
+    specs: IndicatorSpec[],
+    range?: ChartRange
+): Promise<StockIndicators> {
+    const storedInterval: StoredCandleInterval = interval === 'weekly' ? 'daily' : interval;
+
+    await refreshCandlesIfStale(symbol, storedInterval, getRequestedSpanMinutes({ range }));
+
+    // The stored history is loaded once and the range is cut from it, as getCandles would return it
+    const stored = await storage.stockCandles.getStockCandles(symbol, storedInterval);
+    const from = range ? await getRangeStart(symbol, storedInterval, range) : undefined;
+    const inRange = from ? stored.filter(candle => candle.timestamp >= from) : stored;
+    const history = interval === 'weekly' ? toWeeklyCandles(stored) : stored;
+    const candles = interval === 'weekly' ? toWeeklyCandles(inRange) : inRange;
+    const historyOffset = candles.length > 0
+        ? history.findIndex(candle => candle.timestamp === candles[0].timestamp)
+        : history.length;
+    // Fall back to the returned candles alone if they can't be located in the history
+    const source = historyOffset >= 0 ? history : candles;
+    const offset = Math.max(historyOffset, 0);
+
+    const indicators = specs.map(spec => {
+        // Anchored VWAP starts at the first returned candle
+        if (spec.name === 'vwap' && spec.params.length === 0) {
+            return { key: spec.key, name: spec.name, params: spec.params, series: { value: vwap(candles) } };
+        }
+
+        const result = computeIndicator(source, spec);
+        const series = Object.fromEntries(
+            Object.entries(result.series).map(([name, values]) => [name, values.slice(offset, offset + candles.length)])
+        );
+        return { ...result, series };
+    });
+
+    return { symbol, interval, range, candles, indicators };
+}
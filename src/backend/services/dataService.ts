@@ -1,26 +1,9 @@
-import { getCurrencyRatesByDate, saveCurrencyRate } from '../models/CurrencyRate';
-import { getCommodityPricesByDate, saveCommodityPrice } from '../models/CommodityPrice';
-import { fetchCurrencyRateFromAPI, fetchStockQuoteFromAPI } from './alphaVantageService';
-
-//4 main currency pairs
-const MAIN_CURRENCIES = [
-    { from: 'USD', to: 'CNY', name: 'USD/CNY' },
-    { from: 'EUR', to: 'USD', name: 'EUR/USD' },
-    { from: 'GBP', to: 'USD', name: 'GBP/USD' },
-    { from: 'USD', to: 'JPY', name: 'USD/JPY' }
-]
-
-// Popular commodities (using ETF symbols)
-const POPULAR_COMMODITIES = [
-    { symbol: 'GLD', name: 'Gold', unit: 'USD/oz' },
-    { symbol: 'SLV', name: 'Silver', unit: 'USD/oz' },
-    { symbol: 'USO', name: 'Crude Oil', unit: 'USD/barrel' },
-    { symbol: 'CPER', name: 'Copper', unit: 'USD/lb' },
-    { symbol: 'CORN', name: 'Corn', unit: 'USD/bushel' },
-    { symbol: 'WEAT', name: 'Wheat', unit: 'USD/bushel' },
-    { symbol: 'SOYB', name: 'Soybean', unit: 'USD/bushel' },
-    { symbol: 'NIB', name: 'Cocoa', unit: 'USD/metric ton' }
-]
+import storage from '../repositories';
+import type { CommodityPriceData } from '../models/CommodityPrice';
+import { getEnabledInstruments } from './instrumentService';
+import { fetchCurrencyRate, fetchStockQuote } from './marketDataService';
+import type { TrackedInstrument } from '../../frontend/services/interface';
+import { downsample, findGaps, type HistoryInterval } from './timeSeries';
 
 /**
  * Get today's date in YYYY-MM-DD format
@@ -30,87 +13,221 @@ function getTodayDate(): string {
 }
 
 /**
- * Check if currency rates exist for today, if not, fetch from API
- * This is the main function called by the API route
+ * Check if rates of the enabled currency pairs exist for today, if not, fetch the missing ones from API
+ * This is the main function called by the background scheduler
  */
 export async function checkAndGetCurrencyRates() {
     const today = getTodayDate();
     
-    // Step 1: Check if data exists in database for today
-    let data = await getCurrencyRatesByDate(today);
+    // Step 1: Check which enabled pairs already have data in database for today
+    const data = await storage.currencyRates.getCurrencyRatesByDate(today);
+    const missing = (await getEnabledInstruments('currency')).filter(
+        pair => !data.some(rate => `${rate.fromCurrency}/${rate.toCurrency}` === pair.symbol)
+    );
     
-    // Step 2: If no data for today, fetch from API and save
-    if (data.length === 0) {
-        console.log(`No currency data for ${today}, fetching from API...`);
-        data = await fetchAndSaveCurrencyRates(today);
-    } else {
+    // Step 2: Fetch the others from API and save
+    if (missing.length === 0) {
         console.log(`Using cached currency data for ${today}`);
+        return data;
     }
     
-    return data;
+    console.log(`No currency data for ${missing.map(pair => pair.symbol).join(', ')} on ${today}, fetching from API...`);
+    return [...data, ...await fetchAndSaveCurrencyRates(today, missing)];
 }
 
 /**
- * Check if commodity prices exist for today, if not, fetch from API
- * This is the main function called by the API route
+ * Check if prices of the enabled commodities exist for today, if not, fetch the missing ones from API
+ * This is the main function called by the background scheduler
  */
 export async function checkAndGetCommodityPrices() {
     const today = getTodayDate();
     
-    // Step 1: Check if data exists in database for today
-    let data = await getCommodityPricesByDate(today);
+    // Step 1: Check which enabled commodities already have data in database for today
+    const data = await storage.commodityPrices.getCommodityPricesByDate(today);
+    const missing = (await getEnabledInstruments('commodity')).filter(
+        commodity => !data.some(price => price.symbol === commodity.symbol)
+    );
     
-    // Step 2: If no data for today, fetch from API and save
-    if (data.length === 0) {
-        console.log(`No commodity data for ${today}, fetching from API...`);
-        data = await fetchAndSaveCommodityPrices(today);
-    } else {
+    // Step 2: Fetch the others from API and save
+    if (missing.length === 0) {
         console.log(`Using cached commodity data for ${today}`);
+        return data;
+    }
+    
+    console.log(`No commodity data for ${missing.map(commodity => commodity.symbol).join(', ')} on ${today}, fetching from API...`);
+    return [...data, ...await fetchAndSaveCommodityPrices(today, missing)];
+}
+
+/**
+ * Get currency rates from the database only
+ * Falls back to the latest stored date until the scheduler has warmed today's rates
+ * This is the function called by the API route
+ */
+export async function getCurrencyRates() {
+    const today = getTodayDate();
+    
+    const data = await storage.currencyRates.getCurrencyRatesByDate(today);
+    if (data.length > 0) {
+        return data;
     }
     
-    return data;
+    console.log(`No currency data for ${today} yet, using latest stored data`);
+    return await storage.currencyRates.getLatestCurrencyRates();
+}
+
+/**
+ * Get commodity prices from the database only
+ * Falls back to the latest stored date until the scheduler has warmed today's prices
+ * This is the function called by the API route
+ */
+export async function getCommodityPrices() {
+    const today = getTodayDate();
+    
+    let data = await storage.commodityPrices.getCommodityPricesByDate(today);
+    if (data.length === 0) {
+        console.log(`No commodity data for ${today} yet, using latest stored data`);
+        data = await storage.commodityPrices.getLatestCommodityPrices();
+    }
+    
+    return data.map(formatCommodityPrice);
+}
+
+/**
+ * Convert a stored commodity price to the shape returned to the frontend
+ * (same shape as freshly fetched prices)
+ */
+export function formatCommodityPrice(price: CommodityPriceData) {
+    return {
+        symbol: price.symbol,
+        name: price.name,
+        price: price.price,
+        open: price.openPrice,
+        high: price.highPrice,
+        low: price.lowPrice,
+        previousClose: price.previousClose,
+        change: price.changeAmount,
+        changePercent: price.changePercent,
+        volume: price.volume,
+        unit: price.unit,
+        date: price.date,
+        provider: price.provider
+    };
+}
+
+/**
+ * Get currency rate history for one pair from the database
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @param fromDate Start date in YYYY-MM-DD format
+ * @param toDate End date in YYYY-MM-DD format
+ * @param interval Downsampling interval
+ * @returns Promise with OHLC points per interval and days without data
+ */
+export async function getCurrencyRateHistory(
+    fromCurrency: string,
+    toCurrency: string,
+    fromDate: string,
+    toDate: string,
+    interval: HistoryInterval
+) {
+    const rows = await storage.currencyRates.getCurrencyRatesInRange(fromCurrency, toCurrency, fromDate, toDate);
+    
+    const points = rows.map(row => ({
+        date: row.date,
+        open: row.exchangeRate,
+        high: row.exchangeRate,
+        low: row.exchangeRate,
+        close: row.exchangeRate
+    }));
+    
+    return {
+        pair: `${fromCurrency}/${toCurrency}`,
+        interval,
+        from: fromDate,
+        to: toDate,
+        points: downsample(points, interval),
+        gaps: findGaps(rows.map(row => row.date), fromDate, toDate)
+    };
+}
+
+/**
+ * Get price history for one commodity from the database
+ * @param symbol Commodity ETF symbol, e.g., 'GLD'
+ * @param fromDate Start date in YYYY-MM-DD format
+ * @param toDate End date in YYYY-MM-DD format
+ * @param interval Downsampling interval
+ * @returns Promise with OHLC points per interval and days without data
+ */
+export async function getCommodityPriceHistory(
+    symbol: string,
+    fromDate: string,
+    toDate: string,
+    interval: HistoryInterval
+) {
+    const rows = await storage.commodityPrices.getCommodityPricesInRange(symbol, fromDate, toDate);
+    
+    const points = rows.map(row => {
+        const close = parseFloat(row.price);
+        return {
+            date: row.date,
+            open: row.openPrice ? parseFloat(row.openPrice) : close,
+            high: row.highPrice ? parseFloat(row.highPrice) : close,
+            low: row.lowPrice ? parseFloat(row.lowPrice) : close,
+            close,
+            volume: row.volume ? parseInt(row.volume, 10) : undefined
+        };
+    });
+    
+    return {
+        symbol,
+        name: rows[0]?.name,
+        unit: rows[0]?.unit,
+        interval,
+        from: fromDate,
+        to: toDate,
+        points: downsample(points, interval),
+        gaps: findGaps(rows.map(row => row.date), fromDate, toDate)
+    };
 }
 
 /**
  * Fetch currency rates from API and save to database
- * This function is called when today's data doesn't exist
+ * This function is called for pairs without data for today
  */
-async function fetchAndSaveCurrencyRates(date: string) {
+async function fetchAndSaveCurrencyRates(date: string, pairs: TrackedInstrument[]) {
     const results = [];
     
-    for (const currency of MAIN_CURRENCIES) {
+    for (const pair of pairs) {
+        const [fromCurrency, toCurrency] = pair.symbol.split('/');
         try {
             // Step 1: Fetch from API
-            const rate = await fetchCurrencyRateFromAPI(currency.from, currency.to);
+            const rate = await fetchCurrencyRate(fromCurrency, toCurrency, 'background');
             
             // Step 2: Save to database
-            await saveCurrencyRate({
-                fromCurrency: currency.from,
-                toCurrency: currency.to,
+            await storage.currencyRates.saveCurrencyRate({
+                fromCurrency,
+                toCurrency,
                 exchangeRate: parseFloat(rate.exchangeRate),
                 bidPrice: parseFloat(rate.bidPrice),
                 askPrice: parseFloat(rate.askPrice),
                 timeZone: rate.timeZone,
-                date: date
+                date: date,
+                provider: rate.provider
             });
             
             // Step 3: Add to results array
             results.push({
-                fromCurrency: currency.from,
-                toCurrency: currency.to,
+                fromCurrency,
+                toCurrency,
                 exchangeRate: parseFloat(rate.exchangeRate),
                 bidPrice: parseFloat(rate.bidPrice),
                 askPrice: parseFloat(rate.askPrice),
                 timeZone: rate.timeZone,
-                date: date
+                date: date,
+                provider: rate.provider
             });
-            
-            // Step 4: Wait 12 seconds to avoid API limit (5 calls/minute)
-            if (currency !== MAIN_CURRENCIES[MAIN_CURRENCIES.length - 1]) {
-                await new Promise(resolve => setTimeout(resolve, 12000));
-            }
         } catch (error) {
-            console.error(`Failed to fetch ${currency.name}:`, error);
+            console.error(`Failed to fetch ${pair.symbol}:`, error);
         }
     }
     
@@ -119,18 +236,18 @@ async function fetchAndSaveCurrencyRates(date: string) {
 
 /**
  * Fetch commodity prices from API and save to database
- * This function is called when today's data doesn't exist
+ * This function is called for commodities without data for today
  */
-async function fetchAndSaveCommodityPrices(date: string) {
+async function fetchAndSaveCommodityPrices(date: string, commodities: TrackedInstrument[]) {
     const results = [];
     
-    for (const commodity of POPULAR_COMMODITIES) {
+    for (const commodity of commodities) {
         try {
             // Step 1: Fetch from API
-            const quote = await fetchStockQuoteFromAPI(commodity.symbol);
+            const quote = await fetchStockQuote(commodity.symbol, 'background');
             
             // Step 2: Save to database
-            await saveCommodityPrice({
+            await storage.commodityPrices.saveCommodityPrice({
                 symbol: commodity.symbol,
                 name: commodity.name,
                 price: quote.price,
@@ -141,8 +258,9 @@ async function fetchAndSaveCommodityPrices(date: string) {
                 changeAmount: quote.change,
                 changePercent: quote.changePercent,
                 volume: quote.volume,
-                unit: commodity.unit,
-                date: date
+                unit: commodity.unit || '',
+                date: date,
+                provider: quote.provider
             });
             
             // Step 3: Add to results array (format for frontend)
@@ -157,14 +275,10 @@ async function fetchAndSaveCommodityPrices(date: string) {
                 change: quote.change,
                 changePercent: quote.changePercent,
                 volume: quote.volume,
-                unit: commodity.unit,
-                date: date
+                unit: commodity.unit || '',
+                date: date,
+                provider: quote.provider
             });
-            
-            // Step 4: Wait 12 seconds to avoid API limit
-            if (commodity !== POPULAR_COMMODITIES[POPULAR_COMMODITIES.length - 1]) {
-                await new Promise(resolve => setTimeout(resolve, 12000));
-            }
         } catch (error) {
             console.error(`Failed to fetch ${commodity.name}:`, error);
         }
@@ -0,0 +1,94 @@
+import type { CurrencyRate } from '../../frontend/services/interface';
+import { createApiProvider } from './apiProvider';
+import { failureOfStatus, fetchUpstream, providerError } from './providerErrors';
+
+// Euro foreign exchange reference rates, published once per working day around 16:00 CET
+const DAILY_RATES_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+
+interface ReferenceRates {
+    time: string;                   // Reference date, YYYY-MM-DD
+    rates: Map<string, number>;     // Currency -> units per EUR (EUR included as 1)
+}
+
+/**
+ * Download the daily reference rates XML (no API key)
+ */
+async function fetchFromEcb(): Promise<unknown> {
+    const response = await fetchUpstream(DAILY_RATES_URL);
+
+    if (!response.ok) {
+        const failure = failureOfStatus(response.status);
+        const message = `ECB request failed: ${response.status}`;
+        throw failure ? providerError(failure, message) : new Error(message);
+    }
+
+    return await response.text();
+}
+
+const provider = createApiProvider({
+    name: 'ecb',
+    live: fetchFromEcb,
+    synthesize: () => {
+        throw providerError('unavailable', 'No ECB fixture recorded');
+    }
+});
+
+// Rates are downloaded at most once per day (UTC)
+let cache: { fetchedOn: string; rates: ReferenceRates } | null = null;
+
+/**
+ * Parse the reference rates XML
+ * @example <Cube time='2024-01-05'><Cube currency='USD' rate='1.0921'/>...</Cube>
+ */
+function parseReferenceRates(xml: string): ReferenceRates {
+    const time = /time=['"](\d{4}-\d{2}-\d{2})['"]/.exec(xml)?.[1];
+    if (!time) {
+        throw providerError('unavailable', 'Invalid ECB reference rates');
+    }
+
+    const rates = new Map<string, number>([['EUR', 1]]);
+    for (const [, currency, rate] of xml.matchAll(/currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g)) {
+        rates.set(currency, parseFloat(rate));
+    }
+
+    return { time, rates };
+}
+
+async function getReferenceRates(): Promise<ReferenceRates> {
+    const today = new Date().toISOString().split('T')[0];
+
+    if (!cache || cache.fetchedOn !== today) {
+        cache = { fetchedOn: today, rates: parseReferenceRates(String(await provider({}))) };
+    }
+
+    return cache.rates;
+}
+
+/**
+ * Get a currency rate from the ECB reference rates
+ * Rates are quoted against EUR; other pairs are crossed through EUR. Bid and ask are the reference rate
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @returns Promise with currency rate data
+ */
+export async function fetchCurrencyRateFromEcb(fromCurrency: string, toCurrency: string): Promise<CurrencyRate> {
+    const { time, rates } = await getReferenceRates();
+    const from = rates.get(fromCurrency);
+    const to = rates.get(toCurrency);
+
+    if (!from || !to) {
+        throw providerError('unsupported', `ECB has no reference rate for ${fromCurrency}/${toCurrency}`);
+    }
+
+    const rate = (to / from).toFixed(6);
+
+    return {
+        timeZone: 'CET',
+        fromCurrency,
+        toCurrency,
+        exchangeRate: rate,
+        bidPrice: rate,
+        askPrice: rate,
+        lastRefreshed: `${time} 16:00:00`,
+    };
+}
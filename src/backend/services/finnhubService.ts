@@ -0,0 +1,119 @@
+import dotenv from 'dotenv';
+import type { StockQuote } from '../../frontend/services/interface';
+import apiProviderConfig from '../config/apiProviders';
+import { createApiProvider, type ApiQuery } from './apiProvider';
+import { failureOfStatus, fetchUpstream, providerError } from './providerErrors';
+import { createRateLimitQueue, type RequestPriority } from './rateLimitQueue';
+
+dotenv.config();
+
+const API_KEY = process.env.FINNHUB_API_KEY;
+const BASE_URL = 'https://finnhub.io/api/v1';
+
+/**
+ * Finnhub /quote response (prices as numbers, t in Unix seconds)
+ * Unknown symbols are answered with zeros
+ */
+interface FinnhubQuoteResponse {
+    c?: number;     // Current price
+    d?: number | null;
+    dp?: number | null;
+    h?: number;
+    l?: number;
+    o?: number;
+    pc?: number;    // Previous close
+    t?: number;
+    error?: string;
+}
+
+// Free tier: 60 calls/minute, no daily cap
+const requestQueue = createRateLimitQueue({
+    name: 'Finnhub',
+    perMinute: parseInt(process.env.FINNHUB_CALLS_PER_MINUTE || '60', 10),
+    perDay: parseInt(process.env.FINNHUB_CALLS_PER_DAY || '86400', 10),
+    maxRetries: 0,
+    retryDelayMs: 60000
+});
+
+/**
+ * Call a Finnhub endpoint
+ */
+async function fetchFromFinnhub(query: ApiQuery): Promise<unknown> {
+    if (!API_KEY) {
+        throw new Error('Finnhub API key is not configured');
+    }
+
+    const { endpoint, ...params } = query;
+    const response = await fetchUpstream(`${BASE_URL}/${endpoint}?${new URLSearchParams({ ...params, token: API_KEY }).toString()}`);
+
+    if (!response.ok) {
+        const failure = failureOfStatus(response.status);
+        const message = `Finnhub request failed: ${response.status}`;
+        throw failure ? providerError(failure, message) : new Error(message);
+    }
+
+    return await response.json();
+}
+
+const provider = createApiProvider({
+    name: 'finnhub',
+    live: fetchFromFinnhub,
+    synthesize: () => {
+        throw providerError('unavailable', 'No Finnhub fixture recorded for this request');
+    }
+});
+
+/**
+ * Get Finnhub request budget usage
+ */
+export function getFinnhubQueueStats() {
+    return requestQueue.getStats();
+}
+
+/**
+ * Check whether Finnhub can be called (API key set, or replaying fixtures)
+ */
+export function isFinnhubConfigured(): boolean {
+    return Boolean(API_KEY) || apiProviderConfig.mode === 'replay';
+}
+
+/**
+ * Fetch stock quote from Finnhub API
+ * Finnhub quotes have no volume
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with stock quote data
+ */
+export async function fetchStockQuoteFromFinnhub(
+    symbol: string,
+    priority: RequestPriority = 'interactive'
+): Promise<StockQuote> {
+    const query = { endpoint: 'quote', symbol };
+    const data = apiProviderConfig.mode === 'replay'
+        ? await provider(query) as FinnhubQuoteResponse
+        : await requestQueue.enqueue(async () => await provider(query) as FinnhubQuoteResponse, { priority });
+
+    if (data.error) {
+        throw new Error(data.error);
+    }
+
+    if (!data.c || !data.t) {
+        throw new Error(`Stock symbol "${symbol}" not found`);
+    }
+
+    const change = data.d ?? data.c - (data.pc || 0);
+    const changePercent = data.dp ?? (data.pc ? (change / data.pc) * 100 : 0);
+
+    return {
+        symbol: symbol.toUpperCase(),
+        open: String(data.o ?? ''),
+        high: String(data.h ?? ''),
+        low: String(data.l ?? ''),
+        price: String(data.c),
+        volume: '',
+        latestTradingDay: new Date(data.t * 1000).toISOString().split('T')[0],
+        previousClose: String(data.pc ?? ''),
+        change: change.toFixed(4),
+        changePercent: `${changePercent.toFixed(4)}%`,
+    };
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createWeightedHeadlineScorer, sourceReputation } from './headlineScorer';
+import type { HeadlineConfig } from '../config/headlines';
+import type { NewsArticleWithRelations } from '../models/News';
+
+const NOW = new Date('2024-06-03T12:00:00Z');
+
+const CONFIG: HeadlineConfig = {
+    weights: { recency: 1, sourceReputation: 1, entityCount: 0, matchScore: 0, sentiment: 0, coverage: 0 },
+    recencyHalfLifeHours: 6,
+    entityCountCap: 5,
+    matchScoreCap: 50,
+    coverageCap: 5,
+    minScore: 0.35,
+    maxHeadlines: 20,
+    defaultSourceReputation: 0.5,
+    sourceReputation: { 'reuters.com': 1, 'finance.yahoo.com': 0.7 }
+};
+
+/**
+ * Article published hoursAgo before NOW
+ */
+function article(hoursAgo: number, fields: Partial<NewsArticleWithRelations> = {}): NewsArticleWithRelations {
+    return {
+        uuid: 'a',
+        title: 'Title',
+        url: 'https://example.com/a',
+        language: 'en',
+        published_at: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+        source: 'example.com',
+        ...fields
+    };
+}
+
+const factor = (score: ReturnType<ReturnType<typeof createWeightedHeadlineScorer>>, name: string) =>
+    score.factors.find(f => f.name === name);
+
+describe('sourceReputation', () => {
+    it('falls back from subdomains to their parent domain, then to the default', () => {
+        assert.equal(sourceReputation('www.reuters.com', CONFIG), 1);
+        assert.equal(sourceReputation('uk.reuters.com', CONFIG), 1);
+        assert.equal(sourceReputation('finance.yahoo.com', CONFIG), 0.7);
+        assert.equal(sourceReputation('news.yahoo.com', CONFIG), 0.5);
+    });
+});
+
+describe('createWeightedHeadlineScorer', () => {
+    const score = createWeightedHeadlineScorer(CONFIG);
+    const context = { now: NOW, sourceBoost: () => 0 };
+
+    it('halves the recency score every half-life', () => {
+        assert.equal(factor(score(article(0), context), 'recency')?.score, 1);
+        assert.equal(factor(score(article(6), context), 'recency')?.score, 0.5);
+        assert.equal(factor(score(article(12), context), 'recency')?.score, 0.25);
+    });
+
+    it('is the weighted mean of the factor scores', () => {
+        // Recency 0.5 and reputation 1, equally weighted
+        const result = score(article(6, { source: 'reuters.com' }), context);
+
+        assert.equal(result.score, 0.75);
+        assert.equal(factor(result, 'recency')?.contribution, 0.25);
+        assert.equal(factor(result, 'sourceReputation')?.contribution, 0.5);
+        assert.equal(factor(result, 'sentiment')?.contribution, 0);
+    });
+
+    it('uses relative weights', () => {
+        const weighted = createWeightedHeadlineScorer({ ...CONFIG, weights: { ...CONFIG.weights, recency: 3 } });
+
+        assert.equal(weighted(article(6, { source: 'reuters.com' }), context).score, (0.5 * 3 + 1) / 4);
+    });
+
+    it('caps entity count, match score and coverage', () => {
+        const counts = createWeightedHeadlineScorer({
+            ...CONFIG,
+            weights: { recency: 0, sourceReputation: 0, entityCount: 1, matchScore: 1, sentiment: 1, coverage: 1 }
+        });
+        const entity = { symbol: 'AAPL', name: 'Apple', exchange: '', exchange_long: '', country: 'us', type: 'equity', industry: 'Technology', highlights: [] };
+        const result = counts(article(0, {
+            entities: Array.from({ length: 10 }, () => ({ ...entity, match_score: 100, sentiment_score: -0.5 })),
+            similar: [{ uuid: 'b', title: 'B', published_at: NOW.toISOString(), source: 'other.com' }]
+        }), context);
+
+        assert.equal(factor(result, 'entityCount')?.score, 1);
+        assert.equal(factor(result, 'matchScore')?.score, 1);
+        assert.equal(factor(result, 'sentiment')?.score, 0.5);
+        assert.equal(factor(result, 'coverage')?.score, 0.2);
+        assert.equal(result.score, (1 + 1 + 0.5 + 0.2) / 4);
+    });
+
+    it('scores 0 when every weight is 0', () => {
+        const none = createWeightedHeadlineScorer({
+            ...CONFIG,
+            weights: { recency: 0, sourceReputation: 0, entityCount: 0, matchScore: 0, sentiment: 0, coverage: 0 }
+        });
+
+        assert.equal(none(article(0), context).score, 0);
+    });
+
+    it('adds the source boost to the reputation, within 0 to 1', () => {
+        const boosted = (source: string, boost: number) =>
+            factor(score(article(0, { source }), { now: NOW, sourceBoost: () => boost }), 'sourceReputation')?.score;
+
+        assert.equal(boosted('example.com', 0.25), 0.75);
+        assert.equal(boosted('reuters.com', 0.5), 1);
+        assert.equal(boosted('example.com', -1), 0);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Headline scoring (pure, no database access)
+ * A scorer turns an article into a 0-1 score with the factors that explain it; the default
+ * scorer is a weighted mean of recency, source reputation, entity count, match score,
+ * sentiment magnitude and coverage (similar articles)
+ */
+import type { HeadlineConfig } from '../config/headlines';
+import type { HeadlineFactor, HeadlineFactorName } from '../../frontend/services/interface';
+import type { NewsArticleWithRelations } from '../models/News';
+
+export interface HeadlineScore {
+    score: number;
+    factors: HeadlineFactor[];
+}
+
+/**
+ * Inputs of a scoring run besides the article
+ */
+export interface HeadlineContext {
+    now: Date;
+    sourceBoost: (source: string) => number;    // Configured boost of a source (0 when none)
+}
+
+/**
+ * Score an article as a headline candidate
+ */
+export type HeadlineScorer = (article: NewsArticleWithRelations, context: HeadlineContext) => HeadlineScore;
+
+/**
+ * Reputation of a source domain; subdomains fall back to their parent domain
+ * @example sourceReputation('www.reuters.com', config) // config.sourceReputation['reuters.com']
+ */
+export function sourceReputation(source: string, config: HeadlineConfig): number {
+    let domain = source.toLowerCase().replace(/^www\./, '');
+
+    while (domain.includes('.')) {
+        const reputation = config.sourceReputation[domain];
+        if (reputation !== undefined) return reputation;
+        domain = domain.slice(domain.indexOf('.') + 1);
+    }
+
+    return config.defaultSourceReputation;
+}
+
+/**
+ * Create the default weighted scorer
+ */
+export function createWeightedHeadlineScorer(config: HeadlineConfig): HeadlineScorer {
+    const capped = (value: number, cap: number) => (cap > 0 ? Math.min(value, cap) / cap : 0);
+
+    return (article, { now, sourceBoost }) => {
+        const entities = article.entities || [];
+        const ageHours = Math.max(0, (now.getTime() - new Date(article.published_at).getTime()) / (60 * 60 * 1000));
+        const maxMatch = Math.max(0, ...entities.map(e => e.match_score || 0));
+        const maxSentiment = Math.max(0, ...entities.map(e => Math.abs(e.sentiment_score || 0)));
+        const reputation = Math.min(Math.max(sourceReputation(article.source, config) + sourceBoost(article.source), 0), 1);
+        const coverage = article.similar?.length || 0;
+
+        const inputs: { name: HeadlineFactorName; value: number; score: number }[] = [
+            { name: 'recency', value: ageHours, score: Math.pow(0.5, ageHours / Math.max(config.recencyHalfLifeHours, 0.1)) },
+            { name: 'sourceReputation', value: reputation, score: reputation },
+            { name: 'entityCount', value: entities.length, score: capped(entities.length, config.entityCountCap) },
+            { name: 'matchScore', value: maxMatch, score: capped(maxMatch, config.matchScoreCap) },
+            { name: 'sentiment', value: maxSentiment, score: Math.min(maxSentiment, 1) },
+            { name: 'coverage', value: coverage, score: capped(coverage, config.coverageCap) }
+        ];
+
+        const totalWeight = inputs.reduce((sum, input) => sum + Math.max(config.weights[input.name], 0), 0);
+        const factors = inputs.map(input => {
+            const weight = Math.max(config.weights[input.name], 0);
+            return {
+                ...input,
+                weight,
+                contribution: totalWeight > 0 ? (input.score * weight) / totalWeight : 0
+            };
+        });
+
+        return {
+            score: factors.reduce((sum, factor) => sum + factor.contribution, 0),
+            factors
+        };
+    };
+}
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { atr, bollingerBands, computeIndicator, ema, macd, parseIndicatorSet, rsi, sma, vwap } from './indicators';
+import type { Candle } from '../../frontend/services/interface';
+
+// 40 closes that rise and dip, so gains and losses both occur
+const CLOSES = Array.from({ length: 40 }, (_, i) => 100 + i + (i % 3 === 0 ? -2 : 0));
+
+const CANDLES: Candle[] = CLOSES.map((close, i) => ({
+    timestamp: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000
+}));
+
+/**
+ * Number of leading nulls (the warm-up period)
+ */
+const warmUp = (series: (number | null)[]) => series.findIndex(value => value !== null);
+
+describe('parseIndicatorSet', () => {
+    it('fills in default parameters', () => {
+        assert.deepEqual(parseIndicatorSet('rsi,macd:8'), [
+            { key: 'rsi:14', name: 'rsi', params: [14] },
+            { key: 'macd:8:26:9', name: 'macd', params: [8, 26, 9] }
+        ]);
+    });
+
+    it('accepts aliases, spaces and upper case', () => {
+        assert.deepEqual(parseIndicatorSet(' BOLLINGER:10:1.5 , vwap '), [
+            { key: 'bb:10:1.5', name: 'bb', params: [10, 1.5] },
+            { key: 'vwap', name: 'vwap', params: [] }
+        ]);
+    });
+
+    it('rejects unknown indicators and invalid parameters', () => {
+        assert.throws(() => parseIndicatorSet('foo'), /Unknown indicator "foo"/);
+        assert.throws(() => parseIndicatorSet('sma:10:20'), /Too many parameters/);
+        assert.throws(() => parseIndicatorSet('sma:0'), /Invalid parameters/);
+        assert.throws(() => parseIndicatorSet('ema:2.5'), /whole numbers/);
+    });
+});
+
+describe('indicator warm-up', () => {
+    it('returns one value per input', () => {
+        for (const spec of parseIndicatorSet('sma,ema,rsi,macd,bb,atr,vwap')) {
+            for (const series of Object.values(computeIndicator(CANDLES, spec).series)) {
+                assert.equal(series.length, CANDLES.length, spec.key);
+            }
+        }
+    });
+
+    it('starts SMA, EMA and Bollinger Bands after period - 1 values', () => {
+        assert.equal(warmUp(sma(CLOSES, 5)), 4);
+        assert.equal(warmUp(ema(CLOSES, 5)), 4);
+        assert.equal(warmUp(bollingerBands(CLOSES, 20, 2).upper), 19);
+    });
+
+    it('starts RSI after period changes and ATR after period candles', () => {
+        assert.equal(warmUp(rsi(CLOSES, 14)), 14);
+        assert.equal(warmUp(atr(CANDLES, 14)), 13);
+    });
+
+    it('starts the MACD signal once the MACD line has a full signal period', () => {
+        const { macd: line, signal, histogram } = macd(CLOSES, 12, 26, 9);
+
+        assert.equal(warmUp(line), 25);
+        assert.equal(warmUp(signal), 25 + 8);
+        assert.equal(warmUp(histogram), 25 + 8);
+    });
+
+    it('returns only nulls when there are fewer values than the period', () => {
+        assert.ok(sma(CLOSES.slice(0, 3), 5).every(value => value === null));
+        assert.ok(rsi(CLOSES.slice(0, 14), 14).every(value => value === null));
+    });
+
+    it('starts a rolling VWAP after period candles and an anchored one at once', () => {
+        assert.equal(warmUp(vwap(CANDLES, 10)), 9);
+        assert.equal(warmUp(vwap(CANDLES)), 0);
+    });
+});
+
+describe('indicator values', () => {
+    it('averages the last period values', () => {
+        assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    });
+
+    it('seeds the EMA with the SMA and smooths with 2 / (period + 1)', () => {
+        assert.deepEqual(ema([1, 2, 3, 4], 3), [null, null, 2, 3]);
+    });
+
+    it('gives an RSI of 100 when prices only rise', () => {
+        assert.equal(rsi([1, 2, 3, 4, 5], 3)[4], 100);
+    });
+
+    it('resets the anchored VWAP at each new day of intraday candles', () => {
+        const intraday: Candle[] = [
+            { timestamp: '2024-01-02 15:59:00', open: 10, high: 10, low: 10, close: 10, volume: 100 },
+            { timestamp: '2024-01-03 09:30:00', open: 20, high: 20, low: 20, close: 20, volume: 100 }
+        ];
+
+        assert.deepEqual(vwap(intraday), [10, 20]);
+    });
+});
@@ -0,0 +1,291 @@
+/**
+ * Technical indicators over OHLC candles
+ * Every series has the same length as the input candles; warm-up periods are null
+ */
+import type { Candle, IndicatorResult } from '../../frontend/services/interface';
+
+export type IndicatorName = 'sma' | 'ema' | 'rsi' | 'macd' | 'bb' | 'atr' | 'vwap';
+
+export interface IndicatorSpec {
+    key: string;        // Normalized spec, e.g., 'macd:12:26:9'
+    name: IndicatorName;
+    params: number[];
+}
+
+type IndicatorSeries = (number | null)[];
+
+// Default parameters and accepted parameter count per indicator
+const INDICATOR_DEFAULTS: Record<IndicatorName, number[]> = {
+    sma: [20],
+    ema: [20],
+    rsi: [14],
+    macd: [12, 26, 9],
+    bb: [20, 2],
+    atr: [14],
+    vwap: []
+};
+
+const INDICATOR_ALIASES: Record<string, IndicatorName> = {
+    bollinger: 'bb'
+};
+
+/**
+ * Parse an indicator set such as 'rsi:14,macd:12:26:9,bb:20:2,vwap'
+ * Missing parameters fall back to defaults; vwap takes an optional rolling period
+ * @throws Error when an indicator or parameter is invalid
+ */
+export function parseIndicatorSet(set: string): IndicatorSpec[] {
+    const specs: IndicatorSpec[] = [];
+
+    for (const part of set.split(',').map(p => p.trim()).filter(Boolean)) {
+        const [rawName, ...rawParams] = part.toLowerCase().split(':');
+        // Own keys only, so names like 'constructor' are rejected too
+        const name = (Object.hasOwn(INDICATOR_ALIASES, rawName) ? INDICATOR_ALIASES[rawName] : rawName) as IndicatorName;
+
+        if (!Object.hasOwn(INDICATOR_DEFAULTS, name)) {
+            throw new Error(`Unknown indicator "${rawName}". Supported: ${Object.keys(INDICATOR_DEFAULTS).join(', ')}`);
+        }
+        const defaults = INDICATOR_DEFAULTS[name];
+
+        const maxParams = name === 'vwap' ? 1 : defaults.length;
+        if (rawParams.length > maxParams) {
+            throw new Error(`Too many parameters for ${name}: ${part}`);
+        }
+
+        const params = rawParams.map(Number);
+        if (params.some(p => !Number.isFinite(p) || p <= 0)) {
+            throw new Error(`Invalid parameters for ${name}: ${part}`);
+        }
+        if (name !== 'bb' && params.some(p => !Number.isInteger(p))) {
+            throw new Error(`Periods must be whole numbers: ${part}`);
+        }
+
+        const fullParams = [...params, ...defaults.slice(params.length)];
+        specs.push({ key: [name, ...fullParams].join(':'), name, params: fullParams });
+    }
+
+    return specs;
+}
+
+/**
+ * Simple moving average
+ */
+export function sma(values: IndicatorSeries, period: number): IndicatorSeries {
+    const result: IndicatorSeries = new Array(values.length).fill(null);
+    let sum = 0;
+    let count = 0;
+
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (value === null) {
+            sum = 0;
+            count = 0;
+            continue;
+        }
+        sum += value;
+        count++;
+        if (count > period) {
+            sum -= values[i - period] as number;
+            count = period;
+        }
+        if (count === period) {
+            result[i] = sum / period;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first full period
+ * Leading nulls (e.g., the MACD line during its warm-up) are skipped
+ */
+export function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+    const result: IndicatorSeries = new Array(values.length).fill(null);
+    const k = 2 / (period + 1);
+    const start = values.findIndex(v => v !== null);
+    if (start === -1 || values.length - start < period) return result;
+
+    let previous = 0;
+    for (let i = start; i < start + period; i++) {
+        previous += values[i] as number;
+    }
+    previous /= period;
+    result[start + period - 1] = previous;
+
+    for (let i = start + period; i < values.length; i++) {
+        previous = (values[i] as number) * k + previous * (1 - k);
+        result[i] = previous;
+    }
+
+    return result;
+}
+
+/**
+ * Relative Strength Index (Wilder's smoothing)
+ */
+export function rsi(closes: number[], period: number): IndicatorSeries {
+    const result: IndicatorSeries = new Array(closes.length).fill(null);
+    if (closes.length <= period) return result;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+        const change = closes[i] - closes[i - 1];
+        avgGain += Math.max(change, 0);
+        avgLoss += Math.max(-change, 0);
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+    result[period] = toRsi();
+
+    for (let i = period + 1; i < closes.length; i++) {
+        const change = closes[i] - closes[i - 1];
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+        result[i] = toRsi();
+    }
+
+    return result;
+}
+
+/**
+ * Moving Average Convergence Divergence
+ */
+export function macd(
+    closes: number[],
+    fastPeriod: number,
+    slowPeriod: number,
+    signalPeriod: number
+): Record<'macd' | 'signal' | 'histogram', IndicatorSeries> {
+    const fast = ema(closes, fastPeriod);
+    const slow = ema(closes, slowPeriod);
+    const line = fast.map((f, i) => (f !== null && slow[i] !== null ? f - (slow[i] as number) : null));
+    const signal = ema(line, signalPeriod);
+    const histogram = line.map((m, i) => (m !== null && signal[i] !== null ? m - (signal[i] as number) : null));
+
+    return { macd: line, signal, histogram };
+}
+
+/**
+ * Bollinger Bands (population standard deviation)
+ */
+export function bollingerBands(
+    closes: number[],
+    period: number,
+    multiplier: number
+): Record<'middle' | 'upper' | 'lower', IndicatorSeries> {
+    const middle = sma(closes, period);
+    const upper: IndicatorSeries = new Array(closes.length).fill(null);
+    const lower: IndicatorSeries = new Array(closes.length).fill(null);
+
+    for (let i = period - 1; i < closes.length; i++) {
+        const mean = middle[i] as number;
+        let variance = 0;
+        for (let j = i - period + 1; j <= i; j++) {
+            variance += (closes[j] - mean) ** 2;
+        }
+        const deviation = Math.sqrt(variance / period) * multiplier;
+        upper[i] = mean + deviation;
+        lower[i] = mean - deviation;
+    }
+
+    return { middle, upper, lower };
+}
+
+/**
+ * Average True Range (Wilder's smoothing)
+ */
+export function atr(candles: Candle[], period: number): IndicatorSeries {
+    const result: IndicatorSeries = new Array(candles.length).fill(null);
+    if (candles.length < period) return result;
+
+    const trueRanges = candles.map((c, i) => {
+        if (i === 0) return c.high - c.low;
+        const previousClose = candles[i - 1].close;
+        return Math.max(c.high - c.low, Math.abs(c.high - previousClose), Math.abs(c.low - previousClose));
+    });
+
+    let previous = trueRanges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
+    result[period - 1] = previous;
+
+    for (let i = period; i < candles.length; i++) {
+        previous = (previous * (period - 1) + trueRanges[i]) / period;
+        result[i] = previous;
+    }
+
+    return result;
+}
+
+/**
+ * Volume Weighted Average Price
+ * Without a period the VWAP is anchored at the first candle and resets at each
+ * new day for intraday candles; with a period it is a rolling VWAP
+ */
+export function vwap(candles: Candle[], period?: number): IndicatorSeries {
+    const result: IndicatorSeries = new Array(candles.length).fill(null);
+    let priceVolume = 0;
+    let volume = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+        const c = candles[i];
+        const isIntraday = c.timestamp.length > 10;
+
+        if (!period && isIntraday && i > 0 && c.timestamp.slice(0, 10) !== candles[i - 1].timestamp.slice(0, 10)) {
+            priceVolume = 0;
+            volume = 0;
+        }
+
+        priceVolume += ((c.high + c.low + c.close) / 3) * c.volume;
+        volume += c.volume;
+
+        if (period && i >= period) {
+            const old = candles[i - period];
+            priceVolume -= ((old.high + old.low + old.close) / 3) * old.volume;
+            volume -= old.volume;
+        }
+
+        if (!period || i >= period - 1) {
+            result[i] = volume > 0 ? priceVolume / volume : null;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Compute one indicator over candles
+ */
+export function computeIndicator(candles: Candle[], spec: IndicatorSpec): IndicatorResult {
+    const closes = candles.map(c => c.close);
+    const [p1, p2, p3] = spec.params;
+    let series: Record<string, IndicatorSeries>;
+
+    switch (spec.name) {
+        case 'sma':
+            series = { value: sma(closes, p1) };
+            break;
+        case 'ema':
+            series = { value: ema(closes, p1) };
+            break;
+        case 'rsi':
+            series = { value: rsi(closes, p1) };
+            break;
+        case 'macd':
+            series = macd(closes, p1, p2, p3);
+            break;
+        case 'bb':
+            series = bollingerBands(closes, p1, p2);
+            break;
+        case 'atr':
+            series = { value: atr(candles, p1) };
+            break;
+        case 'vwap':
+            series = { value: vwap(candles, p1) };
+            break;
+    }
+
+    return { key: spec.key, name: spec.name, params: spec.params, series };
+}
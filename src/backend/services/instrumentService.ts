@@ -0,0 +1,149 @@
+import storage from '../repositories';
+import type { TrackedInstrumentInput } from '../models/TrackedInstrument';
+import type { InstrumentType, TrackedInstrument } from '../../frontend/services/interface';
+
+export const INSTRUMENT_TYPES: InstrumentType[] = ['currency', 'commodity'];
+
+// Symbol formats per type: 'FROM/TO' currency codes, or an ETF symbol
+const SYMBOL_PATTERNS: Record<InstrumentType, RegExp> = {
+    currency: /^[A-Z]{3}\/[A-Z]{3}$/,
+    commodity: /^[A-Z0-9.-]{1,20}$/
+};
+
+// Longest name and unit accepted (match the column sizes)
+const MAX_NAME_LENGTH = 100;
+const MAX_UNIT_LENGTH = 50;
+
+/**
+ * Get tracked instruments, currencies first, each type in display order
+ * @param type Only instruments of this type (default: all)
+ */
+export async function listInstruments(type?: InstrumentType): Promise<TrackedInstrument[]> {
+    const instruments = await storage.instruments.getTrackedInstruments();
+    return type ? instruments.filter(instrument => instrument.type === type) : instruments;
+}
+
+/**
+ * Get the enabled instruments of a type in display order
+ * These are the ones the scheduler fetches and watchlists and alerts accept
+ */
+export async function getEnabledInstruments(type: InstrumentType): Promise<TrackedInstrument[]> {
+    return (await listInstruments(type)).filter(instrument => instrument.enabled);
+}
+
+/**
+ * Validate an instrument from the request body
+ * For updates the body is merged over the existing instrument; type and symbol can't change
+ */
+async function parseInstrumentInput(
+    body: Record<string, unknown>,
+    existing?: TrackedInstrument
+): Promise<TrackedInstrumentInput | { error: string }> {
+    const type = (body.type ?? existing?.type) as InstrumentType;
+    if (!INSTRUMENT_TYPES.includes(type)) {
+        return { error: `type must be one of: ${INSTRUMENT_TYPES.join(', ')}` };
+    }
+
+    const rawSymbol = body.symbol ?? existing?.symbol;
+    if (typeof rawSymbol !== 'string' || !rawSymbol.trim()) {
+        return { error: 'symbol is required' };
+    }
+    const symbol = rawSymbol.trim().toUpperCase();
+    if (!SYMBOL_PATTERNS[type].test(symbol)) {
+        return { error: type === 'currency' ? 'currency symbol must be a pair, e.g., EUR/CNY' : `Invalid commodity symbol: ${rawSymbol}` };
+    }
+
+    const instruments = await storage.instruments.getTrackedInstruments();
+    if (existing) {
+        if (type !== existing.type || symbol !== existing.symbol) {
+            return { error: 'type and symbol can\'t be changed, add a new instrument instead' };
+        }
+    } else if (instruments.some(instrument => instrument.type === type && instrument.symbol === symbol)) {
+        return { error: `${symbol} is already tracked` };
+    }
+
+    const name = body.name === undefined ? existing?.name ?? symbol : body.name;
+    if (typeof name !== 'string' || !name.trim()) {
+        return { error: 'name must be a non-empty string' };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+        return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+
+    const unit = body.unit === undefined ? existing?.unit ?? null : body.unit || null;
+    if (unit !== null && typeof unit !== 'string') {
+        return { error: 'unit must be a string' };
+    }
+    if (unit !== null && unit.trim().length > MAX_UNIT_LENGTH) {
+        return { error: `unit must be at most ${MAX_UNIT_LENGTH} characters` };
+    }
+
+    // New instruments go after the others of their type
+    const lastOrder = Math.max(0, ...instruments.filter(instrument => instrument.type === type).map(instrument => instrument.displayOrder));
+    const displayOrder = body.displayOrder === undefined ? existing?.displayOrder ?? lastOrder + 1 : Number(body.displayOrder);
+    if (!Number.isInteger(displayOrder)) {
+        return { error: 'displayOrder must be a whole number' };
+    }
+
+    const enabled = body.enabled === undefined ? existing?.enabled ?? true : body.enabled;
+    if (typeof enabled !== 'boolean') {
+        return { error: 'enabled must be true or false' };
+    }
+
+    return {
+        type,
+        symbol,
+        name: name.trim(),
+        unit: unit ? unit.trim() : null,
+        displayOrder,
+        enabled
+    };
+}
+
+/**
+ * Validate and add an instrument; the scheduler fetches it from its next run
+ * @param body { type, symbol, name?, unit?, displayOrder?, enabled? }
+ * @returns The new instrument, or an error message
+ */
+export async function createInstrument(body: Record<string, unknown>): Promise<TrackedInstrument | { error: string }> {
+    const input = await parseInstrumentInput(body);
+    if ('error' in input) return input;
+
+    try {
+        const id = await storage.instruments.createTrackedInstrument(input);
+        return { id, ...input };
+    } catch (error) {
+        // Another request added the same instrument after the check above (unique_type_symbol)
+        if ((error as { code?: string }).code === 'ER_DUP_ENTRY') {
+            return { error: `${input.symbol} is already tracked` };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Validate and save changes to an instrument (e.g., { enabled: false } or a new display order)
+ * @param body { name?, unit?, displayOrder?, enabled? }; missing fields keep their current value
+ * @returns The updated instrument, an error message, or null if the instrument doesn't exist
+ */
+export async function updateInstrument(
+    id: number,
+    body: Record<string, unknown>
+): Promise<TrackedInstrument | { error: string } | null> {
+    const existing = await storage.instruments.getTrackedInstrumentById(id);
+    if (!existing) return null;
+
+    const input = await parseInstrumentInput(body, existing);
+    if ('error' in input) return input;
+
+    await storage.instruments.updateTrackedInstrument(id, input);
+    return { id, ...input };
+}
+
+/**
+ * Stop tracking an instrument; its stored rates or prices are kept
+ * @returns false if the instrument doesn't exist
+ */
+export async function deleteInstrument(id: number): Promise<boolean> {
+    return storage.instruments.deleteTrackedInstrument(id);
+}
@@ -0,0 +1,116 @@
+/**
+ * Stock quotes and exchange rates from several providers with failover
+ * Providers are tried in MARKET_DATA_PROVIDERS order; quota, outage and unsupported-request
+ * errors move on to the next one, other errors (e.g., unknown symbol) are returned as they are
+ */
+import marketDataConfig, { type MarketDataProviderName } from '../config/marketData';
+import type { CurrencyRate, StockQuote } from '../../frontend/services/interface';
+import { fetchCurrencyRateFromAPI, fetchStockQuoteFromAPI, isAlphaVantageConfigured } from './alphaVantageService';
+import { fetchCurrencyRateFromEcb } from './ecbService';
+import { fetchStockQuoteFromFinnhub, isFinnhubConfigured } from './finnhubService';
+import { isProviderError } from './providerErrors';
+import type { RequestPriority } from './rateLimitQueue';
+import { fetchCurrencyRateFromTwelveData, fetchStockQuoteFromTwelveData, isTwelveDataConfigured } from './twelveDataService';
+
+/**
+ * A source of quotes and/or exchange rates
+ */
+export interface MarketDataProvider {
+    name: MarketDataProviderName;       // Stored with each row as its provider
+    isConfigured: () => boolean;
+    // hasFallback: a later provider can answer, so rate limits should fail fast instead of waiting
+    fetchStockQuote?: (symbol: string, priority: RequestPriority, hasFallback: boolean) => Promise<StockQuote>;
+    fetchCurrencyRate?: (
+        fromCurrency: string,
+        toCurrency: string,
+        priority: RequestPriority,
+        hasFallback: boolean
+    ) => Promise<CurrencyRate>;
+}
+
+const PROVIDERS: Record<MarketDataProviderName, MarketDataProvider> = {
+    alphavantage: {
+        name: 'alphavantage',
+        isConfigured: isAlphaVantageConfigured,
+        // The queue retries a throttled call for minutes, only worth it when nothing else can answer
+        fetchStockQuote: (symbol, priority, hasFallback) => fetchStockQuoteFromAPI(symbol, priority, !hasFallback),
+        fetchCurrencyRate: (fromCurrency, toCurrency, priority, hasFallback) =>
+            fetchCurrencyRateFromAPI(fromCurrency, toCurrency, priority, !hasFallback)
+    },
+    twelvedata: {
+        name: 'twelvedata',
+        isConfigured: isTwelveDataConfigured,
+        fetchStockQuote: fetchStockQuoteFromTwelveData,
+        fetchCurrencyRate: fetchCurrencyRateFromTwelveData
+    },
+    finnhub: {
+        name: 'finnhub',
+        isConfigured: isFinnhubConfigured,
+        fetchStockQuote: fetchStockQuoteFromFinnhub
+    },
+    ecb: {
+        name: 'ecb',
+        isConfigured: () => true,
+        fetchCurrencyRate: fetchCurrencyRateFromEcb
+    }
+};
+
+/**
+ * Run a request on each usable provider in order until one answers
+ * @param description What is fetched, for logs and errors, e.g., 'quote for AAPL'
+ * @returns The answer with the name of the provider that gave it
+ */
+async function withFailover<K extends 'fetchStockQuote' | 'fetchCurrencyRate', T>(
+    operation: K,
+    description: string,
+    request: (call: NonNullable<MarketDataProvider[K]>, hasFallback: boolean) => Promise<T>
+): Promise<T & { provider: MarketDataProviderName }> {
+    const failures: string[] = [];
+    const usable = marketDataConfig.providers.filter(name => PROVIDERS[name][operation] && PROVIDERS[name].isConfigured());
+
+    for (const [index, name] of usable.entries()) {
+        const call = PROVIDERS[name][operation];
+        if (!call) continue;
+
+        try {
+            return { ...await request(call, index < usable.length - 1), provider: name };
+        } catch (error) {
+            if (!isProviderError(error)) throw error;
+
+            failures.push(`${name}: ${error.message}`);
+            console.warn(`[market-data] ${name} failed (${error.failure}) for ${description}: ${error.message}`);
+        }
+    }
+
+    throw new Error(failures.length > 0
+        ? `All market data providers failed for ${description} (${failures.join('; ')})`
+        : `No market data provider is configured for ${description}`);
+}
+
+/**
+ * Fetch a stock quote from the first provider that can answer
+ * @param symbol Stock symbol, e.g., 'AAPL', 'GLD'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with stock quote data and its provider
+ */
+export async function fetchStockQuote(
+    symbol: string,
+    priority: RequestPriority = 'interactive'
+): Promise<StockQuote & { provider: MarketDataProviderName }> {
+    return withFailover('fetchStockQuote', `quote for ${symbol}`, (call, hasFallback) => call(symbol, priority, hasFallback));
+}
+
+/**
+ * Fetch a currency rate from the first provider that can answer
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with currency rate data and its provider
+ */
+export async function fetchCurrencyRate(
+    fromCurrency: string,
+    toCurrency: string,
+    priority: RequestPriority = 'interactive'
+): Promise<CurrencyRate & { provider: MarketDataProviderName }> {
+    return withFailover('fetchCurrencyRate', `${fromCurrency}/${toCurrency} rate`, (call, hasFallback) => call(fromCurrency, toCurrency, priority, hasFallback));
+}
@@ -0,0 +1,55 @@
+/**
+ * In-process notifications for newly written market data
+ * Models emit after a write changes the database; alert evaluation and other
+ * listeners subscribe without the ingestion code knowing about them
+ */
+import { EventEmitter } from 'node:events';
+import type { CurrencyRateData } from '../models/CurrencyRate';
+import type { CommodityPriceData } from '../models/CommodityPrice';
+import type { StockQuoteData } from '../models/StockQuote';
+import type { MarketauxNewsArticle } from '../../frontend/services/interface';
+
+interface MarketEventMap {
+    'currency-rate': [CurrencyRateData];
+    'commodity-price': [CommodityPriceData];
+    'stock-quote': [StockQuoteData];
+    'news-article': [MarketauxNewsArticle];
+}
+
+export type MarketEventName = keyof MarketEventMap;
+
+const emitter = new EventEmitter<MarketEventMap>();
+
+// One listener per subscriber (alerts, streaming, ...), not per client
+emitter.setMaxListeners(20);
+
+/**
+ * Notify listeners about newly written data
+ * Listener errors are logged so a failing listener never breaks ingestion
+ */
+export function emitMarketEvent<K extends MarketEventName>(event: K, ...args: MarketEventMap[K]): void {
+    for (const listener of emitter.listeners(event) as ((...a: MarketEventMap[K]) => unknown)[]) {
+        try {
+            const result = listener(...args);
+            if (result instanceof Promise) {
+                result.catch(error => console.error(`[events] ${event} listener failed:`, error));
+            }
+        } catch (error) {
+            console.error(`[events] ${event} listener failed:`, error);
+        }
+    }
+}
+
+/**
+ * Subscribe to newly written data
+ * @returns Function that removes the listener
+ */
+export function onMarketEvent<K extends MarketEventName>(
+    event: K,
+    listener: (...args: MarketEventMap[K]) => void | Promise<void>
+): () => void {
+    emitter.on(event, listener as never);
+    return () => {
+        emitter.off(event, listener as never);
+    };
+}
@@ -3,6 +3,8 @@ import type {
     MarketauxNewsResponse,
     MarketauxNewsArticle
 } from '../../frontend/services/interface';
+import { createApiProvider, type ApiQuery } from './apiProvider';
+import { syntheticMarketauxResponse } from './syntheticMarketData';
 
 dotenv.config();
 
@@ -16,7 +18,7 @@ export interface MarketauxNewsParams {
     symbols?: string;           // Comma-separated symbols, e.g., "AAPL,TSLA"
     limit?: number;             // Number of results (default: 50, max: 100)
     page?: number;              // Page number (default: 1)
-    language?: string;          // Language code (default: "en")
+    language?: string;          // Comma-separated language codes (default: "en")
     sentiment_gte?: number;     // Sentiment score greater than or equal to
     sentiment_lte?: number;     // Sentiment score less than or equal to
     countries?: string;         // Comma-separated country codes
@@ -27,34 +29,27 @@ export interface MarketauxNewsParams {
 }
 
 /**
- * Fetch news from Marketaux API
- * @param params Optional parameters for filtering news
- * @returns Promise with Marketaux API response
+ * Article languages supported by Marketaux (ISO 639-1 codes)
  */
-export async function fetchNewsFromAPI(
-    params: MarketauxNewsParams = {}
-): Promise<MarketauxNewsResponse> {
+export const MARKETAUX_LANGUAGES = [
+    'ar', 'bg', 'bn', 'cs', 'da', 'de', 'el', 'en', 'es', 'et', 'fa', 'fi', 'fr', 'he', 'hi', 'hr', 'hu', 'id',
+    'it', 'ja', 'ko', 'lt', 'nl', 'no', 'pl', 'pt', 'ro', 'ru', 'sk', 'sv', 'ta', 'th', 'tr', 'uk', 'vi', 'zh'
+];
+
+/**
+ * Language used when a request doesn't ask for one
+ */
+export const DEFAULT_NEWS_LANGUAGE = 'en';
+
+/**
+ * Call the Marketaux news/all endpoint
+ */
+async function fetchFromMarketaux(query: ApiQuery): Promise<unknown> {
     if (!API_KEY) {
         throw new Error('Marketaux API key is not configured');
     }
     
-    // Build query parameters
-    const queryParams = new URLSearchParams({
-        api_token: API_KEY,
-        ...(params.symbols && { symbols: params.symbols }),
-        ...(params.limit && { limit: params.limit.toString() }),
-        ...(params.page && { page: params.page.toString() }),
-        ...(params.language && { language: params.language }),
-        ...(params.sentiment_gte !== undefined && { sentiment_gte: params.sentiment_gte.toString() }),
-        ...(params.sentiment_lte !== undefined && { sentiment_lte: params.sentiment_lte.toString() }),
-        ...(params.countries && { countries: params.countries }),
-        ...(params.entity_types && { entity_types: params.entity_types }),
-        ...(params.industries && { industries: params.industries }),
-        ...(params.filter_entities !== undefined && { filter_entities: params.filter_entities.toString() }),
-        ...(params.must_have_entities !== undefined && { must_have_entities: params.must_have_entities.toString() }),
-    });
-    
-    const url = `${BASE_URL}/news/all?${queryParams.toString()}`;
+    const url = `${BASE_URL}/news/all?${new URLSearchParams({ ...query, api_token: API_KEY }).toString()}`;
     
     const response = await fetch(url);
     
@@ -79,7 +74,40 @@ export async function fetchNewsFromAPI(
         }
     }
     
-    const data: MarketauxNewsResponse = await response.json();
+    return await response.json();
+}
+
+// Live, recording or replaying depending on API_PROVIDER_MODE
+const provider = createApiProvider({
+    name: 'marketaux',
+    live: fetchFromMarketaux,
+    synthesize: syntheticMarketauxResponse
+});
+
+/**
+ * Fetch news from Marketaux API
+ * @param params Optional parameters for filtering news
+ * @returns Promise with Marketaux API response
+ */
+export async function fetchNewsFromAPI(
+    params: MarketauxNewsParams = {}
+): Promise<MarketauxNewsResponse> {
+    // Build query parameters
+    const query: ApiQuery = {
+        ...(params.symbols && { symbols: params.symbols }),
+        ...(params.limit && { limit: params.limit.toString() }),
+        ...(params.page && { page: params.page.toString() }),
+        ...(params.language && { language: params.language }),
+        ...(params.sentiment_gte !== undefined && { sentiment_gte: params.sentiment_gte.toString() }),
+        ...(params.sentiment_lte !== undefined && { sentiment_lte: params.sentiment_lte.toString() }),
+        ...(params.countries && { countries: params.countries }),
+        ...(params.entity_types && { entity_types: params.entity_types }),
+        ...(params.industries && { industries: params.industries }),
+        ...(params.filter_entities !== undefined && { filter_entities: params.filter_entities.toString() }),
+        ...(params.must_have_entities !== undefined && { must_have_entities: params.must_have_entities.toString() }),
+    };
+    
+    const data = await provider(query) as MarketauxNewsResponse;
     
     // Check for API error response
     if (data.error) {
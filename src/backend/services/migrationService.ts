@@ -0,0 +1,119 @@
+import pool from '../config/database';
+import { migrations, type Migration } from '../migrations';
+import {
+    createSchemaMigrationsTable,
+    deleteMigrationRecord,
+    getAppliedMigrations,
+    recordMigration
+} from '../models/SchemaMigration';
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt: Date | null;     // null when pending
+}
+
+/**
+ * Status of every known migration, oldest first
+ * Applied versions that no migration file defines (e.g., from a newer checkout) are included
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+    await createSchemaMigrationsTable();
+    const applied = new Map((await getAppliedMigrations()).map(m => [m.version, m]));
+
+    const statuses: MigrationStatus[] = migrations.map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        appliedAt: applied.get(migration.version)?.appliedAt || null
+    }));
+    for (const migration of applied.values()) {
+        if (!migrations.some(m => m.version === migration.version)) {
+            statuses.push({ version: migration.version, name: migration.name, appliedAt: migration.appliedAt });
+        }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Migrations not applied yet, oldest first
+ */
+export async function getPendingMigrations(): Promise<Migration[]> {
+    const applied = new Set((await getMigrationStatus()).filter(s => s.appliedAt).map(s => s.version));
+    return migrations.filter(migration => !applied.has(migration.version));
+}
+
+/**
+ * Run the statements of a migration one by one
+ * DDL is sent as plain queries since not every statement can be prepared
+ */
+async function runStatements(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    for (const statement of migration[direction]) {
+        try {
+            await pool.query(statement);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Migration ${migration.version} (${migration.name}) ${direction} failed: ${reason}`);
+        }
+    }
+}
+
+/**
+ * Apply pending migrations in order
+ * @param target Last version to apply (default: all)
+ * @returns Applied migrations
+ */
+export async function migrateUp(target?: number): Promise<Migration[]> {
+    const pending = (await getPendingMigrations())
+        .filter(migration => target === undefined || migration.version <= target);
+
+    for (const migration of pending) {
+        await runStatements(migration, 'up');
+        await recordMigration(migration.version, migration.name);
+        console.log(`[migrate] Applied ${migration.version} ${migration.name}`);
+    }
+
+    return pending;
+}
+
+/**
+ * Revert the most recently applied migrations
+ * @param steps Number of migrations to revert (default: 1)
+ * @returns Reverted migrations, or an error if an applied version has no migration file
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[] | { error: string }> {
+    const toRevert = (await getMigrationStatus())
+        .filter(status => status.appliedAt)
+        .reverse()
+        .slice(0, Math.max(0, steps));
+
+    const reverted: Migration[] = [];
+    for (const status of toRevert) {
+        const migration = migrations.find(m => m.version === status.version);
+        if (!migration) {
+            return { error: `Migration ${status.version} (${status.name}) has no migration file to revert it` };
+        }
+        await runStatements(migration, 'down');
+        await deleteMigrationRecord(migration.version);
+        console.log(`[migrate] Reverted ${migration.version} ${migration.name}`);
+        reverted.push(migration);
+    }
+
+    return reverted;
+}
+
+/**
+ * Record migrations up to a version as applied without running them,
+ * for databases created by hand before migrations existed
+ * @returns Newly recorded migrations
+ */
+export async function baselineMigrations(version: number): Promise<Migration[]> {
+    const pending = (await getPendingMigrations()).filter(migration => migration.version <= version);
+
+    for (const migration of pending) {
+        await recordMigration(migration.version, migration.name);
+        console.log(`[migrate] Marked ${migration.version} ${migration.name} as applied`);
+    }
+
+    return pending;
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildSearchFragments, parseSearchQuery, toBooleanQuery } from './newsHighlighter';
+
+describe('parseSearchQuery', () => {
+    it('searches multi-word queries as a phrase and as words', () => {
+        assert.deepEqual(parseSearchQuery('Rate  Cut'), [
+            { text: 'rate cut', phrase: true },
+            { text: 'rate', phrase: false },
+            { text: 'cut', phrase: false }
+        ]);
+    });
+
+    it('keeps quoted phrases and drops short words and operators', () => {
+        assert.deepEqual(parseSearchQuery('"interest rates" +up -AI'), [
+            { text: 'interest rates', phrase: true },
+            { text: 'up ai', phrase: true }
+        ]);
+    });
+
+    it('returns nothing for an empty query', () => {
+        assert.deepEqual(parseSearchQuery('  "" '), []);
+    });
+});
+
+describe('toBooleanQuery', () => {
+    it('boosts phrases and leaves words optional', () => {
+        assert.equal(toBooleanQuery(parseSearchQuery('rate cut')), '>"rate cut" rate cut');
+    });
+});
+
+describe('buildSearchFragments', () => {
+    const terms = parseSearchQuery('rate cut');
+
+    it('marks matches in the whole title', () => {
+        const [fragment] = buildSearchFragments([{ field: 'title', text: 'Fed signals a rate cut in June' }], terms);
+
+        assert.equal(fragment.text, 'Fed signals a rate cut in June');
+        assert.deepEqual(fragment.matches, [{ start: 14, end: 22 }]);
+    });
+
+    it('cuts long texts around the first match and marks the cut with ellipses', () => {
+        const text = `${'a'.repeat(200)} the rate cut ${'b'.repeat(200)}`;
+        const [fragment] = buildSearchFragments([{ field: 'description', text }], terms);
+
+        assert.ok(fragment.text.startsWith('…') && fragment.text.endsWith('…'));
+        const [match] = fragment.matches;
+        assert.equal(fragment.text.slice(match.start, match.end), 'rate cut');
+    });
+
+    it('strips HTML tags before matching', () => {
+        const [fragment] = buildSearchFragments([{ field: 'highlight', text: 'Analysts expect a <em>rate</em> move' }], terms);
+
+        assert.equal(fragment.text, 'Analysts expect a rate move');
+        assert.equal(fragment.text.slice(fragment.matches[0].start, fragment.matches[0].end), 'rate');
+    });
+
+    it('matches word prefixes only', () => {
+        assert.deepEqual(buildSearchFragments([{ field: 'title', text: 'Corporate cutbacks' }], terms)[0].matches, [{ start: 10, end: 13 }]);
+    });
+
+    it('ranks fragments with phrase matches first and keeps three', () => {
+        const fragments = buildSearchFragments([
+            { field: 'title', text: 'Rate outlook' },
+            { field: 'description', text: 'Markets price in a rate cut' },
+            { field: 'snippet', text: 'No match here' },
+            { field: 'highlight', text: 'cut' },
+            { field: 'highlight', text: 'rate' }
+        ], terms);
+
+        assert.equal(fragments.length, 3);
+        assert.equal(fragments[0].field, 'description');
+    });
+});
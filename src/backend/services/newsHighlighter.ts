@@ -0,0 +1,145 @@
+/**
+ * Search query parsing and match highlighting for news search (pure, no database access)
+ */
+import type { NewsSearchField, NewsSearchFragment } from '../../frontend/services/interface';
+
+/**
+ * Search term: a single word or a quoted phrase
+ */
+export interface SearchTerm {
+    text: string;
+    phrase: boolean;
+}
+
+// Characters around the first match kept in a fragment
+const FRAGMENT_RADIUS = 80;
+
+// Shortest word worth searching for (matches the default InnoDB full-text token size)
+const MIN_WORD_LENGTH = 3;
+
+// Fragments returned per article
+const MAX_FRAGMENTS = 3;
+
+/**
+ * Split a search query into terms
+ * Quoted text is kept as a phrase; unquoted multi-word queries are also searched as a phrase
+ * so "rate cut" ranks articles containing the exact phrase first
+ * @example parseSearchQuery('rate cut') // phrase 'rate cut', words 'rate', 'cut'
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    const cleaned = query.replace(/[+\-<>()~*@]/g, ' ');
+
+    const phrasePattern = /"([^"]+)"/g;
+    for (const match of cleaned.matchAll(phrasePattern)) {
+        const phrase = normalizeWords(match[1]);
+        if (phrase) terms.push({ text: phrase, phrase: true });
+    }
+
+    const unquoted = normalizeWords(cleaned.replace(phrasePattern, ' ').replace(/"/g, ' '));
+    const words = unquoted ? unquoted.split(' ') : [];
+    if (words.length > 1) {
+        terms.push({ text: unquoted, phrase: true });
+    }
+    for (const word of words) {
+        if (word.length >= MIN_WORD_LENGTH) terms.push({ text: word, phrase: false });
+    }
+
+    return terms;
+}
+
+/**
+ * Build a MySQL BOOLEAN MODE full-text query from search terms
+ * Phrases get a relevance boost (>); words are optional so any match is returned
+ * @example toBooleanQuery(parseSearchQuery('rate cut')) // '>"rate cut" rate cut'
+ */
+export function toBooleanQuery(terms: SearchTerm[]): string {
+    return terms.map(term => (term.phrase ? `>"${term.text}"` : term.text)).join(' ');
+}
+
+/**
+ * Find matches of the search terms in texts and cut fragments around them
+ * @param texts Field texts of one article (HTML tags are stripped)
+ * @returns Up to three fragments, phrase matches first
+ */
+export function buildSearchFragments(
+    texts: { field: NewsSearchField; text: string | undefined | null }[],
+    terms: SearchTerm[]
+): NewsSearchFragment[] {
+    const fragments: (NewsSearchFragment & { score: number })[] = [];
+
+    for (const { field, text } of texts) {
+        if (!text) continue;
+        const plain = stripTags(text);
+        const matches = findMatches(plain, terms);
+        if (matches.length === 0) continue;
+
+        const first = matches[0];
+        const start = field === 'title' ? 0 : Math.max(0, first.start - FRAGMENT_RADIUS);
+        const end = field === 'title' ? plain.length : Math.min(plain.length, first.end + FRAGMENT_RADIUS);
+        const prefix = start > 0 ? '…' : '';
+        const suffix = end < plain.length ? '…' : '';
+        const offset = prefix.length - start;
+
+        fragments.push({
+            field,
+            text: `${prefix}${plain.slice(start, end)}${suffix}`,
+            matches: matches
+                .filter(m => m.start >= start && m.end <= end)
+                .map(m => ({ start: m.start + offset, end: m.end + offset })),
+            score: matches.reduce((sum, m) => sum + (m.phrase ? 2 : 1), 0)
+        });
+    }
+
+    return fragments
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_FRAGMENTS)
+        .map(({ field, text, matches }) => ({ field, text, matches }));
+}
+
+/**
+ * Relevance of a text for the search terms: matches count once, phrase matches twice
+ * (a stand-in for full-text relevance where no full-text index is available)
+ */
+export function scoreSearchMatches(text: string | undefined | null, terms: SearchTerm[]): number {
+    if (!text) return 0;
+    return findMatches(stripTags(text), terms).reduce((score, match) => score + (match.phrase ? 2 : 1), 0);
+}
+
+/**
+ * Find non-overlapping, word-prefix matches of the terms, in text order
+ */
+function findMatches(text: string, terms: SearchTerm[]): { start: number; end: number; phrase: boolean }[] {
+    const found: { start: number; end: number; phrase: boolean }[] = [];
+
+    for (const term of terms) {
+        const pattern = new RegExp(`\\b${escapeRegExp(term.text).replace(/ /g, '\\s+')}`, 'gi');
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index;
+            const end = start + match[0].length;
+            if (!found.some(f => start < f.end && end > f.start)) {
+                found.push({ start, end, phrase: term.phrase });
+            }
+        }
+    }
+
+    return found.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Lower-case and collapse whitespace
+ */
+function normalizeWords(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove HTML tags (entity highlights contain <em> markup)
+ */
+function stripTags(text: string): string {
+    return text.replace(/<[^>]*>/g, '');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
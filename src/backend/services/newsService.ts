@@ -1,13 +1,39 @@
-import { 
-    getNewsByDate, 
-    checkNewsExistsForDate,
-    saveNewsArticleWithRelations,
-    markHeadlineNews,
-    getHeadlineNews,
-    type NewsArticleWithRelations
-} from '../models/News';
-import { fetchNewsFromAPI, type MarketauxNewsParams } from './marketauxService';
-import type { MarketauxNewsArticle } from '../../frontend/services/interface';
+import storage from '../repositories';
+import type { NewsArticleWithRelations, NewsCursor, NewsQueryFilters } from '../models/News';
+import { DEFAULT_NEWS_LANGUAGE, fetchNewsFromAPI, type MarketauxNewsParams } from './marketauxService';
+import { buildSearchFragments, parseSearchQuery } from './newsHighlighter';
+import { createWeightedHeadlineScorer, sourceReputation, type HeadlineScorer } from './headlineScorer';
+import { clusterStories } from './storyClustering';
+import { loadSourcePolicy } from './newsSourceService';
+import headlineConfig from '../config/headlines';
+import type {
+    NewsSearchFragment,
+    NewsStory,
+    SentimentBucket,
+    SentimentHeatmap,
+    SentimentSeries
+} from '../../frontend/services/interface';
+
+// How long to wait before asking the API again for a filtered query it already answered
+const API_FALLBACK_TTL_MS = 30 * 60 * 1000;
+
+// Filtered queries recently sent to the API (query key -> time), so empty results don't re-fetch on every click
+const recentApiFallbacks = new Map<string, number>();
+
+// Minimum share of title words two articles need in common to be grouped as one story
+const STORY_TITLE_SIMILARITY = 0.6;
+
+// Most recent stored articles grouped into stories per request
+const MAX_STORY_ARTICLES = 500;
+
+let headlineScorer: HeadlineScorer = createWeightedHeadlineScorer(headlineConfig);
+
+/**
+ * Replace the headline scorer (e.g., with a custom model); applies from the next re-score
+ */
+export function setHeadlineScorer(scorer: HeadlineScorer): void {
+    headlineScorer = scorer;
+}
 
 /**
  * Get today's date in YYYY-MM-DD format
@@ -17,43 +43,114 @@ function getTodayDate(): string {
 }
 
 /**
- * Check if news exists for today, if not, fetch from API
+ * Split a comma-separated query parameter into trimmed values
+ */
+function splitList(value: string | undefined, transform: (v: string) => string = v => v): string[] | undefined {
+    if (!value) return undefined;
+    const values = value.split(',').map(v => transform(v.trim())).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Languages asked for by the query parameters (the default language when none are)
+ */
+function requestedLanguages(params: MarketauxNewsParams): string[] {
+    return splitList(params.language, v => v.toLowerCase()) || [DEFAULT_NEWS_LANGUAGE];
+}
+
+/**
+ * Convert Marketaux-style query parameters to stored news filters (for one day when date is set)
+ * Only articles in the requested languages are kept
+ */
+function toNewsFilters(date: string | undefined, params: MarketauxNewsParams): NewsQueryFilters {
+    return {
+        date,
+        symbols: splitList(params.symbols, v => v.toUpperCase()),
+        sentimentGte: params.sentiment_gte,
+        sentimentLte: params.sentiment_lte,
+        countries: splitList(params.countries),
+        industries: splitList(params.industries),
+        entityTypes: splitList(params.entity_types),
+        languages: requestedLanguages(params),
+        mustHaveEntities: params.must_have_entities,
+        filterEntities: params.filter_entities
+    };
+}
+
+/**
+ * Check whether any filters beyond pagination and language are set
+ */
+function hasFilters(filters: NewsQueryFilters): boolean {
+    return Boolean(
+        filters.symbols || filters.countries || filters.industries || filters.entityTypes
+        || filters.sentimentGte !== undefined || filters.sentimentLte !== undefined || filters.mustHaveEntities
+    );
+}
+
+/**
+ * Query stored news, calling the API only when stored data can't answer a filtered query
+ * (no stored article matches and the same query wasn't sent to the API recently)
+ * @param allowApiFallback false when the API was just called for this query
+ */
+async function queryStoredNews(
+    date: string,
+    params: MarketauxNewsParams,
+    limit: number,
+    offset: number,
+    allowApiFallback: boolean = true
+): Promise<{ articles: NewsArticleWithRelations[]; total: number }> {
+    const filters = toNewsFilters(date, params);
+    const result = await storage.news.queryNews(filters, limit, offset);
+    if (result.total > 0 || !hasFilters(filters) || !allowApiFallback) {
+        return result;
+    }
+    
+    const now = Date.now();
+    for (const [cachedKey, fetchedAt] of recentApiFallbacks) {
+        if (now - fetchedAt >= API_FALLBACK_TTL_MS) recentApiFallbacks.delete(cachedKey);
+    }
+    
+    const key = JSON.stringify({ ...filters, filterEntities: undefined });
+    if (recentApiFallbacks.has(key)) {
+        return result;
+    }
+    
+    console.log('No stored news matches the filters, fetching from API...');
+    recentApiFallbacks.set(key, now);
+    await fetchAndSaveNews(date, { ...params, language: filters.languages?.join(','), page: undefined, limit: 100 });
+    return storage.news.queryNews(filters, limit, offset);
+}
+
+/**
+ * Check if news exists for today in the requested languages, if not, fetch from API
  * This is the main function called by the API route
  * 
- * @param params Optional parameters for filtering news (symbols, limit, etc.)
- * @returns Promise with news articles
+ * @param params Optional parameters for filtering news (symbols, language, limit, etc.)
+ * @returns Promise with news articles in the requested languages
  */
 export async function checkAndGetNews(
     params: MarketauxNewsParams = {}
 ): Promise<NewsArticleWithRelations[]> {
     const today = getTodayDate();
     
-    // Step 1: Check if data exists in database for today
-    const hasNews = await checkNewsExistsForDate(today);
-    
-    // Step 2: If no data for today, fetch from API and save
-    if (!hasNews) {
-        console.log(`No news data for ${today}, fetching from API...`);
-        return await fetchAndSaveNews(today, params);
-    } else {
+    // Step 1: Fetch the requested languages that have no data for today yet
+    const fetched = await ensureTodayNews(params, { date: today });
+    if (!fetched) {
         console.log(`Using cached news data for ${today}`);
-        // Get news from database
-        let news = await getNewsByDate(today);
-        
-        // If filters are specified, we might need to fetch fresh data
-        // For now, return cached data. In the future, you could add filtering logic here
-        if (params.symbols || params.sentiment_gte !== undefined || params.sentiment_lte !== undefined) {
-            console.log('Filters specified, fetching fresh data from API...');
-            return await fetchAndSaveNews(today, params);
-        }
-        
-        return news;
     }
+    
+    // Step 2: Filter stored articles in the database
+    if (hasFilters(toNewsFilters(today, params))) {
+        const { articles } = await queryStoredNews(today, params, params.limit || 50, 0, !fetched);
+        return articles;
+    }
+    
+    return await storage.news.getNewsByDate(today, requestedLanguages(params));
 }
 
 /**
  * Fetch news from API and save to database
- * This function is called when today's data doesn't exist or filters are specified
+ * This function is called when today's data doesn't exist or stored data can't answer a filtered query
  * 
  * @param date Date in YYYY-MM-DD format
  * @param params Optional parameters for filtering news
@@ -71,7 +168,7 @@ async function fetchAndSaveNews(
         const apiResponse = await fetchNewsFromAPI({
             ...params,
             limit: Math.min(limit, 100), // API max limit is 100
-            language: params.language || 'en'
+            language: params.language || DEFAULT_NEWS_LANGUAGE
         });
         
         if (!apiResponse.data || apiResponse.data.length === 0) {
@@ -79,14 +176,18 @@ async function fetchAndSaveNews(
             return [];
         }
         
-        // Save each article to database
+        // Save each article to database, skipping blocked sources
         const savedArticles: NewsArticleWithRelations[] = [];
-        const headlineUuids: string[] = [];
+        const sourcePolicy = await loadSourcePolicy();
+        const articles = apiResponse.data.filter(article => sourcePolicy.isAllowed(article.source));
+        if (articles.length < apiResponse.data.length) {
+            console.log(`Skipped ${apiResponse.data.length - articles.length} news articles from blocked sources`);
+        }
         
-        for (const article of apiResponse.data) {
+        for (const article of articles) {
             try {
                 // Save article with all relations (categories, entities, highlights, similar)
-                await saveNewsArticleWithRelations(article);
+                await storage.news.saveNewsArticleWithRelations(article);
                 
                 // Convert to NewsArticleWithRelations format for return
                 const savedArticle: NewsArticleWithRelations = {
@@ -105,44 +206,18 @@ async function fetchAndSaveNews(
                 };
                 
                 savedArticles.push(savedArticle);
-                
-                // Mark articles with high sentiment or high match scores as potential headlines
-                if (article.entities && article.entities.length > 0) {
-                    const hasHighSentiment = article.entities.some(
-                        e => Math.abs(e.sentiment_score) > 0.3
-                    );
-                    const hasHighMatch = article.entities.some(
-                        e => e.match_score > 20
-                    );
-                    
-                    if (hasHighSentiment || hasHighMatch) {
-                        headlineUuids.push(article.uuid);
-                    }
-                }
             } catch (error) {
                 console.error(`Failed to save article ${article.uuid}:`, error);
                 // Continue with other articles even if one fails
             }
         }
         
-        // Mark headlines in cache table (optional, for quick headline retrieval)
-        if (headlineUuids.length > 0) {
+        // Re-rank the day's headlines with the new articles
+        if (savedArticles.length > 0) {
             try {
-                // Assign priorities based on sentiment scores
-                const priorities = headlineUuids.map(uuid => {
-                    const article = apiResponse.data?.find(a => a.uuid === uuid);
-                    if (article?.entities && article.entities.length > 0) {
-                        const maxSentiment = Math.max(
-                            ...article.entities.map(e => Math.abs(e.sentiment_score))
-                        );
-                        return Math.round(maxSentiment * 100); // Convert to 0-100 scale
-                    }
-                    return 0;
-                });
-                
-                await markHeadlineNews(headlineUuids, date, priorities);
+                await rescoreHeadlines(date, savedArticles);
             } catch (error) {
-                console.error('Failed to mark headline news:', error);
+                console.error('Failed to rank headline news:', error);
                 // Non-critical error, continue
             }
         }
@@ -156,9 +231,52 @@ async function fetchAndSaveNews(
     }
 }
 
+/**
+ * Score the day's articles and replace the day's headlines with the best ranked ones
+ * Candidates are the articles published on the date, the current headlines (which may have been
+ * published the day before) and newly fetched articles; each language is ranked separately
+ * 
+ * @param date Date in YYYY-MM-DD format
+ * @param newArticles Articles that just arrived
+ * @returns Promise with the number of headlines
+ */
+export async function rescoreHeadlines(
+    date: string,
+    newArticles: NewsArticleWithRelations[] = []
+): Promise<number> {
+    const candidates = new Map<string, NewsArticleWithRelations>();
+    for (const article of [...newArticles, ...await storage.news.getHeadlineNews(date), ...await storage.news.getNewsByDate(date)]) {
+        candidates.set(article.uuid, article);
+    }
+    
+    const now = new Date();
+    const scoredAt = now.toISOString();
+    const { boost } = await loadSourcePolicy();
+    const byLanguage = new Map<string, NewsArticleWithRelations[]>();
+    for (const article of candidates.values()) {
+        const group = byLanguage.get(article.language);
+        if (group) group.push(article);
+        else byLanguage.set(article.language, [article]);
+    }
+    
+    const headlines = [...byLanguage.values()].flatMap(articles => articles
+        .map(article => ({ uuid: article.uuid, ...headlineScorer(article, { now, sourceBoost: boost }) }))
+        .filter(scored => scored.score >= headlineConfig.minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(0, Math.floor(headlineConfig.maxHeadlines)))
+        .map(({ uuid, score, factors }, index) => ({
+            uuid,
+            ranking: { rank: index + 1, score, scoredAt, factors }
+        }))
+    );
+    
+    await storage.news.saveHeadlineRankings(date, headlines);
+    return headlines.length;
+}
+
 /**
  * Get news with pagination support
- * Checks database first, then API if needed
+ * Filters and paginates stored articles in the database, then calls the API only if needed
  * 
  * @param params Query parameters including pagination
  * @returns Promise with paginated news articles and total count
@@ -170,58 +288,259 @@ export async function getNewsWithPagination(
     const page = params.page || 1;
     const limit = params.limit || 50;
     
-    // Check if we have data in database
-    const hasNews = await checkNewsExistsForDate(today);
+    // Warm today's news first if nothing is stored yet in the requested languages
+    const fetched = await ensureTodayNews(params, { date: today });
     
-    if (!hasNews || params.symbols || params.sentiment_gte !== undefined || params.sentiment_lte !== undefined) {
-        // Fetch from API if no data or filters specified
-        const articles = await fetchAndSaveNews(today, params);
-        
-        // Simple pagination on in-memory array
-        const startIndex = (page - 1) * limit;
-        const endIndex = startIndex + limit;
-        const paginatedArticles = articles.slice(startIndex, endIndex);
-        
-        return {
-            articles: paginatedArticles,
-            total: articles.length,
-            page,
-            limit
-        };
-    } else {
-        // Use database pagination (if you implement it in News model)
-        // For now, get all and paginate in memory
-        const allNews = await getNewsByDate(today);
-        const startIndex = (page - 1) * limit;
-        const endIndex = startIndex + limit;
-        const paginatedArticles = allNews.slice(startIndex, endIndex);
-        
-        return {
-            articles: paginatedArticles,
-            total: allNews.length,
-            page,
-            limit
-        };
+    const { articles, total } = await queryStoredNews(today, params, limit, (page - 1) * limit, !fetched);
+    
+    return {
+        articles,
+        total,
+        page,
+        limit
+    };
+}
+
+/**
+ * Encode a news cursor as an opaque URL-safe string
+ */
+function encodeNewsCursor(cursor: NewsCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeNewsCursor
+ * @returns The cursor, or null if the string is not a valid cursor
+ */
+function decodeNewsCursor(value: string): NewsCursor | null {
+    try {
+        const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+        if (typeof cursor?.publishedAt !== 'string' || typeof cursor?.uuid !== 'string') return null;
+        if (isNaN(Date.parse(cursor.publishedAt))) return null;
+        return { publishedAt: cursor.publishedAt, uuid: cursor.uuid };
+    } catch {
+        return null;
     }
 }
 
+/**
+ * Fetch today's news from the API if the date range includes today and nothing is stored for today yet
+ * The cache is per language: only the requested languages without stored articles are fetched
+ * @returns true if the API was called
+ */
+async function ensureTodayNews(
+    params: MarketauxNewsParams,
+    range: { date?: string; fromDate?: string; toDate?: string }
+): Promise<boolean> {
+    const today = getTodayDate();
+    const coversToday = range.date
+        ? range.date === today
+        : (!range.fromDate || range.fromDate <= today) && (!range.toDate || range.toDate >= today);
+    if (!coversToday) return false;
+    
+    const missing: string[] = [];
+    for (const language of requestedLanguages(params)) {
+        if (!(await storage.news.checkNewsExistsForDate(today, language))) missing.push(language);
+    }
+    if (missing.length === 0) return false;
+    
+    console.log(`No ${missing.join(', ')} news data for ${today}, fetching from API...`);
+    await fetchAndSaveNews(today, { ...params, language: missing.join(','), page: undefined, limit: 100 });
+    return true;
+}
+
+/**
+ * Browse stored news by date with cursor pagination, newest first
+ * Today's news is fetched from the API first if nothing is stored for today yet;
+ * older dates only return stored articles
+ * 
+ * @param params Filter parameters (symbols, sentiment, countries, ...)
+ * @param range Publication date (date) or date range (fromDate/toDate, inclusive); date takes precedence
+ * @param limit Articles per page
+ * @param cursor nextCursor from the previous page (omit for the first page)
+ * @returns Promise with the page of articles and the cursor for the next page (null when there are no more),
+ *          or an error message for an invalid cursor
+ */
+export async function getNewsPage(
+    params: MarketauxNewsParams,
+    range: { date?: string; fromDate?: string; toDate?: string },
+    limit: number,
+    cursor?: string
+): Promise<{ articles: NewsArticleWithRelations[]; nextCursor: string | null } | { error: string }> {
+    const after = cursor ? decodeNewsCursor(cursor) : undefined;
+    if (after === null) {
+        return { error: 'Invalid cursor' };
+    }
+    
+    if (!after) {
+        await ensureTodayNews(params, range);
+    }
+    
+    const filters: NewsQueryFilters = {
+        ...toNewsFilters(range.date, params),
+        fromDate: range.fromDate,
+        toDate: range.toDate
+    };
+    const { articles, nextCursor } = await storage.news.queryNewsAfter(filters, limit, after);
+    
+    return {
+        articles,
+        nextCursor: nextCursor ? encodeNewsCursor(nextCursor) : null
+    };
+}
+
+/**
+ * Group stored news into stories (syndicated copies and similar articles), most recently updated first
+ * Articles are linked by their similar-article references and by title similarity
+ * 
+ * @param params Filter parameters (symbols, sentiment, countries, ...)
+ * @param range Publication date (date) or date range (fromDate/toDate, inclusive); date takes precedence
+ * @param limit Maximum number of stories
+ * @returns Promise with the stories and the number of stories before the limit
+ */
+export async function getNewsStories(
+    params: MarketauxNewsParams,
+    range: { date?: string; fromDate?: string; toDate?: string },
+    limit: number
+): Promise<{ stories: NewsStory<NewsArticleWithRelations>[]; total: number }> {
+    await ensureTodayNews(params, range);
+    
+    const { articles } = await storage.news.queryNews({
+        ...toNewsFilters(range.date, params),
+        fromDate: range.fromDate,
+        toDate: range.toDate
+    }, MAX_STORY_ARTICLES, 0);
+    
+    const { boost } = await loadSourcePolicy();
+    const stories = clusterStories(articles, {
+        titleSimilarity: STORY_TITLE_SIMILARITY,
+        reputation: source => sourceReputation(source, headlineConfig) + boost(source)
+    });
+    
+    return { stories: stories.slice(0, limit), total: stories.length };
+}
+
 /**
  * Get headline news for today
  * 
- * @returns Promise with headline news articles
+ * @param language Comma-separated language codes (default: "en")
+ * @returns Promise with headline news articles in the requested languages
  */
-export async function getHeadlineNewsForToday(): Promise<NewsArticleWithRelations[]> {
+export async function getHeadlineNewsForToday(language?: string): Promise<NewsArticleWithRelations[]> {
     const today = getTodayDate();
     
-    // First check if we have news in database
-    const hasNews = await checkNewsExistsForDate(today);
+    // Fetch general news first for languages with nothing stored today
+    await ensureTodayNews({ language }, { date: today });
     
-    if (!hasNews) {
-        // Fetch general news first
-        await checkAndGetNews();
+    // Get headlines from database
+    return await storage.news.getHeadlineNews(today, requestedLanguages({ language }));
+}
+
+/**
+ * Search stored news by keyword, most relevant first, with highlighted match fragments
+ * 
+ * @param query Keywords or quoted phrases, e.g., 'rate cut' or '"earnings beat" guidance'
+ * @param fromDate Earliest publication date in YYYY-MM-DD format (optional)
+ * @param toDate Latest publication date in YYYY-MM-DD format (optional)
+ * @returns Promise with matching articles, or an error if the query has no searchable words
+ */
+export async function searchNews(
+    query: string,
+    fromDate?: string,
+    toDate?: string,
+    limit: number = 20
+): Promise<(NewsArticleWithRelations & { relevance: number; fragments: NewsSearchFragment[] })[] | { error: string }> {
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) {
+        return { error: 'q must contain a word of at least 3 characters' };
     }
     
-    // Get headlines from database
-    return await getHeadlineNews(today);
+    const articles = await storage.news.searchNewsArticles(terms, fromDate, toDate, limit);
+    
+    return articles.map(article => ({
+        ...article,
+        fragments: buildSearchFragments([
+            { field: 'title', text: article.title },
+            { field: 'description', text: article.description },
+            { field: 'snippet', text: article.snippet },
+            ...(article.entities || []).flatMap(entity =>
+                (entity.highlights || []).map(h => ({ field: 'highlight' as const, text: h.highlight }))
+            )
+        ], terms)
+    }));
+}
+
+/**
+ * Get a symbol's news sentiment per day or week from stored entities
+ * 
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param fromDate Start date in YYYY-MM-DD format (inclusive)
+ * @param toDate End date in YYYY-MM-DD format (inclusive)
+ * @param bucket 'day' or 'week'
+ * @returns Promise with one point per bucket that has articles
+ */
+export async function getSentimentSeries(
+    symbol: string,
+    fromDate: string,
+    toDate: string,
+    bucket: SentimentBucket
+): Promise<SentimentSeries> {
+    const points = await storage.news.getSentimentSeries(symbol, fromDate, toDate, bucket);
+    return { symbol, bucket, from: fromDate, to: toDate, points };
 }
 
+/**
+ * Get entity sentiment grouped by industry and country
+ * 
+ * @param fromDate Start date in YYYY-MM-DD format (inclusive)
+ * @param toDate End date in YYYY-MM-DD format (inclusive)
+ * @param entityType Only include entities of this type, e.g., 'equity' (optional)
+ * @returns Promise with heatmap cells and the industries/countries ordered by article volume
+ */
+export async function getSentimentHeatmap(
+    fromDate: string,
+    toDate: string,
+    entityType?: string
+): Promise<SentimentHeatmap> {
+    const cells = await storage.news.getSentimentHeatmap(fromDate, toDate, entityType);
+    
+    const byVolume = (key: 'industry' | 'country') => {
+        const volumes = new Map<string, number>();
+        for (const cell of cells) {
+            volumes.set(cell[key], (volumes.get(cell[key]) || 0) + cell.articleCount);
+        }
+        return [...volumes.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+    };
+    
+    return {
+        from: fromDate,
+        to: toDate,
+        industries: byVolume('industry'),
+        countries: byVolume('country'),
+        cells
+    };
+}
+
+/**
+ * Get the stored articles behind one heatmap cell
+ * Only the entities in that industry and country are returned with each article
+ * 
+ * @returns Promise with matching articles (newest first) and the total count
+ */
+export async function getHeatmapArticles(
+    industry: string,
+    country: string,
+    fromDate: string,
+    toDate: string,
+    entityType?: string,
+    limit: number = 50
+): Promise<{ articles: NewsArticleWithRelations[]; total: number }> {
+    return storage.news.queryNews({
+        fromDate,
+        toDate,
+        industries: [industry],
+        countries: [country],
+        entityTypes: entityType ? [entityType] : undefined,
+        filterEntities: true
+    }, limit, 0);
+}
@@ -0,0 +1,120 @@
+import storage from '../repositories';
+import { isSourceAllowed, type NewsSourceSetting } from '../models/NewsSource';
+import type { NewsSource, NewsSourceStatus } from '../../frontend/services/interface';
+
+const SOURCE_STATUSES: NewsSourceStatus[] = ['allow', 'deny', 'neutral'];
+
+// Longest note kept with a source
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Source rules for one ingestion or scoring run (settings are loaded once)
+ */
+export interface SourcePolicy {
+    isAllowed: (source: string) => boolean;
+    boost: (source: string) => number;
+}
+
+/**
+ * Normalize a source domain: lower case, without protocol, path or port
+ * @example normalizeSourceDomain('https://Reuters.com/markets') // 'reuters.com'
+ */
+export function normalizeSourceDomain(value: string): string {
+    return value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0];
+}
+
+/**
+ * Load the current source settings as a policy
+ */
+export async function loadSourcePolicy(): Promise<SourcePolicy> {
+    const settings = await storage.newsSources.getNewsSourceSettings();
+
+    return {
+        isAllowed: source => isSourceAllowed(source, settings),
+        boost: source => settings.get(source.toLowerCase())?.boost || 0
+    };
+}
+
+/**
+ * Get every source that has stored articles or settings, most articles first
+ */
+export async function listNewsSources(): Promise<NewsSource[]> {
+    const [settings, stats] = await Promise.all([storage.newsSources.getNewsSourceSettings(), storage.newsSources.getNewsSourceStats()]);
+    const sources: NewsSource[] = [];
+
+    for (const stat of stats) {
+        const setting = settings.get(stat.domain.toLowerCase());
+        sources.push({
+            domain: stat.domain,
+            status: setting?.status || 'neutral',
+            boost: setting?.boost || 0,
+            note: setting?.note || null,
+            articleCount: stat.articleCount,
+            meanSentiment: stat.meanSentiment,
+            lastSeenAt: stat.lastSeenAt ? stat.lastSeenAt.toISOString() : null,
+            configured: Boolean(setting)
+        });
+        settings.delete(stat.domain.toLowerCase());
+    }
+
+    // Configured sources without stored articles (e.g., denied before anything was saved)
+    for (const setting of settings.values()) {
+        sources.push({
+            ...setting,
+            articleCount: 0,
+            meanSentiment: null,
+            lastSeenAt: null,
+            configured: true
+        });
+    }
+
+    return sources;
+}
+
+/**
+ * Validate and save the settings of a source
+ * @param body { status?, boost?, note? }; missing fields keep their current value
+ * @returns The saved settings, or an error message
+ */
+export async function saveNewsSource(
+    domain: string,
+    body: Record<string, unknown>
+): Promise<NewsSourceSetting | { error: string }> {
+    const normalized = normalizeSourceDomain(domain);
+    if (!normalized || !normalized.includes('.')) {
+        return { error: 'domain must be a domain name, e.g., reuters.com' };
+    }
+
+    const existing = (await storage.newsSources.getNewsSourceSettings()).get(normalized);
+    const status = (body.status ?? existing?.status ?? 'neutral') as NewsSourceStatus;
+    if (!SOURCE_STATUSES.includes(status)) {
+        return { error: `status must be one of: ${SOURCE_STATUSES.join(', ')}` };
+    }
+
+    const boost = body.boost === undefined ? existing?.boost ?? 0 : Number(body.boost);
+    if (!Number.isFinite(boost) || boost < -1 || boost > 1) {
+        return { error: 'boost must be a number from -1 to 1' };
+    }
+
+    const note = body.note === undefined ? existing?.note ?? null : body.note;
+    if (note !== null && typeof note !== 'string') {
+        return { error: 'note must be a string' };
+    }
+
+    const setting: NewsSourceSetting = {
+        domain: normalized,
+        status,
+        boost,
+        note: note ? note.slice(0, MAX_NOTE_LENGTH) : null
+    };
+    await storage.newsSources.upsertNewsSource(setting);
+    return setting;
+}
+
+/**
+ * Remove the settings of a source
+ * @returns false if the source had no settings
+ */
+export async function removeNewsSource(domain: string): Promise<boolean> {
+    return storage.newsSources.deleteNewsSource(normalizeSourceDomain(domain));
+}
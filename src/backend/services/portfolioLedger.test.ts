@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { replayLedger, sortTransactions } from './portfolioLedger';
+import type { PortfolioTransaction } from '../../frontend/services/interface';
+
+let nextId = 1;
+
+/**
+ * Build a transaction with the fields a test doesn't care about filled in
+ */
+function tx(fields: Partial<PortfolioTransaction> & Pick<PortfolioTransaction, 'type' | 'tradeDate'>): PortfolioTransaction {
+    return {
+        id: nextId++,
+        symbol: 'AAPL',
+        quantity: null,
+        price: null,
+        fee: 0,
+        amount: null,
+        currency: 'USD',
+        notes: null,
+        ...fields
+    };
+}
+
+describe('sortTransactions', () => {
+    it('orders by trade date, then by id', () => {
+        const sorted = sortTransactions([
+            { id: 3, tradeDate: '2024-01-02' },
+            { id: 1, tradeDate: '2024-01-03' },
+            { id: 2, tradeDate: '2024-01-02' }
+        ]);
+
+        assert.deepEqual(sorted.map(t => t.id), [2, 3, 1]);
+    });
+});
+
+describe('replayLedger', () => {
+    const buys = [
+        tx({ type: 'buy', tradeDate: '2024-01-02', quantity: 10, price: 100, fee: 10 }),
+        tx({ type: 'buy', tradeDate: '2024-02-01', quantity: 10, price: 200 })
+    ];
+
+    it('adds the buy fee to the lot cost', () => {
+        const [position] = replayLedger(buys.slice(0, 1), 'fifo');
+
+        assert.equal(position.quantity, 10);
+        assert.equal(position.costBasis, 1010);
+        assert.deepEqual(position.lots, [{ date: '2024-01-02', quantity: 10, unitCost: 101 }]);
+    });
+
+    it('sells the oldest lots first with fifo', () => {
+        const sell = tx({ type: 'sell', tradeDate: '2024-03-01', quantity: 15, price: 300, fee: 5 });
+        const [position] = replayLedger([...buys, sell], 'fifo');
+
+        // 10 shares at 101 and 5 at 200 are sold
+        assert.equal(position.quantity, 5);
+        assert.equal(position.costBasis, 1000);
+        assert.equal(position.realizedPnl, 15 * 300 - 5 - (1010 + 1000));
+        assert.deepEqual(position.lots, [{ date: '2024-02-01', quantity: 5, unitCost: 200 }]);
+    });
+
+    it('sells at the average unit cost with average', () => {
+        const sell = tx({ type: 'sell', tradeDate: '2024-03-01', quantity: 10, price: 300 });
+        const [position] = replayLedger([...buys, sell], 'average');
+
+        assert.equal(position.quantity, 10);
+        assert.equal(position.costBasis, 1505);
+        assert.equal(position.realizedPnl, 3000 - 1505);
+        assert.ok(position.lots.every(lot => lot.unitCost === 150.5));
+    });
+
+    it('replays transactions in trade date order', () => {
+        const sell = tx({ type: 'sell', tradeDate: '2024-03-01', quantity: 5, price: 300 });
+        const [position] = replayLedger([sell, ...buys].reverse(), 'fifo');
+
+        assert.equal(position.quantity, 15);
+    });
+
+    it('keeps closed positions with their realized P&L', () => {
+        const sell = tx({ type: 'sell', tradeDate: '2024-03-01', quantity: 20, price: 150 });
+        const [position] = replayLedger([...buys, sell], 'fifo');
+
+        assert.equal(position.quantity, 0);
+        assert.equal(position.costBasis, 0);
+        assert.deepEqual(position.lots, []);
+        assert.equal(position.realizedPnl, 3000 - 3010);
+    });
+
+    it('tracks dividends and fees apart from the cost basis', () => {
+        const [position] = replayLedger([
+            ...buys,
+            tx({ type: 'dividend', tradeDate: '2024-03-01', amount: 12.5 }),
+            tx({ type: 'fee', tradeDate: '2024-03-02', amount: 3 })
+        ], 'fifo');
+
+        assert.equal(position.dividends, 12.5);
+        assert.equal(position.fees, 3);
+        assert.equal(position.costBasis, 3010);
+    });
+
+    it('returns one position per symbol, sorted by symbol', () => {
+        const positions = replayLedger([
+            tx({ type: 'buy', tradeDate: '2024-01-02', symbol: 'MSFT', quantity: 1, price: 400 }),
+            ...buys
+        ], 'fifo');
+
+        assert.deepEqual(positions.map(p => p.symbol), ['AAPL', 'MSFT']);
+    });
+
+    it('rejects selling more shares than held', () => {
+        const sell = tx({ type: 'sell', tradeDate: '2024-01-15', quantity: 11, price: 120 });
+
+        assert.throws(() => replayLedger([...buys, sell], 'fifo'), /only 10 held/);
+    });
+
+    it('rejects a symbol traded in two currencies', () => {
+        const eurBuy = tx({ type: 'buy', tradeDate: '2024-03-01', quantity: 1, price: 100, currency: 'EUR' });
+
+        assert.throws(() => replayLedger([...buys, eurBuy], 'fifo'), /must all use USD/);
+    });
+});
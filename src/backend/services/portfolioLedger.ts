@@ -0,0 +1,144 @@
+/**
+ * Portfolio ledger replay (lot tracking and realized P&L)
+ * Works in each symbol's own currency; pricing and currency conversion happen in portfolioService
+ */
+import type { CostMethod, PortfolioLot, PortfolioTransaction } from '../../frontend/services/interface';
+
+export const COST_METHODS: CostMethod[] = ['fifo', 'average'];
+
+/**
+ * Holding in one symbol after replaying its transactions
+ */
+export interface LedgerPosition {
+    symbol: string;
+    currency: string;
+    quantity: number;
+    costBasis: number;
+    realizedPnl: number;
+    dividends: number;
+    fees: number;
+    lots: PortfolioLot[];
+}
+
+// Quantities below this are treated as zero (floating point leftovers after sells)
+const EPSILON = 1e-9;
+
+/**
+ * Order transactions by trade date, then by the order they were recorded
+ */
+export function sortTransactions<T extends Pick<PortfolioTransaction, 'id' | 'tradeDate'>>(transactions: T[]): T[] {
+    return [...transactions].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.id - b.id);
+}
+
+/**
+ * Replay transactions into positions
+ * FIFO sells consume the oldest lots first; average cost sells reduce every lot
+ * proportionally so all remaining shares keep the same unit cost
+ *
+ * @param transactions Transactions in any order (new, unsaved ones may use id 0 or higher)
+ * @param method Cost method for sells
+ * @returns Positions sorted by symbol, including fully closed ones
+ * @throws Error when a sell exceeds the shares held or a symbol mixes currencies
+ */
+export function replayLedger(transactions: PortfolioTransaction[], method: CostMethod): LedgerPosition[] {
+    const positions = new Map<string, LedgerPosition>();
+
+    for (const tx of sortTransactions(transactions)) {
+        let position = positions.get(tx.symbol);
+        if (!position) {
+            position = {
+                symbol: tx.symbol,
+                currency: tx.currency,
+                quantity: 0,
+                costBasis: 0,
+                realizedPnl: 0,
+                dividends: 0,
+                fees: 0,
+                lots: []
+            };
+            positions.set(tx.symbol, position);
+        }
+
+        if (tx.currency !== position.currency) {
+            throw new Error(`${tx.symbol} transactions must all use ${position.currency}`);
+        }
+
+        switch (tx.type) {
+            case 'buy': {
+                const quantity = tx.quantity as number;
+                const cost = quantity * (tx.price as number) + tx.fee;
+                position.lots.push({ date: tx.tradeDate, quantity, unitCost: cost / quantity });
+                position.quantity += quantity;
+                position.costBasis += cost;
+                break;
+            }
+            case 'sell': {
+                const quantity = tx.quantity as number;
+                if (quantity > position.quantity + EPSILON) {
+                    throw new Error(
+                        `Cannot sell ${quantity} ${tx.symbol} on ${tx.tradeDate}: only ${position.quantity} held`
+                    );
+                }
+
+                const costRemoved = method === 'fifo'
+                    ? consumeLotsFifo(position.lots, quantity)
+                    : consumeLotsAverage(position.lots, quantity, position.costBasis / position.quantity);
+
+                position.realizedPnl += quantity * (tx.price as number) - tx.fee - costRemoved;
+                position.quantity -= quantity;
+                position.costBasis -= costRemoved;
+                if (position.quantity < EPSILON) {
+                    position.quantity = 0;
+                    position.costBasis = 0;
+                    position.lots = [];
+                }
+                break;
+            }
+            case 'dividend':
+                position.dividends += tx.amount as number;
+                break;
+            case 'fee':
+                position.fees += tx.amount as number;
+                break;
+        }
+    }
+
+    return [...positions.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Remove shares from the oldest lots first
+ * @returns Cost of the removed shares
+ */
+function consumeLotsFifo(lots: PortfolioLot[], quantity: number): number {
+    let remaining = quantity;
+    let cost = 0;
+
+    while (remaining > EPSILON && lots.length > 0) {
+        const lot = lots[0];
+        const used = Math.min(lot.quantity, remaining);
+        cost += used * lot.unitCost;
+        lot.quantity -= used;
+        remaining -= used;
+        if (lot.quantity < EPSILON) lots.shift();
+    }
+
+    return cost;
+}
+
+/**
+ * Remove shares from every lot proportionally at the average unit cost
+ * Lots are re-priced at the average so later sells keep using it
+ * @returns Cost of the removed shares
+ */
+function consumeLotsAverage(lots: PortfolioLot[], quantity: number, averageCost: number): number {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const keepRatio = (held - quantity) / held;
+
+    for (const lot of lots) {
+        lot.quantity *= keepRatio;
+        lot.unitCost = averageCost;
+    }
+
+    return quantity * averageCost;
+}
@@ -0,0 +1,247 @@
+import storage from '../repositories';
+import { getCurrencyRates } from './dataService';
+import { checkAndGetStockQuote } from './stockService';
+import { replayLedger, sortTransactions } from './portfolioLedger';
+import type {
+    CostMethod,
+    Portfolio,
+    PortfolioPosition,
+    PortfolioSummary,
+    PortfolioTransaction
+} from '../../frontend/services/interface';
+
+/**
+ * Build a lookup of exchange rates keyed by 'FROM/TO' from the latest stored rates
+ */
+async function loadExchangeRates(): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    for (const rate of await getCurrencyRates()) {
+        rates.set(`${rate.fromCurrency}/${rate.toCurrency}`, rate.exchangeRate);
+    }
+    return rates;
+}
+
+/**
+ * Get the rate to convert one unit of `from` into `to`
+ * Tries the direct pair, the inverse pair, then a cross rate through USD
+ * @returns Rate, or null if the stored rates can't connect the two currencies
+ */
+function getConversionRate(rates: Map<string, number>, from: string, to: string): number | null {
+    if (from === to) return 1;
+
+    const direct = rates.get(`${from}/${to}`);
+    if (direct) return direct;
+
+    const inverse = rates.get(`${to}/${from}`);
+    if (inverse) return 1 / inverse;
+
+    if (from !== 'USD' && to !== 'USD') {
+        const toUsd = getConversionRate(rates, from, 'USD');
+        const fromUsd = getConversionRate(rates, 'USD', to);
+        if (toUsd && fromUsd) return toUsd * fromUsd;
+    }
+
+    return null;
+}
+
+/**
+ * Get the latest price for each symbol
+ * Uses the cached quote store, so prices are at most STOCK_QUOTE_CACHE_MINUTES old
+ * @returns Map of symbol to price; symbols whose quote failed are missing
+ */
+async function loadPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    await Promise.all(symbols.map(async symbol => {
+        try {
+            const quote = await checkAndGetStockQuote(symbol);
+            const price = parseFloat(quote.price);
+            if (Number.isFinite(price)) prices.set(symbol, price);
+        } catch (error) {
+            console.error(`Failed to price ${symbol} for portfolio:`, error);
+        }
+    }));
+
+    return prices;
+}
+
+/**
+ * Get all portfolios
+ */
+export async function getPortfolios(): Promise<Portfolio[]> {
+    return storage.portfolios.getPortfolios();
+}
+
+/**
+ * Create an empty portfolio
+ */
+export async function createPortfolio(name: string, baseCurrency: string, costMethod: CostMethod): Promise<Portfolio> {
+    const id = await storage.portfolios.createPortfolio(name, baseCurrency, costMethod);
+    return (await storage.portfolios.getPortfolioById(id)) as Portfolio;
+}
+
+/**
+ * Update portfolio settings; omitted settings keep their current value
+ * @returns Updated portfolio, or null if it doesn't exist
+ */
+export async function updatePortfolioSettings(
+    id: number,
+    settings: { name?: string; baseCurrency?: string; costMethod?: CostMethod }
+): Promise<Portfolio | null> {
+    const portfolio = await storage.portfolios.getPortfolioById(id);
+    if (!portfolio) return null;
+
+    await storage.portfolios.updatePortfolio(id, {
+        name: settings.name ?? portfolio.name,
+        baseCurrency: settings.baseCurrency ?? portfolio.baseCurrency,
+        costMethod: settings.costMethod ?? portfolio.costMethod
+    });
+    return storage.portfolios.getPortfolioById(id);
+}
+
+/**
+ * Delete a portfolio and its transactions
+ * @returns false if the portfolio doesn't exist
+ */
+export async function deletePortfolio(id: number): Promise<boolean> {
+    return storage.portfolios.deletePortfolio(id);
+}
+
+/**
+ * Get the transactions of a portfolio, newest first
+ * @returns null if the portfolio doesn't exist
+ */
+export async function getTransactions(id: number): Promise<PortfolioTransaction[] | null> {
+    if (!(await storage.portfolios.getPortfolioById(id))) return null;
+
+    return sortTransactions(await storage.portfolios.getPortfolioTransactions(id)).reverse();
+}
+
+/**
+ * Record a transaction
+ * The ledger is replayed with the new transaction first, so sells can't exceed
+ * the shares held on their trade date
+ *
+ * @returns Saved transaction, an error for an invalid ledger, or null if the portfolio doesn't exist
+ */
+export async function addTransaction(
+    id: number,
+    tx: Omit<PortfolioTransaction, 'id'>
+): Promise<{ transaction: PortfolioTransaction } | { error: string } | null> {
+    const portfolio = await storage.portfolios.getPortfolioById(id);
+    if (!portfolio) return null;
+
+    const transactions = await storage.portfolios.getPortfolioTransactions(id);
+    // Unsaved transaction sorts after existing ones on the same day
+    const maxId = transactions.reduce((max, t) => Math.max(max, t.id), 0);
+    try {
+        replayLedger([...transactions, { ...tx, id: maxId + 1 }], portfolio.costMethod);
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : 'Invalid transaction' };
+    }
+
+    const transactionId = await storage.portfolios.savePortfolioTransaction(id, tx);
+    return { transaction: { ...tx, id: transactionId } };
+}
+
+/**
+ * Delete a transaction
+ * Refused when removing it would leave a later sell without enough shares
+ *
+ * @returns true when deleted, an error for an invalid ledger, or null if the transaction doesn't exist
+ */
+export async function removeTransaction(
+    id: number,
+    transactionId: number
+): Promise<true | { error: string } | null> {
+    const portfolio = await storage.portfolios.getPortfolioById(id);
+    if (!portfolio) return null;
+
+    const transactions = await storage.portfolios.getPortfolioTransactions(id);
+    if (!transactions.some(t => t.id === transactionId)) return null;
+
+    try {
+        replayLedger(transactions.filter(t => t.id !== transactionId), portfolio.costMethod);
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : 'Invalid ledger' };
+    }
+
+    await storage.portfolios.deletePortfolioTransaction(id, transactionId);
+    return true;
+}
+
+/**
+ * Get positions and P&L for a portfolio
+ * Open positions are priced from the quote store; values are converted to the
+ * base currency at the latest stored exchange rate (cost basis included)
+ * Positions without a quote are left out of the cost basis, market value and unrealized P&L totals
+ *
+ * @returns Summary, or null if the portfolio doesn't exist
+ */
+export async function getPortfolioSummary(id: number): Promise<PortfolioSummary | null> {
+    const portfolio = await storage.portfolios.getPortfolioById(id);
+    if (!portfolio) return null;
+
+    const ledger = replayLedger(await storage.portfolios.getPortfolioTransactions(id), portfolio.costMethod);
+    const openSymbols = ledger.filter(p => p.quantity > 0).map(p => p.symbol);
+    const [prices, rates] = await Promise.all([loadPrices(openSymbols), loadExchangeRates()]);
+
+    const missingRates = new Set<string>();
+    const unpricedSymbols: string[] = [];
+    const totals = { costBasis: 0, marketValue: 0, unrealizedPnl: 0, realizedPnl: 0, dividends: 0, fees: 0, totalPnl: 0 };
+
+    const positions: PortfolioPosition[] = ledger.map(position => {
+        const isOpen = position.quantity > 0;
+        const price = isOpen ? prices.get(position.symbol) ?? null : null;
+        const marketValue = price !== null ? price * position.quantity : null;
+        const unrealizedPnl = marketValue !== null ? marketValue - position.costBasis : null;
+        const fxRate = getConversionRate(rates, position.currency, portfolio.baseCurrency);
+
+        const unpriced = isOpen && price === null;
+        if (unpriced) unpricedSymbols.push(position.symbol);
+
+        if (fxRate === null) {
+            missingRates.add(position.currency);
+        } else {
+            // Unpriced positions have no market value, so their cost would skew the totals
+            if (!unpriced) totals.costBasis += position.costBasis * fxRate;
+            totals.marketValue += (marketValue ?? 0) * fxRate;
+            totals.unrealizedPnl += (unrealizedPnl ?? 0) * fxRate;
+            totals.realizedPnl += position.realizedPnl * fxRate;
+            totals.dividends += position.dividends * fxRate;
+            totals.fees += position.fees * fxRate;
+        }
+
+        return {
+            symbol: position.symbol,
+            currency: position.currency,
+            quantity: position.quantity,
+            averageCost: isOpen ? position.costBasis / position.quantity : 0,
+            costBasis: position.costBasis,
+            price,
+            marketValue,
+            unrealizedPnl,
+            realizedPnl: position.realizedPnl,
+            dividends: position.dividends,
+            fees: position.fees,
+            lots: position.lots,
+            fxRate,
+            marketValueBase: marketValue !== null && fxRate !== null ? marketValue * fxRate : null,
+            unrealizedPnlBase: unrealizedPnl !== null && fxRate !== null ? unrealizedPnl * fxRate : null,
+            realizedPnlBase: fxRate !== null ? position.realizedPnl * fxRate : null
+        };
+    });
+
+    totals.totalPnl = totals.realizedPnl + totals.unrealizedPnl + totals.dividends - totals.fees;
+
+    // Open positions first, then closed ones
+    positions.sort((a, b) => Number(b.quantity > 0) - Number(a.quantity > 0));
+
+    return {
+        portfolio,
+        positions,
+        totals,
+        missingRates: [...missingRates],
+        unpricedSymbols
+    };
+}
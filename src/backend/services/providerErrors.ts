@@ -0,0 +1,45 @@
+/**
+ * Errors that send a market data request to the next provider
+ * Other errors (unknown symbol, bad request) are returned to the caller as they are
+ */
+
+export type ProviderFailure = 'quota' | 'unavailable' | 'unsupported';
+
+export interface ProviderError extends Error {
+    // quota: rate limit or budget exhausted; unavailable: 5xx or network error;
+    // unsupported: the provider doesn't cover the request (e.g., a currency missing from the ECB rates)
+    failure: ProviderFailure;
+}
+
+/**
+ * Create an error that lets the next provider be tried
+ */
+export function providerError(failure: ProviderFailure, message: string): ProviderError {
+    return Object.assign(new Error(message), { failure });
+}
+
+/**
+ * Check whether an error should fail over to the next provider
+ */
+export function isProviderError(error: unknown): error is ProviderError {
+    return error instanceof Error && typeof (error as ProviderError).failure === 'string';
+}
+
+/**
+ * Failure of an HTTP status: 429 is a quota error, 5xx an outage, anything else none
+ */
+export function failureOfStatus(status: number): ProviderFailure | null {
+    if (status === 429) return 'quota';
+    return status >= 500 ? 'unavailable' : null;
+}
+
+/**
+ * Fetch a URL, reporting network errors as an outage
+ */
+export async function fetchUpstream(url: string): Promise<Response> {
+    try {
+        return await fetch(url);
+    } catch (error) {
+        throw providerError('unavailable', error instanceof Error ? error.message : 'Network error');
+    }
+}
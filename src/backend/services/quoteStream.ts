@@ -0,0 +1,91 @@
+/**
+ * Server-Sent Events fan-out for newly written market data
+ * One set of market event listeners is shared by all connected clients;
+ * each client only receives updates for the symbols it subscribed to
+ */
+import type { Response } from 'express';
+import { onMarketEvent } from './marketEvents';
+import { formatCommodityPrice } from './dataService';
+import type { StreamEventType } from '../../frontend/services/interface';
+
+interface StreamClient {
+    res: Response;
+    symbols: Set<string> | null;    // null = all symbols
+}
+
+// Comment line sent periodically so proxies don't close idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long browsers wait before reconnecting after a dropped connection
+const CLIENT_RETRY_MS = 5000;
+
+const clients = new Set<StreamClient>();
+let streamStarted = false;
+
+/**
+ * Write one SSE message
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Send an update to every client subscribed to the symbol
+ */
+function broadcast(event: StreamEventType, symbol: string, data: unknown): void {
+    for (const client of clients) {
+        if (client.symbols && !client.symbols.has(symbol)) continue;
+        writeEvent(client.res, event, data);
+    }
+}
+
+/**
+ * Start pushing newly saved currency rates, commodity prices and stock quotes to stream clients
+ */
+export function startQuoteStream(): void {
+    if (streamStarted) return;
+    streamStarted = true;
+
+    onMarketEvent('currency-rate', rate => {
+        broadcast('currency-rate', `${rate.fromCurrency}/${rate.toCurrency}`, rate);
+    });
+
+    onMarketEvent('commodity-price', price => {
+        broadcast('commodity-price', price.symbol, formatCommodityPrice(price));
+    });
+
+    onMarketEvent('stock-quote', quote => {
+        broadcast('stock-quote', quote.symbol, quote);
+    });
+
+    setInterval(() => {
+        for (const client of clients) {
+            client.res.write(': heartbeat\n\n');
+        }
+    }, HEARTBEAT_INTERVAL_MS).unref();
+
+    console.log('[stream] Pushing market data updates to SSE clients');
+}
+
+/**
+ * Register an SSE client and send the stream headers
+ * @param symbols Symbols to receive updates for (e.g., 'USD/CNY', 'GLD', 'AAPL'); null for all
+ * @returns Function that unregisters the client
+ */
+export function addStreamClient(res: Response, symbols: string[] | null): () => void {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    const client: StreamClient = { res, symbols: symbols ? new Set(symbols) : null };
+    clients.add(client);
+    writeEvent(res, 'ready', { symbols: symbols ?? 'all' });
+
+    return () => {
+        clients.delete(client);
+    };
+}
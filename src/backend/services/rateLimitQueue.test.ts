@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { createRateLimitQueue, type RateLimitQueueOptions } from './rateLimitQueue';
+
+const OPTIONS: RateLimitQueueOptions = {
+    name: 'Test API',
+    perMinute: 1,
+    perDay: 10,
+    maxRetries: 2,
+    retryDelayMs: 1000
+};
+
+/**
+ * Let resolved tasks settle between timer ticks
+ */
+const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+describe('createRateLimitQueue', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['setTimeout', 'Date'], now: new Date('2024-06-03T12:00:00Z') });
+        mock.method(console, 'warn', () => {});
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    it('runs a task at once while the bucket has tokens', async () => {
+        const queue = createRateLimitQueue(OPTIONS);
+
+        assert.equal(await queue.enqueue(async () => 'done'), 'done');
+        assert.equal(queue.getStats().callsToday, 1);
+    });
+
+    it('dispatches waiting interactive requests before background ones', async () => {
+        const queue = createRateLimitQueue(OPTIONS);
+        const order: string[] = [];
+        const task = (name: string) => async () => {
+            order.push(name);
+            return name;
+        };
+
+        const first = queue.enqueue(task('first'), { priority: 'background' });
+        const background = queue.enqueue(task('background'), { priority: 'background' });
+        const interactive = queue.enqueue(task('interactive'), { priority: 'interactive' });
+        await first;
+        assert.deepEqual(queue.getStats().pending, { interactive: 1, background: 1 });
+
+        mock.timers.tick(60000);
+        await interactive;
+        mock.timers.tick(60000);
+        await background;
+
+        assert.deepEqual(order, ['first', 'interactive', 'background']);
+    });
+
+    it('retries a rate-limited answer after the retry delay', async () => {
+        const queue = createRateLimitQueue({ ...OPTIONS, perMinute: 60 });
+        const answers = [{ limited: true }, { limited: false }];
+        let calls = 0;
+
+        const result = queue.enqueue(async () => answers[calls++], { shouldRetry: answer => answer.limited });
+        await settle();
+        assert.equal(calls, 1);
+
+        mock.timers.tick(1000);
+        assert.deepEqual(await result, { limited: false });
+        assert.equal(calls, 2);
+    });
+
+    it('returns the last answer once the retries are used up', async () => {
+        const queue = createRateLimitQueue({ ...OPTIONS, perMinute: 60 });
+        let calls = 0;
+
+        const result = queue.enqueue(async () => ({ limited: true, call: ++calls }), { shouldRetry: answer => answer.limited });
+        // Retry delays double: 1 s, then 2 s
+        for (const delay of [1000, 2000]) {
+            await settle();
+            mock.timers.tick(delay);
+        }
+
+        assert.deepEqual(await result, { limited: true, call: 3 });
+    });
+
+    it('rejects requests once the daily budget is spent', async () => {
+        const queue = createRateLimitQueue({ ...OPTIONS, perMinute: 60, perDay: 1 });
+
+        await queue.enqueue(async () => 'first');
+        await assert.rejects(queue.enqueue(async () => 'second'), /daily request budget exhausted/);
+    });
+
+    it('passes task errors to the caller', async () => {
+        const queue = createRateLimitQueue(OPTIONS);
+
+        await assert.rejects(queue.enqueue(async () => {
+            throw new Error('upstream down');
+        }), /upstream down/);
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Token-bucket request queue for rate-limited upstream APIs
+ * Interactive requests are always dispatched before background requests
+ */
+import { providerError } from './providerErrors';
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface RateLimitQueueOptions {
+    name: string;
+    perMinute: number;      // Bucket size and refill rate
+    perDay: number;         // Hard daily budget (resets at UTC midnight)
+    maxRetries: number;     // Retries when the upstream reports a rate limit
+    retryDelayMs: number;   // Base delay for retries (doubles on each attempt)
+}
+
+export interface EnqueueOptions<T> {
+    priority?: RequestPriority;
+    shouldRetry?: (result: T) => boolean; // Return true when the upstream rate-limited the call
+}
+
+export interface RateLimitQueueStats {
+    name: string;
+    pending: { interactive: number; background: number };
+    tokens: number;
+    perMinute: number;
+    callsToday: number;
+    perDay: number;
+}
+
+export interface RateLimitQueue {
+    enqueue<T>(task: () => Promise<T>, options?: EnqueueOptions<T>): Promise<T>;
+    getStats(): RateLimitQueueStats;
+}
+
+interface QueueEntry {
+    task: () => Promise<unknown>;
+    priority: RequestPriority;
+    shouldRetry?: (result: unknown) => boolean;
+    attempts: number;
+    notBefore: number;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Get today's date (UTC) in YYYY-MM-DD format
+ */
+function getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Create a rate-limited request queue
+ * @param options Per-minute and per-day budgets plus retry policy
+ * @returns Queue that runs tasks as budget becomes available
+ */
+export function createRateLimitQueue(options: RateLimitQueueOptions): RateLimitQueue {
+    const pending: QueueEntry[] = [];
+    let tokens = options.perMinute;
+    let lastRefill = Date.now();
+    let day = getTodayDate();
+    let callsToday = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(
+            options.perMinute,
+            tokens + ((now - lastRefill) / 60000) * options.perMinute
+        );
+        lastRefill = now;
+
+        const today = getTodayDate();
+        if (today !== day) {
+            day = today;
+            callsToday = 0;
+        }
+    };
+
+    // Next runnable entry: interactive first, then FIFO
+    const nextEntryIndex = (now: number): number => {
+        let index = -1;
+        for (let i = 0; i < pending.length; i++) {
+            if (pending[i].notBefore > now) continue;
+            if (index === -1 || (pending[i].priority === 'interactive' && pending[index].priority !== 'interactive')) {
+                index = i;
+            }
+        }
+        return index;
+    };
+
+    const scheduleDrain = (delayMs: number) => {
+        if (timer) return;
+        timer = setTimeout(() => {
+            timer = null;
+            drain();
+        }, Math.max(0, delayMs));
+    };
+
+    const run = async (entry: QueueEntry) => {
+        try {
+            const result = await entry.task();
+
+            if (entry.shouldRetry?.(result) && entry.attempts < options.maxRetries) {
+                entry.attempts++;
+                entry.notBefore = Date.now() + options.retryDelayMs * 2 ** (entry.attempts - 1);
+                // The upstream thinks we're over the limit, so empty the bucket
+                tokens = 0;
+                lastRefill = Date.now();
+                console.warn(`[${options.name}] Rate limited by upstream, retry ${entry.attempts}/${options.maxRetries}`);
+                pending.push(entry);
+                drain();
+                return;
+            }
+
+            entry.resolve(result);
+        } catch (error) {
+            entry.reject(error);
+        }
+    };
+
+    const drain = () => {
+        while (pending.length > 0) {
+            refill();
+            const now = Date.now();
+            const index = nextEntryIndex(now);
+
+            if (index === -1) {
+                // Everything is waiting for a retry delay
+                const earliest = Math.min(...pending.map(e => e.notBefore));
+                scheduleDrain(earliest - now);
+                return;
+            }
+
+            if (callsToday >= options.perDay) {
+                const [entry] = pending.splice(index, 1);
+                entry.reject(providerError('quota', `${options.name} daily request budget exhausted (${options.perDay} calls)`));
+                continue;
+            }
+
+            if (tokens < 1) {
+                scheduleDrain(((1 - tokens) / options.perMinute) * 60000);
+                return;
+            }
+
+            const [entry] = pending.splice(index, 1);
+            tokens -= 1;
+            callsToday++;
+            run(entry);
+        }
+    };
+
+    return {
+        enqueue<T>(task: () => Promise<T>, enqueueOptions: EnqueueOptions<T> = {}): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                pending.push({
+                    task,
+                    priority: enqueueOptions.priority || 'interactive',
+                    shouldRetry: enqueueOptions.shouldRetry as ((result: unknown) => boolean) | undefined,
+                    attempts: 0,
+                    notBefore: 0,
+                    resolve: resolve as (value: unknown) => void,
+                    reject
+                });
+                drain();
+            });
+        },
+
+        getStats(): RateLimitQueueStats {
+            refill();
+            return {
+                name: options.name,
+                pending: {
+                    interactive: pending.filter(e => e.priority === 'interactive').length,
+                    background: pending.filter(e => e.priority === 'background').length
+                },
+                tokens: Math.floor(tokens),
+                perMinute: options.perMinute,
+                callsToday,
+                perDay: options.perDay
+            };
+        }
+    };
+}
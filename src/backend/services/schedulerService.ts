@@ -0,0 +1,201 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import schedulerConfig from '../config/scheduler';
+import { checkAndGetCurrencyRates, checkAndGetCommodityPrices } from './dataService';
+import { checkAndGetNews } from './newsService';
+
+/**
+ * Background job definition
+ */
+interface JobDefinition {
+    name: string;
+    description: string;
+    schedule: string;
+    handler: () => Promise<void>;
+}
+
+/**
+ * Runtime status of a background job (exposed over the admin API)
+ */
+export interface JobStatus {
+    name: string;
+    description: string;
+    schedule: string;
+    running: boolean;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    lastFinishedAt: string | null;
+    lastDurationMs: number | null;
+    lastSuccessAt: string | null;
+    lastError: string | null;
+    lastErrorAt: string | null;
+    runCount: number;
+    failureCount: number;
+    consecutiveFailures: number;
+}
+
+interface RegisteredJob {
+    definition: JobDefinition;
+    status: JobStatus;
+    task?: ScheduledTask;
+}
+
+const jobs = new Map<string, RegisteredJob>();
+
+/**
+ * Register a job so it can be scheduled and triggered manually
+ */
+function registerJob(definition: JobDefinition): void {
+    if (!cron.validate(definition.schedule)) {
+        throw new Error(`Invalid cron expression for job "${definition.name}": ${definition.schedule}`);
+    }
+
+    jobs.set(definition.name, {
+        definition,
+        status: {
+            name: definition.name,
+            description: definition.description,
+            schedule: definition.schedule,
+            running: false,
+            nextRunAt: null,
+            lastRunAt: null,
+            lastFinishedAt: null,
+            lastDurationMs: null,
+            lastSuccessAt: null,
+            lastError: null,
+            lastErrorAt: null,
+            runCount: 0,
+            failureCount: 0,
+            consecutiveFailures: 0
+        }
+    });
+}
+
+/**
+ * Run a job and record its outcome
+ * Overlapping runs are skipped, so a slow fetch never stacks up behind itself
+ */
+async function executeJob(job: RegisteredJob, reason: 'scheduled' | 'startup' | 'manual'): Promise<void> {
+    const { definition, status } = job;
+
+    if (status.running) {
+        console.log(`[scheduler] Skipping ${definition.name} (${reason}): previous run still in progress`);
+        return;
+    }
+
+    const startedAt = new Date();
+    status.running = true;
+    status.lastRunAt = startedAt.toISOString();
+    status.runCount++;
+    console.log(`[scheduler] Running ${definition.name} (${reason})`);
+
+    try {
+        await definition.handler();
+        status.lastSuccessAt = new Date().toISOString();
+        status.consecutiveFailures = 0;
+    } catch (error) {
+        status.lastError = error instanceof Error ? error.message : String(error);
+        status.lastErrorAt = new Date().toISOString();
+        status.failureCount++;
+        status.consecutiveFailures++;
+        console.error(`[scheduler] Job ${definition.name} failed:`, error);
+    } finally {
+        const finishedAt = new Date();
+        status.running = false;
+        status.lastFinishedAt = finishedAt.toISOString();
+        status.lastDurationMs = finishedAt.getTime() - startedAt.getTime();
+    }
+}
+
+registerJob({
+    name: 'currency-rates',
+    description: 'Warm today\'s currency rates from Alpha Vantage',
+    schedule: schedulerConfig.jobs.currencyRates,
+    handler: async () => {
+        const data = await checkAndGetCurrencyRates();
+        if (data.length === 0) {
+            throw new Error('No currency rates were stored');
+        }
+    }
+});
+
+registerJob({
+    name: 'commodity-prices',
+    description: 'Warm today\'s commodity prices from Alpha Vantage',
+    schedule: schedulerConfig.jobs.commodityPrices,
+    handler: async () => {
+        const data = await checkAndGetCommodityPrices();
+        if (data.length === 0) {
+            throw new Error('No commodity prices were stored');
+        }
+    }
+});
+
+registerJob({
+    name: 'news',
+    description: 'Warm today\'s news from Marketaux',
+    schedule: schedulerConfig.jobs.news,
+    handler: async () => {
+        await checkAndGetNews();
+    }
+});
+
+/**
+ * Start all registered jobs on their cron schedules
+ * Startup runs are sequential so they share the Alpha Vantage rate limit politely
+ */
+export function startScheduler(): void {
+    if (!schedulerConfig.enabled) {
+        console.log('[scheduler] Disabled (SCHEDULER_ENABLED=false)');
+        return;
+    }
+
+    for (const job of jobs.values()) {
+        job.task = cron.schedule(
+            job.definition.schedule,
+            () => executeJob(job, 'scheduled'),
+            { name: job.definition.name, timezone: schedulerConfig.timezone }
+        );
+        console.log(`[scheduler] Scheduled ${job.definition.name} (${job.definition.schedule})`);
+    }
+
+    if (schedulerConfig.runOnStart) {
+        (async () => {
+            for (const job of jobs.values()) {
+                await executeJob(job, 'startup');
+            }
+        })();
+    }
+}
+
+/**
+ * Stop all scheduled jobs
+ */
+export function stopScheduler(): void {
+    for (const job of jobs.values()) {
+        job.task?.stop();
+        job.task = undefined;
+    }
+}
+
+/**
+ * Get the status of every registered job
+ */
+export function getJobStatuses(): JobStatus[] {
+    return Array.from(jobs.values()).map(job => ({
+        ...job.status,
+        nextRunAt: job.task?.getNextRun()?.toISOString() ?? null
+    }));
+}
+
+/**
+ * Trigger a job immediately, outside of its schedule
+ * @param name Job name, e.g., 'currency-rates'
+ * @returns Promise with the job status after the run, or null if the job doesn't exist
+ */
+export async function runJobNow(name: string): Promise<JobStatus | null> {
+    const job = jobs.get(name);
+    if (!job) return null;
+
+    await executeJob(job, 'manual');
+    return getJobStatuses().find(status => status.name === name) ?? null;
+}
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import type { StockQuoteData } from '../models/StockQuote';
+import storage from '../repositories';
+import { searchSymbolsFromAPI } from './alphaVantageService';
+import { fetchStockQuote } from './marketDataService';
+import type { StockSearchResult } from '../../frontend/services/interface';
+
+dotenv.config();
+
+// How long a stored quote is served before it is refreshed from the API
+const QUOTE_CACHE_MINUTES = parseInt(process.env.STOCK_QUOTE_CACHE_MINUTES || '60', 10);
+
+// Symbol search results rarely change, keep them in memory for the day
+const searchCache = new Map<string, { date: string; results: StockSearchResult[] }>();
+
+/**
+ * Get today's date in YYYY-MM-DD format
+ */
+function getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Check if a fresh quote exists in the database, if not, fetch from API
+ * This is the main function called by the API route
+ *
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @returns Promise with stock quote data
+ */
+export async function checkAndGetStockQuote(symbol: string): Promise<StockQuoteData> {
+    const today = getTodayDate();
+
+    // Step 1: Check if a recent quote exists in database
+    const cached = await storage.stockQuotes.getStockQuoteByDate(symbol, today);
+    const maxAgeMs = QUOTE_CACHE_MINUTES * 60 * 1000;
+
+    if (cached && cached.updatedAt && Date.now() - new Date(cached.updatedAt).getTime() < maxAgeMs) {
+        console.log(`Using cached quote for ${symbol}`);
+        return cached;
+    }
+
+    // Step 2: Fetch from API and save
+    console.log(`No fresh quote for ${symbol}, fetching from API...`);
+    try {
+        const quote = await fetchStockQuote(symbol);
+        const data: StockQuoteData = { ...quote, date: today };
+        await storage.stockQuotes.saveStockQuote(data);
+        return { ...data, updatedAt: new Date() };
+    } catch (error) {
+        // Serve the stale quote rather than nothing (e.g., when the daily budget is exhausted)
+        if (cached) {
+            console.error(`Failed to refresh quote for ${symbol}, using stored quote:`, error);
+            return cached;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Search stock symbols by keyword
+ *
+ * @param keywords Symbol or company name, e.g., 'AAPL', 'Apple'
+ * @returns Promise with matching symbols
+ */
+export async function searchStocks(keywords: string): Promise<StockSearchResult[]> {
+    const today = getTodayDate();
+    const key = keywords.trim().toLowerCase();
+
+    const cached = searchCache.get(key);
+    if (cached && cached.date === today) {
+        return cached.results;
+    }
+
+    const results = await searchSymbolsFromAPI(keywords.trim());
+
+    // Drop results cached on previous days
+    for (const [cachedKey, entry] of searchCache) {
+        if (entry.date !== today) searchCache.delete(cachedKey);
+    }
+    searchCache.set(key, { date: today, results });
+    return results;
+}
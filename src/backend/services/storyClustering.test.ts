@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { clusterStories, jaccard, titleWords, type ClusterOptions } from './storyClustering';
+import type { NewsArticleWithRelations } from '../models/News';
+
+const OPTIONS: ClusterOptions = {
+    titleSimilarity: 0.6,
+    reputation: source => (source === 'reuters.com' ? 1 : 0.5)
+};
+
+/**
+ * Stored article with the fields clustering reads
+ */
+function article(uuid: string, title: string, fields: Partial<NewsArticleWithRelations> = {}): NewsArticleWithRelations {
+    return {
+        uuid,
+        title,
+        url: `https://example.com/${uuid}`,
+        language: 'en',
+        published_at: '2024-06-03T10:00:00.000Z',
+        source: 'example.com',
+        ...fields
+    };
+}
+
+const similar = (uuid: string) => ({ uuid, title: `Similar ${uuid}`, published_at: '2024-06-03T08:00:00.000Z', source: 'other.com' });
+
+describe('titleWords', () => {
+    it('drops punctuation, short words and stop words', () => {
+        assert.deepEqual([...titleWords("Apple's stock jumps after the iPhone launch, up 5%")], ['apple', 'jumps', 'iphone', 'launch']);
+    });
+});
+
+describe('jaccard', () => {
+    it('divides shared words by all words', () => {
+        assert.equal(jaccard(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd'])), 0.5);
+        assert.equal(jaccard(new Set(), new Set(['a'])), 0);
+    });
+});
+
+describe('clusterStories', () => {
+    it('groups articles that list each other as similar', () => {
+        const stories = clusterStories([
+            article('a', 'Fed holds rates steady', { similar: [similar('b')] }),
+            article('b', 'Oil prices climb on supply worries')
+        ], OPTIONS);
+
+        assert.equal(stories.length, 1);
+        assert.deepEqual(stories[0].articles.map(a => a.uuid).sort(), ['a', 'b']);
+    });
+
+    it('groups articles that list the same similar article, and adds it to the story', () => {
+        const [story, ...rest] = clusterStories([
+            article('a', 'Fed holds rates steady', { similar: [similar('x')] }),
+            article('b', 'Oil prices climb on supply worries', { similar: [similar('x')] })
+        ], OPTIONS);
+
+        assert.equal(rest.length, 0);
+        assert.deepEqual(story.articles.map(a => a.uuid), ['x', 'a', 'b']);
+        assert.deepEqual(story.sources, ['other.com', 'example.com']);
+    });
+
+    it('groups titles at or above the similarity threshold only', () => {
+        const stories = clusterStories([
+            article('a', 'Nvidia shares surge record quarterly revenue'),
+            article('b', 'Nvidia shares surge record quarterly earnings'),
+            article('c', 'Nvidia unveils chips')
+        ], OPTIONS);
+
+        // a and b share 5 of 7 words (0.71); c shares 1 of 8 with either
+        assert.deepEqual(stories.map(s => s.articles.map(a => a.uuid).sort()).sort(), [['a', 'b'], ['c']]);
+        assert.equal(clusterStories([
+            article('a', 'Nvidia shares surge record quarterly revenue'),
+            article('b', 'Nvidia shares surge record quarterly earnings')
+        ], { ...OPTIONS, titleSimilarity: 0.8 }).length, 2);
+    });
+
+    it('does not group titles with fewer than three words by title', () => {
+        assert.equal(clusterStories([article('a', 'Markets rally'), article('b', 'Markets rally')], OPTIONS).length, 2);
+    });
+
+    it('picks the most reputable source as canonical, then the earliest', () => {
+        const [story] = clusterStories([
+            article('a', 'Fed holds rates steady again', { published_at: '2024-06-03T09:00:00.000Z' }),
+            article('b', 'Fed holds rates steady again', { published_at: '2024-06-03T11:00:00.000Z', source: 'reuters.com' }),
+            article('c', 'Fed holds rates steady again', { published_at: '2024-06-03T08:00:00.000Z' })
+        ], OPTIONS);
+
+        assert.equal(story.id, 'b');
+        assert.equal(story.firstPublishedAt, '2024-06-03T08:00:00.000Z');
+        assert.equal(story.lastPublishedAt, '2024-06-03T11:00:00.000Z');
+
+        const [tie] = clusterStories([
+            article('a', 'Fed holds rates steady again', { published_at: '2024-06-03T09:00:00.000Z' }),
+            article('c', 'Fed holds rates steady again', { published_at: '2024-06-03T08:00:00.000Z' })
+        ], OPTIONS);
+        assert.equal(tie.id, 'c');
+    });
+
+    it('lists the most recently updated story first', () => {
+        const stories = clusterStories([
+            article('a', 'Fed holds rates steady', { published_at: '2024-06-03T09:00:00.000Z' }),
+            article('b', 'Oil prices climb on supply worries', { published_at: '2024-06-03T12:00:00.000Z' })
+        ], OPTIONS);
+
+        assert.deepEqual(stories.map(s => s.id), ['b', 'a']);
+    });
+});
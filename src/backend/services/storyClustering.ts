@@ -0,0 +1,155 @@
+/**
+ * News story clustering (pure, no database access)
+ * Articles are grouped when Marketaux lists one as similar to the other, when they list the
+ * same similar article, or when their titles share most of their words (syndicated copies)
+ */
+import type { NewsStory, StoryArticle } from '../../frontend/services/interface';
+import type { NewsArticleWithRelations } from '../models/News';
+
+export interface ClusterOptions {
+    titleSimilarity: number;        // Minimum Jaccard similarity of title words (0 to 1)
+    reputation: (source: string) => number;
+}
+
+// Title words that don't tell stories apart
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'from', 'that', 'this', 'are', 'was', 'its', 'has', 'have',
+    'after', 'over', 'into', 'amid', 'says', 'said', 'will', 'new', 'how', 'why', 'what', 'stock', 'stocks'
+]);
+
+// Titles with fewer words than this are only clustered through similar links
+const MIN_TITLE_WORDS = 3;
+
+/**
+ * Lower-cased title words without punctuation and stop words
+ */
+export function titleWords(title: string): Set<string> {
+    return new Set(
+        title
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    );
+}
+
+/**
+ * Jaccard similarity of two word sets (0 = no shared words, 1 = same words)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const word of a) {
+        if (b.has(word)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group articles into stories
+ * The canonical article is the one from the most reputable source (earliest first on ties);
+ * sources include similar articles that aren't stored
+ * @returns Stories, most recently updated first
+ */
+export function clusterStories(
+    articles: NewsArticleWithRelations[],
+    options: ClusterOptions
+): NewsStory<NewsArticleWithRelations>[] {
+    // Union-find over article indexes
+    const parent = articles.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]];
+            index = parent[index];
+        }
+        return index;
+    };
+    const union = (a: number, b: number) => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA !== rootB) parent[rootB] = rootA;
+    };
+
+    // Similar links: to a stored article, or to the same similar article
+    const indexByUuid = new Map<string, number>();
+    articles.forEach((article, index) => indexByUuid.set(article.uuid, index));
+    articles.forEach((article, index) => {
+        for (const similar of article.similar || []) {
+            const linked = indexByUuid.get(similar.uuid);
+            if (linked !== undefined) {
+                union(index, linked);
+            } else {
+                indexByUuid.set(similar.uuid, index);
+            }
+        }
+    });
+
+    // Title similarity
+    const words = articles.map(article => titleWords(article.title));
+    for (let i = 0; i < articles.length; i++) {
+        if (words[i].size < MIN_TITLE_WORDS) continue;
+        for (let j = i + 1; j < articles.length; j++) {
+            if (words[j].size < MIN_TITLE_WORDS || find(i) === find(j)) continue;
+            if (jaccard(words[i], words[j]) >= options.titleSimilarity) union(i, j);
+        }
+    }
+
+    const clusters = new Map<number, NewsArticleWithRelations[]>();
+    articles.forEach((article, index) => {
+        const root = find(index);
+        const cluster = clusters.get(root);
+        if (cluster) cluster.push(article);
+        else clusters.set(root, [article]);
+    });
+
+    return [...clusters.values()]
+        .map(members => buildStory(members, options))
+        .sort((a, b) => b.lastPublishedAt.localeCompare(a.lastPublishedAt));
+}
+
+/**
+ * Build a story from the articles of one cluster
+ */
+function buildStory(
+    members: NewsArticleWithRelations[],
+    options: ClusterOptions
+): NewsStory<NewsArticleWithRelations> {
+    const time = (article: { published_at: string }) => new Date(article.published_at).getTime() || 0;
+    const [canonical] = [...members].sort((a, b) =>
+        options.reputation(b.source) - options.reputation(a.source) || time(a) - time(b)
+    );
+
+    const storedUuids = new Set(members.map(member => member.uuid));
+    const articles: StoryArticle[] = members.map(member => ({
+        uuid: member.uuid,
+        title: member.title,
+        source: member.source,
+        published_at: member.published_at,
+        url: member.url
+    }));
+    for (const member of members) {
+        for (const similar of member.similar || []) {
+            if (storedUuids.has(similar.uuid)) continue;
+            storedUuids.add(similar.uuid);
+            articles.push({
+                uuid: similar.uuid,
+                title: similar.title,
+                source: similar.source,
+                published_at: similar.published_at
+            });
+        }
+    }
+    articles.sort((a, b) => time(a) - time(b));
+
+    const sources = [...new Set(articles.map(article => article.source).filter(Boolean))];
+    const publishedTimes = members.map(time);
+
+    return {
+        id: canonical.uuid,
+        canonical,
+        articles,
+        sources,
+        firstPublishedAt: new Date(Math.min(...publishedTimes)).toISOString(),
+        lastPublishedAt: new Date(Math.max(...publishedTimes)).toISOString()
+    };
+}
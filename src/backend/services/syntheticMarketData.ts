@@ -0,0 +1,422 @@
+/**
+ * Synthetic Alpha Vantage and Marketaux responses for replay mode (pure, no I/O, no clock)
+ * Prices follow a seeded random walk per symbol starting from a fixed date, so a past day
+ * always gets the same candle and quotes, candles and news agree with each other
+ * The current date is passed in, so the same query and date always get the same response
+ */
+import type {
+    AlphaVantageCandle,
+    AlphaVantageCurrencyResponse,
+    AlphaVantageQuoteResponse,
+    AlphaVantageSearchResponse,
+    AlphaVantageTimeSeriesResponse,
+    MarketauxNewsArticle,
+    MarketauxNewsResponse
+} from '../../frontend/services/interface';
+import type { ApiQuery } from './apiProvider';
+
+// First day of every synthetic series (a Monday)
+const ORIGIN_DATE = '2010-01-04';
+
+// Trading session in exchange time: 09:30 to 16:00
+const SESSION_START_MINUTES = 9 * 60 + 30;
+const SESSION_MINUTES = 390;
+
+interface SyntheticCompany {
+    symbol: string;
+    name: string;
+    industry: string;
+    exchange: string;
+    exchangeLong: string;
+}
+
+// Companies known to search and news; other symbols get generic details
+const COMPANIES: SyntheticCompany[] = [
+    { symbol: 'AAPL', name: 'Apple Inc.', industry: 'Technology', exchange: 'NASDAQ', exchangeLong: 'NASDAQ Stock Exchange' },
+    { symbol: 'MSFT', name: 'Microsoft Corporation', industry: 'Technology', exchange: 'NASDAQ', exchangeLong: 'NASDAQ Stock Exchange' },
+    { symbol: 'NVDA', name: 'NVIDIA Corporation', industry: 'Technology', exchange: 'NASDAQ', exchangeLong: 'NASDAQ Stock Exchange' },
+    { symbol: 'AMZN', name: 'Amazon.com, Inc.', industry: 'Consumer Cyclical', exchange: 'NASDAQ', exchangeLong: 'NASDAQ Stock Exchange' },
+    { symbol: 'TSLA', name: 'Tesla, Inc.', industry: 'Consumer Cyclical', exchange: 'NASDAQ', exchangeLong: 'NASDAQ Stock Exchange' },
+    { symbol: 'JPM', name: 'JPMorgan Chase & Co.', industry: 'Financial Services', exchange: 'NYSE', exchangeLong: 'New York Stock Exchange' },
+    { symbol: 'XOM', name: 'Exxon Mobil Corporation', industry: 'Energy', exchange: 'NYSE', exchangeLong: 'New York Stock Exchange' },
+    { symbol: 'JNJ', name: 'Johnson & Johnson', industry: 'Healthcare', exchange: 'NYSE', exchangeLong: 'New York Stock Exchange' }
+];
+
+// Approximate value in USD, the center each exchange rate walks around
+const USD_VALUES: Record<string, { name: string; usd: number }> = {
+    USD: { name: 'United States Dollar', usd: 1 },
+    EUR: { name: 'Euro', usd: 1.08 },
+    GBP: { name: 'British Pound Sterling', usd: 1.27 },
+    JPY: { name: 'Japanese Yen', usd: 0.0067 },
+    CNY: { name: 'Chinese Yuan', usd: 0.138 },
+    CHF: { name: 'Swiss Franc', usd: 1.12 },
+    CAD: { name: 'Canadian Dollar', usd: 0.73 },
+    AUD: { name: 'Australian Dollar', usd: 0.66 }
+};
+
+interface DailyCandle {
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * Seeded pseudo-random generator (FNV-1a hash of the seed, then mulberry32), values in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), state | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Standard normal value (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+    return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Random walk in log space: each step moves by volatility * N(0, 1) and is pulled back
+ * toward the start by reversion (0 for a plain random walk)
+ * @returns Function giving the next value
+ */
+export function createRandomWalk(
+    random: () => number,
+    { start, volatility, reversion = 0 }: { start: number; volatility: number; reversion?: number }
+): () => number {
+    const anchor = Math.log(start);
+    let level = anchor;
+
+    return () => {
+        level += reversion * (anchor - level) + volatility * gaussian(random);
+        return Math.exp(level);
+    };
+}
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+const formatPrice = (value: number) => value.toFixed(4);
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Weekdays from ORIGIN_DATE up to today, oldest first
+ * @param today YYYY-MM-DD
+ */
+function tradingDays(today: string): string[] {
+    const days: string[] = [];
+
+    for (const day = new Date(`${ORIGIN_DATE}T00:00:00Z`); toDate(day) <= today; day.setUTCDate(day.getUTCDate() + 1)) {
+        if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+            days.push(toDate(day));
+        }
+    }
+
+    return days;
+}
+
+/**
+ * Daily candles of a symbol, oldest first
+ * One step per day on each random stream, so adding days never changes earlier candles
+ */
+function dailyCandles(symbol: string, today: string): DailyCandle[] {
+    const random = createSeededRandom(`daily:${symbol}`);
+    const start = 20 + random() * 480;
+    const baseVolume = 1e6 + random() * 49e6;
+    const nextClose = createRandomWalk(random, { start, volatility: 0.015, reversion: 0.002 });
+    let previousClose = start;
+
+    return tradingDays(today).map(date => {
+        const open = previousClose * (1 + 0.003 * gaussian(random));
+        const close = nextClose();
+        previousClose = close;
+
+        return {
+            date,
+            open,
+            high: Math.max(open, close) * (1 + Math.abs(gaussian(random)) * 0.005),
+            low: Math.min(open, close) * (1 - Math.abs(gaussian(random)) * 0.005),
+            close,
+            volume: Math.round(baseVolume * (0.5 + random()))
+        };
+    });
+}
+
+const toAlphaVantageCandle = (candle: Omit<DailyCandle, 'date'>): AlphaVantageCandle => ({
+    '1. open': formatPrice(candle.open),
+    '2. high': formatPrice(candle.high),
+    '3. low': formatPrice(candle.low),
+    '4. close': formatPrice(candle.close),
+    '5. volume': String(candle.volume)
+});
+
+/**
+ * Intraday candles of one day: a random walk from the day's open bridged to its close
+ */
+function intradayCandles(symbol: string, day: DailyCandle, intervalMinutes: number) {
+    const random = createSeededRandom(`intraday:${symbol}:${day.date}:${intervalMinutes}`);
+    const count = Math.floor(SESSION_MINUTES / intervalMinutes);
+    const nextValue = createRandomWalk(random, { start: day.open, volatility: 0.015 / Math.sqrt(count) });
+    const walk = Array.from({ length: count }, nextValue);
+    const drift = day.close / walk[count - 1];
+    let previous = day.open;
+
+    return walk.map((value, i) => {
+        const close = value * Math.pow(drift, (i + 1) / count);
+        const open = previous;
+        const minutes = SESSION_START_MINUTES + i * intervalMinutes;
+        previous = close;
+
+        return {
+            timestamp: `${day.date} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:00`,
+            open,
+            high: Math.max(open, close) * (1 + random() * 0.001),
+            low: Math.min(open, close) * (1 - random() * 0.001),
+            close,
+            volume: Math.round((day.volume / count) * (0.5 + random()))
+        };
+    });
+}
+
+function syntheticQuote(symbol: string, today: string): AlphaVantageQuoteResponse {
+    const candles = dailyCandles(symbol, today);
+    const latest = candles[candles.length - 1];
+    const previousClose = candles[candles.length - 2].close;
+    const change = latest.close - previousClose;
+
+    return {
+        'Global Quote': {
+            '01. symbol': symbol,
+            '02. open': formatPrice(latest.open),
+            '03. high': formatPrice(latest.high),
+            '04. low': formatPrice(latest.low),
+            '05. price': formatPrice(latest.close),
+            '06. volume': String(latest.volume),
+            '07. latest trading day': latest.date,
+            '08. previous close': formatPrice(previousClose),
+            '09. change': formatPrice(change),
+            '10. change percent': `${((change / previousClose) * 100).toFixed(4)}%`
+        }
+    };
+}
+
+function syntheticDailySeries(symbol: string, outputSize: string, today: string): AlphaVantageTimeSeriesResponse {
+    const candles = dailyCandles(symbol, today).slice(outputSize === 'full' ? 0 : -100).reverse();
+
+    return {
+        'Meta Data': {
+            '1. Information': 'Daily Prices (open, high, low, close) and Volumes',
+            '2. Symbol': symbol,
+            '3. Last Refreshed': candles[0].date,
+            '4. Output Size': outputSize === 'full' ? 'Full size' : 'Compact',
+            '5. Time Zone': 'US/Eastern'
+        },
+        'Time Series (Daily)': Object.fromEntries(candles.map(({ date, ...candle }) => [date, toAlphaVantageCandle(candle)]))
+    };
+}
+
+function syntheticIntradaySeries(
+    symbol: string,
+    interval: string,
+    outputSize: string,
+    today: string
+): AlphaVantageTimeSeriesResponse {
+    const intervalMinutes = parseInt(interval, 10);
+    if (![1, 5, 15, 30, 60].includes(intervalMinutes)) {
+        return { 'Error Message': `Invalid API call. Unsupported interval: ${interval}` };
+    }
+
+    // 'full' covers about 30 calendar days, 'compact' the latest 100 candles
+    const days = dailyCandles(symbol, today).slice(outputSize === 'full' ? -21 : -2);
+    const candles = days
+        .flatMap(day => intradayCandles(symbol, day, intervalMinutes))
+        .slice(outputSize === 'full' ? 0 : -100)
+        .reverse();
+
+    const response: AlphaVantageTimeSeriesResponse = {
+        'Meta Data': {
+            '1. Information': `Intraday (${interval}) open, high, low, close prices and volume`,
+            '2. Symbol': symbol,
+            '3. Last Refreshed': candles[0].timestamp,
+            '4. Interval': interval,
+            '5. Output Size': outputSize === 'full' ? 'Full size' : 'Compact',
+            '6. Time Zone': 'US/Eastern'
+        }
+    };
+    response[`Time Series (${interval})`] = Object.fromEntries(
+        candles.map(({ timestamp, ...candle }) => [timestamp, toAlphaVantageCandle(candle)])
+    );
+
+    return response;
+}
+
+function syntheticCurrencyRate(from: string, to: string, today: string): AlphaVantageCurrencyResponse {
+    const random = createSeededRandom(`currency:${from}/${to}`);
+    const usdValue = (code: string) => USD_VALUES[code]?.usd ?? 0.05 + createSeededRandom(`currency:${code}`)() * 2;
+    const nextRate = createRandomWalk(random, { start: usdValue(from) / usdValue(to), volatility: 0.004, reversion: 0.01 });
+    const days = tradingDays(today);
+    let rate = 0;
+
+    for (let i = 0; i < days.length; i++) {
+        rate = nextRate();
+    }
+
+    return {
+        'Realtime Currency Exchange Rate': {
+            '1. From_Currency Code': from,
+            '2. From_Currency Name': USD_VALUES[from]?.name ?? from,
+            '3. To_Currency Code': to,
+            '4. To_Currency Name': USD_VALUES[to]?.name ?? to,
+            '5. Exchange Rate': rate.toFixed(5),
+            '6. Last Refreshed': `${days[days.length - 1]} 16:00:00`,
+            '7. Time Zone': 'UTC',
+            '8. Bid Price': (rate * 0.9999).toFixed(5),
+            '9. Ask Price': (rate * 1.0001).toFixed(5)
+        }
+    };
+}
+
+function syntheticSearch(keywords: string): AlphaVantageSearchResponse {
+    const keyword = keywords.trim().toUpperCase();
+    const matches = COMPANIES.filter(company =>
+        company.symbol.startsWith(keyword) || company.name.toUpperCase().includes(keyword)
+    );
+
+    // Anything shaped like a ticker is found, so every symbol can be tried offline
+    if (matches.length === 0 && /^[A-Z][A-Z.]{0,5}$/.test(keyword)) {
+        matches.push(companyOf(keyword));
+    }
+
+    return {
+        bestMatches: matches.map(company => ({
+            '1. symbol': company.symbol,
+            '2. name': company.name,
+            '3. type': 'Equity',
+            '4. region': 'United States',
+            '5. marketOpen': '09:30',
+            '6. marketClose': '16:00',
+            '7. timezone': 'UTC-04',
+            '8. currency': 'USD',
+            '9. matchScore': company.symbol === keyword ? '1.0000' : '0.5000'
+        }))
+    };
+}
+
+function companyOf(symbol: string): SyntheticCompany {
+    return COMPANIES.find(company => company.symbol === symbol) || {
+        symbol,
+        name: `${symbol} Holdings`,
+        industry: 'Industrials',
+        exchange: 'NYSE',
+        exchangeLong: 'New York Stock Exchange'
+    };
+}
+
+/**
+ * Synthetic answer to an Alpha Vantage query (GLOBAL_QUOTE, TIME_SERIES_DAILY, TIME_SERIES_INTRADAY,
+ * CURRENCY_EXCHANGE_RATE or SYMBOL_SEARCH)
+ * @param today Current date (YYYY-MM-DD), the last day of every series
+ */
+export function syntheticAlphaVantageResponse(query: ApiQuery, today: string): unknown {
+    const symbol = (query.symbol || '').toUpperCase();
+
+    switch (query.function) {
+        case 'GLOBAL_QUOTE':
+            return syntheticQuote(symbol, today);
+        case 'TIME_SERIES_DAILY':
+            return syntheticDailySeries(symbol, query.outputsize, today);
+        case 'TIME_SERIES_INTRADAY':
+            return syntheticIntradaySeries(symbol, query.interval, query.outputsize, today);
+        case 'CURRENCY_EXCHANGE_RATE':
+            return syntheticCurrencyRate(query.from_currency.toUpperCase(), query.to_currency.toUpperCase(), today);
+        case 'SYMBOL_SEARCH':
+            return syntheticSearch(query.keywords || '');
+        default:
+            return { 'Error Message': `No synthetic data for function ${query.function}` };
+    }
+}
+
+/**
+ * Synthetic answer to a Marketaux news/all query
+ * Two articles per symbol (the known companies when the query has no symbols), published today,
+ * with an entity sentiment following the symbol's latest synthetic price move
+ * @param today Current date (YYYY-MM-DD), the publication date of every article
+ */
+export function syntheticMarketauxResponse(query: ApiQuery, today: string): MarketauxNewsResponse {
+    const languages = (query.language || 'en').split(',');
+    const symbols = query.symbols ? query.symbols.toUpperCase().split(',') : COMPANIES.map(company => company.symbol);
+    const csv = (value?: string) => (value ? value.toLowerCase().split(',') : undefined);
+    const countries = csv(query.countries);
+    const industries = csv(query.industries);
+    const entityTypes = csv(query.entity_types);
+
+    const articles: MarketauxNewsArticle[] = symbols.flatMap((symbol, s) => {
+        const company = companyOf(symbol);
+        const candles = dailyCandles(symbol, today);
+        const move = candles[candles.length - 1].close / candles[candles.length - 2].close - 1;
+        const up = move >= 0;
+        const percent = Math.abs(move * 100).toFixed(2);
+        const titles = [
+            `${company.name} (${symbol}) shares ${up ? 'climb' : 'slip'} ${percent}%`,
+            `${up ? 'Buyers' : 'Sellers'} set the tone for ${company.name} as ${company.industry.toLowerCase()} stocks ${up ? 'rally' : 'retreat'}`
+        ];
+
+        return titles.map((title, t) => {
+            const index = s * titles.length + t;
+            const random = createSeededRandom(`news:${today}:${symbol}:${t}`);
+            const sentiment = Math.max(-1, Math.min(1, move * 25 + (random() - 0.5) * 0.2));
+            const minutes = 5 + index * 23 + Math.floor(random() * 15);
+            const description = `${company.name} moved ${up ? '+' : '-'}${percent}% in the latest session. Synthetic article for offline development.`;
+
+            return {
+                uuid: `synthetic-${today}-${symbol}-${t}`,
+                title,
+                description,
+                snippet: description,
+                url: `https://example.com/synthetic/${today}/${symbol.toLowerCase()}-${t}`,
+                image_url: '',
+                language: languages[index % languages.length],
+                published_at: `${today}T${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}:00.000000Z`,
+                source: 'example.com',
+                entities: [{
+                    symbol,
+                    name: company.name,
+                    exchange: company.exchange,
+                    exchange_long: company.exchangeLong,
+                    country: 'us',
+                    type: 'equity',
+                    industry: company.industry,
+                    match_score: Math.round((20 + random() * 30) * 1000) / 1000,
+                    sentiment_score: Math.round(sentiment * 10000) / 10000,
+                    highlights: [{ highlight: title, sentiment: Math.round(sentiment * 10000) / 10000, highlighted_in: 'title' }]
+                }],
+                similar: []
+            };
+        });
+    }).filter(article => (article.entities || []).every(entity =>
+        (query.sentiment_gte === undefined || entity.sentiment_score >= parseFloat(query.sentiment_gte))
+        && (query.sentiment_lte === undefined || entity.sentiment_score <= parseFloat(query.sentiment_lte))
+        && (!countries || countries.includes(entity.country))
+        && (!industries || industries.includes(entity.industry.toLowerCase()))
+        && (!entityTypes || entityTypes.includes(entity.type))
+    ));
+
+    const limit = Math.min(parseInt(query.limit || '3', 10) || 3, 100);
+    const page = Math.max(parseInt(query.page || '1', 10) || 1, 1);
+    const data = articles.slice((page - 1) * limit, page * limit);
+
+    return {
+        meta: { found: articles.length, returned: data.length, limit, page },
+        data
+    };
+}
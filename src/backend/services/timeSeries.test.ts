@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addDays, daysBetween, downsample, findGaps, isValidDate, type DailyPoint } from './timeSeries';
+
+/**
+ * Daily point with a flat candle at close
+ */
+function point(date: string, close: number, volume?: number): DailyPoint {
+    return { date, open: close, high: close + 1, low: close - 1, close, volume };
+}
+
+describe('isValidDate', () => {
+    it('accepts YYYY-MM-DD dates', () => {
+        assert.equal(isValidDate('2024-02-29'), true);
+    });
+
+    it('rejects other formats', () => {
+        assert.equal(isValidDate('2024-2-29'), false);
+        assert.equal(isValidDate('2024-02-29T00:00:00Z'), false);
+        assert.equal(isValidDate('yesterday'), false);
+    });
+
+    it('rejects days past the end of the month', () => {
+        assert.equal(isValidDate('2024-02-31'), false);
+        assert.equal(isValidDate('2023-02-29'), false);
+        assert.equal(isValidDate('2024-13-01'), false);
+    });
+});
+
+describe('addDays', () => {
+    it('crosses month and year ends', () => {
+        assert.equal(addDays('2024-02-28', 2), '2024-03-01');
+        assert.equal(addDays('2024-12-31', 1), '2025-01-01');
+        assert.equal(addDays('2024-01-01', -1), '2023-12-31');
+    });
+});
+
+describe('daysBetween', () => {
+    it('counts calendar days in either direction', () => {
+        assert.equal(daysBetween('2024-02-28', '2024-03-01'), 2);
+        assert.equal(daysBetween('2024-03-01', '2024-02-28'), -2);
+        assert.equal(daysBetween('2024-01-01', '2024-01-01'), 0);
+    });
+});
+
+describe('downsample', () => {
+    const points = [
+        point('2024-01-29', 10, 100),   // Monday
+        point('2024-01-31', 14, 200),
+        point('2024-02-02', 12, 300),   // Friday
+        point('2024-02-05', 11, 400)    // Next Monday
+    ];
+
+    it('keeps daily points as they are', () => {
+        const daily = downsample(points, 'daily');
+
+        assert.equal(daily.length, 4);
+        assert.deepEqual(daily.map(p => p.observations), [1, 1, 1, 1]);
+    });
+
+    it('merges weeks starting on Monday into OHLC buckets', () => {
+        const [week, next] = downsample(points, 'weekly');
+
+        assert.deepEqual(week, {
+            date: '2024-01-29',
+            open: 10,
+            high: 15,
+            low: 9,
+            close: 12,
+            volume: 600,
+            periodStart: '2024-01-29',
+            periodEnd: '2024-02-02',
+            observations: 3
+        });
+        assert.equal(next.date, '2024-02-05');
+    });
+
+    it('dates weekly buckets by their Monday even when it has no data', () => {
+        const [week] = downsample([point('2024-02-01', 10)], 'weekly');
+
+        assert.equal(week.date, '2024-01-29');
+        assert.equal(week.periodStart, '2024-02-01');
+    });
+
+    it('merges calendar months', () => {
+        const months = downsample(points, 'monthly');
+
+        assert.deepEqual(months.map(p => [p.date, p.open, p.close, p.observations]), [
+            ['2024-01-01', 10, 14, 2],
+            ['2024-02-01', 12, 11, 2]
+        ]);
+    });
+});
+
+describe('findGaps', () => {
+    it('reports runs of missing days', () => {
+        const gaps = findGaps(['2024-01-01', '2024-01-04', '2024-01-05'], '2024-01-01', '2024-01-08');
+
+        assert.deepEqual(gaps, [
+            { from: '2024-01-02', to: '2024-01-03', days: 2 },
+            { from: '2024-01-06', to: '2024-01-08', days: 3 }
+        ]);
+    });
+
+    it('reports nothing when every day has data', () => {
+        assert.deepEqual(findGaps(['2024-01-01', '2024-01-02'], '2024-01-01', '2024-01-02'), []);
+    });
+
+    it('reports the whole range when there is no data', () => {
+        assert.deepEqual(findGaps([], '2024-02-28', '2024-03-01'), [{ from: '2024-02-28', to: '2024-03-01', days: 3 }]);
+    });
+
+    it('stops at the last representable date', () => {
+        assert.deepEqual(findGaps([], '9999-12-30', '9999-12-31'), [{ from: '9999-12-30', to: '9999-12-31', days: 2 }]);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Time series helpers for daily price history (downsampling and gap detection)
+ */
+
+export type HistoryInterval = 'daily' | 'weekly' | 'monthly';
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * One daily observation
+ */
+export interface DailyPoint {
+    date: string; // YYYY-MM-DD
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume?: number;
+}
+
+/**
+ * One downsampled bucket
+ */
+export interface HistoryPoint extends DailyPoint {
+    periodStart: string;
+    periodEnd: string;
+    observations: number; // Number of days with data in this bucket
+}
+
+/**
+ * Range of consecutive days without data
+ */
+export interface HistoryGap {
+    from: string;
+    to: string;
+    days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check that a string is a valid YYYY-MM-DD date
+ * Dates that only parse by rolling over (e.g. 2024-02-31) are rejected
+ */
+export function isValidDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !isNaN(time) && new Date(time).toISOString().split('T')[0] === value;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date (UTC)
+ */
+export function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    return new Date(d.getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Count the days from one YYYY-MM-DD date to another (negative when to is before from)
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Get the first day of the bucket a date belongs to
+ * Weeks start on Monday (ISO 8601)
+ */
+function getBucketStart(date: string, interval: HistoryInterval): string {
+    if (interval === 'monthly') {
+        return `${date.slice(0, 7)}-01`;
+    }
+    if (interval === 'weekly') {
+        const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+        return addDays(date, -((day + 6) % 7));
+    }
+    return date;
+}
+
+/**
+ * Downsample daily points into daily, weekly or monthly OHLC buckets
+ * @param points Daily points sorted by date ascending
+ * @param interval Bucket size
+ * @returns One point per bucket, dated by the bucket start
+ */
+export function downsample(points: DailyPoint[], interval: HistoryInterval): HistoryPoint[] {
+    const buckets: HistoryPoint[] = [];
+
+    for (const point of points) {
+        const start = getBucketStart(point.date, interval);
+        const current = buckets[buckets.length - 1];
+
+        if (current && current.date === start) {
+            current.high = Math.max(current.high, point.high);
+            current.low = Math.min(current.low, point.low);
+            current.close = point.close;
+            current.periodEnd = point.date;
+            current.observations++;
+            if (point.volume !== undefined) {
+                current.volume = (current.volume || 0) + point.volume;
+            }
+        } else {
+            buckets.push({
+                ...point,
+                date: start,
+                periodStart: point.date,
+                periodEnd: point.date,
+                observations: 1
+            });
+        }
+    }
+
+    return buckets;
+}
+
+/**
+ * Find days in [from, to] that have no data
+ * @param dates Dates (YYYY-MM-DD) that have data
+ * @returns Ranges of consecutive missing days
+ */
+export function findGaps(dates: string[], from: string, to: string): HistoryGap[] {
+    const present = new Set(dates);
+    const gaps: HistoryGap[] = [];
+    let current: HistoryGap | null = null;
+
+    // Count days rather than compare strings: dates after 9999-12-31 ('+010000-01-01') sort first
+    const days = daysBetween(from, to);
+    for (let i = 0; i <= days; i++) {
+        const date = addDays(from, i);
+        if (present.has(date)) {
+            current = null;
+        } else if (current) {
+            current.to = date;
+            current.days++;
+        } else {
+            current = { from: date, to: date, days: 1 };
+            gaps.push(current);
+        }
+    }
+
+    return gaps;
+}
@@ -0,0 +1,180 @@
+import dotenv from 'dotenv';
+import type { CurrencyRate, StockQuote } from '../../frontend/services/interface';
+import apiProviderConfig from '../config/apiProviders';
+import { createApiProvider, type ApiQuery } from './apiProvider';
+import { failureOfStatus, fetchUpstream, providerError } from './providerErrors';
+import { createRateLimitQueue, type RequestPriority } from './rateLimitQueue';
+
+dotenv.config();
+
+const API_KEY = process.env.TWELVE_DATA_API_KEY;
+const BASE_URL = 'https://api.twelvedata.com';
+
+/**
+ * Twelve Data error answer (sent with HTTP 200)
+ */
+interface TwelveDataError {
+    status?: 'error';
+    code?: number;
+    message?: string;
+}
+
+/**
+ * Twelve Data /quote response
+ */
+interface TwelveDataQuoteResponse extends TwelveDataError {
+    symbol?: string;
+    datetime?: string;
+    open?: string;
+    high?: string;
+    low?: string;
+    close?: string;
+    volume?: string;
+    previous_close?: string;
+    change?: string;
+    percent_change?: string;
+}
+
+/**
+ * Twelve Data /exchange_rate response (timestamp in Unix seconds)
+ */
+interface TwelveDataExchangeRateResponse extends TwelveDataError {
+    symbol?: string;
+    rate?: number;
+    timestamp?: number;
+}
+
+// Free tier: 8 calls/minute, 800 calls/day
+const requestQueue = createRateLimitQueue({
+    name: 'Twelve Data',
+    perMinute: parseInt(process.env.TWELVE_DATA_CALLS_PER_MINUTE || '8', 10),
+    perDay: parseInt(process.env.TWELVE_DATA_CALLS_PER_DAY || '800', 10),
+    maxRetries: 0,
+    retryDelayMs: 60000
+});
+
+/**
+ * Call a Twelve Data endpoint
+ */
+async function fetchFromTwelveData(query: ApiQuery): Promise<unknown> {
+    if (!API_KEY) {
+        throw new Error('Twelve Data API key is not configured');
+    }
+
+    const { endpoint, ...params } = query;
+    const response = await fetchUpstream(`${BASE_URL}/${endpoint}?${new URLSearchParams({ ...params, apikey: API_KEY }).toString()}`);
+
+    if (!response.ok) {
+        const failure = failureOfStatus(response.status);
+        const message = `Twelve Data request failed: ${response.status}`;
+        throw failure ? providerError(failure, message) : new Error(message);
+    }
+
+    return await response.json();
+}
+
+const provider = createApiProvider({
+    name: 'twelvedata',
+    live: fetchFromTwelveData,
+    synthesize: () => {
+        throw providerError('unavailable', 'No Twelve Data fixture recorded for this request');
+    },
+    shouldRecord: data => failureOfStatus((data as TwelveDataError).code || 200) === null
+});
+
+/**
+ * Call Twelve Data through its rate-limited queue (replayed requests skip it)
+ * Error answers carry an HTTP-like code: 429 and 5xx fail over, others are request errors
+ */
+async function requestTwelveData<T extends TwelveDataError>(query: ApiQuery, priority: RequestPriority): Promise<T> {
+    const data = apiProviderConfig.mode === 'replay'
+        ? await provider(query) as T
+        : await requestQueue.enqueue(async () => await provider(query) as T, { priority });
+
+    if (data.status === 'error') {
+        const failure = failureOfStatus(data.code || 0);
+        const message = `Twelve Data error: ${data.message || data.code}`;
+        throw failure ? providerError(failure, message) : new Error(message);
+    }
+
+    return data;
+}
+
+/**
+ * Get Twelve Data request budget usage
+ */
+export function getTwelveDataQueueStats() {
+    return requestQueue.getStats();
+}
+
+/**
+ * Check whether Twelve Data can be called (API key set, or replaying fixtures)
+ */
+export function isTwelveDataConfigured(): boolean {
+    return Boolean(API_KEY) || apiProviderConfig.mode === 'replay';
+}
+
+/**
+ * Fetch stock quote from Twelve Data API
+ * @param symbol Stock symbol, e.g., 'AAPL'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with stock quote data
+ */
+export async function fetchStockQuoteFromTwelveData(
+    symbol: string,
+    priority: RequestPriority = 'interactive'
+): Promise<StockQuote> {
+    const data = await requestTwelveData<TwelveDataQuoteResponse>({ endpoint: 'quote', symbol }, priority);
+
+    if (!data.symbol || !data.close) {
+        throw new Error(`Stock symbol "${symbol}" not found`);
+    }
+
+    return {
+        symbol: data.symbol,
+        open: data.open || '',
+        high: data.high || '',
+        low: data.low || '',
+        price: data.close,
+        volume: data.volume || '',
+        latestTradingDay: (data.datetime || '').split(' ')[0],
+        previousClose: data.previous_close || '',
+        change: data.change || '',
+        changePercent: data.percent_change ? `${data.percent_change}%` : '',
+    };
+}
+
+/**
+ * Fetch currency rate from Twelve Data API
+ * Twelve Data gives a single rate, used as bid and ask
+ * @param fromCurrency Base currency code, e.g., 'USD'
+ * @param toCurrency Target currency code, e.g., 'CNY'
+ * @param priority Queue priority (default: 'interactive')
+ * @returns Promise with currency rate data
+ */
+export async function fetchCurrencyRateFromTwelveData(
+    fromCurrency: string,
+    toCurrency: string,
+    priority: RequestPriority = 'interactive'
+): Promise<CurrencyRate> {
+    const data = await requestTwelveData<TwelveDataExchangeRateResponse>({
+        endpoint: 'exchange_rate',
+        symbol: `${fromCurrency}/${toCurrency}`
+    }, priority);
+
+    if (data.rate === undefined) {
+        throw new Error(`Currency rate not found for ${fromCurrency}/${toCurrency}`);
+    }
+
+    const rate = String(data.rate);
+
+    return {
+        timeZone: 'UTC',
+        fromCurrency,
+        toCurrency,
+        exchangeRate: rate,
+        bidPrice: rate,
+        askPrice: rate,
+        lastRefreshed: new Date((data.timestamp || Date.now() / 1000) * 1000).toISOString().slice(0, 19).replace('T', ' '),
+    };
+}
@@ -0,0 +1,225 @@
+import type { WatchlistData, WatchlistItemData } from '../models/Watchlist';
+import storage from '../repositories';
+import { getCommodityPrices } from './dataService';
+import { getEnabledInstruments, listInstruments } from './instrumentService';
+import { checkAndGetStockQuote } from './stockService';
+import { addDays } from './timeSeries';
+import type { Watchlist, WatchlistItem, WatchlistItemType } from '../../frontend/services/interface';
+
+export const WATCHLIST_ITEM_TYPES: WatchlistItemType[] = ['stock', 'commodity', 'currency'];
+
+const STOCK_SYMBOL_PATTERN = /^[A-Z0-9.-]{1,20}$/;
+
+// Days of currency history searched for the previous rate
+const CURRENCY_LOOKBACK_DAYS = 10;
+
+/**
+ * Get today's date in YYYY-MM-DD format
+ */
+function getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Parse a numeric quote field such as '1.23' or '0.4567%'
+ */
+function parseQuoteNumber(value: string | number | undefined | null): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = typeof value === 'number' ? value : parseFloat(value.replace('%', ''));
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Validate and normalize a symbol before it is added to a watchlist
+ * Commodities and currencies must be enabled tracked instruments,
+ * since those are the only ones the scheduler keeps quotes for
+ */
+export async function normalizeWatchlistSymbol(
+    symbol: string,
+    type: WatchlistItemType
+): Promise<{ symbol: string } | { error: string }> {
+    const normalized = symbol.trim().toUpperCase();
+
+    if (type === 'stock') {
+        if (!STOCK_SYMBOL_PATTERN.test(normalized)) {
+            return { error: `Invalid stock symbol: ${symbol}` };
+        }
+        return { symbol: normalized };
+    }
+
+    const instruments = await getEnabledInstruments(type);
+    if (!instruments.some(instrument => instrument.symbol === normalized)) {
+        return { error: `${type} must be one of: ${instruments.map(instrument => instrument.symbol).join(', ')}` };
+    }
+    return { symbol: normalized };
+}
+
+/**
+ * Attach the latest cached quote to each watchlist item
+ * Reads the database only; items without a stored quote get null prices
+ */
+async function attachQuotes(items: WatchlistItemData[]): Promise<WatchlistItem[]> {
+    const stockSymbols = [...new Set(items.filter(i => i.itemType === 'stock').map(i => i.symbol))];
+    const currencyPairs = [...new Set(items.filter(i => i.itemType === 'currency').map(i => i.symbol))];
+    const hasCommodities = items.some(i => i.itemType === 'commodity');
+    const commodities = hasCommodities ? await listInstruments('commodity') : [];
+
+    const quotes = new Map<string, Omit<WatchlistItem, 'id' | 'symbol' | 'type'>>();
+
+    for (const quote of await storage.stockQuotes.getLatestStockQuotes(stockSymbols)) {
+        quotes.set(`stock:${quote.symbol}`, {
+            name: null,
+            price: parseQuoteNumber(quote.price),
+            change: parseQuoteNumber(quote.change),
+            changePercent: parseQuoteNumber(quote.changePercent),
+            asOf: quote.date
+        });
+    }
+
+    if (hasCommodities) {
+        for (const price of await getCommodityPrices()) {
+            quotes.set(`commodity:${price.symbol}`, {
+                name: price.name,
+                price: parseQuoteNumber(price.price),
+                change: parseQuoteNumber(price.change),
+                changePercent: parseQuoteNumber(price.changePercent),
+                asOf: price.date
+            });
+        }
+    }
+
+    // Currency rates have no change field, compare the latest two stored days instead
+    const today = getTodayDate();
+    for (const pair of currencyPairs) {
+        const [fromCurrency, toCurrency] = pair.split('/');
+        const rates = await storage.currencyRates.getCurrencyRatesInRange(
+            fromCurrency, toCurrency, addDays(today, -CURRENCY_LOOKBACK_DAYS), today
+        );
+        const latest = rates[rates.length - 1];
+        const previous = rates[rates.length - 2];
+        if (!latest) continue;
+
+        const change = previous ? latest.exchangeRate - previous.exchangeRate : null;
+        quotes.set(`currency:${pair}`, {
+            name: null,
+            price: latest.exchangeRate,
+            change,
+            changePercent: previous && change !== null ? (change / previous.exchangeRate) * 100 : null,
+            asOf: latest.date
+        });
+    }
+
+    return items.map(item => ({
+        id: item.id,
+        symbol: item.symbol,
+        type: item.itemType,
+        name: item.itemType === 'commodity'
+            ? commodities.find(c => c.symbol === item.symbol)?.name || null
+            : null,
+        price: null,
+        change: null,
+        changePercent: null,
+        asOf: null,
+        ...quotes.get(`${item.itemType}:${item.symbol}`)
+    }));
+}
+
+/**
+ * Build watchlists with their items and quotes
+ * Items for all lists are loaded and priced in one pass
+ */
+async function buildWatchlists(watchlists: WatchlistData[]): Promise<Watchlist[]> {
+    const storedItems = await storage.watchlists.getWatchlistItems(watchlists.map(w => w.id));
+    const items = await attachQuotes(storedItems);
+
+    return watchlists.map(watchlist => ({
+        id: watchlist.id,
+        name: watchlist.name,
+        createdAt: new Date(watchlist.createdAt).toISOString(),
+        items: items.filter((_, index) => storedItems[index].watchlistId === watchlist.id)
+    }));
+}
+
+/**
+ * Get all watchlists with quotes
+ * This is the main function called by the API route
+ */
+export async function getWatchlists(): Promise<Watchlist[]> {
+    return buildWatchlists(await storage.watchlists.getWatchlists());
+}
+
+/**
+ * Get one watchlist with quotes
+ * @returns null if the watchlist doesn't exist
+ */
+export async function getWatchlist(id: number): Promise<Watchlist | null> {
+    const watchlist = await storage.watchlists.getWatchlistById(id);
+    if (!watchlist) return null;
+
+    const [result] = await buildWatchlists([watchlist]);
+    return result;
+}
+
+/**
+ * Create an empty watchlist
+ */
+export async function createWatchlist(name: string): Promise<Watchlist> {
+    const id = await storage.watchlists.createWatchlist(name);
+    return (await getWatchlist(id)) as Watchlist;
+}
+
+/**
+ * Rename a watchlist
+ * @returns Updated watchlist, or null if the watchlist doesn't exist
+ */
+export async function renameWatchlist(id: number, name: string): Promise<Watchlist | null> {
+    if (!(await storage.watchlists.getWatchlistById(id))) return null;
+
+    await storage.watchlists.renameWatchlist(id, name);
+    return getWatchlist(id);
+}
+
+/**
+ * Delete a watchlist and its items
+ * @returns false if the watchlist doesn't exist
+ */
+export async function deleteWatchlist(id: number): Promise<boolean> {
+    return storage.watchlists.deleteWatchlist(id);
+}
+
+/**
+ * Add a symbol to a watchlist
+ * New stock symbols get a quote fetched right away so the list isn't empty until
+ * someone opens them on the Stock page; a failed fetch doesn't block the add
+ *
+ * @param symbol Normalized symbol (see normalizeWatchlistSymbol)
+ * @returns Updated watchlist, or null if the watchlist doesn't exist
+ */
+export async function addSymbolToWatchlist(
+    watchlistId: number,
+    symbol: string,
+    type: WatchlistItemType
+): Promise<Watchlist | null> {
+    if (!(await storage.watchlists.getWatchlistById(watchlistId))) return null;
+
+    await storage.watchlists.addWatchlistItem(watchlistId, symbol, type);
+
+    if (type === 'stock') {
+        try {
+            await checkAndGetStockQuote(symbol);
+        } catch (error) {
+            console.error(`Failed to fetch quote for watchlist symbol ${symbol}:`, error);
+        }
+    }
+
+    return getWatchlist(watchlistId);
+}
+
+/**
+ * Remove an item from a watchlist
+ * @returns Updated watchlist, or null if the watchlist or item doesn't exist
+ */
+export async function removeSymbolFromWatchlist(watchlistId: number, itemId: number): Promise<Watchlist | null> {
+    const removed = await storage.watchlists.removeWatchlistItem(watchlistId, itemId);
+    return removed ? getWatchlist(watchlistId) : null;
+}
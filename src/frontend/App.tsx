@@ -3,6 +3,9 @@ import Layout from './components/Layout'
 import Home from './pages/Home'
 import Stock from './pages/Stock'
 import News from './pages/News'
+import Watchlist from './pages/Watchlist'
+import Portfolio from './pages/Portfolio'
+import Alerts from './pages/Alerts'
 
 function App() {
   return (
@@ -11,6 +14,9 @@ function App() {
         <Route path='/' element={<Home />} />
         <Route path='/stock' element={<Stock />}/>
         <Route path='/news' element={<News />}/>
+        <Route path='/watchlist' element={<Watchlist />}/>
+        <Route path='/portfolio' element={<Portfolio />}/>
+        <Route path='/alerts' element={<Alerts />}/>
       </Routes>
     </Layout>
   )
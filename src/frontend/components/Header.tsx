@@ -1,6 +1,34 @@
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { getAlertTriggers } from "../services/api";
+
+// How often to check for newly triggered alerts
+const ALERT_POLL_INTERVAL_MS = 30 * 1000;
+
 export default function Header() {
     const location = useLocation();
+    const [unacknowledgedAlerts, setUnacknowledgedAlerts] = useState(0);
+
+    useEffect(() => {
+        let active = true;
+
+        const checkAlerts = async () => {
+            try {
+                const { unacknowledged } = await getAlertTriggers({ limit: 1, unacknowledgedOnly: true });
+                if (active) setUnacknowledgedAlerts(unacknowledged);
+            } catch {
+                // Keep the last count if the backend is unreachable
+            }
+        };
+
+        checkAlerts();
+        const timer = setInterval(checkAlerts, ALERT_POLL_INTERVAL_MS);
+        return () => {
+            active = false;
+            clearInterval(timer);
+        };
+    // Re-check on navigation so acknowledging on the Alerts page clears the badge quickly
+    }, [location.pathname]);
 
     return (
         <header className="bg-gray-800 text-white shadow-md sticky top-0 z-50">
@@ -40,6 +68,38 @@ export default function Header() {
                             >
                                 News
                             </Link>
+                            <Link
+                                to="/watchlist"
+                                className={`text-base font-medium transition-colors cursor-pointer
+                                    ${location.pathname === '/watchlist' 
+                                        ? 'text-white border-b-2 border-white pb-1' 
+                                        : 'text-gray-300 hover:text-white'}`}
+                            >
+                                Watchlist
+                            </Link>
+                            <Link
+                                to="/portfolio"
+                                className={`text-base font-medium transition-colors cursor-pointer
+                                    ${location.pathname === '/portfolio' 
+                                        ? 'text-white border-b-2 border-white pb-1' 
+                                        : 'text-gray-300 hover:text-white'}`}
+                            >
+                                Portfolio
+                            </Link>
+                            <Link
+                                to="/alerts"
+                                className={`relative text-base font-medium transition-colors cursor-pointer
+                                    ${location.pathname === '/alerts' 
+                                        ? 'text-white border-b-2 border-white pb-1' 
+                                        : 'text-gray-300 hover:text-white'}`}
+                            >
+                                Alerts
+                                {unacknowledgedAlerts > 0 && (
+                                    <span className="absolute -top-2 -right-5 min-w-5 px-1.5 rounded-full bg-red-600 text-white text-xs font-bold text-center">
+                                        {unacknowledgedAlerts > 99 ? '99+' : unacknowledgedAlerts}
+                                    </span>
+                                )}
+                            </Link>
                         </nav>
                     </div>
                     
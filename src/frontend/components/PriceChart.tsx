@@ -0,0 +1,215 @@
+import { useState } from "react";
+import type { Candle } from "../services/interface";
+
+/**
+ * Line drawn over the price panel (e.g., a moving average), aligned with the candles
+ */
+export interface ChartOverlay {
+    label: string
+    values: (number | null)[]
+    className: string
+}
+
+interface PriceChartProps {
+    candles: Candle[]
+    mode: 'candle' | 'line'
+    overlays?: ChartOverlay[]
+}
+
+// SVG layout (viewBox units, scaled to the container width)
+const WIDTH = 800;
+const PADDING = { top: 10, right: 64, bottom: 24, left: 8 };
+const PRICE_HEIGHT = 280;
+const VOLUME_HEIGHT = 70;
+const PANEL_GAP = 16;
+const HEIGHT = PADDING.top + PRICE_HEIGHT + PANEL_GAP + VOLUME_HEIGHT + PADDING.bottom;
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const VOLUME_TOP = PADDING.top + PRICE_HEIGHT + PANEL_GAP;
+
+const formatVolume = (volume: number) => {
+    if (volume >= 1e9) return `${(volume / 1e9).toFixed(1)}B`;
+    if (volume >= 1e6) return `${(volume / 1e6).toFixed(1)}M`;
+    if (volume >= 1e3) return `${(volume / 1e3).toFixed(1)}K`;
+    return volume.toString();
+};
+
+// Intraday timestamps show the time, daily ones the date
+const formatTimestamp = (timestamp: string) => {
+    return timestamp.length > 10 ? timestamp.slice(5, 16) : timestamp;
+};
+
+// Split a series into polyline segments at null values
+const toSegments = (values: (number | null)[]) => {
+    const segments: { index: number; value: number }[][] = [];
+    let current: { index: number; value: number }[] = [];
+    values.forEach((value, index) => {
+        if (value === null) {
+            if (current.length > 0) segments.push(current);
+            current = [];
+        } else {
+            current.push({ index, value });
+        }
+    });
+    if (current.length > 0) segments.push(current);
+    return segments;
+};
+
+export default function PriceChart({ candles, mode, overlays = [] }: PriceChartProps) {
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+    if (candles.length === 0) {
+        return (
+            <div className="text-center py-12 text-gray-500">No price history available</div>
+        );
+    }
+
+    const overlayValues = overlays.flatMap(o => o.values.filter((v): v is number => v !== null));
+    const low = Math.min(...candles.map(c => c.low), ...overlayValues);
+    const high = Math.max(...candles.map(c => c.high), ...overlayValues);
+    const priceSpan = high - low || 1;
+    const maxVolume = Math.max(...candles.map(c => c.volume)) || 1;
+
+    const step = PLOT_WIDTH / candles.length;
+    const bodyWidth = Math.max(1, step * 0.7);
+
+    const x = (index: number) => PADDING.left + step * index + step / 2;
+    const y = (price: number) => PADDING.top + (1 - (price - low) / priceSpan) * PRICE_HEIGHT;
+    const volumeY = (volume: number) => VOLUME_TOP + (1 - volume / maxVolume) * VOLUME_HEIGHT;
+
+    const priceTicks = [0, 0.25, 0.5, 0.75, 1].map(t => low + priceSpan * t);
+    const labelCount = Math.min(5, candles.length);
+    const labelIndexes = Array.from({ length: labelCount }, (_, i) =>
+        Math.round((i * (candles.length - 1)) / Math.max(1, labelCount - 1))
+    );
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const viewX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const index = Math.floor((viewX - PADDING.left) / step);
+        setHoverIndex(index >= 0 && index < candles.length ? index : null);
+    };
+
+    const active = candles[hoverIndex ?? candles.length - 1];
+    const first = candles[0];
+    const change = active.close - first.open;
+
+    return (
+        <div>
+            {/* Hovered (or latest) candle */}
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-2">
+                <span className="font-semibold text-gray-800">{formatTimestamp(active.timestamp)}</span>
+                <span>O <span className="font-medium text-gray-900">{active.open.toFixed(2)}</span></span>
+                <span>H <span className="font-medium text-gray-900">{active.high.toFixed(2)}</span></span>
+                <span>L <span className="font-medium text-gray-900">{active.low.toFixed(2)}</span></span>
+                <span>C <span className="font-medium text-gray-900">{active.close.toFixed(2)}</span></span>
+                <span>Vol <span className="font-medium text-gray-900">{formatVolume(active.volume)}</span></span>
+                <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {change >= 0 ? '+' : ''}{change.toFixed(2)} ({((change / first.open) * 100).toFixed(2)}%)
+                </span>
+                {overlays.map(overlay => {
+                    const value = overlay.values[hoverIndex ?? candles.length - 1];
+                    return (
+                        <span key={overlay.label}>
+                            {overlay.label} <span className="font-medium text-gray-900">{value != null ? value.toFixed(2) : '-'}</span>
+                        </span>
+                    );
+                })}
+            </div>
+
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto select-none"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHoverIndex(null)}
+            >
+                {/* Price grid and axis */}
+                {priceTicks.map(price => (
+                    <g key={price}>
+                        <line
+                            x1={PADDING.left} x2={PADDING.left + PLOT_WIDTH}
+                            y1={y(price)} y2={y(price)}
+                            className="stroke-gray-200" strokeWidth={1}
+                        />
+                        <text x={WIDTH - PADDING.right + 6} y={y(price) + 4} className="fill-gray-500 text-[10px]">
+                            {price.toFixed(2)}
+                        </text>
+                    </g>
+                ))}
+
+                {/* Price panel */}
+                {mode === 'line' ? (
+                    <polyline
+                        fill="none"
+                        className="stroke-blue-600"
+                        strokeWidth={1.5}
+                        points={candles.map((c, i) => `${x(i)},${y(c.close)}`).join(' ')}
+                    />
+                ) : (
+                    candles.map((c, i) => {
+                        const isUp = c.close >= c.open;
+                        const color = isUp ? 'stroke-green-600 fill-green-500' : 'stroke-red-600 fill-red-500';
+                        return (
+                            <g key={c.timestamp} className={color}>
+                                <line x1={x(i)} x2={x(i)} y1={y(c.high)} y2={y(c.low)} strokeWidth={1} />
+                                <rect
+                                    x={x(i) - bodyWidth / 2}
+                                    y={y(Math.max(c.open, c.close))}
+                                    width={bodyWidth}
+                                    height={Math.max(1, Math.abs(y(c.open) - y(c.close)))}
+                                />
+                            </g>
+                        );
+                    })
+                )}
+
+                {/* Indicator overlays */}
+                {overlays.map(overlay => toSegments(overlay.values).map((segment, i) => (
+                    <polyline
+                        key={`${overlay.label}-${i}`}
+                        fill="none"
+                        className={overlay.className}
+                        strokeWidth={1.25}
+                        points={segment.map(p => `${x(p.index)},${y(p.value)}`).join(' ')}
+                    />
+                )))}
+
+                {/* Volume panel */}
+                {candles.map((c, i) => (
+                    <rect
+                        key={c.timestamp}
+                        x={x(i) - bodyWidth / 2}
+                        y={volumeY(c.volume)}
+                        width={bodyWidth}
+                        height={VOLUME_TOP + VOLUME_HEIGHT - volumeY(c.volume)}
+                        className={c.close >= c.open ? 'fill-green-200' : 'fill-red-200'}
+                    />
+                ))}
+                <text x={WIDTH - PADDING.right + 6} y={VOLUME_TOP + 10} className="fill-gray-500 text-[10px]">
+                    {formatVolume(maxVolume)}
+                </text>
+
+                {/* Time axis */}
+                {labelIndexes.map(i => (
+                    <text
+                        key={i}
+                        x={x(i)}
+                        y={HEIGHT - 6}
+                        textAnchor="middle"
+                        className="fill-gray-500 text-[10px]"
+                    >
+                        {formatTimestamp(candles[i].timestamp)}
+                    </text>
+                ))}
+
+                {/* Crosshair */}
+                {hoverIndex !== null && (
+                    <line
+                        x1={x(hoverIndex)} x2={x(hoverIndex)}
+                        y1={PADDING.top} y2={VOLUME_TOP + VOLUME_HEIGHT}
+                        className="stroke-gray-400" strokeDasharray="4 3" strokeWidth={1}
+                    />
+                )}
+            </svg>
+        </div>
+    )
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import type { Candle, SentimentBucket, SentimentPoint } from "../services/interface";
+
+interface SentimentChartProps {
+    candles: Candle[]
+    points: SentimentPoint[]
+    bucket: SentimentBucket
+}
+
+// Same horizontal layout as PriceChart so each bar sits under the candles of its day or week
+const WIDTH = 800;
+const PADDING = { top: 10, right: 64, bottom: 10, left: 8 };
+const PLOT_HEIGHT = 100;
+const HEIGHT = PADDING.top + PLOT_HEIGHT + PADDING.bottom;
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+
+// Bucket start (YYYY-MM-DD) a candle belongs to; weeks start on Monday
+const bucketOf = (timestamp: string, bucket: SentimentBucket) => {
+    const date = timestamp.slice(0, 10);
+    if (bucket === 'day') return date;
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().split('T')[0];
+};
+
+const formatScore = (value: number | null) => (value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)}`);
+
+export default function SentimentChart({ candles, points, bucket }: SentimentChartProps) {
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+    if (candles.length === 0) return null;
+
+    const step = PLOT_WIDTH / candles.length;
+    const x = (index: number) => PADDING.left + step * index;
+    // Sentiment scores range from -1 to 1
+    const y = (score: number) => PADDING.top + ((1 - score) / 2) * PLOT_HEIGHT;
+
+    // Candle index range covered by each bucket
+    const spans = new Map<string, { first: number; last: number }>();
+    candles.forEach((candle, index) => {
+        const key = bucketOf(candle.timestamp, bucket);
+        const span = spans.get(key);
+        if (span) span.last = index;
+        else spans.set(key, { first: index, last: index });
+    });
+
+    const bars = points.flatMap(point => {
+        const span = spans.get(point.bucket);
+        return span ? [{ point, ...span }] : [];
+    });
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const viewX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const index = Math.floor((viewX - PADDING.left) / step);
+        setHoverIndex(index >= 0 && index < candles.length ? index : null);
+    };
+
+    const hoveredBucket = hoverIndex !== null ? bucketOf(candles[hoverIndex].timestamp, bucket) : null;
+    const active = hoveredBucket
+        ? points.find(p => p.bucket === hoveredBucket) || null
+        : bars[bars.length - 1]?.point || null;
+
+    return (
+        <div>
+            {/* Hovered (or latest) bucket */}
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-2">
+                <span className="font-semibold text-gray-800">
+                    News sentiment {active ? `(${bucket === 'week' ? 'week of ' : ''}${active.bucket})` : hoveredBucket ? `(${hoveredBucket})` : ''}
+                </span>
+                {active ? (
+                    <>
+                        <span>Articles <span className="font-medium text-gray-900">{active.articleCount}</span></span>
+                        <span>Mean <span className="font-medium text-gray-900">{formatScore(active.meanSentiment)}</span></span>
+                        <span>Weighted <span className="font-medium text-gray-900">{formatScore(active.weightedSentiment)}</span></span>
+                        <span>Min <span className="font-medium text-gray-900">{formatScore(active.minSentiment)}</span></span>
+                        <span>Max <span className="font-medium text-gray-900">{formatScore(active.maxSentiment)}</span></span>
+                    </>
+                ) : (
+                    <span>No stored news</span>
+                )}
+            </div>
+
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto select-none"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHoverIndex(null)}
+            >
+                {/* Grid and axis */}
+                {[1, 0, -1].map(score => (
+                    <g key={score}>
+                        <line
+                            x1={PADDING.left} x2={PADDING.left + PLOT_WIDTH}
+                            y1={y(score)} y2={y(score)}
+                            className={score === 0 ? 'stroke-gray-400' : 'stroke-gray-200'} strokeWidth={1}
+                        />
+                        <text x={WIDTH - PADDING.right + 6} y={y(score) + 4} className="fill-gray-500 text-[10px]">
+                            {formatScore(score)}
+                        </text>
+                    </g>
+                ))}
+
+                {/* Min/max range and mean per bucket */}
+                {bars.map(({ point, first, last }) => {
+                    const left = x(first) + step * 0.15;
+                    const width = Math.max(1, x(last + 1) - x(first) - step * 0.3);
+                    const center = left + width / 2;
+                    return (
+                        <g key={point.bucket}>
+                            <line
+                                x1={center} x2={center}
+                                y1={y(point.maxSentiment)} y2={y(point.minSentiment)}
+                                className="stroke-gray-300" strokeWidth={1}
+                            />
+                            <rect
+                                x={left}
+                                y={Math.min(y(0), y(point.meanSentiment))}
+                                width={width}
+                                height={Math.max(1, Math.abs(y(point.meanSentiment) - y(0)))}
+                                className={point.meanSentiment >= 0 ? 'fill-green-400' : 'fill-red-400'}
+                            />
+                        </g>
+                    );
+                })}
+
+                {/* Match-score-weighted mean */}
+                {bars.filter(bar => bar.point.weightedSentiment !== null).map(({ point, first, last }) => (
+                    <circle
+                        key={point.bucket}
+                        cx={(x(first) + x(last + 1)) / 2}
+                        cy={y(point.weightedSentiment as number)}
+                        r={2.5}
+                        className="fill-indigo-600"
+                    />
+                ))}
+            </svg>
+        </div>
+    );
+}
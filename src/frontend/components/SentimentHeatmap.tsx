@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import type { News, SentimentHeatmap as HeatmapData, SentimentHeatmapCell } from "../services/interface";
+import { getHeatmapArticles, getSentimentHeatmap } from "../services/api";
+
+// Selectable windows (days, including today)
+const RANGE_OPTIONS = [1, 7, 30];
+
+// Largest grid shown; industries and countries come sorted by article volume
+const MAX_INDUSTRIES = 12;
+const MAX_COUNTRIES = 8;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const formatScore = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const cellColor = (score: number) => {
+    if (score > 0.3) return 'bg-green-500 text-white';
+    if (score > 0.1) return 'bg-green-200 text-green-900';
+    if (score < -0.3) return 'bg-red-500 text-white';
+    if (score < -0.1) return 'bg-red-200 text-red-900';
+    return 'bg-gray-100 text-gray-700';
+};
+
+/**
+ * Industry x country grid of average entity sentiment in stored news
+ * Clicking a cell lists the articles behind it
+ */
+export default function SentimentHeatmap() {
+    const [days, setDays] = useState(7);
+    const [heatmap, setHeatmap] = useState<HeatmapData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selected, setSelected] = useState<SentimentHeatmapCell | null>(null);
+    const [articles, setArticles] = useState<News[]>([]);
+    const [articlesLoading, setArticlesLoading] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const to = new Date();
+        const from = new Date(to);
+        from.setUTCDate(from.getUTCDate() - (days - 1));
+
+        setLoading(true);
+        setError(null);
+        setSelected(null);
+        getSentimentHeatmap(toDateString(from), toDateString(to))
+            .then(data => {
+                if (!cancelled) setHeatmap(data);
+            })
+            .catch(err => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sentiment heatmap');
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [days]);
+
+    const handleSelect = async (cell: SentimentHeatmapCell) => {
+        if (!heatmap) return;
+        if (selected && selected.industry === cell.industry && selected.country === cell.country) {
+            setSelected(null);
+            return;
+        }
+
+        setSelected(cell);
+        setArticles([]);
+        setArticlesLoading(true);
+        try {
+            setArticles(await getHeatmapArticles(cell.industry, cell.country, heatmap.from, heatmap.to));
+        } catch (err) {
+            console.error('Error fetching heatmap articles:', err);
+        } finally {
+            setArticlesLoading(false);
+        }
+    };
+
+    const industries = heatmap ? heatmap.industries.slice(0, MAX_INDUSTRIES) : [];
+    const countries = heatmap ? heatmap.countries.slice(0, MAX_COUNTRIES) : [];
+    const cellAt = (industry: string, country: string) =>
+        heatmap?.cells.find(cell => cell.industry === industry && cell.country === country);
+
+    return (
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-800">Sentiment Heatmap</h2>
+                    <p className="text-sm text-gray-500">Average entity sentiment by industry and country</p>
+                </div>
+                <div className="flex gap-2">
+                    {RANGE_OPTIONS.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setDays(option)}
+                            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                                days === option
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                        >
+                            {option === 1 ? 'Today' : `${option}D`}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-600"></div>
+                </div>
+            ) : error ? (
+                <p className="text-sm text-red-600">{error}</p>
+            ) : industries.length === 0 ? (
+                <p className="text-center py-8 text-gray-600">No stored news with industry and country data in this period</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm border-separate border-spacing-1">
+                        <thead>
+                            <tr>
+                                <th className="text-left font-medium text-gray-500">Industry</th>
+                                {countries.map(country => (
+                                    <th key={country} className="font-medium text-gray-500 uppercase">{country}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {industries.map(industry => (
+                                <tr key={industry}>
+                                    <td className="pr-2 text-gray-700 whitespace-nowrap">{industry}</td>
+                                    {countries.map(country => {
+                                        const cell = cellAt(industry, country);
+                                        if (!cell) {
+                                            return <td key={country} className="bg-gray-50 rounded text-center text-gray-300">-</td>;
+                                        }
+                                        const isSelected = selected?.industry === industry && selected?.country === country;
+                                        return (
+                                            <td key={country} className="p-0">
+                                                <button
+                                                    onClick={() => handleSelect(cell)}
+                                                    title={`${cell.articleCount} articles, ${cell.entityCount} entity mentions`}
+                                                    className={`w-full min-w-[64px] px-2 py-1 rounded text-center ${cellColor(cell.meanSentiment)} ${
+                                                        isSelected ? 'ring-2 ring-purple-600' : 'hover:opacity-80'
+                                                    }`}
+                                                >
+                                                    <div className="font-semibold">{formatScore(cell.meanSentiment)}</div>
+                                                    <div className="text-xs opacity-80">{cell.articleCount}</div>
+                                                </button>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Drill-down */}
+            {selected && (
+                <div className="mt-6 border-t border-gray-100 pt-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-lg font-semibold text-gray-800">
+                            {selected.industry} · <span className="uppercase">{selected.country}</span>
+                        </h3>
+                        <button
+                            onClick={() => setSelected(null)}
+                            className="text-sm text-gray-500 hover:text-gray-700"
+                        >
+                            Close
+                        </button>
+                    </div>
+                    {articlesLoading ? (
+                        <p className="text-sm text-gray-500">Loading articles...</p>
+                    ) : articles.length === 0 ? (
+                        <p className="text-sm text-gray-500">No articles found</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {articles.map(article => (
+                                <li key={article.uuid} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <a
+                                            href={article.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="font-medium text-gray-900 hover:underline hover:text-purple-600"
+                                        >
+                                            {article.title}
+                                        </a>
+                                        <div className="text-xs text-gray-500">
+                                            {article.source} · {new Date(article.published_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-1 flex-shrink-0">
+                                        {(article.entities || []).map((entity, idx) => (
+                                            <span
+                                                key={idx}
+                                                className={`px-2 py-0.5 rounded text-xs font-medium ${cellColor(entity.sentiment_score || 0)}`}
+                                            >
+                                                {entity.symbol || entity.name} {formatScore(entity.sentiment_score || 0)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import type { NewsStory } from "../services/interface";
+
+interface StoryCardProps {
+    story: NewsStory
+}
+
+// Sources listed before collapsing into "+N more"
+const VISIBLE_SOURCES = 4;
+
+const formatTime = (value: string) => {
+    const date = new Date(value);
+    return isNaN(date.getTime())
+        ? ''
+        : date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * One news story: the canonical article with the sources covering it
+ * The other articles of the story can be expanded below
+ */
+export default function StoryCard({ story }: StoryCardProps) {
+    const [expanded, setExpanded] = useState(false);
+    const { canonical } = story;
+    const others = story.articles.filter(article => article.uuid !== canonical.uuid);
+
+    return (
+        <article className="group bg-white rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300 border border-gray-100 hover:border-purple-300 overflow-hidden">
+            {canonical.image_url && (
+                <div className="relative h-48 overflow-hidden bg-gray-200">
+                    <img
+                        src={canonical.image_url}
+                        alt={canonical.title}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        onError={(e) => {
+                            (e.target as HTMLImageElement).style.display = 'none';
+                        }}
+                    />
+                </div>
+            )}
+
+            <div className="p-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-3 line-clamp-2 group-hover:text-purple-600 transition-colors">
+                    <a href={canonical.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {canonical.title}
+                    </a>
+                </h3>
+
+                {(canonical.description || canonical.snippet) && (
+                    <p className="text-gray-600 mb-4 line-clamp-3">
+                        {canonical.description || canonical.snippet}
+                    </p>
+                )}
+
+                {/* Coverage */}
+                <div className="mb-4 flex flex-wrap items-center gap-2">
+                    <span className="px-2 py-1 bg-purple-600 text-white text-xs font-semibold rounded">
+                        Covered by {story.sources.length} {story.sources.length === 1 ? 'source' : 'sources'}
+                    </span>
+                    {story.sources.slice(0, VISIBLE_SOURCES).map(source => (
+                        <span key={source} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded border border-gray-200">
+                            {source}
+                        </span>
+                    ))}
+                    {story.sources.length > VISIBLE_SOURCES && (
+                        <span className="text-xs text-gray-500">+{story.sources.length - VISIBLE_SOURCES} more</span>
+                    )}
+                </div>
+
+                {/* Other articles of the story */}
+                {others.length > 0 && (
+                    <div className="mb-4">
+                        <button
+                            onClick={() => setExpanded(!expanded)}
+                            className="text-sm font-medium text-purple-600 hover:text-purple-700"
+                        >
+                            {expanded ? 'Hide' : 'Show'} {others.length} more {others.length === 1 ? 'article' : 'articles'}
+                        </button>
+                        {expanded && (
+                            <ul className="mt-2 space-y-2">
+                                {others.map(article => (
+                                    <li key={article.uuid} className="text-sm">
+                                        {article.url ? (
+                                            <a
+                                                href={article.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-gray-800 hover:underline hover:text-purple-600"
+                                            >
+                                                {article.title}
+                                            </a>
+                                        ) : (
+                                            <span className="text-gray-800">{article.title}</span>
+                                        )}
+                                        <span className="ml-2 text-xs text-gray-500">
+                                            {article.source} {formatTime(article.published_at)}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {/* Footer */}
+                <div className="flex items-center justify-between pt-4 border-t border-gray-100 text-sm text-gray-500">
+                    <span>📅 {formatTime(story.firstPublishedAt)}{story.lastPublishedAt !== story.firstPublishedAt && ` – ${formatTime(story.lastPublishedAt)}`}</span>
+                    <span className="truncate max-w-[150px]">📰 {canonical.source}</span>
+                </div>
+            </div>
+        </article>
+    );
+}
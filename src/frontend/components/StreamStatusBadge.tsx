@@ -0,0 +1,31 @@
+import type { StreamStatus } from "../services/interface";
+
+interface StreamStatusBadgeProps {
+    status: StreamStatus
+    variant?: 'dark' | 'light'
+}
+
+const STATUS_STYLES: Record<StreamStatus, { label: string; dot: string }> = {
+    live: { label: 'Live Data', dot: 'bg-green-400 animate-pulse' },
+    connecting: { label: 'Connecting...', dot: 'bg-gray-400' },
+    reconnecting: { label: 'Reconnecting...', dot: 'bg-yellow-400 animate-pulse' }
+};
+
+/**
+ * Connection status of the live data stream
+ * Use the dark variant on colored backgrounds (e.g., the Home hero)
+ */
+export default function StreamStatusBadge({ status, variant = 'light' }: StreamStatusBadgeProps) {
+    const { label, dot } = STATUS_STYLES[status];
+
+    return (
+        <div className={`flex items-center space-x-2 px-4 py-2 rounded-lg border ${
+            variant === 'dark'
+                ? 'bg-white/10 backdrop-blur-sm border-white/20 text-white'
+                : 'bg-white border-gray-200 text-gray-700'
+        }`}>
+            <div className={`w-2 h-2 rounded-full ${dot}`}></div>
+            <span className="text-sm font-medium">{label}</span>
+        </div>
+    );
+}
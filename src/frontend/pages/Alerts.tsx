@@ -0,0 +1,399 @@
+import { useEffect, useState } from "react"
+import {
+    acknowledgeAlertTriggers,
+    createAlert,
+    deleteAlert,
+    getAlerts,
+    getAlertTriggers,
+    getInstruments,
+    updateAlert
+} from "../services/api"
+import type {
+    AlertField,
+    AlertKind,
+    AlertOperator,
+    AlertRule,
+    AlertTargetType,
+    AlertTrigger,
+    TrackedInstrument
+} from "../services/interface"
+
+const FIELD_LABELS: Record<AlertField, string> = {
+    price: 'Price',
+    change: 'Change',
+    changePercent: 'Change %',
+    sentiment: 'Sentiment'
+}
+
+const OPERATOR_LABELS: Record<AlertOperator, string> = {
+    '>': 'above',
+    '<': 'below',
+    crosses: 'crosses'
+}
+
+// Describe a rule's condition, e.g., 'GLD Change % above 2' or 'Any TSLA news'
+const describeRule = (rule: AlertRule) => {
+    if (!rule.operator || rule.threshold === null) return `Any ${rule.symbol} news`
+    const subject = rule.kind === 'news' ? `${rule.symbol} news sentiment` : `${rule.symbol} ${FIELD_LABELS[rule.field || 'price']}`
+    return `${subject} ${OPERATOR_LABELS[rule.operator]} ${rule.threshold}`
+}
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '-')
+
+export default function Alerts() {
+    const [rules, setRules] = useState<AlertRule[]>([])
+    const [triggers, setTriggers] = useState<AlertTrigger[]>([])
+    const [instruments, setInstruments] = useState<TrackedInstrument[]>([])
+    const [unacknowledged, setUnacknowledged] = useState(0)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+
+    // New rule form
+    const [kind, setKind] = useState<AlertKind>('price')
+    const [targetType, setTargetType] = useState<AlertTargetType>('stock')
+    const [symbol, setSymbol] = useState('')
+    const [field, setField] = useState<AlertField>('price')
+    const [operator, setOperator] = useState<AlertOperator | ''>('>')
+    const [threshold, setThreshold] = useState('')
+    const [hysteresis, setHysteresis] = useState('0')
+    const [cooldownMinutes, setCooldownMinutes] = useState('60')
+    const [name, setName] = useState('')
+
+    const loadTriggers = async () => {
+        const data = await getAlertTriggers({ limit: 100 })
+        setTriggers(data.triggers)
+        setUnacknowledged(data.unacknowledged)
+    }
+
+    useEffect(() => {
+        const loadAlerts = async () => {
+            try {
+                const [ruleData, triggerData, tracked] = await Promise.all([
+                    getAlerts(),
+                    getAlertTriggers({ limit: 100 }),
+                    getInstruments()
+                ])
+                setRules(ruleData)
+                setInstruments(tracked)
+                setTriggers(triggerData.triggers)
+                setUnacknowledged(triggerData.unacknowledged)
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to load alerts')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        loadAlerts()
+    }, [])
+
+    const handleKindChange = (value: AlertKind) => {
+        setKind(value)
+        setSymbol('')
+        setTargetType('stock')
+        setField(value === 'news' ? 'sentiment' : 'price')
+        setOperator(value === 'news' ? '' : '>')
+        setThreshold('')
+    }
+
+    const handleTargetTypeChange = (value: AlertTargetType) => {
+        setTargetType(value)
+        setSymbol('')
+        // Currency rates only have a price
+        if (value === 'currency') setField('price')
+    }
+
+    const handleCreate = async () => {
+        if (!symbol.trim()) return
+        setError(null)
+        setSaving(true)
+        try {
+            const created = await createAlert({
+                name: name.trim() || undefined,
+                kind,
+                targetType: kind === 'price' ? targetType : null,
+                symbol: symbol.trim(),
+                field: kind === 'price' ? field : operator ? 'sentiment' : null,
+                operator: operator || null,
+                threshold: threshold.trim() ? Number(threshold) : null,
+                hysteresis: Number(hysteresis) || 0,
+                cooldownMinutes: Number(cooldownMinutes) || 0
+            })
+            setRules(prev => [created, ...prev])
+            setSymbol('')
+            setThreshold('')
+            setName('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create alert')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleToggle = async (rule: AlertRule) => {
+        setError(null)
+        try {
+            const updated = await updateAlert(rule.id, { enabled: !rule.enabled })
+            setRules(prev => prev.map(r => (r.id === updated.id ? updated : r)))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update alert')
+        }
+    }
+
+    const handleDelete = async (rule: AlertRule) => {
+        if (!window.confirm(`Delete alert "${rule.name}"?`)) return
+        setError(null)
+        try {
+            await deleteAlert(rule.id)
+            setRules(prev => prev.filter(r => r.id !== rule.id))
+            await loadTriggers()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete alert')
+        }
+    }
+
+    const handleAcknowledge = async (ids?: number[]) => {
+        setError(null)
+        try {
+            await acknowledgeAlertTriggers(ids)
+            await loadTriggers()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to acknowledge alerts')
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="text-center py-12">
+                <p className="text-gray-600">Loading alerts...</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Title */}
+            <h1 className="text-3xl font-bold">Alerts</h1>
+
+            {error && (
+                <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+                    {error}
+                </div>
+            )}
+
+            {/* New rule form */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                <h2 className="text-xl font-bold">New Alert</h2>
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        value={kind}
+                        onChange={(e) => handleKindChange(e.target.value as AlertKind)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                    >
+                        <option value="price">Price</option>
+                        <option value="news">News</option>
+                    </select>
+                    {kind === 'price' && (
+                        <select
+                            value={targetType}
+                            onChange={(e) => handleTargetTypeChange(e.target.value as AlertTargetType)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                        >
+                            <option value="stock">Stock</option>
+                            <option value="commodity">Commodity</option>
+                            <option value="currency">Currency</option>
+                        </select>
+                    )}
+                    {kind === 'news' || targetType === 'stock' ? (
+                        <input
+                            type="text"
+                            placeholder="Stock symbol (e.g., TSLA)"
+                            value={symbol}
+                            onChange={(e) => setSymbol(e.target.value)}
+                            className="w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    ) : (
+                        <select
+                            value={symbol}
+                            onChange={(e) => setSymbol(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                        >
+                            <option value="">Select...</option>
+                            {instruments
+                                .filter((i) => i.type === targetType && i.enabled)
+                                .map((i) => (
+                                    <option key={i.id} value={i.symbol}>
+                                        {i.name === i.symbol ? i.symbol : `${i.name} (${i.symbol})`}
+                                    </option>
+                                ))}
+                        </select>
+                    )}
+                    {kind === 'price' ? (
+                        <select
+                            value={field}
+                            onChange={(e) => setField(e.target.value as AlertField)}
+                            disabled={targetType === 'currency'}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white disabled:bg-gray-100"
+                        >
+                            <option value="price">Price</option>
+                            <option value="change">Change</option>
+                            <option value="changePercent">Change %</option>
+                        </select>
+                    ) : (
+                        <span className="px-3 py-2 text-gray-600">Sentiment</span>
+                    )}
+                    <select
+                        value={operator}
+                        onChange={(e) => setOperator(e.target.value as AlertOperator | '')}
+                        className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                    >
+                        {kind === 'news' && <option value="">any article</option>}
+                        <option value=">">above</option>
+                        <option value="<">below</option>
+                        {kind === 'price' && <option value="crosses">crosses</option>}
+                    </select>
+                    {operator && (
+                        <input
+                            type="number"
+                            step="any"
+                            placeholder={kind === 'news' ? 'Score (-1 to 1)' : 'Threshold'}
+                            value={threshold}
+                            onChange={(e) => setThreshold(e.target.value)}
+                            className="w-36 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="text"
+                        placeholder="Name (optional)"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {kind === 'price' && (
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                            Hysteresis
+                            <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={hysteresis}
+                                onChange={(e) => setHysteresis(e.target.value)}
+                                className="w-24 px-3 py-2 border border-gray-300 rounded-lg"
+                            />
+                        </label>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Cooldown (min)
+                        <input
+                            type="number"
+                            min="0"
+                            value={cooldownMinutes}
+                            onChange={(e) => setCooldownMinutes(e.target.value)}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                    </label>
+                    <button
+                        onClick={handleCreate}
+                        disabled={saving || !symbol.trim() || (operator !== '' && !threshold.trim())}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {saving ? 'Saving...' : 'Create'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Rules */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                <h2 className="text-xl font-bold">Rules</h2>
+                {rules.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">No alert rules yet</div>
+                ) : (
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                                <th className="py-2 px-2 font-medium">Name</th>
+                                <th className="py-2 px-2 font-medium">Condition</th>
+                                <th className="py-2 px-2 font-medium text-right">Last Value</th>
+                                <th className="py-2 px-2 font-medium">Last Triggered</th>
+                                <th className="py-2 px-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rules.map((rule) => (
+                                <tr key={rule.id} className={`border-b border-gray-100 hover:bg-gray-50 ${rule.enabled ? '' : 'text-gray-400'}`}>
+                                    <td className="py-2 px-2 font-semibold">{rule.name}</td>
+                                    <td className="py-2 px-2">
+                                        {describeRule(rule)}
+                                        <span className="ml-2 text-sm text-gray-500">
+                                            {rule.hysteresis > 0 && `±${rule.hysteresis}, `}{rule.cooldownMinutes} min cooldown
+                                        </span>
+                                    </td>
+                                    <td className="py-2 px-2 text-right">{rule.lastValue ?? '-'}</td>
+                                    <td className="py-2 px-2 text-gray-600">{formatDateTime(rule.lastTriggeredAt)}</td>
+                                    <td className="py-2 px-2 text-right space-x-3 whitespace-nowrap">
+                                        <button
+                                            onClick={() => handleToggle(rule)}
+                                            className="text-sm text-gray-500 hover:text-blue-600"
+                                        >
+                                            {rule.enabled ? 'Disable' : 'Enable'}
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(rule)}
+                                            className="text-sm text-gray-500 hover:text-red-600"
+                                        >
+                                            Delete
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Trigger history */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <h2 className="text-xl font-bold">
+                        Triggered
+                        {unacknowledged > 0 && <span className="ml-2 text-base font-medium text-red-600">({unacknowledged} new)</span>}
+                    </h2>
+                    <button
+                        onClick={() => handleAcknowledge()}
+                        disabled={unacknowledged === 0}
+                        className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-lg hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Mark all read
+                    </button>
+                </div>
+                {triggers.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">No alerts have triggered yet</div>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {triggers.map((trigger) => (
+                            <li key={trigger.id} className={`py-3 flex items-start justify-between gap-4 ${trigger.acknowledged ? 'text-gray-500' : ''}`}>
+                                <div>
+                                    <div className={trigger.acknowledged ? '' : 'font-semibold'}>{trigger.message}</div>
+                                    <div className="text-sm text-gray-500">
+                                        {trigger.alertName} · {formatDateTime(trigger.triggeredAt)}
+                                    </div>
+                                </div>
+                                {!trigger.acknowledged && (
+                                    <button
+                                        onClick={() => handleAcknowledge([trigger.id])}
+                                        className="text-sm text-gray-500 hover:text-blue-600 whitespace-nowrap"
+                                    >
+                                        Mark read
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    )
+}
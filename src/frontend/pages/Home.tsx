@@ -1,33 +1,19 @@
 import { useState, useEffect } from 'react'
-import type { CurrencyRate, StockQuote } from '../services/interface'
+import type { CommodityPrice, CurrencyRate, StreamStatus, TrackedInstrument } from '../services/interface'
+import { getInstruments } from '../services/api'
+import { openMarketStream } from '../services/stream'
+import StreamStatusBadge from '../components/StreamStatusBadge'
 
 const API_BASE_URL = 'http://localhost:3001/api';
 
-//4 main currency pairs
-const MAIN_CURRENCIES = [
-    { from: 'USD', to: 'CNY', name: 'USD/CNY' },
-    { from: 'EUR', to: 'USD', name: 'EUR/USD' },
-    { from: 'GBP', to: 'USD', name: 'GBP/USD' },
-    { from: 'USD', to: 'JPY', name: 'USD/JPY' }
-]
-
-// Popular commodities (using ETF symbols)
-const POPULAR_COMMODITIES = [
-    { symbol: 'GLD', name: 'Gold', unit: 'USD/oz' },
-    { symbol: 'SLV', name: 'Silver', unit: 'USD/oz' },
-    { symbol: 'USO', name: 'Crude Oil', unit: 'USD/barrel' },
-    { symbol: 'CPER', name: 'Copper', unit: 'USD/lb' },
-    { symbol: 'CORN', name: 'Corn', unit: 'USD/bushel' },
-    { symbol: 'WEAT', name: 'Wheat', unit: 'USD/bushel' },
-    { symbol: 'SOYB', name: 'Soybean', unit: 'USD/bushel' },
-    { symbol: 'NIB', name: 'Cocoa', unit: 'USD/metric ton' }
-]
-
 export default function Home() {
+    const [instruments, setInstruments] = useState<TrackedInstrument[]>([]);
     const [currencyData, setCurrencyData] = useState<CurrencyRate[]>([]);
-    const [commodityData, setCommodityData] = useState<StockQuote[]>([]);
+    const [commodityData, setCommodityData] = useState<CommodityPrice[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+    const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
     useEffect(() => {
         const fetchData = async () => {
@@ -35,6 +21,9 @@ export default function Home() {
             setError(null);
             
             try {
+                // Fetch tracked instruments (names, units and display order)
+                setInstruments(await getInstruments());
+                
                 // Fetch currency rates
                 const currencyResponse = await fetch(`${API_BASE_URL}/currency-rates`);
                 
@@ -71,6 +60,7 @@ export default function Home() {
                 
                 if (commodityResult.success) {
                     setCommodityData(commodityResult.data);
+                    setLastUpdated(new Date());
                 } else {
                     throw new Error(commodityResult.error || 'Failed to fetch commodity prices');
                 }
@@ -86,6 +76,48 @@ export default function Home() {
         fetchData();
     }, []);
 
+    // Enabled instruments in display order (the API sorts them)
+    const currencyPairs = instruments.filter(i => i.type === 'currency' && i.enabled);
+    const commodities = instruments.filter(i => i.type === 'commodity' && i.enabled);
+
+    // Rates and prices of the enabled instruments, in display order
+    const displayedCurrencies = currencyPairs.flatMap(pair => {
+        const currency = currencyData.find(c => `${c.fromCurrency}/${c.toCurrency}` === pair.symbol);
+        return currency ? [{ pair, currency }] : [];
+    });
+    const displayedCommodities = commodities.flatMap(info => {
+        const commodity = commodityData.find(c => c.symbol === info.symbol);
+        return commodity ? [{ info, commodity }] : [];
+    });
+
+    const streamSymbols = [...currencyPairs, ...commodities].map(i => i.symbol).join(',');
+
+    // Apply live updates pushed by the backend whenever new rates or prices are saved
+    // (an empty symbol list would subscribe to everything, so wait for the instruments)
+    useEffect(() => {
+        if (!streamSymbols) return;
+
+        return openMarketStream(streamSymbols.split(','), {
+            onCurrencyRate: (rate) => {
+                setCurrencyData(prev => {
+                    const exists = prev.some(c => c.fromCurrency === rate.fromCurrency && c.toCurrency === rate.toCurrency);
+                    return exists
+                        ? prev.map(c => (c.fromCurrency === rate.fromCurrency && c.toCurrency === rate.toCurrency ? rate : c))
+                        : [...prev, rate];
+                });
+                setLastUpdated(new Date());
+            },
+            onCommodityPrice: (price) => {
+                setCommodityData(prev => {
+                    const exists = prev.some(c => c.symbol === price.symbol);
+                    return exists ? prev.map(c => (c.symbol === price.symbol ? price : c)) : [...prev, price];
+                });
+                setLastUpdated(new Date());
+            },
+            onStatusChange: setStreamStatus
+        });
+    }, [streamSymbols]);
+
     return (
     <div className="space-y-10">
         {/* Hero Section */}
@@ -102,12 +134,9 @@ export default function Home() {
                     </div>
                 </div>
                 <div className="flex items-center space-x-4 mt-6">
-                    <div className="flex items-center space-x-2 px-4 py-2 bg-white/10 backdrop-blur-sm rounded-lg border border-white/20">
-                        <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                        <span className="text-sm font-medium text-white">Live Data</span>
-                    </div>
+                    <StreamStatusBadge status={streamStatus} variant="dark" />
                     <div className="text-sm text-blue-100">
-                        Last updated: {new Date().toLocaleTimeString()}
+                        Last updated: {lastUpdated ? lastUpdated.toLocaleTimeString() : '-'}
                     </div>
                 </div>
             </div>
@@ -135,10 +164,7 @@ export default function Home() {
                 </div>
             ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
-                    {currencyData.map((currency) => {
-                        const currencyInfo = MAIN_CURRENCIES.find(
-                            c => c.from === currency.fromCurrency && c.to === currency.toCurrency
-                        );
+                    {displayedCurrencies.map(({ pair, currency }) => {
                         const rate = parseFloat(currency.exchangeRate);
                         
                         return (
@@ -150,7 +176,7 @@ export default function Home() {
                                 <div className="relative z-10">
                                     <div className="flex items-center justify-between mb-3">
                                         <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
-                                            {currencyInfo?.name || `${currency.fromCurrency}/${currency.toCurrency}`}
+                                            {pair.name}
                                         </div>
                                         <div className="w-8 h-8 bg-gradient-to-br from-blue-100 to-blue-200 rounded-lg flex items-center justify-center">
                                             <span className="text-sm">💱</span>
@@ -206,8 +232,7 @@ export default function Home() {
                 <div className="relative overflow-hidden bg-gradient-to-br from-white to-gray-50 rounded-xl p-6 shadow-xl border border-gray-200">
                     <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent animate-shimmer"></div>
                     <div className="flex animate-scroll space-x-6">
-                        {[...commodityData, ...commodityData].map((commodity, index) => {
-                            const commodityInfo = POPULAR_COMMODITIES.find(c => c.symbol === commodity.symbol);
+                        {[...displayedCommodities, ...displayedCommodities].map(({ info, commodity }, index) => {
                             const change = parseFloat(commodity.change);
                             const isPositive = change >= 0;
                             
@@ -223,10 +248,10 @@ export default function Home() {
                                             </div>
                                             <div>
                                                 <div className="font-bold text-lg text-gray-800">
-                                                    {commodityInfo?.name || commodity.symbol}
+                                                    {info.name}
                                                 </div>
                                                 <div className="text-xs text-gray-500 font-medium">
-                                                    {commodityInfo?.unit || ''}
+                                                    {info.unit || ''}
                                                 </div>
                                             </div>
                                         </div>
@@ -1,8 +1,102 @@
-import { useState, useEffect } from 'react';
-import type { News, NewsEntity } from '../services/interface';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type {
+    HeadlineFactorName,
+    HeadlineRanking,
+    News,
+    NewsEntity,
+    NewsSearchFragment,
+    NewsSearchResult,
+    NewsStory
+} from '../services/interface';
+import { searchNews } from '../services/api';
+import SentimentHeatmap from '../components/SentimentHeatmap';
+import StoryCard from '../components/StoryCard';
 
 const API_BASE_URL = 'http://localhost:3001/api';
 
+// Articles loaded per page while scrolling
+const PAGE_SIZE = 20;
+
+// Stories shown when grouping by story (not paginated)
+const STORY_LIMIT = 100;
+
+// localStorage key of the preferred news language
+const LANGUAGE_STORAGE_KEY = 'news.language';
+
+// Article languages supported by Marketaux
+const NEWS_LANGUAGES: Record<string, string> = {
+    ar: 'Arabic',
+    bg: 'Bulgarian',
+    bn: 'Bengali',
+    cs: 'Czech',
+    da: 'Danish',
+    de: 'German',
+    el: 'Greek',
+    en: 'English',
+    es: 'Spanish',
+    et: 'Estonian',
+    fa: 'Persian',
+    fi: 'Finnish',
+    fr: 'French',
+    he: 'Hebrew',
+    hi: 'Hindi',
+    hr: 'Croatian',
+    hu: 'Hungarian',
+    id: 'Indonesian',
+    it: 'Italian',
+    ja: 'Japanese',
+    ko: 'Korean',
+    lt: 'Lithuanian',
+    nl: 'Dutch',
+    no: 'Norwegian',
+    pl: 'Polish',
+    pt: 'Portuguese',
+    ro: 'Romanian',
+    ru: 'Russian',
+    sk: 'Slovak',
+    sv: 'Swedish',
+    ta: 'Tamil',
+    th: 'Thai',
+    tr: 'Turkish',
+    uk: 'Ukrainian',
+    vi: 'Vietnamese',
+    zh: 'Chinese'
+};
+
+const loadLanguagePreference = () => {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return stored && stored in NEWS_LANGUAGES ? stored : 'en';
+};
+
+const HEADLINE_FACTOR_LABELS: Record<HeadlineFactorName, string> = {
+    recency: 'Recency',
+    sourceReputation: 'Source',
+    entityCount: 'Entities',
+    matchScore: 'Match score',
+    sentiment: 'Sentiment',
+    coverage: 'Coverage'
+};
+
+const formatFactorValue = (name: HeadlineFactorName, value: number) => {
+    if (name === 'recency') return `${value.toFixed(1)}h old`;
+    if (name === 'entityCount' || name === 'coverage') return String(value);
+    return value.toFixed(2);
+};
+
+// Factors sorted by how much they added to the headline score
+const describeRanking = (ranking: HeadlineRanking) => [
+    `#${ranking.rank} · score ${ranking.score.toFixed(2)}`,
+    ...[...ranking.factors]
+        .sort((a, b) => b.contribution - a.contribution)
+        .map(f => `${HEADLINE_FACTOR_LABELS[f.name]} (${formatFactorValue(f.name, f.value)}): +${f.contribution.toFixed(2)}`)
+].join('\n');
+
+const toDateInputValue = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
 export default function News() {
     const [newsData, setNewsData] = useState<News[]>([]);
     const [loading, setLoading] = useState(true);
@@ -10,60 +104,53 @@ export default function News() {
     const [filterSymbols, setFilterSymbols] = useState<string>('');
     const [showHeadlines, setShowHeadlines] = useState(false);
     const [filterSentiment, setFilterSentiment] = useState<'all' | 'positive' | 'negative' | 'neutral'>('all');
+    const [filterDate, setFilterDate] = useState(() => toDateInputValue(new Date()));
+    const [filterLanguage, setFilterLanguage] = useState(loadLanguagePreference);
+    const [groupByStory, setGroupByStory] = useState(false);
+    const [stories, setStories] = useState<NewsStory[]>([]);
+    
+    // Cursor pagination state (infinite scroll)
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const loadMoreRef = useRef<HTMLDivElement>(null);
+    // Increases with every new list request so responses for old filters are dropped
+    const requestIdRef = useRef(0);
+    
+    // Full-text search state (results are shown above the news list)
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchFrom, setSearchFrom] = useState('');
+    const [searchTo, setSearchTo] = useState('');
+    const [searchResults, setSearchResults] = useState<NewsSearchResult[] | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
     
     // Headline news state (for scrolling ticker)
     const [headlineNews, setHeadlineNews] = useState<News[]>([]);
     const [headlineLoading, setHeadlineLoading] = useState(true);
 
-    // Fetch headline news only once when component mounts
+    // Fetch headline news when the component mounts and when the language changes
     useEffect(() => {
-        fetchHeadlineNews();
-    }, []); // Empty dependency array - only runs once on mount
-
-    useEffect(() => {
-        fetchNews();
-    }, [showHeadlines, filterSymbols, filterSentiment]);
-
-    // Fetch headline news for scrolling ticker
-    // This only runs once when the page loads, and checks if today's news exists
-    const fetchHeadlineNews = async () => {
-        setHeadlineLoading(true);
-        try {
-            const response = await fetch(`${API_BASE_URL}/news?headlines=true`);
-            
-            if (!response.ok) {
-                throw new Error(`Failed to fetch headline news: ${response.status}`);
-            }
-
-            const contentType = response.headers.get('content-type');
-            if (!contentType || !contentType.includes('application/json')) {
-                throw new Error('Server returned non-JSON response');
-            }
-
-            const result = await response.json();
-
-            if (result.success) {
-                setHeadlineNews(result.data || []);
-            } else {
-                console.warn('No headline news available:', result.error);
-                setHeadlineNews([]);
-            }
-        } catch (err) {
-            console.error('Error fetching headline news:', err);
-            // Don't show error to user for headline news, just set empty array
-            setHeadlineNews([]);
-        } finally {
-            setHeadlineLoading(false);
+        localStorage.setItem(LANGUAGE_STORAGE_KEY, filterLanguage);
+        fetchHeadlineNews(filterLanguage);
+    }, [filterLanguage]);
+
+    // Load the first page, or the page after cursor (appended to the list)
+    const fetchNews = useCallback(async (cursor?: string) => {
+        const requestId = cursor ? requestIdRef.current : ++requestIdRef.current;
+        if (cursor) {
+            setLoadingMore(true);
+        } else {
+            setLoading(true);
+            setNextCursor(null);
         }
-    };
-
-    const fetchNews = async () => {
-        setLoading(true);
         setError(null);
 
+        // One card per story instead of per article (headlines are always listed per article)
+        const storyMode = groupByStory && !showHeadlines;
+
         try {
-            let url = `${API_BASE_URL}/news`;
-            const params = new URLSearchParams();
+            let url = `${API_BASE_URL}${storyMode ? '/news/stories' : '/news'}`;
+            const params = new URLSearchParams({ language: filterLanguage });
 
             if (showHeadlines) {
                 params.append('headlines', 'true');
@@ -79,7 +166,11 @@ export default function News() {
                     params.append('sentiment_gte', '0');
                     params.append('sentiment_lte', '0');
                 }
-                params.append('limit', '50');
+                params.append('date', filterDate);
+                params.append('limit', String(storyMode ? STORY_LIMIT : PAGE_SIZE));
+                if (cursor && !storyMode) {
+                    params.append('cursor', cursor);
+                }
             }
 
             if (params.toString()) {
@@ -98,21 +189,120 @@ export default function News() {
             }
 
             const result = await response.json();
-
-            if (result.success) {
-                setNewsData(result.data || []);
+            if (requestId !== requestIdRef.current) return;
+
+            if (result.success && storyMode) {
+                setStories(result.data || []);
+                setNewsData([]);
+            } else if (result.success) {
+                const articles: News[] = result.data || [];
+                setNewsData(previous => (cursor ? [...previous, ...articles] : articles));
+                setNextCursor(result.meta?.nextCursor || null);
             } else {
                 throw new Error(result.error || 'Failed to fetch news');
             }
         } catch (err) {
+            if (requestId !== requestIdRef.current) return;
             const errorMessage = err instanceof Error ? err.message : 'Failed to load news';
             setError(errorMessage);
             console.error('Error fetching news:', err);
         } finally {
-            setLoading(false);
+            if (cursor) {
+                setLoadingMore(false);
+            } else if (requestId === requestIdRef.current) {
+                setLoading(false);
+            }
+        }
+    }, [showHeadlines, filterSymbols, filterSentiment, filterDate, filterLanguage, groupByStory]);
+
+    // Reload from the first page whenever a filter changes
+    useEffect(() => {
+        fetchNews();
+    }, [fetchNews]);
+
+    // Load the next page when the end of the list scrolls into view
+    useEffect(() => {
+        const sentinel = loadMoreRef.current;
+        if (!sentinel || !nextCursor || loading || loadingMore) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries[0].isIntersecting) fetchNews(nextCursor);
+        }, { rootMargin: '400px' });
+        observer.observe(sentinel);
+
+        return () => observer.disconnect();
+    }, [nextCursor, loading, loadingMore, fetchNews]);
+
+    // Fetch headline news for scrolling ticker
+    // This runs when the page loads or the language changes, and checks if today's news exists
+    const fetchHeadlineNews = async (language: string) => {
+        setHeadlineLoading(true);
+        try {
+            const response = await fetch(`${API_BASE_URL}/news?headlines=true&language=${language}`);
+            
+            if (!response.ok) {
+                throw new Error(`Failed to fetch headline news: ${response.status}`);
+            }
+
+            const contentType = response.headers.get('content-type');
+            if (!contentType || !contentType.includes('application/json')) {
+                throw new Error('Server returned non-JSON response');
+            }
+
+            const result = await response.json();
+
+            if (result.success) {
+                setHeadlineNews(result.data || []);
+            } else {
+                console.warn('No headline news available:', result.error);
+                setHeadlineNews([]);
+            }
+        } catch (err) {
+            console.error('Error fetching headline news:', err);
+            // Don't show error to user for headline news, just set empty array
+            setHeadlineNews([]);
+        } finally {
+            setHeadlineLoading(false);
+        }
+    };
+
+    const handleSearch = async () => {
+        if (!searchQuery.trim()) return;
+        setSearching(true);
+        setSearchError(null);
+        try {
+            setSearchResults(await searchNews(searchQuery.trim(), searchFrom || undefined, searchTo || undefined));
+        } catch (err) {
+            setSearchError(err instanceof Error ? err.message : 'Search failed');
+            setSearchResults(null);
+        } finally {
+            setSearching(false);
         }
     };
 
+    const clearSearch = () => {
+        setSearchQuery('');
+        setSearchResults(null);
+        setSearchError(null);
+    };
+
+    // Render a fragment with its matched terms highlighted
+    const renderFragment = (fragment: NewsSearchFragment) => {
+        const parts: React.ReactNode[] = [];
+        let position = 0;
+        fragment.matches.forEach((match, idx) => {
+            parts.push(fragment.text.slice(position, match.start));
+            parts.push(
+                <mark key={idx} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                    {fragment.text.slice(match.start, match.end)}
+                </mark>
+            );
+            position = match.end;
+        });
+        parts.push(fragment.text.slice(position));
+        return parts;
+    };
+
     const formatDate = (dateString: string) => {
         try {
             const date = new Date(dateString);
@@ -179,6 +369,7 @@ export default function News() {
                             {[...headlineNews, ...headlineNews].map((article, index) => (
                                 <div
                                     key={`${article.uuid}-${index}`}
+                                    title={article.ranking ? describeRanking(article.ranking) : undefined}
                                     className="flex-shrink-0 flex items-center space-x-4 bg-white rounded-lg px-6 py-3 border border-yellow-200 shadow-md hover:shadow-lg transition-all duration-300 group"
                                 >
                                     {/* Breaking News Badge */}
@@ -230,6 +421,124 @@ export default function News() {
                 </div>
             )}
 
+            {/* Search Section */}
+            <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+                <div className="flex flex-col md:flex-row gap-4">
+                    <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Search Stored News
+                        </label>
+                        <input
+                            type="text"
+                            placeholder='e.g., rate cut, "earnings beat"'
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSearch();
+                            }}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                    </div>
+                    <div className="md:w-40">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                        <input
+                            type="date"
+                            value={searchFrom}
+                            onChange={(e) => setSearchFrom(e.target.value)}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                    </div>
+                    <div className="md:w-40">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                        <input
+                            type="date"
+                            value={searchTo}
+                            onChange={(e) => setSearchTo(e.target.value)}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <button
+                            onClick={handleSearch}
+                            disabled={searching || !searchQuery.trim()}
+                            className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                        >
+                            {searching ? 'Searching...' : 'Search'}
+                        </button>
+                        {searchResults && (
+                            <button
+                                onClick={clearSearch}
+                                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors font-medium"
+                            >
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {searchError && (
+                    <p className="mt-3 text-sm text-red-600">{searchError}</p>
+                )}
+            </div>
+
+            {/* Search Results */}
+            {searchResults && (
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-2xl font-bold text-gray-800">Search Results</h2>
+                        <span className="text-sm text-gray-500">
+                            {searchResults.length} {searchResults.length === 1 ? 'article' : 'articles'}
+                        </span>
+                    </div>
+                    {searchResults.length === 0 ? (
+                        <div className="text-center py-12 bg-white rounded-xl shadow-lg border border-gray-100">
+                            <span className="text-4xl mb-4 block">🔍</span>
+                            <p className="text-gray-600 font-medium">No stored articles match your search</p>
+                        </div>
+                    ) : (
+                        searchResults.map((article) => (
+                            <article
+                                key={article.uuid}
+                                className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 hover:border-purple-300 transition-colors"
+                            >
+                                <h3 className="text-lg font-bold text-gray-900 mb-2">
+                                    <a
+                                        href={article.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="hover:underline hover:text-purple-600"
+                                    >
+                                        {(() => {
+                                            const titleFragment = article.fragments.find(fragment => fragment.field === 'title');
+                                            return titleFragment ? renderFragment(titleFragment) : article.title;
+                                        })()}
+                                    </a>
+                                </h3>
+                                <div className="space-y-1 mb-3">
+                                    {article.fragments
+                                        .filter(fragment => fragment.field !== 'title')
+                                        .map((fragment, idx) => (
+                                            <p key={idx} className="text-sm text-gray-600">
+                                                {fragment.field === 'highlight' && (
+                                                    <span className="mr-2 text-xs font-medium text-purple-600 uppercase">Highlight</span>
+                                                )}
+                                                {renderFragment(fragment)}
+                                            </p>
+                                        ))}
+                                </div>
+                                <div className="flex items-center space-x-4 text-sm text-gray-500">
+                                    <span>📅 {formatDate(article.published_at)}</span>
+                                    <span className="truncate max-w-[150px]">📰 {article.source}</span>
+                                    <span>Relevance {article.relevance.toFixed(2)}</span>
+                                </div>
+                            </article>
+                        ))
+                    )}
+                </div>
+            )}
+
+            {/* Industry x Country Sentiment */}
+            <SentimentHeatmap />
+
             {/* Filters Section */}
             <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
                 <div className="flex flex-col md:flex-row gap-4">
@@ -248,6 +557,37 @@ export default function News() {
                         />
                     </div>
 
+                    {/* Date Filter */}
+                    <div className="md:w-44">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Date
+                        </label>
+                        <input
+                            type="date"
+                            value={filterDate}
+                            max={toDateInputValue(new Date())}
+                            onChange={(e) => setFilterDate(e.target.value || toDateInputValue(new Date()))}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                            disabled={showHeadlines}
+                        />
+                    </div>
+
+                    {/* Language Filter */}
+                    <div className="md:w-44">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Language
+                        </label>
+                        <select
+                            value={filterLanguage}
+                            onChange={(e) => setFilterLanguage(e.target.value)}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        >
+                            {Object.entries(NEWS_LANGUAGES).map(([code, name]) => (
+                                <option key={code} value={code}>{name}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     {/* Sentiment Filter */}
                     <div className="md:w-48">
                         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -285,10 +625,24 @@ export default function News() {
                         </label>
                     </div>
 
+                    {/* Story Grouping Toggle */}
+                    <div className="flex items-end">
+                        <label className="flex items-center space-x-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={groupByStory}
+                                onChange={(e) => setGroupByStory(e.target.checked)}
+                                className="w-5 h-5 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                                disabled={showHeadlines}
+                            />
+                            <span className="text-sm font-medium text-gray-700">Group by Story</span>
+                        </label>
+                    </div>
+
                     {/* Refresh Button */}
                     <div className="flex items-end">
                         <button
-                            onClick={fetchNews}
+                            onClick={() => fetchNews()}
                             disabled={loading}
                             className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
                         >
@@ -311,6 +665,30 @@ export default function News() {
                         <p className="text-red-700 font-medium">{error}</p>
                     </div>
                 </div>
+            ) : groupByStory && !showHeadlines ? (
+                stories.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl shadow-lg border border-gray-100">
+                        <span className="text-4xl mb-4 block">📭</span>
+                        <p className="text-gray-600 font-medium">No stories found</p>
+                        <p className="text-gray-500 text-sm mt-2">Try adjusting your filters or check back later</p>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="flex items-center justify-between">
+                            <h2 className="text-2xl font-bold text-gray-800">
+                                {filterDate === toDateInputValue(new Date()) ? 'Latest Stories' : `Stories for ${filterDate}`}
+                            </h2>
+                            <span className="text-sm text-gray-500">
+                                {stories.length} {stories.length === 1 ? 'story' : 'stories'}
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {stories.map(story => (
+                                <StoryCard key={story.id} story={story} />
+                            ))}
+                        </div>
+                    </div>
+                )
             ) : newsData.length === 0 ? (
                 <div className="text-center py-12 bg-white rounded-xl shadow-lg border border-gray-100">
                     <span className="text-4xl mb-4 block">📭</span>
@@ -321,7 +699,9 @@ export default function News() {
                 <div className="space-y-6">
                     <div className="flex items-center justify-between">
                         <h2 className="text-2xl font-bold text-gray-800">
-                            {showHeadlines ? 'Headline News' : 'Latest News'}
+                            {showHeadlines
+                                ? 'Headline News'
+                                : filterDate === toDateInputValue(new Date()) ? 'Latest News' : `News for ${filterDate}`}
                         </h2>
                         <span className="text-sm text-gray-500">
                             {newsData.length} {newsData.length === 1 ? 'article' : 'articles'}
@@ -398,6 +778,23 @@ export default function News() {
                                         </div>
                                     )}
 
+                                    {/* Headline ranking */}
+                                    {article.ranking && (
+                                        <div className="mb-4 flex flex-wrap items-center gap-2 text-xs" title={describeRanking(article.ranking)}>
+                                            <span className="px-2 py-1 bg-orange-50 text-orange-700 font-semibold rounded border border-orange-200">
+                                                #{article.ranking.rank} · {article.ranking.score.toFixed(2)}
+                                            </span>
+                                            {[...article.ranking.factors]
+                                                .sort((a, b) => b.contribution - a.contribution)
+                                                .slice(0, 3)
+                                                .map(factor => (
+                                                    <span key={factor.name} className="text-gray-500">
+                                                        {HEADLINE_FACTOR_LABELS[factor.name]} +{factor.contribution.toFixed(2)}
+                                                    </span>
+                                                ))}
+                                        </div>
+                                    )}
+
                                     {/* Categories */}
                                     {article.categories && article.categories.length > 0 && (
                                         <div className="mb-4 flex flex-wrap gap-2">
@@ -438,6 +835,22 @@ export default function News() {
                             </article>
                         ))}
                     </div>
+
+                    {/* Infinite scroll sentinel */}
+                    {!showHeadlines && nextCursor && (
+                        <div ref={loadMoreRef} className="flex justify-center py-4">
+                            {loadingMore ? (
+                                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+                            ) : (
+                                <button
+                                    onClick={() => fetchNews(nextCursor)}
+                                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors font-medium text-sm"
+                                >
+                                    Load more
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,505 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+    addPortfolioTransaction,
+    createPortfolio,
+    deletePortfolio,
+    deletePortfolioTransaction,
+    getPortfolios,
+    getPortfolioSummary,
+    getPortfolioTransactions,
+    updatePortfolio
+} from "../services/api"
+import type {
+    CostMethod,
+    Portfolio as PortfolioData,
+    PortfolioSummary,
+    PortfolioTransaction,
+    TransactionType
+} from "../services/interface"
+
+// Currencies covered by the stored currency rates
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'CNY', 'JPY']
+
+const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'fee']
+
+const EMPTY_FORM = {
+    symbol: '',
+    type: 'buy' as TransactionType,
+    quantity: '',
+    price: '',
+    fee: '',
+    amount: '',
+    currency: 'USD',
+    tradeDate: new Date().toISOString().split('T')[0],
+    notes: ''
+}
+
+const formatMoney = (value: number | null, currency?: string) => {
+    if (value === null) return '-'
+    const formatted = value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    return currency ? `${formatted} ${currency}` : formatted
+}
+
+const pnlColor = (value: number | null) => {
+    if (value === null || value === 0) return ''
+    return value > 0 ? 'text-green-600' : 'text-red-600'
+}
+
+export default function Portfolio() {
+    const [portfolios, setPortfolios] = useState<PortfolioData[]>([])
+    const [selectedId, setSelectedId] = useState<number | null>(null)
+    const [summary, setSummary] = useState<PortfolioSummary | null>(null)
+    const [transactions, setTransactions] = useState<PortfolioTransaction[]>([])
+    const [loading, setLoading] = useState(true)
+    const [summaryLoading, setSummaryLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [newName, setNewName] = useState('')
+    const [newBaseCurrency, setNewBaseCurrency] = useState('USD')
+    const [newCostMethod, setNewCostMethod] = useState<CostMethod>('fifo')
+    const [form, setForm] = useState(EMPTY_FORM)
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        const loadPortfolios = async () => {
+            try {
+                const data = await getPortfolios()
+                setPortfolios(data)
+                setSelectedId(data[0]?.id ?? null)
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to load portfolios')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        loadPortfolios()
+    }, [])
+
+    const loadSummary = useCallback(async (id: number) => {
+        setSummaryLoading(true)
+        try {
+            const [summaryData, transactionData] = await Promise.all([
+                getPortfolioSummary(id),
+                getPortfolioTransactions(id)
+            ])
+            setSummary(summaryData)
+            setTransactions(transactionData)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load portfolio')
+        } finally {
+            setSummaryLoading(false)
+        }
+    }, [])
+
+    // Reload positions whenever another portfolio is selected
+    useEffect(() => {
+        if (selectedId === null) {
+            setSummary(null)
+            setTransactions([])
+            return
+        }
+        loadSummary(selectedId)
+    }, [selectedId, loadSummary])
+
+    const handleCreate = async () => {
+        if (!newName.trim()) return
+        setError(null)
+        try {
+            const created = await createPortfolio(newName.trim(), newBaseCurrency, newCostMethod)
+            setPortfolios(prev => [...prev, created])
+            setSelectedId(created.id)
+            setNewName('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create portfolio')
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!summary || !window.confirm(`Delete portfolio "${summary.portfolio.name}" and all its transactions?`)) return
+        setError(null)
+        try {
+            await deletePortfolio(summary.portfolio.id)
+            const remaining = portfolios.filter(p => p.id !== summary.portfolio.id)
+            setPortfolios(remaining)
+            setSelectedId(remaining[0]?.id ?? null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete portfolio')
+        }
+    }
+
+    const handleSettingsChange = async (settings: { baseCurrency?: string; costMethod?: CostMethod }) => {
+        if (selectedId === null) return
+        setError(null)
+        try {
+            const updated = await updatePortfolio(selectedId, settings)
+            setPortfolios(prev => prev.map(p => (p.id === updated.id ? updated : p)))
+            await loadSummary(selectedId)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update portfolio')
+        }
+    }
+
+    const handleAddTransaction = async () => {
+        if (selectedId === null) return
+        const isTrade = form.type === 'buy' || form.type === 'sell'
+        setError(null)
+        setSaving(true)
+        try {
+            await addPortfolioTransaction(selectedId, {
+                symbol: form.symbol.trim().toUpperCase(),
+                type: form.type,
+                quantity: isTrade ? Number(form.quantity) : null,
+                price: isTrade ? Number(form.price) : null,
+                fee: isTrade && form.fee ? Number(form.fee) : 0,
+                amount: isTrade ? null : Number(form.amount),
+                currency: form.currency,
+                tradeDate: form.tradeDate,
+                notes: form.notes.trim() || null
+            })
+            setForm({ ...EMPTY_FORM, type: form.type, currency: form.currency, tradeDate: form.tradeDate })
+            await loadSummary(selectedId)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add transaction')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDeleteTransaction = async (transactionId: number) => {
+        if (selectedId === null) return
+        setError(null)
+        try {
+            await deletePortfolioTransaction(selectedId, transactionId)
+            await loadSummary(selectedId)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete transaction')
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="text-center py-12">
+                <p className="text-gray-600">Loading portfolios...</p>
+            </div>
+        )
+    }
+
+    const baseCurrency = summary?.portfolio.baseCurrency
+    const isTrade = form.type === 'buy' || form.type === 'sell'
+    const inputClass = "px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+    return (
+        <div className="space-y-6">
+            {/* Title */}
+            <h1 className="text-3xl font-bold">Portfolio</h1>
+
+            {error && (
+                <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+                    {error}
+                </div>
+            )}
+
+            {/* Portfolio tabs and new portfolio form */}
+            <div className="flex flex-wrap items-center gap-4">
+                <div className="flex flex-wrap gap-2">
+                    {portfolios.map((portfolio) => (
+                        <button
+                            key={portfolio.id}
+                            onClick={() => setSelectedId(portfolio.id)}
+                            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                                portfolio.id === selectedId ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                            }`}
+                        >
+                            {portfolio.name}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2 ml-auto">
+                    <input
+                        type="text"
+                        placeholder="New portfolio name"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        className={inputClass}
+                    />
+                    <select value={newBaseCurrency} onChange={(e) => setNewBaseCurrency(e.target.value)} className={`${inputClass} bg-white`}>
+                        {CURRENCIES.map((currency) => <option key={currency} value={currency}>{currency}</option>)}
+                    </select>
+                    <select value={newCostMethod} onChange={(e) => setNewCostMethod(e.target.value as CostMethod)} className={`${inputClass} bg-white`}>
+                        <option value="fifo">FIFO</option>
+                        <option value="average">Average cost</option>
+                    </select>
+                    <button
+                        onClick={handleCreate}
+                        disabled={!newName.trim()}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Create
+                    </button>
+                </div>
+            </div>
+
+            {selectedId === null ? (
+                <div className="text-center py-12 text-gray-500">
+                    Create a portfolio to start recording transactions
+                </div>
+            ) : !summary || summaryLoading ? (
+                <div className="text-center py-12">
+                    <p className="text-gray-600">Loading positions...</p>
+                </div>
+            ) : (
+                <>
+                    {/* Settings and totals */}
+                    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                            <h2 className="text-xl font-bold">{summary.portfolio.name}</h2>
+                            <div className="flex items-center gap-2 text-sm">
+                                <span className="text-gray-600">Base currency</span>
+                                <select
+                                    value={summary.portfolio.baseCurrency}
+                                    onChange={(e) => handleSettingsChange({ baseCurrency: e.target.value })}
+                                    className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                                >
+                                    {CURRENCIES.map((currency) => <option key={currency} value={currency}>{currency}</option>)}
+                                </select>
+                                <span className="text-gray-600 ml-2">Cost method</span>
+                                <select
+                                    value={summary.portfolio.costMethod}
+                                    onChange={(e) => handleSettingsChange({ costMethod: e.target.value as CostMethod })}
+                                    className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                                >
+                                    <option value="fifo">FIFO</option>
+                                    <option value="average">Average cost</option>
+                                </select>
+                                <button
+                                    onClick={handleDelete}
+                                    className="ml-2 px-3 py-1 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div>
+                                <p className="text-gray-600">Market Value</p>
+                                <p className="text-2xl font-bold">{formatMoney(summary.totals.marketValue, baseCurrency)}</p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Cost Basis</p>
+                                <p className="text-lg">{formatMoney(summary.totals.costBasis, baseCurrency)}</p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Unrealized P&L</p>
+                                <p className={`text-lg font-semibold ${pnlColor(summary.totals.unrealizedPnl)}`}>
+                                    {formatMoney(summary.totals.unrealizedPnl, baseCurrency)}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Realized P&L</p>
+                                <p className={`text-lg font-semibold ${pnlColor(summary.totals.realizedPnl)}`}>
+                                    {formatMoney(summary.totals.realizedPnl, baseCurrency)}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Dividends</p>
+                                <p className="text-lg">{formatMoney(summary.totals.dividends, baseCurrency)}</p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Fees</p>
+                                <p className="text-lg">{formatMoney(summary.totals.fees, baseCurrency)}</p>
+                            </div>
+                            <div>
+                                <p className="text-gray-600">Total P&L</p>
+                                <p className={`text-lg font-semibold ${pnlColor(summary.totals.totalPnl)}`}>
+                                    {formatMoney(summary.totals.totalPnl, baseCurrency)}
+                                </p>
+                            </div>
+                        </div>
+
+                        {summary.missingRates.length > 0 && (
+                            <p className="text-sm text-yellow-700">
+                                No exchange rate to {baseCurrency} for {summary.missingRates.join(', ')}; those positions are left out of the totals.
+                            </p>
+                        )}
+                        {summary.unpricedSymbols.length > 0 && (
+                            <p className="text-sm text-yellow-700">
+                                No quote available for {summary.unpricedSymbols.join(', ')}; left out of the cost basis, market value and unrealized P&L totals.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Positions */}
+                    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md">
+                        <h2 className="text-xl font-bold mb-4">Positions</h2>
+                        {summary.positions.length === 0 ? (
+                            <div className="text-center py-8 text-gray-500">No positions yet</div>
+                        ) : (
+                            <table className="w-full text-left text-sm">
+                                <thead>
+                                    <tr className="border-b border-gray-200 text-gray-600">
+                                        <th className="py-2 px-2 font-medium">Symbol</th>
+                                        <th className="py-2 px-2 font-medium text-right">Quantity</th>
+                                        <th className="py-2 px-2 font-medium text-right">Avg Cost</th>
+                                        <th className="py-2 px-2 font-medium text-right">Price</th>
+                                        <th className="py-2 px-2 font-medium text-right">Market Value</th>
+                                        <th className="py-2 px-2 font-medium text-right">Unrealized</th>
+                                        <th className="py-2 px-2 font-medium text-right">Realized</th>
+                                        <th className="py-2 px-2 font-medium text-right">Dividends</th>
+                                        <th className="py-2 px-2 font-medium text-right">Lots</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {summary.positions.map((position) => (
+                                        <tr key={position.symbol} className={`border-b border-gray-100 ${position.quantity === 0 ? 'text-gray-400' : ''}`}>
+                                            <td className="py-2 px-2">
+                                                <span className="font-semibold">{position.symbol}</span>
+                                                <span className="ml-2 text-xs text-gray-500">{position.currency}</span>
+                                            </td>
+                                            <td className="py-2 px-2 text-right">{position.quantity.toLocaleString()}</td>
+                                            <td className="py-2 px-2 text-right">{position.quantity > 0 ? formatMoney(position.averageCost) : '-'}</td>
+                                            <td className="py-2 px-2 text-right">{formatMoney(position.price)}</td>
+                                            <td className="py-2 px-2 text-right">{formatMoney(position.marketValue)}</td>
+                                            <td className={`py-2 px-2 text-right ${pnlColor(position.unrealizedPnl)}`}>{formatMoney(position.unrealizedPnl)}</td>
+                                            <td className={`py-2 px-2 text-right ${pnlColor(position.realizedPnl)}`}>{formatMoney(position.realizedPnl)}</td>
+                                            <td className="py-2 px-2 text-right">{formatMoney(position.dividends)}</td>
+                                            <td
+                                                className="py-2 px-2 text-right text-gray-500"
+                                                title={position.lots.map(lot => `${lot.date}: ${lot.quantity} @ ${lot.unitCost.toFixed(2)}`).join('\n')}
+                                            >
+                                                {position.lots.length}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {/* Transactions */}
+                    <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                        <h2 className="text-xl font-bold">Transactions</h2>
+                        <div className="flex flex-wrap gap-2">
+                            <select
+                                value={form.type}
+                                onChange={(e) => setForm({ ...form, type: e.target.value as TransactionType })}
+                                className={`${inputClass} bg-white capitalize`}
+                            >
+                                {TRANSACTION_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                            <input
+                                type="text"
+                                placeholder="Symbol"
+                                value={form.symbol}
+                                onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+                                className={`${inputClass} w-28`}
+                            />
+                            {isTrade ? (
+                                <>
+                                    <input
+                                        type="number"
+                                        placeholder="Quantity"
+                                        value={form.quantity}
+                                        onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                                        className={`${inputClass} w-28`}
+                                    />
+                                    <input
+                                        type="number"
+                                        placeholder="Price"
+                                        value={form.price}
+                                        onChange={(e) => setForm({ ...form, price: e.target.value })}
+                                        className={`${inputClass} w-28`}
+                                    />
+                                    <input
+                                        type="number"
+                                        placeholder="Commission"
+                                        value={form.fee}
+                                        onChange={(e) => setForm({ ...form, fee: e.target.value })}
+                                        className={`${inputClass} w-32`}
+                                    />
+                                </>
+                            ) : (
+                                <input
+                                    type="number"
+                                    placeholder="Amount"
+                                    value={form.amount}
+                                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                                    className={`${inputClass} w-32`}
+                                />
+                            )}
+                            <select
+                                value={form.currency}
+                                onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                                className={`${inputClass} bg-white`}
+                            >
+                                {CURRENCIES.map((currency) => <option key={currency} value={currency}>{currency}</option>)}
+                            </select>
+                            <input
+                                type="date"
+                                value={form.tradeDate}
+                                onChange={(e) => setForm({ ...form, tradeDate: e.target.value })}
+                                className={inputClass}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Notes"
+                                value={form.notes}
+                                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                className={`${inputClass} flex-1`}
+                            />
+                            <button
+                                onClick={handleAddTransaction}
+                                disabled={saving || !form.symbol.trim()}
+                                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {saving ? 'Saving...' : 'Add'}
+                            </button>
+                        </div>
+
+                        {transactions.length === 0 ? (
+                            <div className="text-center py-8 text-gray-500">No transactions yet</div>
+                        ) : (
+                            <table className="w-full text-left text-sm">
+                                <thead>
+                                    <tr className="border-b border-gray-200 text-gray-600">
+                                        <th className="py-2 px-2 font-medium">Date</th>
+                                        <th className="py-2 px-2 font-medium">Type</th>
+                                        <th className="py-2 px-2 font-medium">Symbol</th>
+                                        <th className="py-2 px-2 font-medium text-right">Quantity</th>
+                                        <th className="py-2 px-2 font-medium text-right">Price</th>
+                                        <th className="py-2 px-2 font-medium text-right">Commission</th>
+                                        <th className="py-2 px-2 font-medium text-right">Amount</th>
+                                        <th className="py-2 px-2 font-medium">Notes</th>
+                                        <th className="py-2 px-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {transactions.map((tx) => (
+                                        <tr key={tx.id} className="border-b border-gray-100 hover:bg-gray-50">
+                                            <td className="py-2 px-2">{tx.tradeDate}</td>
+                                            <td className="py-2 px-2 capitalize">{tx.type}</td>
+                                            <td className="py-2 px-2 font-semibold">{tx.symbol}</td>
+                                            <td className="py-2 px-2 text-right">{tx.quantity ?? '-'}</td>
+                                            <td className="py-2 px-2 text-right">{formatMoney(tx.price, tx.price !== null ? tx.currency : undefined)}</td>
+                                            <td className="py-2 px-2 text-right">{tx.fee ? formatMoney(tx.fee) : '-'}</td>
+                                            <td className="py-2 px-2 text-right">{formatMoney(tx.amount, tx.amount !== null ? tx.currency : undefined)}</td>
+                                            <td className="py-2 px-2 text-gray-600">{tx.notes}</td>
+                                            <td className="py-2 px-2 text-right">
+                                                <button
+                                                    onClick={() => handleDeleteTransaction(tx.id)}
+                                                    className="text-gray-500 hover:text-red-600"
+                                                >
+                                                    Delete
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
@@ -1,6 +1,74 @@
 import { useEffect, useRef, useState } from "react"
-import { getStockQuote, searchStocks } from "../services/alphaVantage"
-import type { StockQuote, StockSearchResult } from "../services/interface"
+import { getSentimentSeries, getStockIndicators, getStockQuote, searchStocks } from "../services/api"
+import { openMarketStream } from "../services/stream"
+import type {
+    Candle,
+    CandleInterval,
+    ChartRange,
+    IndicatorResult,
+    SentimentBucket,
+    SentimentPoint,
+    StockQuote,
+    StockSearchResult,
+    StreamStatus
+} from "../services/interface"
+import PriceChart, { type ChartOverlay } from "../components/PriceChart"
+import StreamStatusBadge from "../components/StreamStatusBadge"
+import SentimentChart from "../components/SentimentChart"
+
+// Candle interval used for each chart range preset
+const RANGE_INTERVALS: Record<ChartRange, CandleInterval> = {
+    '1D': '1min',
+    '5D': '5min',
+    '1M': 'daily',
+    '6M': 'daily',
+    '1Y': 'daily',
+    'MAX': 'weekly'
+}
+
+// News sentiment bucket for each chart range preset
+const RANGE_SENTIMENT_BUCKETS: Record<ChartRange, SentimentBucket> = {
+    '1D': 'day',
+    '5D': 'day',
+    '1M': 'day',
+    '6M': 'day',
+    '1Y': 'week',
+    'MAX': 'week'
+}
+
+// Longest range the sentiment API accepts (5 years)
+const SENTIMENT_MAX_DAYS = 5 * 365
+
+/**
+ * Latest of a YYYY-MM-DD date and SENTIMENT_MAX_DAYS before another
+ */
+const clampSentimentFrom = (from: string, to: string) => {
+    const earliest = new Date(`${to}T00:00:00Z`)
+    earliest.setUTCDate(earliest.getUTCDate() - SENTIMENT_MAX_DAYS)
+    const earliestDate = earliest.toISOString().split('T')[0]
+    return from < earliestDate ? earliestDate : from
+}
+
+// Indicators requested alongside the price history
+const INDICATOR_SET = 'sma:20,ema:50,bb:20:2,rsi:14,macd:12:26:9,atr:14,vwap'
+
+// Indicators that can be drawn over the price chart
+const OVERLAY_OPTIONS = [
+    { key: 'sma:20', label: 'SMA 20' },
+    { key: 'ema:50', label: 'EMA 50' },
+    { key: 'bb:20:2', label: 'Bollinger' }
+]
+
+// Latest non-null value of an indicator series
+const latestValue = (values: (number | null)[] | undefined) => {
+    if (!values) return null
+    for (let i = values.length - 1; i >= 0; i--) {
+        if (values[i] !== null) return values[i]
+    }
+    return null
+}
+
+const formatIndicator = (value: number | null) => (value === null ? '-' : value.toFixed(2))
 
 export default function Stock() {
     const [ symbol, setSymbol ] = useState('')
@@ -10,6 +78,16 @@ export default function Stock() {
     const [searchSuggestions, setSearchSuggestions] = useState<StockSearchResult[]>([])
     const [showSuggestions, setShowSuggestions] = useState(false);
     const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [chartRange, setChartRange] = useState<ChartRange>('1M')
+    const [chartMode, setChartMode] = useState<'candle' | 'line'>('candle')
+    const [candles, setCandles] = useState<Candle[]>([])
+    const [chartLoading, setChartLoading] = useState(false)
+    const [chartError, setChartError] = useState<string | null>(null)
+    const [indicators, setIndicators] = useState<IndicatorResult[]>([])
+    const [activeOverlays, setActiveOverlays] = useState<string[]>(['sma:20'])
+    const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting')
+    const [sentimentPoints, setSentimentPoints] = useState<SentimentPoint[]>([])
+    const chartSymbol = stockData?.symbol
 
     // Cleanup function - runs when component unmounts
     // Empty array = only run on mount/unmount
@@ -21,6 +99,96 @@ export default function Stock() {
         }
     }, [])
 
+    // Update the quote card live whenever the backend saves a new quote for this symbol
+    useEffect(() => {
+        if (!chartSymbol) return
+
+        return openMarketStream([chartSymbol], {
+            onStockQuote: (quote) => {
+                setStockData(prev => (prev && prev.symbol === quote.symbol ? quote : prev))
+            },
+            onStatusChange: setStreamStatus
+        })
+    }, [chartSymbol])
+
+    // Load price history whenever the quote symbol or range changes
+    useEffect(() => {
+        if (!chartSymbol) return
+
+        let cancelled = false
+        const loadCandles = async () => {
+            setChartLoading(true)
+            setChartError(null)
+            try {
+                const data = await getStockIndicators(chartSymbol, RANGE_INTERVALS[chartRange], chartRange, INDICATOR_SET)
+                if (!cancelled) {
+                    setCandles(data.candles)
+                    setIndicators(data.indicators)
+                }
+            } catch (err) {
+                if (!cancelled) {
+                    setCandles([])
+                    setIndicators([])
+                    setChartError(err instanceof Error ? err.message : 'Failed to load price history')
+                }
+            } finally {
+                if (!cancelled) setChartLoading(false)
+            }
+        }
+
+        loadCandles()
+        return () => {
+            cancelled = true
+        }
+    }, [chartSymbol, chartRange])
+
+    // Load news sentiment for the dates covered by the chart
+    const sentimentTo = candles[candles.length - 1]?.timestamp.slice(0, 10)
+    const sentimentFrom = sentimentTo && clampSentimentFrom(candles[0].timestamp.slice(0, 10), sentimentTo)
+    const sentimentBucket = RANGE_SENTIMENT_BUCKETS[chartRange]
+    useEffect(() => {
+        if (!chartSymbol || !sentimentFrom || !sentimentTo) {
+            setSentimentPoints([])
+            return
+        }
+
+        let cancelled = false
+        getSentimentSeries(chartSymbol, sentimentFrom, sentimentTo, sentimentBucket)
+            .then(series => {
+                if (!cancelled) setSentimentPoints(series.points)
+            })
+            .catch(err => {
+                // The price chart is still useful without sentiment
+                console.error('Failed to load news sentiment:', err)
+                if (!cancelled) setSentimentPoints([])
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [chartSymbol, sentimentFrom, sentimentTo, sentimentBucket])
+
+    const findIndicator = (key: string) => indicators.find(indicator => indicator.key === key)
+
+    const toggleOverlay = (key: string) => {
+        setActiveOverlays(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key])
+    }
+
+    const overlays: ChartOverlay[] = activeOverlays.flatMap(key => {
+        const indicator = findIndicator(key)
+        if (!indicator) return []
+        if (indicator.name === 'bb') {
+            return [
+                { label: 'BB Upper', values: indicator.series.upper, className: 'stroke-purple-400' },
+                { label: 'BB Lower', values: indicator.series.lower, className: 'stroke-purple-400' }
+            ]
+        }
+        const label = OVERLAY_OPTIONS.find(option => option.key === key)?.label || key
+        return [{ label, values: indicator.series.value, className: indicator.name === 'sma' ? 'stroke-orange-500' : 'stroke-sky-500' }]
+    })
+
+    const latestRsi = latestValue(findIndicator('rsi:14')?.series.value)
+    const macdSeries = findIndicator('macd:12:26:9')?.series
+
     const handleSearch = async () => {
         // This function will:
         // 1. Clear previous errors
@@ -161,7 +329,10 @@ export default function Stock() {
             {/* Stock Data Display */}
             {stockData && (
                 <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md">
-                    <h2 className="text-2xl font-bold mb-4">{stockData.symbol}</h2>
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h2 className="text-2xl font-bold">{stockData.symbol}</h2>
+                        <StreamStatusBadge status={streamStatus} />
+                    </div>
                     
                     <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -201,6 +372,100 @@ export default function Stock() {
                     </div>
                 </div>
             )}
+            {/* Price Chart */}
+            {stockData && (
+                <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h2 className="text-xl font-bold">Price History</h2>
+                        <div className="flex items-center gap-4">
+                            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                                {(Object.keys(RANGE_INTERVALS) as ChartRange[]).map((range) => (
+                                    <button
+                                        key={range}
+                                        onClick={() => setChartRange(range)}
+                                        className={`px-3 py-1 text-sm font-medium transition-colors ${
+                                            chartRange === range ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                                        }`}
+                                    >
+                                        {range}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                                {(['candle', 'line'] as const).map((mode) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setChartMode(mode)}
+                                        className={`px-3 py-1 text-sm font-medium capitalize transition-colors ${
+                                            chartMode === mode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                                        }`}
+                                    >
+                                        {mode}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                                {OVERLAY_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.key}
+                                        onClick={() => toggleOverlay(option.key)}
+                                        className={`px-3 py-1 text-sm font-medium transition-colors ${
+                                            activeOverlays.includes(option.key) ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                                        }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    {chartError ? (
+                        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+                            {chartError}
+                        </div>
+                    ) : chartLoading ? (
+                        <div className="text-center py-12">
+                            <p className="text-gray-600">Loading price history...</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <PriceChart candles={candles} mode={chartMode} overlays={overlays} />
+                            <SentimentChart candles={candles} points={sentimentPoints} bucket={sentimentBucket} />
+                        </div>
+                    )}
+                </div>
+            )}
+            {/* Indicators */}
+            {stockData && !chartLoading && !chartError && indicators.length > 0 && (
+                <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md">
+                    <h2 className="text-xl font-bold mb-4">Indicators</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                            <p className="text-gray-600">RSI (14)</p>
+                            <p className="text-lg font-semibold">
+                                {formatIndicator(latestRsi)}
+                                {latestRsi !== null && latestRsi >= 70 && <span className="ml-2 text-sm text-red-600">Overbought</span>}
+                                {latestRsi !== null && latestRsi <= 30 && <span className="ml-2 text-sm text-green-600">Oversold</span>}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">MACD (12, 26, 9)</p>
+                            <p className="text-lg font-semibold">{formatIndicator(latestValue(macdSeries?.macd))}</p>
+                            <p className="text-sm text-gray-500">
+                                Signal {formatIndicator(latestValue(macdSeries?.signal))} · Hist {formatIndicator(latestValue(macdSeries?.histogram))}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">ATR (14)</p>
+                            <p className="text-lg font-semibold">{formatIndicator(latestValue(findIndicator('atr:14')?.series.value))}</p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">VWAP</p>
+                            <p className="text-lg font-semibold">{formatIndicator(latestValue(findIndicator('vwap')?.series.value))}</p>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
 )
 }
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react"
+import {
+    addWatchlistSymbol,
+    createWatchlist,
+    deleteWatchlist,
+    getInstruments,
+    getWatchlists,
+    removeWatchlistSymbol
+} from "../services/api"
+import type { TrackedInstrument, Watchlist as WatchlistData, WatchlistItem, WatchlistItemType } from "../services/interface"
+
+type SortKey = 'symbol' | 'type' | 'price' | 'change' | 'changePercent' | 'asOf'
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+    { key: 'symbol', label: 'Symbol', numeric: false },
+    { key: 'type', label: 'Type', numeric: false },
+    { key: 'price', label: 'Last Price', numeric: true },
+    { key: 'change', label: 'Change', numeric: true },
+    { key: 'changePercent', label: 'Change %', numeric: true },
+    { key: 'asOf', label: 'As Of', numeric: false }
+]
+
+// Sort items by a column; items without a value always go last
+const sortItems = (items: WatchlistItem[], key: SortKey, direction: 'asc' | 'desc') => {
+    return [...items].sort((a, b) => {
+        const aValue = a[key]
+        const bValue = b[key]
+        if (aValue === null && bValue === null) return 0
+        if (aValue === null) return 1
+        if (bValue === null) return -1
+        const result = typeof aValue === 'number' && typeof bValue === 'number'
+            ? aValue - bValue
+            : String(aValue).localeCompare(String(bValue))
+        return direction === 'asc' ? result : -result
+    })
+}
+
+const formatNumber = (value: number | null, digits = 2) => (value === null ? '-' : value.toFixed(digits))
+
+export default function Watchlist() {
+    const [watchlists, setWatchlists] = useState<WatchlistData[]>([])
+    const [instruments, setInstruments] = useState<TrackedInstrument[]>([])
+    const [selectedId, setSelectedId] = useState<number | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [newListName, setNewListName] = useState('')
+    const [itemType, setItemType] = useState<WatchlistItemType>('stock')
+    const [symbolInput, setSymbolInput] = useState('')
+    const [adding, setAdding] = useState(false)
+    const [sortKey, setSortKey] = useState<SortKey>('symbol')
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
+
+    useEffect(() => {
+        const loadWatchlists = async () => {
+            try {
+                const [data, tracked] = await Promise.all([getWatchlists(), getInstruments()])
+                setWatchlists(data)
+                setInstruments(tracked)
+                setSelectedId(data[0]?.id ?? null)
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to load watchlists')
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        loadWatchlists()
+    }, [])
+
+    const selected = watchlists.find(w => w.id === selectedId) || null
+
+    // Replace one watchlist in state with the version returned by the API
+    const updateWatchlist = (updated: WatchlistData) => {
+        setWatchlists(prev => prev.map(w => (w.id === updated.id ? updated : w)))
+    }
+
+    const handleCreate = async () => {
+        if (!newListName.trim()) return
+        setError(null)
+        try {
+            const created = await createWatchlist(newListName.trim())
+            setWatchlists(prev => [...prev, created])
+            setSelectedId(created.id)
+            setNewListName('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create watchlist')
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete watchlist "${selected.name}"?`)) return
+        setError(null)
+        try {
+            await deleteWatchlist(selected.id)
+            const remaining = watchlists.filter(w => w.id !== selected.id)
+            setWatchlists(remaining)
+            setSelectedId(remaining[0]?.id ?? null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete watchlist')
+        }
+    }
+
+    const handleAdd = async () => {
+        const symbol = symbolInput.trim()
+        if (!selected || !symbol) return
+        setError(null)
+        setAdding(true)
+        try {
+            updateWatchlist(await addWatchlistSymbol(selected.id, symbol, itemType))
+            setSymbolInput('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add symbol')
+        } finally {
+            setAdding(false)
+        }
+    }
+
+    const handleRemove = async (itemId: number) => {
+        if (!selected) return
+        setError(null)
+        try {
+            updateWatchlist(await removeWatchlistSymbol(selected.id, itemId))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove symbol')
+        }
+    }
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'))
+        } else {
+            setSortKey(key)
+            setSortDirection(COLUMNS.find(c => c.key === key)?.numeric ? 'desc' : 'asc')
+        }
+    }
+
+    const handleTypeChange = (type: WatchlistItemType) => {
+        setItemType(type)
+        setSymbolInput('')
+    }
+
+    if (loading) {
+        return (
+            <div className="text-center py-12">
+                <p className="text-gray-600">Loading watchlists...</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Title */}
+            <h1 className="text-3xl font-bold">Watchlists</h1>
+
+            {error && (
+                <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
+                    {error}
+                </div>
+            )}
+
+            {/* Watchlist tabs and new list form */}
+            <div className="flex flex-wrap items-center gap-4">
+                <div className="flex flex-wrap gap-2">
+                    {watchlists.map((watchlist) => (
+                        <button
+                            key={watchlist.id}
+                            onClick={() => setSelectedId(watchlist.id)}
+                            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                                watchlist.id === selectedId ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                            }`}
+                        >
+                            {watchlist.name} <span className="text-sm opacity-75">({watchlist.items.length})</span>
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2 ml-auto">
+                    <input
+                        type="text"
+                        placeholder="New watchlist name"
+                        value={newListName}
+                        onChange={(e) => setNewListName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleCreate()
+                        }}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={handleCreate}
+                        disabled={!newListName.trim()}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Create
+                    </button>
+                </div>
+            </div>
+
+            {!selected ? (
+                <div className="text-center py-12 text-gray-500">
+                    Create a watchlist to start following stocks, commodities and currencies
+                </div>
+            ) : (
+                <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-md space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <h2 className="text-xl font-bold">{selected.name}</h2>
+                        <button
+                            onClick={handleDelete}
+                            className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                        >
+                            Delete list
+                        </button>
+                    </div>
+
+                    {/* Add symbol form */}
+                    <div className="flex flex-wrap gap-2">
+                        <select
+                            value={itemType}
+                            onChange={(e) => handleTypeChange(e.target.value as WatchlistItemType)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                        >
+                            <option value="stock">Stock</option>
+                            <option value="commodity">Commodity</option>
+                            <option value="currency">Currency</option>
+                        </select>
+                        {itemType === 'stock' ? (
+                            <input
+                                type="text"
+                                placeholder="Stock symbol (e.g., AAPL)"
+                                value={symbolInput}
+                                onChange={(e) => setSymbolInput(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleAdd()
+                                }}
+                                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        ) : (
+                            <select
+                                value={symbolInput}
+                                onChange={(e) => setSymbolInput(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                            >
+                                <option value="">Select...</option>
+                                {instruments
+                                    .filter((i) => i.type === itemType && i.enabled)
+                                    .map((i) => (
+                                        <option key={i.id} value={i.symbol}>
+                                            {i.name === i.symbol ? i.symbol : `${i.name} (${i.symbol})`}
+                                        </option>
+                                    ))}
+                            </select>
+                        )}
+                        <button
+                            onClick={handleAdd}
+                            disabled={adding || !symbolInput.trim()}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {adding ? 'Adding...' : 'Add'}
+                        </button>
+                    </div>
+
+                    {/* Quote table */}
+                    {selected.items.length === 0 ? (
+                        <div className="text-center py-8 text-gray-500">This watchlist is empty</div>
+                    ) : (
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="border-b border-gray-200 text-gray-600 text-sm">
+                                    {COLUMNS.map((column) => (
+                                        <th
+                                            key={column.key}
+                                            onClick={() => handleSort(column.key)}
+                                            className={`py-2 px-2 font-medium cursor-pointer select-none hover:text-gray-900 ${column.numeric ? 'text-right' : ''}`}
+                                        >
+                                            {column.label}
+                                            {sortKey === column.key && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                                        </th>
+                                    ))}
+                                    <th className="py-2 px-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortItems(selected.items, sortKey, sortDirection).map((item) => {
+                                    const changeColor = item.change === null ? '' : item.change >= 0 ? 'text-green-600' : 'text-red-600'
+                                    return (
+                                        <tr key={item.id} className="border-b border-gray-100 hover:bg-gray-50">
+                                            <td className="py-2 px-2">
+                                                <span className="font-semibold">{item.symbol}</span>
+                                                {item.name && <span className="ml-2 text-sm text-gray-500">{item.name}</span>}
+                                            </td>
+                                            <td className="py-2 px-2 capitalize text-gray-600">{item.type}</td>
+                                            <td className="py-2 px-2 text-right">{formatNumber(item.price, item.type === 'currency' ? 4 : 2)}</td>
+                                            <td className={`py-2 px-2 text-right ${changeColor}`}>
+                                                {item.change !== null && item.change >= 0 ? '+' : ''}{formatNumber(item.change, item.type === 'currency' ? 4 : 2)}
+                                            </td>
+                                            <td className={`py-2 px-2 text-right ${changeColor}`}>
+                                                {item.changePercent !== null && item.changePercent >= 0 ? '+' : ''}{formatNumber(item.changePercent)}{item.changePercent !== null && '%'}
+                                            </td>
+                                            <td className="py-2 px-2 text-gray-600">{item.asOf || '-'}</td>
+                                            <td className="py-2 px-2 text-right">
+                                                <button
+                                                    onClick={() => handleRemove(item.id)}
+                                                    className="text-sm text-gray-500 hover:text-red-600"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,200 @@
+import type {
+    AlertRule,
+    AlertTrigger,
+    CandleInterval,
+    ChartRange,
+    CostMethod,
+    InstrumentType,
+    News,
+    NewsSearchResult,
+    Portfolio,
+    PortfolioSummary,
+    PortfolioTransaction,
+    SentimentBucket,
+    SentimentHeatmap,
+    SentimentSeries,
+    StockIndicators,
+    StockQuote,
+    StockSearchResult,
+    TrackedInstrument,
+    Watchlist,
+    WatchlistItemType
+} from "./interface";
+
+export const API_BASE_URL = 'http://localhost:3001/api';
+
+/**
+ * Call a backend endpoint and unwrap the { success, data, error } envelope
+ * @param path Path under /api, e.g., '/stocks/AAPL/quote'
+ * @param init Optional fetch options (method, body, ...)
+ * @returns Promise with the response data
+ */
+export async function requestApi<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: init?.body ? { 'Content-Type': 'application/json', ...init.headers } : init?.headers,
+    });
+
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+        throw new Error('Server returned non-JSON response. Please check if the backend server is running.');
+    }
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+        throw new Error(result.error || `API request failed: ${response.status}`);
+    }
+
+    return result.data;
+}
+
+export async function getStockQuote(symbol: string): Promise<StockQuote> {
+    return requestApi<StockQuote>(`/stocks/${encodeURIComponent(symbol)}/quote`);
+}
+
+export async function searchStocks(keywords: string): Promise<StockSearchResult[]> {
+    return requestApi<StockSearchResult[]>(`/stocks/search?q=${encodeURIComponent(keywords)}`);
+}
+
+export async function getStockIndicators(
+    symbol: string,
+    interval: CandleInterval,
+    range: ChartRange,
+    set: string
+): Promise<StockIndicators> {
+    const params = new URLSearchParams({ interval, range, set });
+    return requestApi<StockIndicators>(`/stocks/${encodeURIComponent(symbol)}/indicators?${params.toString()}`);
+}
+
+export async function getSentimentSeries(
+    symbol: string,
+    from: string,
+    to: string,
+    bucket: SentimentBucket
+): Promise<SentimentSeries> {
+    const params = new URLSearchParams({ from, to, bucket });
+    return requestApi<SentimentSeries>(`/sentiment/${encodeURIComponent(symbol)}?${params.toString()}`);
+}
+
+export async function searchNews(query: string, from?: string, to?: string): Promise<NewsSearchResult[]> {
+    const params = new URLSearchParams({ q: query });
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return requestApi<NewsSearchResult[]>(`/news/search?${params.toString()}`);
+}
+
+export async function getSentimentHeatmap(from: string, to: string): Promise<SentimentHeatmap> {
+    const params = new URLSearchParams({ from, to });
+    return requestApi<SentimentHeatmap>(`/news/heatmap?${params.toString()}`);
+}
+
+export async function getHeatmapArticles(industry: string, country: string, from: string, to: string): Promise<News[]> {
+    const params = new URLSearchParams({ industry, country, from, to });
+    return requestApi<News[]>(`/news/heatmap/articles?${params.toString()}`);
+}
+
+export async function getInstruments(type?: InstrumentType): Promise<TrackedInstrument[]> {
+    return requestApi<TrackedInstrument[]>(type ? `/instruments?type=${type}` : '/instruments');
+}
+
+export async function getWatchlists(): Promise<Watchlist[]> {
+    return requestApi<Watchlist[]>('/watchlists');
+}
+
+export async function createWatchlist(name: string): Promise<Watchlist> {
+    return requestApi<Watchlist>('/watchlists', { method: 'POST', body: JSON.stringify({ name }) });
+}
+
+export async function renameWatchlist(id: number, name: string): Promise<Watchlist> {
+    return requestApi<Watchlist>(`/watchlists/${id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+}
+
+export async function deleteWatchlist(id: number): Promise<void> {
+    await requestApi<{ id: number }>(`/watchlists/${id}`, { method: 'DELETE' });
+}
+
+export async function addWatchlistSymbol(id: number, symbol: string, type: WatchlistItemType): Promise<Watchlist> {
+    return requestApi<Watchlist>(`/watchlists/${id}/symbols`, { method: 'POST', body: JSON.stringify({ symbol, type }) });
+}
+
+export async function removeWatchlistSymbol(id: number, itemId: number): Promise<Watchlist> {
+    return requestApi<Watchlist>(`/watchlists/${id}/symbols/${itemId}`, { method: 'DELETE' });
+}
+
+export async function getPortfolios(): Promise<Portfolio[]> {
+    return requestApi<Portfolio[]>('/portfolios');
+}
+
+export async function createPortfolio(name: string, baseCurrency: string, costMethod: CostMethod): Promise<Portfolio> {
+    return requestApi<Portfolio>('/portfolios', { method: 'POST', body: JSON.stringify({ name, baseCurrency, costMethod }) });
+}
+
+export async function updatePortfolio(
+    id: number,
+    settings: { name?: string; baseCurrency?: string; costMethod?: CostMethod }
+): Promise<Portfolio> {
+    return requestApi<Portfolio>(`/portfolios/${id}`, { method: 'PATCH', body: JSON.stringify(settings) });
+}
+
+export async function deletePortfolio(id: number): Promise<void> {
+    await requestApi<{ id: number }>(`/portfolios/${id}`, { method: 'DELETE' });
+}
+
+export async function getPortfolioSummary(id: number): Promise<PortfolioSummary> {
+    return requestApi<PortfolioSummary>(`/portfolios/${id}`);
+}
+
+export async function getPortfolioTransactions(id: number): Promise<PortfolioTransaction[]> {
+    return requestApi<PortfolioTransaction[]>(`/portfolios/${id}/transactions`);
+}
+
+export async function addPortfolioTransaction(
+    id: number,
+    transaction: Omit<PortfolioTransaction, 'id'>
+): Promise<PortfolioTransaction> {
+    return requestApi<PortfolioTransaction>(`/portfolios/${id}/transactions`, {
+        method: 'POST',
+        body: JSON.stringify(transaction)
+    });
+}
+
+export async function deletePortfolioTransaction(id: number, transactionId: number): Promise<void> {
+    await requestApi<{ id: number }>(`/portfolios/${id}/transactions/${transactionId}`, { method: 'DELETE' });
+}
+
+export type AlertRuleDraft = Pick<
+    AlertRule,
+    'kind' | 'targetType' | 'symbol' | 'field' | 'operator' | 'threshold' | 'hysteresis' | 'cooldownMinutes'
+> & { name?: string; enabled?: boolean };
+
+export async function getAlerts(): Promise<AlertRule[]> {
+    return requestApi<AlertRule[]>('/alerts');
+}
+
+export async function createAlert(rule: AlertRuleDraft): Promise<AlertRule> {
+    return requestApi<AlertRule>('/alerts', { method: 'POST', body: JSON.stringify(rule) });
+}
+
+export async function updateAlert(id: number, changes: Partial<AlertRuleDraft>): Promise<AlertRule> {
+    return requestApi<AlertRule>(`/alerts/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+}
+
+export async function deleteAlert(id: number): Promise<void> {
+    await requestApi<{ id: number }>(`/alerts/${id}`, { method: 'DELETE' });
+}
+
+export async function getAlertTriggers(
+    options: { limit?: number; unacknowledgedOnly?: boolean } = {}
+): Promise<{ triggers: AlertTrigger[]; unacknowledged: number }> {
+    const params = new URLSearchParams({ limit: String(options.limit ?? 50) });
+    if (options.unacknowledgedOnly) params.set('unacknowledged', 'true');
+    return requestApi<{ triggers: AlertTrigger[]; unacknowledged: number }>(`/alerts/triggers?${params.toString()}`);
+}
+
+export async function acknowledgeAlertTriggers(ids?: number[]): Promise<void> {
+    await requestApi<{ acknowledged: number[] | 'all' }>('/alerts/triggers/acknowledge', {
+        method: 'POST',
+        body: JSON.stringify(ids ? { ids } : {})
+    });
+}
@@ -19,6 +19,7 @@ export interface StockQuote {
     previousClose: string;
     change: string;
     changePercent: string;
+    provider?: string;      // Market data provider, e.g., 'alphavantage' (set by the backend)
 }
 
 /**
@@ -36,6 +37,237 @@ export interface StockSearchResult {
     matchScore: string;
 }
 
+/**
+ * Candle interval served by the candles endpoint
+ */
+export type CandleInterval = '1min' | '5min' | 'daily' | 'weekly';
+
+/**
+ * Chart range preset
+ */
+export type ChartRange = '1D' | '5D' | '1M' | '6M' | '1Y' | 'MAX';
+
+/**
+ * OHLC candle
+ */
+export interface Candle {
+    timestamp: string; // 'YYYY-MM-DD' for daily/weekly, 'YYYY-MM-DD HH:MM:SS' (exchange time) for intraday
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * Technical indicator values, aligned index-for-index with the candles they were computed from
+ */
+export interface IndicatorResult {
+    key: string;        // Normalized spec, e.g., 'macd:12:26:9'
+    name: string;
+    params: number[];
+    series: Record<string, (number | null)[]>; // e.g., { value } or { macd, signal, histogram }
+}
+
+/**
+ * Candles with technical indicators
+ */
+export interface StockIndicators {
+    symbol: string;
+    interval: CandleInterval;
+    range?: ChartRange;
+    candles: Candle[];
+    indicators: IndicatorResult[];
+}
+
+// ==================== Watchlist Related Interfaces ====================
+
+/**
+ * Kind of instrument held in a watchlist
+ */
+export type WatchlistItemType = 'stock' | 'commodity' | 'currency';
+
+/**
+ * Watchlist entry with its latest cached quote (price fields are null until a quote is stored)
+ */
+export interface WatchlistItem {
+    id: number;
+    symbol: string;         // Stock/ETF symbol, or 'FROM/TO' for currency pairs
+    type: WatchlistItemType;
+    name: string | null;    // Commodity name, e.g., 'Gold'
+    price: number | null;
+    change: number | null;
+    changePercent: number | null;
+    asOf: string | null;    // Date of the quote, YYYY-MM-DD
+}
+
+/**
+ * Watchlist with its items
+ */
+export interface Watchlist {
+    id: number;
+    name: string;
+    createdAt: string;
+    items: WatchlistItem[];
+}
+
+// ==================== Portfolio Related Interfaces ====================
+
+/**
+ * Portfolio transaction type
+ */
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'fee';
+
+/**
+ * How the cost of sold shares is determined
+ */
+export type CostMethod = 'fifo' | 'average';
+
+/**
+ * Portfolio settings
+ */
+export interface Portfolio {
+    id: number;
+    name: string;
+    baseCurrency: string;   // Currency totals are reported in, e.g., 'USD'
+    costMethod: CostMethod;
+    createdAt: string;
+}
+
+/**
+ * Ledger entry
+ * Buys and sells use quantity, price and fee; dividends and fees use amount
+ */
+export interface PortfolioTransaction {
+    id: number;
+    symbol: string;
+    type: TransactionType;
+    quantity: number | null;
+    price: number | null;
+    fee: number;            // Commission on a buy or sell
+    amount: number | null;  // Cash amount of a dividend or fee
+    currency: string;       // Currency the symbol trades in, e.g., 'USD'
+    tradeDate: string;      // YYYY-MM-DD
+    notes: string | null;
+}
+
+/**
+ * Open shares bought on one day at one unit cost (commission included)
+ */
+export interface PortfolioLot {
+    date: string;
+    quantity: number;
+    unitCost: number;
+}
+
+/**
+ * Holding in one symbol
+ * Local values are in the symbol's currency; base values are converted with the
+ * latest stored currency rate and are null when no rate is available
+ */
+export interface PortfolioPosition {
+    symbol: string;
+    currency: string;
+    quantity: number;
+    averageCost: number;
+    costBasis: number;
+    price: number | null;
+    marketValue: number | null;
+    unrealizedPnl: number | null;
+    realizedPnl: number;
+    dividends: number;
+    fees: number;
+    lots: PortfolioLot[];
+    fxRate: number | null;          // Base currency per unit of local currency
+    marketValueBase: number | null;
+    unrealizedPnlBase: number | null;
+    realizedPnlBase: number | null;
+}
+
+/**
+ * Portfolio totals in the base currency
+ */
+export interface PortfolioTotals {
+    costBasis: number;
+    marketValue: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+    dividends: number;
+    fees: number;
+    totalPnl: number;   // Realized + unrealized + dividends - fees
+}
+
+/**
+ * Portfolio with positions and P&L
+ */
+export interface PortfolioSummary {
+    portfolio: Portfolio;
+    positions: PortfolioPosition[];     // Open positions first, then closed ones
+    totals: PortfolioTotals;
+    missingRates: string[];             // Currencies that couldn't be converted, left out of totals
+    unpricedSymbols: string[];          // Symbols without a quote, left out of cost basis, market value and unrealized P&L
+}
+
+// ==================== Alert Related Interfaces ====================
+
+/**
+ * Alert rule kind: price rules watch quotes, news rules watch new articles
+ */
+export type AlertKind = 'price' | 'news';
+
+/**
+ * Instrument watched by a price rule
+ */
+export type AlertTargetType = 'stock' | 'commodity' | 'currency';
+
+/**
+ * Value compared against the threshold
+ * price/change/changePercent for price rules, sentiment (entity sentiment_score) for news rules
+ */
+export type AlertField = 'price' | 'change' | 'changePercent' | 'sentiment';
+
+/**
+ * Comparison: '>' and '<' fire when the condition becomes true,
+ * 'crosses' fires when the value moves to the other side of the threshold
+ */
+export type AlertOperator = '>' | '<' | 'crosses';
+
+/**
+ * Alert rule
+ * News rules without an operator fire for any new article about the symbol
+ */
+export interface AlertRule {
+    id: number;
+    name: string;
+    kind: AlertKind;
+    targetType: AlertTargetType | null;     // null for news rules
+    symbol: string;                         // Stock/ETF symbol or 'FROM/TO' currency pair
+    field: AlertField | null;
+    operator: AlertOperator | null;
+    threshold: number | null;
+    hysteresis: number;         // Re-arm distance from the threshold, in the field's units
+    cooldownMinutes: number;    // Minimum time between two triggers
+    enabled: boolean;
+    lastValue: number | null;
+    lastTriggeredAt: string | null;
+    createdAt: string;
+}
+
+/**
+ * Triggered alert (history entry)
+ */
+export interface AlertTrigger {
+    id: number;
+    alertId: number;
+    alertName: string;
+    symbol: string;
+    value: number | null;
+    message: string;
+    newsUuid: string | null;
+    acknowledged: boolean;
+    triggeredAt: string;
+}
+
 // ==================== Currency Related Interfaces ====================
 
 /**
@@ -50,6 +282,7 @@ export interface CurrencyRate {
     timeZone: string;
     lastRefreshed: string;
     date ?: string;
+    provider?: string;      // Market data provider, e.g., 'ecb' (set by the backend)
 }
 
 /**
@@ -73,6 +306,7 @@ export interface CommodityPrice {
     change: string;
     changePercent: string;
     unit: string; // Unit, e.g., 'USD/oz' (gold), 'USD/barrel' (crude oil)
+    provider?: string; // Market data provider, e.g., 'twelvedata'
 }
 
 /**
@@ -84,6 +318,26 @@ export interface CommodityInfo {
     unit: string;
 }
 
+// ==================== Tracked Instrument Interfaces ====================
+
+/**
+ * Kind of instrument the scheduler ingests
+ */
+export type InstrumentType = 'currency' | 'commodity';
+
+/**
+ * Currency pair or commodity ETF tracked by the scheduler, with its display metadata
+ */
+export interface TrackedInstrument {
+    id: number;
+    type: InstrumentType;
+    symbol: string;             // 'FROM/TO' for currency pairs, ETF symbol for commodities
+    name: string;
+    unit: string | null;        // e.g., 'USD/oz' (commodities only)
+    displayOrder: number;       // Ascending, within each type
+    enabled: boolean;           // Disabled instruments are neither fetched nor shown
+}
+
 // ==================== Alpha Vantage API Response Interfaces ====================
 
 /**
@@ -103,6 +357,7 @@ export interface AlphaVantageQuoteResponse {
         '10. change percent': string;
     };
     'Note'?: string;
+    'Information'?: string;
     'Error Message'?: string;
 }
 
@@ -123,6 +378,7 @@ export interface AlphaVantageSearchResponse {
     }>;
     'Note'?: string;
     'Error Message'?: string;
+    'Information'?: string;
 }
 
 /**
@@ -141,6 +397,30 @@ export interface AlphaVantageCurrencyResponse {
         '9. Ask Price': string;
     };
     'Note'?: string;
+    'Information'?: string;
+    'Error Message'?: string;
+}
+
+/**
+ * Alpha Vantage time series candle
+ */
+export interface AlphaVantageCandle {
+    '1. open': string;
+    '2. high': string;
+    '3. low': string;
+    '4. close': string;
+    '5. volume': string;
+}
+
+/**
+ * Alpha Vantage TIME_SERIES_DAILY / TIME_SERIES_INTRADAY response
+ * Series key depends on the function, e.g., 'Time Series (Daily)', 'Time Series (5min)'
+ */
+export interface AlphaVantageTimeSeriesResponse {
+    'Meta Data'?: Record<string, string>;
+    [series: `Time Series (${string})`]: Record<string, AlphaVantageCandle> | undefined;
+    'Note'?: string;
+    'Information'?: string;
     'Error Message'?: string;
 }
 
@@ -238,8 +518,175 @@ export interface News {
     source: string;
     categories?: string[];
     entities?: NewsEntity[];
+    ranking?: HeadlineRanking;  // Headline news only
+}
+
+/**
+ * Inputs of the headline score
+ * - recency: hours since publication
+ * - sourceReputation: configured reputation of the source (0 to 1)
+ * - entityCount: number of entities
+ * - matchScore: highest entity match score
+ * - sentiment: highest absolute entity sentiment
+ * - coverage: number of similar articles covering the story
+ */
+export type HeadlineFactorName = 'recency' | 'sourceReputation' | 'entityCount' | 'matchScore' | 'sentiment' | 'coverage';
+
+/**
+ * One factor of a headline score
+ * contribution = score x weight / total weight, so contributions add up to the article score
+ */
+export interface HeadlineFactor {
+    name: HeadlineFactorName;
+    value: number;          // Raw input, e.g., hours since publication for recency
+    score: number;          // 0 to 1
+    weight: number;
+    contribution: number;
+}
+
+/**
+ * Why a headline ranked where it did
+ */
+export interface HeadlineRanking {
+    rank: number;           // 1 = top headline of the day
+    score: number;          // 0 to 1
+    scoredAt: string;       // ISO datetime (recency is measured from this time)
+    factors: HeadlineFactor[];
+}
+
+/**
+ * Text field a search fragment was taken from (highlight = entity highlight)
+ */
+export type NewsSearchField = 'title' | 'description' | 'snippet' | 'highlight';
+
+/**
+ * Excerpt of an article around search matches
+ * matches are character offsets into text, e.g., text.slice(start, end) is a matched term
+ */
+export interface NewsSearchFragment {
+    field: NewsSearchField;
+    text: string;
+    matches: { start: number; end: number }[];
+}
+
+/**
+ * News search result with relevance score and highlighted fragments
+ */
+export interface NewsSearchResult extends News {
+    relevance: number;
+    fragments: NewsSearchFragment[];
+}
+
+/**
+ * Article in a news story; similar articles that aren't stored have no url
+ */
+export interface StoryArticle {
+    uuid: string;
+    title: string;
+    source: string;
+    published_at: string;
+    url?: string;
+}
+
+/**
+ * Articles covering the same story (syndicated copies and similar articles)
+ */
+export interface NewsStory<T = News> {
+    id: string;                 // uuid of the canonical article
+    canonical: T;               // Article from the most reputable source
+    articles: StoryArticle[];   // Oldest first, including the canonical article
+    sources: string[];
+    firstPublishedAt: string;
+    lastPublishedAt: string;
+}
+
+/**
+ * Sentiment aggregation bucket (weeks start on Monday)
+ */
+export type SentimentBucket = 'day' | 'week';
+
+/**
+ * Aggregated entity sentiment for one symbol in one bucket
+ */
+export interface SentimentPoint {
+    bucket: string;                     // Bucket start date, YYYY-MM-DD
+    articleCount: number;
+    meanSentiment: number;
+    weightedSentiment: number | null;   // Weighted by match_score (null when all match scores are 0)
+    minSentiment: number;
+    maxSentiment: number;
+}
+
+/**
+ * News sentiment time series for a symbol
+ */
+export interface SentimentSeries {
+    symbol: string;
+    bucket: SentimentBucket;
+    from: string;
+    to: string;
+    points: SentimentPoint[];           // Buckets without articles are omitted
+}
+
+/**
+ * Entity sentiment for one industry in one country
+ */
+export interface SentimentHeatmapCell {
+    industry: string;
+    country: string;
+    articleCount: number;
+    entityCount: number;
+    meanSentiment: number;
+}
+
+/**
+ * Industry x country sentiment heatmap
+ */
+export interface SentimentHeatmap {
+    from: string;
+    to: string;
+    industries: string[];   // Sorted by article volume
+    countries: string[];    // Sorted by article volume
+    cells: SentimentHeatmapCell[];
 }
 
+/**
+ * How a news source is treated
+ * - allow: trusted (the only sources kept when NEWS_SOURCE_MODE=allowlist)
+ * - deny: articles are not saved or returned
+ * - neutral: no list; only the boost applies
+ */
+export type NewsSourceStatus = 'allow' | 'deny' | 'neutral';
+
+/**
+ * News source settings with statistics of its stored articles
+ */
+export interface NewsSource {
+    domain: string;                 // As in the article source, e.g., 'reuters.com'
+    status: NewsSourceStatus;
+    boost: number;                  // Added to the source reputation in headline scoring (-1 to 1)
+    note: string | null;
+    articleCount: number;
+    meanSentiment: number | null;   // Mean entity sentiment (null when no entities)
+    lastSeenAt: string | null;      // Latest publication time (ISO datetime)
+    configured: boolean;            // Has saved settings (otherwise defaults)
+}
+
+// ==================== Streaming Related Interfaces ====================
+
+/**
+ * Server-Sent Event types pushed by /api/stream when new data is saved
+ * - currency-rate: CurrencyRate
+ * - commodity-price: CommodityPrice (same shape as /api/commodity-prices)
+ * - stock-quote: StockQuote
+ */
+export type StreamEventType = 'currency-rate' | 'commodity-price' | 'stock-quote';
+
+/**
+ * Connection state of the live data stream (for UI display)
+ */
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting';
+
 // ==================== Common Interfaces ====================
 
 /**
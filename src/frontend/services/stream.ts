@@ -0,0 +1,76 @@
+import { API_BASE_URL } from "./api";
+import type { CommodityPrice, CurrencyRate, StockQuote, StreamStatus } from "./interface";
+
+// Reconnect delays after the browser gives up on a connection
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+export interface MarketStreamHandlers {
+    onCurrencyRate?: (rate: CurrencyRate) => void;
+    onCommodityPrice?: (price: CommodityPrice) => void;
+    onStockQuote?: (quote: StockQuote) => void;
+    onStatusChange?: (status: StreamStatus) => void;
+}
+
+/**
+ * Subscribe to live market data updates from /api/stream
+ * EventSource retries dropped connections itself; when it gives up (e.g., the backend
+ * was down and returned an error), a new connection is opened with exponential backoff
+ * @param symbols Currency pairs, commodity ETFs and stock symbols, e.g., ['USD/CNY', 'GLD', 'AAPL']
+ * @returns Function that closes the stream
+ */
+export function openMarketStream(symbols: string[], handlers: MarketStreamHandlers): () => void {
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const listen = <T>(eventSource: EventSource, event: string, handler?: (data: T) => void) => {
+        if (!handler) return;
+        eventSource.addEventListener(event, (e) => {
+            try {
+                handler(JSON.parse((e as MessageEvent).data) as T);
+            } catch (err) {
+                console.error(`Invalid ${event} stream message:`, err);
+            }
+        });
+    };
+
+    const connect = () => {
+        handlers.onStatusChange?.(attempts === 0 ? 'connecting' : 'reconnecting');
+
+        const params = new URLSearchParams({ symbols: symbols.join(',') });
+        const eventSource = new EventSource(`${API_BASE_URL}/stream?${params.toString()}`);
+        source = eventSource;
+
+        eventSource.onopen = () => {
+            attempts = 0;
+            handlers.onStatusChange?.('live');
+        };
+
+        eventSource.onerror = () => {
+            if (closed) return;
+            handlers.onStatusChange?.('reconnecting');
+
+            // CONNECTING means the browser is already retrying
+            if (eventSource.readyState !== EventSource.CLOSED) return;
+
+            eventSource.close();
+            const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempts, RECONNECT_MAX_DELAY_MS);
+            attempts++;
+            reconnectTimer = setTimeout(connect, delay);
+        };
+
+        listen(eventSource, 'currency-rate', handlers.onCurrencyRate);
+        listen(eventSource, 'commodity-price', handlers.onCommodityPrice);
+        listen(eventSource, 'stock-quote', handlers.onStockQuote);
+    };
+
+    connect();
+
+    return () => {
+        closed = true;
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        source?.close();
+    };
+}